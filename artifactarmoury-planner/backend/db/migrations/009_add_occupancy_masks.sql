@@ -0,0 +1,13 @@
+-- Top-down occupancy masks (bitmap or polygon JSON) for footprint-accurate collisions
+ALTER TABLE models
+  ADD COLUMN IF NOT EXISTS occupancy_mask JSONB;
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS occupancy_mask JSONB;
+
+UPDATE assets a
+SET occupancy_mask = m.occupancy_mask
+FROM models m
+WHERE a.file_ref = m.stl_file_path
+  AND a.occupancy_mask IS NULL
+  AND m.occupancy_mask IS NOT NULL;
@@ -0,0 +1,20 @@
+-- Layout history: every save of tables.layout is kept as a numbered revision
+CREATE TABLE IF NOT EXISTS table_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  table_id UUID NOT NULL REFERENCES tables(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  layout JSONB NOT NULL,
+  author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  message VARCHAR(255),
+  parent_revision_id UUID REFERENCES table_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (table_id, revision_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_table_revisions_table ON table_revisions(table_id, revision_number DESC);
+
+-- Existing tables start their history from the layout they have now
+INSERT INTO table_revisions (table_id, revision_number, layout, author_id, message)
+SELECT t.id, 1, t.layout, t.user_id, 'Initial revision'
+FROM tables t
+WHERE NOT EXISTS (SELECT 1 FROM table_revisions r WHERE r.table_id = t.id);
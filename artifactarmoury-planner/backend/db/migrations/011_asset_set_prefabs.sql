@@ -0,0 +1,23 @@
+-- Prefabs: asset sets whose items keep a placement relative to the set's centre.
+-- A prefab can hold the same asset several times, so items get their own id.
+ALTER TABLE asset_sets
+  ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'collection'
+    CHECK (kind IN ('collection', 'prefab'));
+
+ALTER TABLE asset_set_items DROP CONSTRAINT IF EXISTS asset_set_items_pkey;
+
+ALTER TABLE asset_set_items
+  ADD COLUMN IF NOT EXISTS id UUID NOT NULL DEFAULT uuid_generate_v4(),
+  ADD COLUMN IF NOT EXISTS position_x DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS position_z DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rotation_deg DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rotation_x DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rotation_z DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS elevation DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS swap_xz BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sort_order INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE asset_set_items ADD PRIMARY KEY (id);
+
+CREATE INDEX IF NOT EXISTS idx_asset_set_items_set ON asset_set_items(set_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_asset_sets_kind ON asset_sets(kind) WHERE is_public = TRUE;
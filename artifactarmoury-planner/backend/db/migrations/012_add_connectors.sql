@@ -0,0 +1,6 @@
+-- Named join points (position, facing, type) for snapping modular pieces together
+ALTER TABLE models
+  ADD COLUMN IF NOT EXISTS connectors JSONB;
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS connectors JSONB;
@@ -0,0 +1,4 @@
+-- Shaped tables (L-shaped, round, several boards pushed together): outline in mm from
+-- the table's centre, inside the width x depth bounding box. NULL is a plain rectangle.
+ALTER TABLE tables
+  ADD COLUMN IF NOT EXISTS outline JSONB;
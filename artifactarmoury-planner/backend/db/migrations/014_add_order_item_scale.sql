@@ -0,0 +1,5 @@
+-- Model scale an order item is printed at, picked per table in the terrain builder.
+-- print_scale_factor is relative to the 28mm size models are uploaded at.
+ALTER TABLE order_items
+  ADD COLUMN IF NOT EXISTS print_scale VARCHAR(20),
+  ADD COLUMN IF NOT EXISTS print_scale_factor DECIMAL(6,4) DEFAULT 1;
@@ -0,0 +1,7 @@
+-- Decimated copies of the GLB preview the builder draws distant pieces with, finest first.
+-- Models uploaded before this have none and are always drawn at full detail.
+ALTER TABLE models
+  ADD COLUMN IF NOT EXISTS glb_lod_paths TEXT[];
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS glb_lod_paths TEXT[];
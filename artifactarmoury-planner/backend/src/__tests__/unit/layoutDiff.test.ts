@@ -0,0 +1,64 @@
+import { diffLayouts, layoutPieces } from '../../utils/layoutDiff'
+
+const instance = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  assetId: 'ruin',
+  position: { x: 0, y: 0, z: 0 },
+  rotationDeg: 0,
+  ...overrides,
+})
+
+const builderLayout = (...instances: Array<ReturnType<typeof instance>>) => ({ builder: { instances } })
+
+describe('layoutPieces', () => {
+  it('reads builder instances by id, with the table depth as y', () => {
+    const pieces = layoutPieces(builderLayout(instance('a', { position: { x: 0.3, y: 0, z: -0.2 }, elevation: 0.05 })))
+
+    expect(pieces).toEqual([
+      { key: 'a', modelId: 'ruin', x: 0.3, y: -0.2, elevation: 0.05, rotation: 0, rotationX: 0, rotationZ: 0 },
+    ])
+  })
+
+  it('keys older model summaries by model and occurrence', () => {
+    const pieces = layoutPieces({ models: [{ modelId: 'm1', x: 1 }, { model_id: 'm1', x: 2 }, { modelId: 'm2' }] })
+
+    expect(pieces.map((piece) => piece.key)).toEqual(['m1#0', 'm1#1', 'm2#0'])
+  })
+
+  it('treats a missing layout as empty', () => {
+    expect(layoutPieces(null)).toEqual([])
+  })
+})
+
+describe('diffLayouts', () => {
+  it('sorts pieces into added, removed, moved and unchanged', () => {
+    const before = builderLayout(instance('kept'), instance('moved'), instance('gone'))
+    const after = builderLayout(instance('kept'), instance('moved', { position: { x: 0.1, y: 0, z: 0 } }), instance('new'))
+
+    const diff = diffLayouts(before, after)
+
+    expect(diff.added.map((piece) => piece.key)).toEqual(['new'])
+    expect(diff.removed.map((piece) => piece.key)).toEqual(['gone'])
+    expect(diff.moved.map((move) => [move.key, move.changes])).toEqual([['moved', ['position']]])
+    expect(diff.unchanged).toBe(1)
+  })
+
+  it('reports stacking and tipping as changes', () => {
+    const diff = diffLayouts(
+      builderLayout(instance('a'), instance('b')),
+      builderLayout(instance('a', { elevation: 0.04 }), instance('b', { rotationX: 90, rotationZ: 0 })),
+    )
+
+    expect(diff.moved.map((move) => move.changes)).toEqual([['elevation'], ['tilt']])
+  })
+
+  it('ignores rounding noise and full turns', () => {
+    const diff = diffLayouts(
+      builderLayout(instance('a', { rotationDeg: 350 })),
+      builderLayout(instance('a', { rotationDeg: -10, position: { x: 0.0001, y: 0, z: 0 } })),
+    )
+
+    expect(diff.moved).toEqual([])
+    expect(diff.unchanged).toBe(1)
+  })
+})
@@ -0,0 +1,95 @@
+import { packPlates, scaleModelGeometry, DEFAULT_BED, type ModelGeometry, type PlatePart } from '../../services/platePacker'
+import { calculateAABB, type ParsedSTL } from '../../services/fileProcessor'
+
+const part = (key: string, width_mm: number, depth_mm: number, height_mm = 20): PlatePart => ({
+  key,
+  modelId: `model-${key}`,
+  name: key,
+  width_mm,
+  depth_mm,
+  height_mm,
+  print_stats: { volume_mm3: 1000, surface_area_mm2: 600, triangle_count: 12 },
+})
+
+describe('packPlates', () => {
+  it('puts parts that fit together on one plate without overlaps', () => {
+    const plan = packPlates([part('a', 100, 100), part('b', 100, 100), part('c', 100, 100), part('d', 100, 100)])
+
+    expect(plan.plates).toHaveLength(1)
+    const placed = plan.plates[0].parts
+    for (const a of placed) {
+      expect(a.x_mm + a.width_mm).toBeLessThanOrEqual(DEFAULT_BED.width_mm)
+      expect(a.y_mm + a.depth_mm).toBeLessThanOrEqual(DEFAULT_BED.depth_mm)
+      for (const b of placed) {
+        if (a === b) continue
+        const apart =
+          a.x_mm + a.width_mm <= b.x_mm || b.x_mm + b.width_mm <= a.x_mm ||
+          a.y_mm + a.depth_mm <= b.y_mm || b.y_mm + b.depth_mm <= a.y_mm
+        expect(apart).toBe(true)
+      }
+    }
+  })
+
+  it('starts a new plate when the first is full', () => {
+    const plan = packPlates([part('a', 200, 200), part('b', 200, 200)])
+
+    expect(plan.totals.plates).toBe(2)
+    expect(plan.plates.map((plate) => plate.parts.length)).toEqual([1, 1])
+  })
+
+  it('rotates a long part to fit only when allowed', () => {
+    const bed = { width_mm: 100, depth_mm: 300, height_mm: 100 }
+
+    expect(packPlates([part('wall', 250, 50)], bed).plates[0].parts[0].rotated).toBe(true)
+    expect(packPlates([part('wall', 250, 50)], bed, { allowRotation: false }).unplaced).toEqual([
+      { key: 'wall', modelId: 'model-wall', name: 'wall', reason: 'Footprint larger than the bed' },
+    ])
+  })
+
+  it('leaves out parts taller than the build volume', () => {
+    const plan = packPlates([part('tower', 50, 50, 300)])
+
+    expect(plan.plates).toEqual([])
+    expect(plan.unplaced[0].reason).toBe('Taller than the build volume')
+  })
+})
+
+describe('scaleModelGeometry', () => {
+  const stl: ParsedSTL = {
+    triangles: [
+      {
+        normal: { x: 0, y: 0, z: 1 },
+        vertices: [
+          { x: 0, y: 0, z: 0 },
+          { x: 0.1, y: 0, z: 0 },
+          { x: 0, y: 0.05, z: 0.02 },
+        ],
+      },
+    ],
+    triangleCount: 1,
+    isBinary: true,
+  }
+  const aabb = calculateAABB(stl)
+  const geometry: ModelGeometry = {
+    stl,
+    aabb,
+    width_mm: 100,
+    depth_mm: 50,
+    height_mm: 20,
+    print_stats: {},
+  }
+
+  it('scales the mesh, bounds and sizes together', () => {
+    const scaled = scaleModelGeometry(geometry, 0.5)
+
+    expect(scaled.width_mm).toBe(50)
+    expect(scaled.height_mm).toBe(10)
+    expect(scaled.aabb.max.x).toBeCloseTo(aabb.max.x * 0.5)
+    expect(scaled.stl.triangles[0].vertices[1].x).toBeCloseTo(0.05)
+    expect(stl.triangles[0].vertices[1].x).toBe(0.1)
+  })
+
+  it('returns the geometry untouched at full size', () => {
+    expect(scaleModelGeometry(geometry, 1)).toBe(geometry)
+  })
+})
@@ -91,6 +91,7 @@ CREATE TABLE models (
     -- Files
     stl_file_path VARCHAR(500) NOT NULL,
     glb_file_path VARCHAR(500), -- For 3D preview
+    glb_lod_paths TEXT[], -- coarser previews for distant views, finest first
     thumbnail_path VARCHAR(500),
     license VARCHAR(50) NOT NULL DEFAULT 'standard-commercial' CHECK (license IN (
         'cc0',
@@ -106,6 +107,8 @@ CREATE TABLE models (
     width DECIMAL(10,2),
     depth DECIMAL(10,2),
     height DECIMAL(10,2),
+    occupancy_mask JSONB, -- top-down silhouette: bitmap or polygon
+    connectors JSONB, -- join points for modular pieces
     
     -- Pricing
     base_price DECIMAL(10,2) NOT NULL, -- Base price in USD
@@ -194,6 +197,7 @@ CREATE TABLE tables (
     -- Table dimensions (in mm)
     width INTEGER NOT NULL DEFAULT 1200, -- 4ft standard
     depth INTEGER NOT NULL DEFAULT 900,  -- 3ft standard
+    outline JSONB, -- polygon or boards (mm from centre) for non-rectangular tables; NULL = rectangle
     
     -- Layout data (JSON)
     layout JSONB NOT NULL, -- Array of {modelId, x, y, rotation, scale}
@@ -220,6 +224,20 @@ CREATE INDEX idx_tables_public ON tables(is_public) WHERE is_public = true;
 CREATE INDEX idx_tables_session ON tables(session_id);
 CREATE INDEX idx_tables_status ON tables(status);
 
+CREATE TABLE table_revisions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    table_id UUID NOT NULL REFERENCES tables(id) ON DELETE CASCADE,
+    revision_number INTEGER NOT NULL,
+    layout JSONB NOT NULL, -- snapshot of tables.layout at save time
+    author_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    message VARCHAR(255),
+    parent_revision_id UUID REFERENCES table_revisions(id) ON DELETE SET NULL, -- restore/branch source
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (table_id, revision_number)
+);
+
+CREATE INDEX idx_table_revisions_table ON table_revisions(table_id, revision_number DESC);
+
 -- ============================================================================
 -- ASSET LIBRARY (Selective Uploads)
 -- ============================================================================
@@ -233,6 +251,7 @@ CREATE TABLE assets (
     tags TEXT[],
     file_ref VARCHAR(500) NOT NULL,
     glb_file_path VARCHAR(500),
+    glb_lod_paths TEXT[],
     preview_url VARCHAR(500),
     thumbnail_path VARCHAR(500),
     base_price DECIMAL(10,2) DEFAULT 0,
@@ -241,6 +260,8 @@ CREATE TABLE assets (
     width DECIMAL(10,2),
     depth DECIMAL(10,2),
     height DECIMAL(10,2),
+    occupancy_mask JSONB,
+    connectors JSONB,
     view_count INTEGER DEFAULT 0,
     add_count INTEGER DEFAULT 0,
     use_count INTEGER DEFAULT 0,
@@ -261,19 +282,32 @@ CREATE TABLE asset_sets (
     name VARCHAR(255) NOT NULL,
     description TEXT,
     is_public BOOLEAN DEFAULT false,
+    kind VARCHAR(20) NOT NULL DEFAULT 'collection' CHECK (kind IN ('collection', 'prefab')),
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE INDEX idx_asset_sets_owner ON asset_sets(owner_id);
+CREATE INDEX idx_asset_sets_kind ON asset_sets(kind) WHERE is_public = TRUE;
 
+-- Prefab items carry a placement relative to the set's centre (metres, degrees)
 CREATE TABLE asset_set_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
     set_id UUID REFERENCES asset_sets(id) ON DELETE CASCADE,
     asset_id UUID REFERENCES assets(id) ON DELETE CASCADE,
-    added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-    PRIMARY KEY (set_id, asset_id)
+    position_x DOUBLE PRECISION NOT NULL DEFAULT 0,
+    position_z DOUBLE PRECISION NOT NULL DEFAULT 0,
+    rotation_deg DOUBLE PRECISION NOT NULL DEFAULT 0,
+    rotation_x DOUBLE PRECISION NOT NULL DEFAULT 0,
+    rotation_z DOUBLE PRECISION NOT NULL DEFAULT 0,
+    elevation DOUBLE PRECISION NOT NULL DEFAULT 0,
+    swap_xz BOOLEAN NOT NULL DEFAULT false,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    added_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+CREATE INDEX idx_asset_set_items_set ON asset_set_items(set_id, sort_order);
+
 CREATE TABLE table_assets (
     table_id UUID REFERENCES tables(id) ON DELETE CASCADE,
     asset_id UUID REFERENCES assets(id) ON DELETE CASCADE,
@@ -401,6 +435,8 @@ CREATE TABLE order_items (
     print_color VARCHAR(50),
     print_material VARCHAR(50),
     print_quality VARCHAR(20), -- 'draft', 'standard', 'fine'
+    print_scale VARCHAR(20), -- model scale, e.g. '28mm', '15mm'
+    print_scale_factor DECIMAL(6,4) DEFAULT 1, -- relative to the 28mm upload size
     special_instructions TEXT,
     
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
@@ -631,6 +667,7 @@ COMMENT ON TABLE orders IS 'Customer orders for printed models';
 COMMENT ON TABLE order_items IS 'Individual items within an order';
 COMMENT ON TABLE payments IS 'Artist commission payments via Stripe Connect';
 COMMENT ON TABLE tables IS 'Saved table layouts created in the builder';
+COMMENT ON TABLE table_revisions IS 'Layout history: one snapshot per save of a table';
 COMMENT ON TABLE invite_codes IS 'Invitation codes for artist registration';
 COMMENT ON TABLE reviews IS 'Customer reviews and ratings for models';
 COMMENT ON TABLE favorites IS 'User wishlists/favorites';
@@ -32,8 +32,11 @@ import ordersRoutes from './routes/orders'
 import adminRoutes from './routes/admin'
 import webhookRoutes from './routes/webhooks'
 import libraryRoutes from './routes/library'
+import librarySetsRoutes from './routes/library-sets'
 import tableLibraryRoutes from './routes/table-library'
+import tablePrintRoutes from './routes/table-print'
 import { initializeMockData } from './mock/mockModels'
+import { attachCollaboration } from './services/collaboration'
 
 // ============================================================================
 // CONFIGURATION
@@ -118,8 +121,10 @@ app.use(`${API_PREFIX}/auth`, authRoutes)
 app.use(`${API_PREFIX}/models`, modelsRoutes)
 app.use(`${API_PREFIX}/browse`, browseRoutes)
 app.use(`${API_PREFIX}/artists`, artistsRoutes)
+app.use(`${API_PREFIX}/library/sets`, librarySetsRoutes)
 app.use(`${API_PREFIX}/library`, libraryRoutes)
 app.use(`${API_PREFIX}/tables`, tableLibraryRoutes)
+app.use(`${API_PREFIX}/tables`, tablePrintRoutes)
 app.use(`${API_PREFIX}/tables`, tablesRoutes)
 app.use(`${API_PREFIX}/orders`, ordersRoutes)
 app.use(`${API_PREFIX}/admin`, adminRoutes)
@@ -235,6 +240,9 @@ async function startServer() {
       logger.info(`🏥 Health check at ${baseUrl}/health`)
     }
 
+    // Live editing channel shares the HTTP server (upgrade requests)
+    attachCollaboration(server)
+
     setupGracefulShutdown(server)
   } catch (error) {
     logger.error('Failed to start server', { error })
@@ -251,6 +251,42 @@ export async function optionalAuth(
   }
 }
 
+// ============================================================================
+// TOKEN LOOKUP (non-HTTP transports)
+// ============================================================================
+
+/**
+ * Resolve an access token to an active user, or null when the token is invalid,
+ * expired or belongs to an inactive account. Used where there is no request to
+ * run the middleware on, e.g. WebSocket upgrades.
+ */
+export async function userFromToken(token: string): Promise<User | null> {
+  let decoded: JwtPayload;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+  } catch {
+    return null;
+  }
+
+  if (IS_MOCK_DB) {
+    const mock = getMockUserById(decoded.userId);
+    const user = mock ? sanitizeMockUser(mock) : null;
+    return user?.account_status === 'active' ? user : null;
+  }
+
+  const result = await db.query(
+    `SELECT id, email, display_name, role, account_status, 
+            artist_name, artist_bio, artist_url, 
+            stripe_account_id, stripe_onboarding_complete,
+            created_at, updated_at
+     FROM users 
+     WHERE id = $1 AND account_status = 'active'`,
+    [decoded.userId]
+  );
+
+  return (result.rows[0] as User | undefined) ?? null;
+}
+
 // ============================================================================
 // AUTHORIZATION MIDDLEWARE
 // ============================================================================
@@ -11,6 +11,7 @@ export interface MockModel {
   tags: string[]
   stlFilePath: string | null
   glbFilePath: string | null
+  glbLodPaths?: string[]
   thumbnailPath: string | null
   license: string
   price: number
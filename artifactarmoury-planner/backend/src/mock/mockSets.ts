@@ -0,0 +1,60 @@
+import crypto from 'crypto'
+
+export type MockSetKind = 'collection' | 'prefab'
+
+export interface MockSetItem {
+  id: string
+  assetId: string
+  positionX: number
+  positionZ: number
+  rotationDeg: number
+  rotationX: number
+  rotationZ: number
+  elevation: number
+  swapXZ: boolean
+}
+
+export interface MockSet {
+  id: string
+  ownerId: string | null
+  name: string
+  description: string
+  isPublic: boolean
+  kind: MockSetKind
+  items: MockSetItem[]
+  createdAt: string
+  updatedAt: string
+}
+
+const mockSetsById = new Map<string, MockSet>()
+
+export function createMockSetId(): string {
+  return crypto.randomUUID()
+}
+
+export function addMockSet(set: MockSet): void {
+  mockSetsById.set(set.id, { ...set, items: [...set.items] })
+}
+
+export function getMockSet(setId: string): MockSet | null {
+  const set = mockSetsById.get(setId)
+  return set ? { ...set, items: [...set.items] } : null
+}
+
+export function listMockSets(): MockSet[] {
+  return Array.from(mockSetsById.values()).map((set) => ({ ...set, items: [...set.items] }))
+}
+
+export function updateMockSet(setId: string, updater: (set: MockSet) => void): boolean {
+  const set = mockSetsById.get(setId)
+  if (!set) return false
+
+  const updated = { ...set, items: [...set.items] }
+  updater(updated)
+  mockSetsById.set(setId, updated)
+  return true
+}
+
+export function deleteMockSet(setId: string): boolean {
+  return mockSetsById.delete(setId)
+}
@@ -1,4 +1,5 @@
 import crypto from 'crypto'
+import type { TableOutline } from '../types/shared'
 
 export interface MockTable {
   id: string
@@ -8,6 +9,7 @@ export interface MockTable {
   description: string
   width: number
   depth: number
+  outline: TableOutline | null
   layout: any
   isPublic: boolean
   shareCode: string
@@ -300,7 +300,7 @@ router.delete('/models/:id',
 
     // Get model file paths for cleanup
     const result = await db.query(
-      `SELECT stl_file_path, glb_file_path, thumbnail_path
+      `SELECT stl_file_path, glb_file_path, glb_lod_paths, thumbnail_path
        FROM models WHERE id = $1`,
       [id]
     );
@@ -323,6 +323,11 @@ router.delete('/models/:id',
         logger.error('Failed to delete GLB file', { error: err })
       );
     }
+    for (const lodPath of model.glb_lod_paths ?? []) {
+      deleteFromStorage(lodPath).catch(err =>
+        logger.error('Failed to delete LOD file', { error: err })
+      );
+    }
     if (model.thumbnail_path) {
       deleteFromStorage(model.thumbnail_path).catch(err =>
         logger.error('Failed to delete thumbnail', { error: err })
@@ -0,0 +1,602 @@
+// backend/src/routes/library-sets.ts
+// Asset sets: plain collections of library assets, and prefabs whose items keep a
+// placement relative to the group's centre so they can be dropped onto a table together
+
+import { Router } from 'express'
+import { db, transaction, type PoolClient } from '../db'
+import logger from '../utils/logger'
+import { asyncHandler, ValidationError } from '../middleware/error'
+import { AuthRequest, optionalAuth, authenticate } from '../middleware/auth'
+import { findMockModel } from '../mock/mockModels'
+import {
+  addMockSet,
+  createMockSetId,
+  deleteMockSet,
+  getMockSet,
+  listMockSets,
+  updateMockSet,
+  type MockSet,
+  type MockSetItem,
+} from '../mock/mockSets'
+
+const setsLogger = logger.child('LIBRARY_SETS')
+const router = Router()
+const IS_MOCK_DB = process.env.DB_MOCK === 'true'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+const SET_KINDS = ['collection', 'prefab'] as const
+const MAX_SET_ITEMS = 100
+// Prefab offsets are metres from the group's centre; nothing sensible spans more than a table
+const MAX_ITEM_OFFSET_M = 5
+const MAX_ITEM_ELEVATION_M = 2
+
+type SetKind = (typeof SET_KINDS)[number]
+
+interface SetItemInput {
+  assetId: string
+  x: number
+  z: number
+  rotationDeg: number
+  rotationX: number
+  rotationZ: number
+  elevation: number
+  swapXZ: boolean
+}
+
+interface SetRow {
+  id: string
+  owner_id: string | null
+  owner_name: string | null
+  name: string
+  description: string | null
+  is_public: boolean
+  kind: SetKind
+  created_at: string
+  updated_at: string
+}
+
+interface SetItemRow {
+  id: string
+  set_id: string
+  asset_id: string
+  position_x: number
+  position_z: number
+  rotation_deg: number
+  rotation_x: number
+  rotation_z: number
+  elevation: number
+  swap_xz: boolean
+  asset: Record<string, unknown>
+}
+
+// ---------------------------------------------------------------------------
+// Input parsing
+// ---------------------------------------------------------------------------
+
+function parseKind(value: unknown): SetKind | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  if (!SET_KINDS.includes(value as SetKind)) {
+    throw new ValidationError(`kind must be one of: ${SET_KINDS.join(', ')}`)
+  }
+  return value as SetKind
+}
+
+function parseName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : ''
+  if (!name) throw new ValidationError('Set name is required')
+  if (name.length > 255) throw new ValidationError('Set name must be 255 characters or fewer')
+  return name
+}
+
+function parseNumber(value: unknown, field: string, index: number, limit: number, fallback = 0): number {
+  if (value === undefined || value === null) return fallback
+  const parsed = Number(value)
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) {
+    throw new ValidationError(`items[${index}].${field} must be a number within ±${limit}`)
+  }
+  return parsed
+}
+
+function parseItems(value: unknown): SetItemInput[] {
+  if (!Array.isArray(value)) throw new ValidationError('items must be an array')
+  if (value.length > MAX_SET_ITEMS) throw new ValidationError(`A set can hold at most ${MAX_SET_ITEMS} items`)
+
+  return value.map((raw, index) => {
+    const item = (raw ?? {}) as Record<string, unknown>
+    const assetId = typeof item.assetId === 'string' ? item.assetId.trim() : ''
+    if (!assetId) throw new ValidationError(`items[${index}].assetId is required`)
+    const elevation = parseNumber(item.elevation, 'elevation', index, MAX_ITEM_ELEVATION_M)
+    if (elevation < 0) throw new ValidationError(`items[${index}].elevation cannot be negative`)
+
+    return {
+      assetId,
+      x: parseNumber(item.x, 'x', index, MAX_ITEM_OFFSET_M),
+      z: parseNumber(item.z, 'z', index, MAX_ITEM_OFFSET_M),
+      rotationDeg: parseNumber(item.rotationDeg, 'rotationDeg', index, 360),
+      rotationX: parseNumber(item.rotationX, 'rotationX', index, 360),
+      rotationZ: parseNumber(item.rotationZ, 'rotationZ', index, 360),
+      elevation,
+      swapXZ: item.swapXZ === true,
+    }
+  })
+}
+
+function mockModelIdFor(assetId: string): string {
+  return assetId.startsWith('mock-asset-') ? assetId.replace('mock-asset-', '') : assetId
+}
+
+/** Every item must point at a library asset; builder-only pieces can't be stored. */
+async function assertAssetsExist(items: SetItemInput[]) {
+  const ids = Array.from(new Set(items.map((item) => item.assetId)))
+  if (ids.length === 0) return
+
+  let known: Set<string>
+  if (IS_MOCK_DB) {
+    known = new Set(ids.filter((id) => findMockModel(mockModelIdFor(id))?.model.inLibrary))
+  } else {
+    const candidates = ids.filter((id) => UUID_PATTERN.test(id))
+    const result = candidates.length
+      ? await db.query(`SELECT id FROM assets WHERE id = ANY($1::uuid[])`, [candidates])
+      : { rows: [] }
+    known = new Set(result.rows.map((row: { id: string }) => row.id))
+  }
+
+  const missing = ids.filter((id) => !known.has(id))
+  if (missing.length > 0) {
+    throw new ValidationError(`Not in the asset library: ${missing.join(', ')}`)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Loading and shaping
+// ---------------------------------------------------------------------------
+
+function canViewSet(set: { owner_id: string | null; is_public: boolean }, req: AuthRequest) {
+  return set.is_public || (set.owner_id !== null && set.owner_id === req.userId) || req.user?.role === 'admin'
+}
+
+function canEditSet(set: { owner_id: string | null }, req: AuthRequest) {
+  return (set.owner_id !== null && set.owner_id === req.userId) || req.user?.role === 'admin'
+}
+
+function shapeSet(set: SetRow, items: SetItemRow[]) {
+  // `assets` lists each distinct asset once; `items` keeps every placement in order
+  const assets = new Map<string, Record<string, unknown>>()
+  items.forEach((item) => {
+    if (!assets.has(item.asset_id)) assets.set(item.asset_id, item.asset)
+  })
+
+  return {
+    ...set,
+    item_count: items.length,
+    assets: Array.from(assets.values()),
+    items: items.map(({ asset: _asset, set_id: _setId, ...item }) => item),
+  }
+}
+
+async function loadSetItems(setIds: string[]): Promise<Map<string, SetItemRow[]>> {
+  const bySet = new Map<string, SetItemRow[]>()
+  if (setIds.length === 0) return bySet
+
+  const result = await db.query(
+    `
+      SELECT
+        asi.id,
+        asi.set_id,
+        asi.asset_id,
+        asi.position_x,
+        asi.position_z,
+        asi.rotation_deg,
+        asi.rotation_x,
+        asi.rotation_z,
+        asi.elevation,
+        asi.swap_xz,
+        json_build_object(
+          'id', a.id,
+          'name', a.name,
+          'description', a.description,
+          'category', a.category,
+          'tags', a.tags,
+          'preview_url', a.preview_url,
+          'thumbnail_path', a.thumbnail_path,
+          'base_price', a.base_price,
+          'view_count', a.view_count,
+          'add_count', a.add_count,
+          'use_count', a.use_count,
+          'created_at', a.created_at,
+          'updated_at', a.updated_at,
+          'file_ref', a.file_ref,
+          'glb_file_path', a.glb_file_path,
+          'glb_lod_paths', a.glb_lod_paths,
+          'width', a.width,
+          'depth', a.depth,
+          'height', a.height,
+          'model_id', m.id,
+          'artist_name', au.artist_name,
+          'artist_display_name', au.display_name
+        ) AS asset
+      FROM asset_set_items asi
+      JOIN assets a ON a.id = asi.asset_id
+      LEFT JOIN models m ON m.stl_file_path = a.file_ref
+      LEFT JOIN users au ON au.id = m.artist_id
+      WHERE asi.set_id = ANY($1::uuid[])
+      ORDER BY asi.set_id, asi.sort_order, asi.added_at
+    `,
+    [setIds],
+  )
+
+  result.rows.forEach((row: SetItemRow) => {
+    const list = bySet.get(row.set_id) ?? []
+    list.push(row)
+    bySet.set(row.set_id, list)
+  })
+  return bySet
+}
+
+function shapeMockSet(set: MockSet) {
+  const row: SetRow = {
+    id: set.id,
+    owner_id: set.ownerId,
+    owner_name: null,
+    name: set.name,
+    description: set.description,
+    is_public: set.isPublic,
+    kind: set.kind,
+    created_at: set.createdAt,
+    updated_at: set.updatedAt,
+  }
+
+  const items = set.items.flatMap((item): SetItemRow[] => {
+    const lookup = findMockModel(mockModelIdFor(item.assetId))
+    if (!lookup) return []
+    const model = lookup.model
+    return [
+      {
+        id: item.id,
+        set_id: set.id,
+        asset_id: item.assetId,
+        position_x: item.positionX,
+        position_z: item.positionZ,
+        rotation_deg: item.rotationDeg,
+        rotation_x: item.rotationX,
+        rotation_z: item.rotationZ,
+        elevation: item.elevation,
+        swap_xz: item.swapXZ,
+        asset: {
+          id: item.assetId,
+          name: model.name,
+          description: model.description,
+          category: model.category,
+          tags: model.tags,
+          preview_url: model.glbFilePath,
+          thumbnail_path: model.thumbnailPath,
+          base_price: model.price,
+          file_ref: model.stlFilePath,
+          glb_file_path: model.glbFilePath,
+          glb_lod_paths: model.glbLodPaths ?? null,
+          model_id: model.id,
+          artist_name: 'Mock Artist',
+          artist_display_name: 'Mock Artist',
+        },
+      },
+    ]
+  })
+
+  return shapeSet(row, items)
+}
+
+function toMockItems(items: SetItemInput[]): MockSetItem[] {
+  return items.map((item) => ({
+    id: createMockSetId(),
+    assetId: item.assetId,
+    positionX: item.x,
+    positionZ: item.z,
+    rotationDeg: item.rotationDeg,
+    rotationX: item.rotationX,
+    rotationZ: item.rotationZ,
+    elevation: item.elevation,
+    swapXZ: item.swapXZ,
+  }))
+}
+
+async function insertItems(client: PoolClient, setId: string, items: SetItemInput[]) {
+  for (const [index, item] of items.entries()) {
+    await client.query(
+      `
+        INSERT INTO asset_set_items (
+          set_id, asset_id, position_x, position_z, rotation_deg,
+          rotation_x, rotation_z, elevation, swap_xz, sort_order
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `,
+      [
+        setId,
+        item.assetId,
+        item.x,
+        item.z,
+        item.rotationDeg,
+        item.rotationX,
+        item.rotationZ,
+        item.elevation,
+        item.swapXZ,
+        index,
+      ],
+    )
+  }
+}
+
+async function loadSet(setId: string): Promise<SetRow | null> {
+  if (!UUID_PATTERN.test(setId)) return null
+  const result = await db.query(
+    `
+      SELECT s.id, s.owner_id, u.display_name AS owner_name, s.name, s.description,
+             s.is_public, s.kind, s.created_at, s.updated_at
+      FROM asset_sets s
+      LEFT JOIN users u ON u.id = s.owner_id
+      WHERE s.id = $1
+    `,
+    [setId],
+  )
+  return result.rows[0] ?? null
+}
+
+async function loadShapedSet(set: SetRow) {
+  const items = await loadSetItems([set.id])
+  return shapeSet(set, items.get(set.id) ?? [])
+}
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+// Public sets plus the caller's own; `?kind=prefab` narrows to prefabs, `?mine=true` to the caller's
+router.get(
+  '/',
+  optionalAuth,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const kind = parseKind(req.query.kind)
+    const mineOnly = req.query.mine === 'true'
+    if (mineOnly && !req.userId) {
+      res.json({ sets: [] })
+      return
+    }
+
+    if (IS_MOCK_DB) {
+      const sets = listMockSets()
+        .filter((set) => (mineOnly ? set.ownerId === req.userId : set.isPublic || set.ownerId === req.userId))
+        .filter((set) => !kind || set.kind === kind)
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(shapeMockSet)
+      res.json({ sets })
+      return
+    }
+
+    const params: unknown[] = [req.userId ?? null]
+    const conditions = [mineOnly ? 's.owner_id = $1' : '(s.is_public = TRUE OR s.owner_id = $1)']
+    if (kind) {
+      params.push(kind)
+      conditions.push(`s.kind = $${params.length}`)
+    }
+
+    const result = await db.query(
+      `
+        SELECT s.id, s.owner_id, u.display_name AS owner_name, s.name, s.description,
+               s.is_public, s.kind, s.created_at, s.updated_at
+        FROM asset_sets s
+        LEFT JOIN users u ON u.id = s.owner_id
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY s.updated_at DESC
+      `,
+      params,
+    )
+
+    const rows = result.rows as SetRow[]
+    const items = await loadSetItems(rows.map((row) => row.id))
+    res.json({ sets: rows.map((row) => shapeSet(row, items.get(row.id) ?? [])) })
+  }),
+)
+
+router.get(
+  '/:setId',
+  optionalAuth,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { setId } = req.params
+
+    if (IS_MOCK_DB) {
+      const set = getMockSet(setId)
+      if (!set || !canViewSet({ owner_id: set.ownerId, is_public: set.isPublic }, req)) {
+        res.status(404).json({ error: 'Set not found' })
+        return
+      }
+      res.json({ set: shapeMockSet(set) })
+      return
+    }
+
+    const set = await loadSet(setId)
+    // private sets are reported missing rather than forbidden so their ids don't leak
+    if (!set || !canViewSet(set, req)) {
+      res.status(404).json({ error: 'Set not found' })
+      return
+    }
+
+    res.json({ set: await loadShapedSet(set) })
+  }),
+)
+
+router.post(
+  '/',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { name, description, isPublic, kind, items } = req.body ?? {}
+    const nameValue = parseName(name)
+    const kindValue = parseKind(kind) ?? 'collection'
+    const itemsValue = items === undefined ? [] : parseItems(items)
+    if (kindValue === 'prefab' && itemsValue.length === 0) {
+      throw new ValidationError('A prefab needs at least one item')
+    }
+    await assertAssetsExist(itemsValue)
+
+    if (IS_MOCK_DB) {
+      const now = new Date().toISOString()
+      const set: MockSet = {
+        id: createMockSetId(),
+        ownerId: req.userId ?? null,
+        name: nameValue,
+        description: description ? String(description) : '',
+        isPublic: Boolean(isPublic),
+        kind: kindValue,
+        items: toMockItems(itemsValue),
+        createdAt: now,
+        updatedAt: now,
+      }
+      addMockSet(set)
+      setsLogger.info('Mock asset set created', { setId: set.id, kind: set.kind, itemCount: set.items.length })
+      res.status(201).json({ set: shapeMockSet(set) })
+      return
+    }
+
+    const setId = await transaction(async (client) => {
+      const inserted = await client.query(
+        `
+          INSERT INTO asset_sets (owner_id, name, description, is_public, kind)
+          VALUES ($1, $2, $3, $4, $5)
+          RETURNING id
+        `,
+        [req.userId, nameValue, description ? String(description) : null, Boolean(isPublic), kindValue],
+      )
+      const id: string = inserted.rows[0].id
+      await insertItems(client, id, itemsValue)
+      return id
+    })
+
+    setsLogger.info('Asset set created', { setId, kind: kindValue, itemCount: itemsValue.length, userId: req.userId })
+
+    const set = await loadSet(setId)
+    res.status(201).json({ set: await loadShapedSet(set as SetRow) })
+  }),
+)
+
+// Partial update; `items`, when given, replaces the set's contents
+router.put(
+  '/:setId',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { setId } = req.params
+    const { name, description, isPublic, items } = req.body ?? {}
+    const nameValue = name === undefined ? undefined : parseName(name)
+    const itemsValue = items === undefined ? undefined : parseItems(items)
+
+    if (IS_MOCK_DB) {
+      const existing = getMockSet(setId)
+      if (!existing) {
+        res.status(404).json({ error: 'Set not found' })
+        return
+      }
+      if (!canEditSet({ owner_id: existing.ownerId }, req)) {
+        res.status(403).json({ error: 'Forbidden' })
+        return
+      }
+      if (itemsValue) {
+        if (existing.kind === 'prefab' && itemsValue.length === 0) {
+          throw new ValidationError('A prefab needs at least one item')
+        }
+        await assertAssetsExist(itemsValue)
+      }
+
+      updateMockSet(setId, (set) => {
+        if (nameValue !== undefined) set.name = nameValue
+        if (description !== undefined) set.description = description ? String(description) : ''
+        if (isPublic !== undefined) set.isPublic = Boolean(isPublic)
+        if (itemsValue) set.items = toMockItems(itemsValue)
+        set.updatedAt = new Date().toISOString()
+      })
+      res.json({ set: shapeMockSet(getMockSet(setId) as MockSet) })
+      return
+    }
+
+    const existing = await loadSet(setId)
+    if (!existing) {
+      res.status(404).json({ error: 'Set not found' })
+      return
+    }
+    if (!canEditSet(existing, req)) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+    if (itemsValue) {
+      if (existing.kind === 'prefab' && itemsValue.length === 0) {
+        throw new ValidationError('A prefab needs at least one item')
+      }
+      await assertAssetsExist(itemsValue)
+    }
+
+    await transaction(async (client) => {
+      await client.query(
+        `
+          UPDATE asset_sets
+          SET name = COALESCE($2, name),
+              description = CASE WHEN $3::boolean THEN $4 ELSE description END,
+              is_public = COALESCE($5, is_public),
+              updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `,
+        [
+          setId,
+          nameValue ?? null,
+          description !== undefined,
+          description ? String(description) : null,
+          isPublic === undefined ? null : Boolean(isPublic),
+        ],
+      )
+      if (itemsValue) {
+        await client.query(`DELETE FROM asset_set_items WHERE set_id = $1`, [setId])
+        await insertItems(client, setId, itemsValue)
+      }
+    })
+
+    setsLogger.info('Asset set updated', { setId, replacedItems: Boolean(itemsValue), userId: req.userId })
+
+    const set = await loadSet(setId)
+    res.json({ set: await loadShapedSet(set as SetRow) })
+  }),
+)
+
+router.delete(
+  '/:setId',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { setId } = req.params
+
+    if (IS_MOCK_DB) {
+      const existing = getMockSet(setId)
+      if (!existing) {
+        res.status(404).json({ error: 'Set not found' })
+        return
+      }
+      if (!canEditSet({ owner_id: existing.ownerId }, req)) {
+        res.status(403).json({ error: 'Forbidden' })
+        return
+      }
+      deleteMockSet(setId)
+      res.json({ message: 'Set deleted successfully' })
+      return
+    }
+
+    const existing = await loadSet(setId)
+    if (!existing) {
+      res.status(404).json({ error: 'Set not found' })
+      return
+    }
+    if (!canEditSet(existing, req)) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    await db.query(`DELETE FROM asset_sets WHERE id = $1`, [setId])
+    setsLogger.info('Asset set deleted', { setId, userId: req.userId })
+
+    res.json({ message: 'Set deleted successfully' })
+  }),
+)
+
+export default router
@@ -63,6 +63,7 @@ router.get(
         updated_at: model.createdAt,
         file_ref: model.stlFilePath,
         glb_file_path: model.glbFilePath,
+        glb_lod_paths: model.glbLodPaths ?? null,
         model_id: model.id,
         width: null,
         depth: null,
@@ -132,9 +133,12 @@ router.get(
           a.updated_at,
           a.file_ref,
           a.glb_file_path,
+          a.glb_lod_paths,
           a.width,
           a.depth,
           a.height,
+          a.occupancy_mask,
+          a.connectors,
           m.id AS model_id,
           u.artist_name,
           u.display_name AS artist_display_name
@@ -183,6 +187,7 @@ router.get(
           tags: model.tags,
           file_ref: model.stlFilePath,
           glb_file_path: model.glbFilePath,
+          glb_lod_paths: model.glbLodPaths ?? null,
           preview_url: model.glbFilePath,
           thumbnail_path: model.thumbnailPath,
           base_price: model.price,
@@ -209,6 +214,7 @@ router.get(
         a.tags,
         a.file_ref,
         a.glb_file_path,
+        a.glb_lod_paths,
         a.preview_url,
         a.thumbnail_path,
         a.base_price,
@@ -368,6 +374,7 @@ router.get(
           tags: model.tags,
           file_ref: model.stlFilePath,
           glb_file_path: model.glbFilePath,
+          glb_lod_paths: model.glbLodPaths ?? null,
           preview_url: model.glbFilePath,
           thumbnail_path: model.thumbnailPath,
           base_price: model.price,
@@ -394,13 +401,16 @@ router.get(
           m.tags,
           m.stl_file_path,
           m.glb_file_path,
+          m.glb_lod_paths,
           m.thumbnail_path,
           m.base_price,
           m.status,
           m.visibility,
           m.width,
           m.depth,
-          m.height
+          m.height,
+          m.occupancy_mask,
+          m.connectors
         FROM models m
         WHERE m.id = $1
           AND m.status = 'published'
@@ -439,6 +449,7 @@ router.get(
           updated_at,
           file_ref,
           glb_file_path,
+          glb_lod_paths,
           status,
           visibility
         FROM assets
@@ -460,6 +471,7 @@ router.get(
             tags,
             file_ref,
             glb_file_path,
+            glb_lod_paths,
             preview_url,
             thumbnail_path,
             base_price,
@@ -467,9 +479,11 @@ router.get(
             visibility,
             width,
             depth,
-            height
+            height,
+            occupancy_mask,
+            connectors
           )
-          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'published', 'public', $11, $12, $13)
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'published', 'public', $12, $13, $14, $15, $16)
           RETURNING
             id,
             name,
@@ -486,11 +500,14 @@ router.get(
             updated_at,
             file_ref,
             glb_file_path,
+            glb_lod_paths,
             status,
             visibility,
             width,
             depth,
-            height
+            height,
+            occupancy_mask,
+            connectors
         `,
         [
           model.artist_id,
@@ -500,12 +517,15 @@ router.get(
           model.tags,
           model.stl_file_path,
           model.glb_file_path,
+          model.glb_lod_paths,
           model.glb_file_path,
           model.thumbnail_path,
           model.base_price,
           model.width,
           model.depth,
           model.height,
+          model.occupancy_mask ? JSON.stringify(model.occupancy_mask) : null,
+          model.connectors ? JSON.stringify(model.connectors) : null,
         ],
       )
       asset = insertResult.rows[0]
@@ -533,11 +553,14 @@ router.get(
           a.updated_at,
           a.file_ref,
           a.glb_file_path,
+          a.glb_lod_paths,
           a.status,
           a.visibility,
           a.width,
           a.depth,
           a.height,
+          a.occupancy_mask,
+          a.connectors,
           m.id AS model_id,
           u.artist_name,
           u.display_name AS artist_display_name
@@ -576,6 +599,7 @@ router.get(
           a.updated_at,
           a.file_ref,
           a.glb_file_path,
+          a.glb_lod_paths,
           m.id AS model_id,
           u.artist_name,
           u.display_name AS artist_display_name
@@ -664,61 +688,4 @@ router.delete(
   }),
 )
 
-router.get(
-  '/sets',
-  optionalAuth,
-  asyncHandler(async (_req, res) => {
-    const result = await db.query(
-      `
-        SELECT
-          s.id,
-          s.name,
-          s.description,
-          s.is_public,
-          s.created_at,
-          s.updated_at,
-          u.display_name AS owner_name,
-          json_agg(
-            json_build_object(
-              'id', a.id,
-              'name', a.name,
-              'description', a.description,
-              'category', a.category,
-              'tags', a.tags,
-              'preview_url', a.preview_url,
-              'thumbnail_path', a.thumbnail_path,
-              'base_price', a.base_price,
-              'view_count', a.view_count,
-              'add_count', a.add_count,
-              'use_count', a.use_count,
-              'created_at', a.created_at,
-              'updated_at', a.updated_at,
-              'file_ref', a.file_ref,
-              'glb_file_path', a.glb_file_path,
-              'model_id', m.id,
-              'artist_name', au.artist_name,
-              'artist_display_name', au.display_name
-            )
-          ) FILTER (WHERE a.id IS NOT NULL) AS assets
-        FROM asset_sets s
-        LEFT JOIN users u ON u.id = s.owner_id
-        LEFT JOIN asset_set_items asi ON asi.set_id = s.id
-        LEFT JOIN assets a ON a.id = asi.asset_id
-        LEFT JOIN models m ON m.stl_file_path = a.file_ref
-        LEFT JOIN users au ON au.id = m.artist_id
-        WHERE s.is_public = TRUE
-        GROUP BY s.id, u.display_name
-        ORDER BY s.updated_at DESC
-      `,
-    )
-
-    const sets = result.rows.map((row) => ({
-      ...row,
-      assets: Array.isArray(row.assets) ? row.assets : [],
-    }))
-
-    res.json({ sets })
-  }),
-)
-
 export default router
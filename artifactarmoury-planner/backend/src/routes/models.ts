@@ -24,9 +24,9 @@ import {
 import { uploadRateLimit } from '../middleware/security';
 import { asyncHandler } from '../middleware/error';
 import { ValidationError, NotFoundError, AuthorizationError, ConflictError } from '../middleware/error';
-import { processSTL, generateGLB, parseSTL, calculateAABB, calculateFootprint, calculatePrintStats, convertGLBtoSTL } from '../services/fileProcessor';
+import { processSTL, generateGLB, generateLodGLBs, DEFAULT_LOD_LEVELS, parseSTL, calculateAABB, calculateFootprint, calculatePrintStats, convertGLBtoSTL, convertGLBtoOBJ, isValidOccupancyMask, isValidConnectors } from '../services/fileProcessor';
 import { estimatePrintCost } from '../services/printEstimator';
-import { uploadToStorage, deleteFromStorage } from '../services/storage';
+import { uploadToStorage, deleteFromStorage, fileExists, readFile as readStoredFile, STORAGE_PATHS } from '../services/storage';
 import {
   buildWatermarkPayload,
   embedStlWatermark,
@@ -136,6 +136,21 @@ router.post('/',
       throw new ValidationError('Invalid license selection');
     }
 
+    // Connectors arrive as a JSON string alongside the files
+    let connectors: unknown = null;
+    if (req.body.connectors) {
+      try {
+        connectors = JSON.parse(req.body.connectors);
+      } catch {
+        connectors = undefined;
+      }
+      if (!isValidConnectors(connectors)) {
+        await deleteUploadedFile(modelFile.path);
+        if (thumbnailFile) await deleteUploadedFile(thumbnailFile.path);
+        throw new ValidationError('Invalid connectors');
+      }
+    }
+
     const tempArtefacts: string[] = [];
 
     try {
@@ -216,6 +231,18 @@ router.post('/',
       // Use GLB path for both STL and GLB references (GLB is the canonical format)
       const stlStoragePath = glbStoragePath;
 
+      // Coarser copies for distant views in the builder, decimated from the watermarked mesh
+      const lods = await generateLodGLBs(await parseSTL(modelFile.path), glbPath, DEFAULT_LOD_LEVELS, {
+        enableDraco: true,
+        dracoCompressionLevel: 7,
+      });
+      tempArtefacts.push(...lods.map((lod) => lod.path));
+      const glbLodPaths: string[] = [];
+      for (const lod of lods) {
+        await stampGlbMetadata(lod.path, watermarkPayload);
+        glbLodPaths.push(await uploadToStorage(lod.path, 'previews'));
+      }
+
       let thumbnailStoragePath = null;
       if (thumbnailFile) {
         await watermarkPreviewImage(thumbnailFile.path, watermarkPayload);
@@ -251,6 +278,7 @@ router.post('/',
           tags: tagsArray,
           stlFilePath: stlStoragePath,
           glbFilePath: glbStoragePath,
+          glbLodPaths,
           thumbnailPath: thumbnailStoragePath,
           license: normalizedLicense,
           price,
@@ -286,12 +314,12 @@ router.post('/',
       const result = await db.query(
         `INSERT INTO models (
           artist_id, name, description, category, tags,
-          stl_file_path, glb_file_path, thumbnail_path, license,
-          width, depth, height,
+          stl_file_path, glb_file_path, glb_lod_paths, thumbnail_path, license,
+          width, depth, height, occupancy_mask, connectors,
           base_price, estimated_print_time, estimated_material_cost,
           supports_required, recommended_layer_height, recommended_infill,
           status
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, 'draft')
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, 'draft')
         RETURNING id, name, created_at`,
         [
           (req as any).userId,
@@ -301,11 +329,14 @@ router.post('/',
           tagsArray,
           stlStoragePath,
           glbStoragePath,
+          glbLodPaths.length > 0 ? glbLodPaths : null,
           thumbnailStoragePath,
           normalizedLicense,
           stlData.dimensions.x,
           stlData.dimensions.y,
           stlData.dimensions.z,
+          JSON.stringify(stlData.occupancyMask),
+          Array.isArray(connectors) && connectors.length > 0 ? JSON.stringify(connectors) : null,
           price,
           Math.round(printEstimate.estimated_time_hours * 60),
           Number(printEstimate.total_cost.toFixed(2)),
@@ -563,6 +594,45 @@ router.get('/:id/download',
   })
 );
 
+// ============================================================================
+// TABLETOP SIMULATOR MESH (OBJ of a public model, for exported tables)
+// ============================================================================
+
+router.get('/:id/tts.obj',
+  asyncHandler(async (req, res) => {
+    const { id } = req.params;
+
+    let glbPath: string | null = null;
+    if (IS_MOCK_DB) {
+      const lookup = findMockModel(id);
+      if (lookup && lookup.model.status === 'published' && lookup.model.visibility === 'public') {
+        glbPath = lookup.model.glbFilePath;
+      }
+    } else {
+      const result = await db.query(
+        `SELECT glb_file_path FROM models
+         WHERE id = $1 AND status = 'published' AND visibility = 'public'`,
+        [id]
+      );
+      glbPath = result.rows[0]?.glb_file_path ?? null;
+    }
+
+    if (!glbPath) {
+      throw new NotFoundError('Model');
+    }
+
+    // converted once per uploaded file; a new upload gets a new file name
+    const objPath = path.join(STORAGE_PATHS.exports, 'tts', `${path.basename(glbPath, path.extname(glbPath))}.obj`);
+    if (!(await fileExists(objPath))) {
+      const glb = await readStoredFile(glbPath);
+      await convertGLBtoOBJ(glb, objPath);
+    }
+
+    res.type('text/plain');
+    res.sendFile(objPath);
+  })
+);
+
 // ============================================================================
 // GET SINGLE MODEL (Detailed view)
 // ============================================================================
@@ -598,6 +668,7 @@ router.get('/:id',
           ...model,
           stl_file_path: model.stlFilePath,
           glb_file_path: model.glbFilePath,
+          glb_lod_paths: model.glbLodPaths ?? null,
           thumbnail_path: model.thumbnailPath,
           license: model.license,
           visibility: model.visibility,
@@ -765,9 +836,26 @@ router.patch('/:id',
       updates.license = normalized;
     }
 
+    // Artists can replace the derived silhouette, or clear it with null
+    if (updates.occupancy_mask !== undefined && updates.occupancy_mask !== null) {
+      if (!isValidOccupancyMask(updates.occupancy_mask)) {
+        throw new ValidationError('Invalid occupancy mask');
+      }
+      updates.occupancy_mask = JSON.stringify(updates.occupancy_mask);
+    }
+
+    // An empty list clears them, like null
+    if (updates.connectors !== undefined && updates.connectors !== null) {
+      if (!isValidConnectors(updates.connectors)) {
+        throw new ValidationError('Invalid connectors');
+      }
+      updates.connectors = updates.connectors.length > 0 ? JSON.stringify(updates.connectors) : null;
+    }
+
     const allowedFields = [
       'name', 'description', 'category', 'tags', 'base_price',
-      'supports_required', 'recommended_layer_height', 'recommended_infill', 'license'
+      'supports_required', 'recommended_layer_height', 'recommended_infill', 'license',
+      'occupancy_mask', 'connectors'
     ];
 
     const updateFields: string[] = [];
@@ -796,6 +884,24 @@ router.patch('/:id',
       updateValues
     );
 
+    // Library assets keep their own copy of the mask and connectors
+    if (updates.occupancy_mask !== undefined) {
+      await db.query(
+        `UPDATE assets
+         SET occupancy_mask = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE file_ref = (SELECT stl_file_path FROM models WHERE id = $2)`,
+        [updates.occupancy_mask, id]
+      );
+    }
+    if (updates.connectors !== undefined) {
+      await db.query(
+        `UPDATE assets
+         SET connectors = $1, updated_at = CURRENT_TIMESTAMP
+         WHERE file_ref = (SELECT stl_file_path FROM models WHERE id = $2)`,
+        [updates.connectors, id]
+      );
+    }
+
     logger.info('Model updated', { userId: (req as any).userId, modelId: id });
 
     res.json({
@@ -1000,8 +1106,8 @@ router.post('/:id/library',
 
     const modelResult = await db.query(
       `SELECT id, artist_id, name, description, category, tags,
-              stl_file_path, glb_file_path, thumbnail_path,
-              base_price, status, visibility, width, depth, height
+              stl_file_path, glb_file_path, glb_lod_paths, thumbnail_path,
+              base_price, status, visibility, width, depth, height, occupancy_mask, connectors
        FROM models
        WHERE id = $1`,
       [id]
@@ -1054,9 +1160,9 @@ router.post('/:id/library',
     const assetResult = await db.query(
       `INSERT INTO assets (
          artist_id, name, description, category, tags,
-         file_ref, glb_file_path, preview_url, thumbnail_path,
-         base_price, status, visibility, width, depth, height
-       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'published', 'public', $11, $12, $13)
+         file_ref, glb_file_path, glb_lod_paths, preview_url, thumbnail_path,
+         base_price, status, visibility, width, depth, height, occupancy_mask, connectors
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'published', 'public', $12, $13, $14, $15, $16)
        RETURNING id, name, status, visibility, created_at`,
       [
         model.artist_id,
@@ -1066,12 +1172,15 @@ router.post('/:id/library',
         model.tags,
         model.stl_file_path,
         model.glb_file_path,
+        model.glb_lod_paths,
         model.glb_file_path,
         model.thumbnail_path,
         model.base_price,
         model.width,
         model.depth,
         model.height,
+        model.occupancy_mask ? JSON.stringify(model.occupancy_mask) : null,
+        model.connectors ? JSON.stringify(model.connectors) : null,
       ]
     )
 
@@ -1126,7 +1235,7 @@ router.delete('/:id',
 
     // Get model file paths for cleanup
     const result = await db.query(
-      `SELECT stl_file_path, glb_file_path, thumbnail_path
+      `SELECT stl_file_path, glb_file_path, glb_lod_paths, thumbnail_path
        FROM models WHERE id = $1`,
       [id]
     );
@@ -1162,6 +1271,11 @@ router.delete('/:id',
         logger.error('Failed to delete GLB file', { error: err })
       );
     }
+    for (const lodPath of model.glb_lod_paths ?? []) {
+      deleteFromStorage(lodPath).catch(err =>
+        logger.error('Failed to delete LOD file', { error: err })
+      );
+    }
     if (model.thumbnail_path) {
       deleteFromStorage(model.thumbnail_path).catch(err =>
         logger.error('Failed to delete thumbnail', { error: err })
@@ -11,6 +11,7 @@ import { ValidationError, NotFoundError, PaymentError } from '../middleware/erro
 import { validateEmail, sanitizeString } from '../utils/validation';
 import { createPaymentIntent, getPaymentIntent } from '../services/stripe';
 import { submitPrintJob } from '../services/printFarm';
+import { PRINT_SCALES, DEFAULT_PRINT_SCALE } from '../services/printEstimator';
 import { sendOrderConfirmation } from '../services/email';
 
 const IS_MOCK_DB = process.env.DB_MOCK === 'true'
@@ -25,7 +26,7 @@ router.post('/',
   paymentRateLimit,
   asyncHandler(async (req, res) => {
     const {
-      items, // [{ modelId, quantity, color, material, quality, specialInstructions }]
+      items, // [{ modelId, quantity, color, material, quality, scale, specialInstructions }]
       shipping,
       customerEmail
     } = req.body;
@@ -64,6 +65,11 @@ router.post('/',
           throw new ValidationError('Invalid item data');
         }
 
+        const scale = item.scale || DEFAULT_PRINT_SCALE;
+        if (!(scale in PRINT_SCALES)) {
+          throw new ValidationError('Unknown model scale');
+        }
+
         // Get model details
         const modelResult = await client.query(
           `SELECT m.*, u.commission_rate, u.stripe_account_id
@@ -112,6 +118,8 @@ router.post('/',
           color: item.color || 'Gray',
           material: item.material || 'PLA',
           quality: item.quality || 'standard',
+          scale,
+          scaleFactor: PRINT_SCALES[scale],
           specialInstructions: item.specialInstructions || null
         });
       }
@@ -161,8 +169,9 @@ router.post('/',
             model_name, model_snapshot,
             quantity, unit_price, total_price,
             artist_commission_rate, artist_commission_amount,
-            print_color, print_material, print_quality, special_instructions
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)`,
+            print_color, print_material, print_quality, print_scale, print_scale_factor,
+            special_instructions
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)`,
           [
             order.id,
             item.modelId,
@@ -177,6 +186,8 @@ router.post('/',
             item.color,
             item.material,
             item.quality,
+            item.scale,
+            item.scaleFactor,
             item.specialInstructions
           ]
         );
@@ -287,6 +298,8 @@ router.post('/:id/confirm',
         color: item.print_color,
         material: item.print_material,
         quality: item.print_quality,
+        scale: item.print_scale ?? DEFAULT_PRINT_SCALE,
+        scaleFactor: item.print_scale_factor != null ? parseFloat(item.print_scale_factor) : 1,
         specialInstructions: item.special_instructions
       })),
       shipping: {
@@ -373,7 +386,8 @@ router.get('/:id',
             'totalPrice', oi.total_price,
             'color', oi.print_color,
             'material', oi.print_material,
-            'quality', oi.print_quality
+            'quality', oi.print_quality,
+            'scale', oi.print_scale
           )
         ) as items
        FROM orders o
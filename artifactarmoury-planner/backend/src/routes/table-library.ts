@@ -15,14 +15,29 @@ const IS_MOCK_DB = process.env.DB_MOCK === 'true'
 
 router.use(optionalAuth)
 
-interface TableRecord {
+export interface TableRecord {
   id: string
   user_id: string | null
   session_id: string | null
   is_public: boolean
 }
 
-async function loadTable(tableId: string): Promise<TableRecord | null> {
+// Who is acting on a table; a request, or the identity behind a collaboration socket
+export type TableActor = Pick<AuthRequest, 'user' | 'userId' | 'session'>
+
+export async function loadTable(tableId: string): Promise<TableRecord | null> {
+  if (IS_MOCK_DB) {
+    const mockTable = getMockTable(tableId)
+    return mockTable
+      ? {
+          id: mockTable.id,
+          user_id: mockTable.userId,
+          session_id: mockTable.sessionId,
+          is_public: mockTable.isPublic,
+        }
+      : null
+  }
+
   const result = await db.query(
     `
     SELECT id, user_id, session_id, is_public
@@ -35,7 +50,7 @@ async function loadTable(tableId: string): Promise<TableRecord | null> {
   return result.rows[0] ?? null
 }
 
-function canModifyTable(req: AuthRequest, table: TableRecord): boolean {
+export function canModifyTable(req: TableActor, table: TableRecord): boolean {
   if (req.user?.role === 'admin') return true
   if (table.user_id && req.userId && table.user_id === req.userId) return true
   if (!table.user_id && table.session_id && req.session?.isAnonymous && req.session.id === table.session_id) {
@@ -44,7 +59,7 @@ function canModifyTable(req: AuthRequest, table: TableRecord): boolean {
   return false
 }
 
-function canViewTable(req: AuthRequest, table: TableRecord): boolean {
+export function canViewTable(req: TableActor, table: TableRecord): boolean {
   if (table.is_public) return true
   return canModifyTable(req, table)
 }
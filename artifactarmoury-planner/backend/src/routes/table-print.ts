@@ -0,0 +1,300 @@
+// backend/src/routes/table-print.ts
+// Print plates for a whole table: packing plan and merged per-plate STLs
+
+import { Router } from 'express'
+import { db } from '../db'
+import { asyncHandler, ValidationError } from '../middleware/error'
+import { AuthRequest, optionalAuth } from '../middleware/auth'
+import logger from '../utils/logger'
+import { getMockTable } from '../mock/mockTables'
+import { findMockModel } from '../mock/mockModels'
+import { canViewTable, loadTable } from './table-library'
+import {
+  DEFAULT_BED,
+  DEFAULT_SPACING_MM,
+  buildPlateSTL,
+  loadModelGeometry,
+  packPlates,
+  scaleModelGeometry,
+  type ModelGeometry,
+  type PlatePart,
+  type PrinterBed,
+} from '../services/platePacker'
+import { DEFAULT_PRINT_SCALE, PRINT_SCALES } from '../services/printEstimator'
+import type { PrintOptions } from '../types/shared'
+
+const tablePrintLogger = logger.child('TABLE_PRINT')
+const router = Router({ mergeParams: true })
+const IS_MOCK_DB = process.env.DB_MOCK === 'true'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+const MAX_BED_MM = 2000
+const MATERIALS = ['pla', 'abs', 'petg', 'resin', 'tpu', 'nylon'] as const
+const QUALITIES = ['draft', 'standard', 'fine', 'ultra'] as const
+
+router.use(optionalAuth)
+
+interface PrintableModel {
+  refId: string            // id as stored in the table layout (asset or model)
+  modelId: string | null   // marketplace model, for purchase checks
+  artistId: string | null
+  name: string
+  filePath: string | null
+}
+
+function parseBedDimension(value: unknown, fallback: number, label: string): number {
+  if (value === undefined || value === '') return fallback
+  const mm = Number(value)
+  if (!Number.isFinite(mm) || mm <= 0 || mm > MAX_BED_MM) {
+    throw new ValidationError(`${label} must be between 0 and ${MAX_BED_MM} mm`)
+  }
+  return mm
+}
+
+function parsePlanOptions(query: Record<string, unknown>) {
+  const bed: PrinterBed = {
+    width_mm: parseBedDimension(query.bedWidth, DEFAULT_BED.width_mm, 'bedWidth'),
+    depth_mm: parseBedDimension(query.bedDepth, DEFAULT_BED.depth_mm, 'bedDepth'),
+    height_mm: parseBedDimension(query.bedHeight, DEFAULT_BED.height_mm, 'bedHeight'),
+  }
+
+  const spacing = query.spacing === undefined ? DEFAULT_SPACING_MM : Number(query.spacing)
+  if (!Number.isFinite(spacing) || spacing < 0 || spacing > 100) {
+    throw new ValidationError('spacing must be between 0 and 100 mm')
+  }
+
+  const printOptions: PrintOptions = {}
+  if (typeof query.material === 'string' && (MATERIALS as readonly string[]).includes(query.material)) {
+    printOptions.material = query.material as PrintOptions['material']
+  }
+  if (typeof query.quality === 'string' && (QUALITIES as readonly string[]).includes(query.quality)) {
+    printOptions.quality = query.quality as PrintOptions['quality']
+  }
+  if (query.infill !== undefined && Number.isFinite(Number(query.infill))) {
+    printOptions.infill = Number(query.infill)
+  }
+
+  return { bed, spacing_mm: spacing, allowRotation: query.rotate !== 'false', printOptions }
+}
+
+// Model ids in placement order, one entry per placed copy, and the factor the builder
+// shows (and so prints) the table's models at
+async function loadLayoutModels(tableId: string): Promise<{ refIds: string[]; scaleFactor: number }> {
+  let layout: any
+  if (IS_MOCK_DB) {
+    layout = getMockTable(tableId)?.layout
+  } else {
+    const result = await db.query(`SELECT layout FROM tables WHERE id = $1`, [tableId])
+    layout = result.rows[0]?.layout
+  }
+  if (typeof layout === 'string') {
+    try {
+      layout = JSON.parse(layout)
+    } catch {
+      layout = null
+    }
+  }
+  const models = Array.isArray(layout?.models) ? layout.models : []
+  const refIds = models
+    .map((model: any) => String(model.modelId ?? model.model_id ?? model.assetId ?? ''))
+    .filter((id: string) => id.length > 0)
+  const scale = layout?.builder?.table?.scale
+  const scaleFactor = PRINT_SCALES[typeof scale === 'string' && scale in PRINT_SCALES ? scale : DEFAULT_PRINT_SCALE]
+  return { refIds, scaleFactor }
+}
+
+// Layout entries point at library assets (builder) or marketplace models (older tables)
+async function resolvePrintableModels(refIds: string[]): Promise<Map<string, PrintableModel>> {
+  const resolved = new Map<string, PrintableModel>()
+
+  if (IS_MOCK_DB) {
+    for (const refId of refIds) {
+      const match = refId.match(/mock-model-\d+/)
+      const mock = match ? findMockModel(match[0]) : null
+      if (mock) {
+        resolved.set(refId, {
+          refId,
+          modelId: mock.model.id,
+          artistId: mock.ownerId,
+          name: mock.model.name,
+          filePath: mock.model.stlFilePath,
+        })
+      }
+    }
+    return resolved
+  }
+
+  const ids = refIds.filter((id) => UUID_PATTERN.test(id))
+  if (ids.length === 0) return resolved
+
+  const result = await db.query(
+    `
+    SELECT a.id AS ref_id, m.id AS model_id, COALESCE(m.artist_id, a.artist_id) AS artist_id,
+           COALESCE(m.name, a.name) AS name, a.file_ref AS file_path
+    FROM assets a
+    LEFT JOIN models m ON m.stl_file_path = a.file_ref
+    WHERE a.id = ANY($1::uuid[])
+    UNION ALL
+    SELECT m.id, m.id, m.artist_id, m.name, m.stl_file_path
+    FROM models m
+    WHERE m.id = ANY($1::uuid[])
+  `,
+    [ids],
+  )
+
+  for (const row of result.rows) {
+    if (resolved.has(row.ref_id)) continue
+    resolved.set(row.ref_id, {
+      refId: row.ref_id,
+      modelId: row.model_id ?? null,
+      artistId: row.artist_id ?? null,
+      name: row.name,
+      filePath: row.file_path ?? null,
+    })
+  }
+  return resolved
+}
+
+/**
+ * Build the plate plan for a table. Each distinct model file is parsed once and sized
+ * to the table's model scale; copies whose file can't be read are reported as unplaced
+ * rather than failing the plan.
+ */
+async function planTable(tableId: string, query: Record<string, unknown>) {
+  const options = parsePlanOptions(query)
+  const { refIds, scaleFactor } = await loadLayoutModels(tableId)
+  const models = await resolvePrintableModels(Array.from(new Set(refIds)))
+
+  const geometryByModel = new Map<string, ModelGeometry>()
+  const failed = new Set<string>()
+  for (const model of models.values()) {
+    if (!model.filePath) {
+      failed.add(model.refId)
+      continue
+    }
+    try {
+      geometryByModel.set(model.refId, scaleModelGeometry(await loadModelGeometry(model.filePath), scaleFactor))
+    } catch (error) {
+      tablePrintLogger.warn('Could not load model geometry for plating', { tableId, refId: model.refId, error })
+      failed.add(model.refId)
+    }
+  }
+
+  const parts: PlatePart[] = []
+  const unavailable: Array<{ key: string; modelId: string; name: string; reason: string }> = []
+  refIds.forEach((refId, index) => {
+    const key = `${refId}#${index}`
+    const model = models.get(refId)
+    const geometry = geometryByModel.get(refId)
+    if (!model || !geometry || failed.has(refId)) {
+      unavailable.push({ key, modelId: refId, name: model?.name ?? refId, reason: 'Model file unavailable' })
+      return
+    }
+    parts.push({
+      key,
+      modelId: refId,
+      name: model.name,
+      width_mm: geometry.width_mm,
+      depth_mm: geometry.depth_mm,
+      height_mm: geometry.height_mm,
+      print_stats: geometry.print_stats,
+    })
+  })
+
+  const plan = packPlates(parts, options.bed, options)
+  plan.unplaced.push(...unavailable)
+  return { plan, models, geometryByModel }
+}
+
+async function requireViewableTable(req: AuthRequest, tableId: string) {
+  const table = await loadTable(tableId)
+  if (!table) return 404
+  if (!canViewTable(req, table)) return 403
+  return null
+}
+
+// Plated STLs contain the model files themselves, so the same rule as a single model
+// download applies: the artist, an admin, or someone who bought every model on the plate
+async function findUndownloadable(req: AuthRequest, models: PrintableModel[]): Promise<PrintableModel[]> {
+  if (req.user?.role === 'admin') return []
+  if (!req.userId) return models
+
+  const needsPurchase = models.filter((m) => m.artistId !== req.userId)
+  if (needsPurchase.length === 0) return []
+  if (IS_MOCK_DB) return needsPurchase
+
+  const modelIds = needsPurchase.map((m) => m.modelId).filter((id): id is string => Boolean(id))
+  const purchased = new Set<string>()
+  if (modelIds.length > 0) {
+    const result = await db.query(
+      `
+      SELECT DISTINCT oi.model_id
+      FROM order_items oi
+      JOIN orders o ON oi.order_id = o.id
+      WHERE o.user_id = $1 AND o.payment_status = 'succeeded' AND oi.model_id = ANY($2::uuid[])
+    `,
+      [req.userId, modelIds],
+    )
+    result.rows.forEach((row: { model_id: string }) => purchased.add(row.model_id))
+  }
+  return needsPurchase.filter((m) => !m.modelId || !purchased.has(m.modelId))
+}
+
+router.get(
+  '/:tableId/print-plan',
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { tableId } = req.params
+    const denied = await requireViewableTable(req, tableId)
+    if (denied) {
+      res.status(denied).json({ error: denied === 404 ? 'Table not found' : 'Forbidden' })
+      return
+    }
+
+    const { plan } = await planTable(tableId, req.query)
+    res.json({ plan })
+  }),
+)
+
+router.get(
+  '/:tableId/print-plan/plates/:plate/stl',
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { tableId } = req.params
+    const plateIndex = Number(req.params.plate)
+    const denied = await requireViewableTable(req, tableId)
+    if (denied) {
+      res.status(denied).json({ error: denied === 404 ? 'Table not found' : 'Forbidden' })
+      return
+    }
+    if (!req.userId) {
+      res.status(401).json({ error: 'Authentication required' })
+      return
+    }
+
+    const { plan, models, geometryByModel } = await planTable(tableId, req.query)
+    const plate = Number.isInteger(plateIndex) ? plan.plates[plateIndex] : undefined
+    if (!plate) {
+      res.status(404).json({ error: 'Plate not found' })
+      return
+    }
+
+    const plateModels = Array.from(new Set(plate.parts.map((p) => p.modelId)))
+      .map((id) => models.get(id))
+      .filter((m): m is PrintableModel => Boolean(m))
+    const blocked = await findUndownloadable(req, plateModels)
+    if (blocked.length > 0) {
+      res.status(403).json({
+        error: 'You need to own every model on this plate to download it',
+        models: blocked.map((m) => m.name),
+      })
+      return
+    }
+
+    const stl = buildPlateSTL(plate, geometryByModel)
+    tablePrintLogger.info('Serving plated STL', { tableId, plate: plateIndex, parts: plate.parts.length })
+    res.setHeader('Content-Type', 'model/stl')
+    res.setHeader('Content-Disposition', `attachment; filename="table-${tableId}-plate-${plateIndex + 1}.stl"`)
+    res.send(stl)
+  }),
+)
+
+export default router
@@ -3,12 +3,14 @@
 
 import express from 'express'
 import crypto from 'crypto'
-import { db } from '../db'
+import { db, transaction } from '../db'
 import logger from '../utils/logger'
+import { diffLayouts } from '../utils/layoutDiff'
 import { validateString } from '../utils/validation'
 import { authenticate, optionalAuth, AuthRequest } from '../middleware/auth'
 import { asyncHandler } from '../middleware/error'
 import { createMockTableId, addMockTable, getMockTable, listMockTables, updateMockTable, deleteMockTable, MockTable } from '../mock/mockTables'
+import type { TableOutline } from '../types/shared'
 
 const router = express.Router()
 const tablesLogger = logger.child('TABLES')
@@ -16,6 +18,10 @@ const IS_MOCK_DB = process.env.DB_MOCK === 'true'
 
 const DEFAULT_WIDTH = 1200
 const DEFAULT_DEPTH = 900
+// Plenty for a round table or a club's worth of boards
+const MAX_OUTLINE_POINTS = 256
+const MAX_OUTLINE_BOARDS = 64
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
 
 interface TableRow {
   id: string
@@ -24,6 +30,7 @@ interface TableRow {
   description: string | null
   width: number | null
   depth: number | null
+  outline: TableOutline | null
   layout: any
   is_public: boolean
   share_code: string | null
@@ -52,6 +59,39 @@ function parseLayout(layout: unknown) {
   return { models: [] }
 }
 
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// A polygon of at least three corners, or one or more boards with a positive size
+function isValidOutline(value: unknown): value is TableOutline {
+  if (!value || typeof value !== 'object') return false
+  const { kind, points, boards } = value as Record<string, unknown>
+  if (kind === 'polygon') {
+    return Array.isArray(points) && points.length >= 3 && points.length <= MAX_OUTLINE_POINTS
+      && points.every((p) => p && isFiniteNumber(p.x) && isFiniteNumber(p.z))
+  }
+  if (kind === 'boards') {
+    return Array.isArray(boards) && boards.length >= 1 && boards.length <= MAX_OUTLINE_BOARDS
+      && boards.every((b) => b && isFiniteNumber(b.x) && isFiniteNumber(b.z)
+        && isFiniteNumber(b.width) && b.width > 0 && isFiniteNumber(b.depth) && b.depth > 0)
+  }
+  return false
+}
+
+interface TableRevisionRow {
+  id: string
+  table_id: string
+  revision_number: number
+  layout: any
+  author_id: string | null
+  author_name?: string | null
+  message: string | null
+  parent_revision_id: string | null
+  created_at: string
+  model_count?: number
+}
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<any> }
+
 function mapTableRow(row: TableRow) {
   const layout = parseLayout(row.layout)
   const modelCount =
@@ -68,6 +108,7 @@ function mapTableRow(row: TableRow) {
     description: row.description,
     width: row.width !== null && row.width !== undefined ? Number(row.width) : null,
     depth: row.depth !== null && row.depth !== undefined ? Number(row.depth) : null,
+    outline: row.outline ?? null,
     layout,
     isPublic: row.is_public,
     shareCode: row.share_code,
@@ -80,6 +121,67 @@ function mapTableRow(row: TableRow) {
   }
 }
 
+function mapRevisionRow(row: TableRevisionRow, includeLayout = false) {
+  return {
+    id: row.id,
+    tableId: row.table_id,
+    revisionNumber: Number(row.revision_number),
+    authorId: row.author_id,
+    authorName: row.author_name ?? null,
+    message: row.message,
+    parentRevisionId: row.parent_revision_id,
+    createdAt: row.created_at,
+    modelCount: Number(row.model_count ?? 0),
+    ...(includeLayout ? { layout: parseLayout(row.layout) } : {}),
+  }
+}
+
+// Append a snapshot to the table's history. Callers update the tables row first in the
+// same transaction, so that row lock serialises concurrent saves of one table.
+async function recordRevision(
+  client: Queryable,
+  tableId: string,
+  layout: unknown,
+  authorId: string | null,
+  message: string | null,
+  parentRevisionId: string | null = null,
+) {
+  const result = await client.query(
+    `
+    INSERT INTO table_revisions (table_id, revision_number, layout, author_id, message, parent_revision_id)
+    SELECT $1, COALESCE(MAX(revision_number), 0) + 1, $2, $3, $4, $5
+    FROM table_revisions
+    WHERE table_id = $1
+    RETURNING *
+  `,
+    [tableId, JSON.stringify(layout), authorId, message, parentRevisionId],
+  )
+  return result.rows[0] as TableRevisionRow
+}
+
+async function getRevision(tableId: string, revisionId: string) {
+  const result = await db.query(
+    `
+    SELECT
+      r.*,
+      u.display_name AS author_name,
+      jsonb_array_length(COALESCE(r.layout->'models', '[]'::jsonb)) AS model_count
+    FROM table_revisions r
+    LEFT JOIN users u ON u.id = r.author_id
+    WHERE r.table_id = $1 AND r.id = $2
+  `,
+    [tableId, revisionId],
+  )
+  return (result.rows[0] as TableRevisionRow | undefined) ?? null
+}
+
+function revisionMessage(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null
+  }
+  return value.trim().slice(0, 255)
+}
+
 async function requireTableOwnership(tableId: string, req: AuthRequest) {
   const result = await db.query(
     `SELECT user_id FROM tables WHERE id = $1`,
@@ -101,6 +203,25 @@ async function requireTableOwnership(tableId: string, req: AuthRequest) {
   }
 }
 
+// Public tables can be read (and branched) by anyone; private ones by the owner or an admin
+async function requireTableReadAccess(tableId: string, req: AuthRequest) {
+  const result = await db.query(`SELECT * FROM tables WHERE id = $1`, [tableId])
+
+  if (result.rowCount === 0) {
+    return { exists: false, allowed: false, table: null }
+  }
+
+  const table = result.rows[0] as TableRow
+  const isOwner = table.user_id !== null && req.userId === table.user_id
+  const isAdmin = req.user?.role === 'admin'
+
+  return {
+    exists: true,
+    allowed: table.is_public || isOwner || isAdmin,
+    table,
+  }
+}
+
 function buildPublicSort(sort: string | undefined): string {
   switch (sort) {
     case 'newest':
@@ -126,6 +247,7 @@ router.post(
       description = '',
       width,
       depth,
+      outline = null,
       layout,
       isPublic = false,
     } = req.body as Record<string, unknown>
@@ -143,6 +265,11 @@ router.post(
       res.status(400).json({ error: 'depth must be a positive number' })
       return
     }
+    if (outline !== null && !isValidOutline(outline)) {
+      res.status(400).json({ error: 'outline must be a polygon or a list of boards' })
+      return
+    }
+    const outlineValue = outline as TableOutline | null
 
     let sessionId: string | null = null
     if (!req.userId) {
@@ -187,6 +314,7 @@ router.post(
         description: description ? String(description) : '',
         width: widthValue,
         depth: depthValue,
+        outline: outlineValue,
         layout: layoutValue,
         isPublic: Boolean(isPublic),
         shareCode,
@@ -213,6 +341,7 @@ router.post(
           description: mockTable.description,
           width: mockTable.width,
           depth: mockTable.depth,
+          outline: mockTable.outline,
           layout: mockTable.layout,
           isPublic: mockTable.isPublic,
           shareCode: mockTable.shareCode,
@@ -226,34 +355,40 @@ router.post(
       return
     }
 
-    const result = await db.query(
-      `
-      INSERT INTO tables (
-        user_id,
-        session_id,
-        name,
-        description,
-        width,
-        depth,
-        layout,
-        is_public,
-        share_code
+    const result = await transaction(async (client) => {
+      const inserted = await client.query(
+        `
+        INSERT INTO tables (
+          user_id,
+          session_id,
+          name,
+          description,
+          width,
+          depth,
+          outline,
+          layout,
+          is_public,
+          share_code
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+        RETURNING *
+      `,
+        [
+          req.userId ?? null,
+          sessionId,
+          String(name).trim(),
+          description ? String(description) : '',
+          widthValue,
+          depthValue,
+          outlineValue ? JSON.stringify(outlineValue) : null,
+          JSON.stringify(layoutValue),
+          Boolean(isPublic),
+          shareCode,
+        ],
       )
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      RETURNING *
-    `,
-      [
-        req.userId ?? null,
-        sessionId,
-        String(name).trim(),
-        description ? String(description) : '',
-        widthValue,
-        depthValue,
-        JSON.stringify(layoutValue),
-        Boolean(isPublic),
-        shareCode,
-      ],
-    )
+      await recordRevision(client, inserted.rows[0].id, layoutValue, req.userId ?? null, 'Created')
+      return inserted
+    })
 
     const saved = mapTableRow(result.rows[0])
 
@@ -289,10 +424,22 @@ router.put(
       return
     }
 
-    const { name, description, width, depth, layout, isPublic } = req.body as Record<
+    const { name, description, width, depth, outline, layout, isPublic, message, expectedUpdatedAt } = req.body as Record<
       string,
       unknown
     >
+    const layoutValue = layout !== undefined ? parseLayout(layout) : undefined
+
+    // Optimistic concurrency for offline clients: the update only applies to the version
+    // they edited (checked in the UPDATE itself), otherwise they get what is there now
+    let expected: Date | null = null
+    if (expectedUpdatedAt !== undefined) {
+      expected = new Date(String(expectedUpdatedAt))
+      if (!Number.isFinite(expected.getTime())) {
+        res.status(400).json({ error: 'expectedUpdatedAt must be a timestamp' })
+        return
+      }
+    }
 
     const updates: string[] = []
     const params: any[] = []
@@ -328,9 +475,18 @@ router.put(
       params.push(depthValue)
     }
 
-    if (layout !== undefined) {
+    if (outline !== undefined) {
+      if (outline !== null && !isValidOutline(outline)) {
+        res.status(400).json({ error: 'outline must be a polygon or a list of boards' })
+        return
+      }
+      updates.push(`outline = $${updates.length + 1}`)
+      params.push(outline === null ? null : JSON.stringify(outline))
+    }
+
+    if (layoutValue !== undefined) {
       updates.push(`layout = $${updates.length + 1}`)
-      params.push(JSON.stringify(parseLayout(layout)))
+      params.push(JSON.stringify(layoutValue))
     }
 
     if (isPublic !== undefined) {
@@ -340,22 +496,53 @@ router.put(
 
     if (updates.length === 0) {
       const current = await db.query(`SELECT * FROM tables WHERE id = $1`, [id])
+      if (current.rows.length === 0) {
+        res.status(404).json({ error: 'Table not found' })
+        return
+      }
       res.json({ table: mapTableRow(current.rows[0]) })
       return
     }
 
     updates.push(`updated_at = CURRENT_TIMESTAMP`)
     params.push(id)
+    const conditions = [`id = $${params.length}`]
+    if (expected) {
+      // API timestamps carry milliseconds; the column keeps microseconds
+      params.push(expected)
+      conditions.push(`date_trunc('milliseconds', updated_at) = $${params.length}`)
+    }
 
-    const result = await db.query(
-      `
-      UPDATE tables
-      SET ${updates.join(', ')}
-      WHERE id = $${params.length}
-      RETURNING *
-    `,
-      params
-    )
+    // every layout save becomes a revision; metadata-only edits don't
+    const result = await transaction(async (client) => {
+      const updatedResult = await client.query(
+        `
+        UPDATE tables
+        SET ${updates.join(', ')}
+        WHERE ${conditions.join(' AND ')}
+        RETURNING *
+      `,
+        params
+      )
+      if (updatedResult.rowCount === 0) return null
+      if (layoutValue !== undefined) {
+        await recordRevision(client, id, layoutValue, req.userId ?? null, revisionMessage(message))
+      }
+      return updatedResult
+    })
+
+    if (!result) {
+      const current = await db.query(`SELECT * FROM tables WHERE id = $1`, [id])
+      if (current.rows.length === 0) {
+        res.status(404).json({ error: 'Table not found' })
+        return
+      }
+      res.status(409).json({
+        error: 'Table has changed since it was last synced',
+        table: mapTableRow(current.rows[0]),
+      })
+      return
+    }
 
     const updated = mapTableRow(result.rows[0])
 
@@ -363,6 +550,7 @@ router.put(
       tableId: updated.id,
       userId: updated.userId,
       updatedFields: updates.length,
+      newRevision: layoutValue !== undefined,
     })
 
     res.json({ table: updated })
@@ -474,31 +662,37 @@ router.post(
     const shareCode = crypto.randomBytes(8).toString('hex').toUpperCase()
     const cloneName = name ? String(name).trim() : `${source.name} (Copy)`
 
-    const result = await db.query(
-      `
-      INSERT INTO tables (
-        user_id,
-        name,
-        description,
-        width,
-        depth,
-        layout,
-        is_public,
-        share_code
+    const result = await transaction(async (client) => {
+      const inserted = await client.query(
+        `
+        INSERT INTO tables (
+          user_id,
+          name,
+          description,
+          width,
+          depth,
+          outline,
+          layout,
+          is_public,
+          share_code
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, false, $8)
+        RETURNING *
+      `,
+        [
+          req.userId ?? null,
+          cloneName,
+          source.description,
+          source.width,
+          source.depth,
+          source.outline ? JSON.stringify(source.outline) : null,
+          JSON.stringify(source.layout),
+          shareCode,
+        ]
       )
-      VALUES ($1, $2, $3, $4, $5, $6, false, $7)
-      RETURNING *
-    `,
-      [
-        req.userId ?? null,
-        cloneName,
-        source.description,
-        source.width,
-        source.depth,
-        JSON.stringify(source.layout),
-        shareCode,
-      ]
-    )
+      await recordRevision(client, inserted.rows[0].id, parseLayout(source.layout), req.userId ?? null, `Cloned from ${source.name}`)
+      return inserted
+    })
 
     await db.query(
       `UPDATE tables SET clone_count = COALESCE(clone_count, 0) + 1 WHERE id = $1`,
@@ -551,6 +745,265 @@ router.post(
   })
 )
 
+// ---------------------------------------------------------------------------
+// Layout revisions
+// ---------------------------------------------------------------------------
+
+router.get(
+  '/:id/revisions',
+  optionalAuth,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { id } = req.params
+    const access = await requireTableReadAccess(id, req)
+
+    if (!access.exists) {
+      res.status(404).json({ error: 'Table not found' })
+      return
+    }
+    if (!access.allowed) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const result = await db.query(
+      `
+      SELECT
+        r.id,
+        r.table_id,
+        r.revision_number,
+        r.author_id,
+        r.message,
+        r.parent_revision_id,
+        r.created_at,
+        u.display_name AS author_name,
+        jsonb_array_length(COALESCE(r.layout->'models', '[]'::jsonb)) AS model_count
+      FROM table_revisions r
+      LEFT JOIN users u ON u.id = r.author_id
+      WHERE r.table_id = $1
+      ORDER BY r.revision_number DESC
+    `,
+      [id]
+    )
+
+    res.json({ revisions: result.rows.map((row: TableRevisionRow) => mapRevisionRow(row)) })
+  })
+)
+
+router.get(
+  '/:id/revisions/diff',
+  optionalAuth,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { id } = req.params
+    const { from, to } = req.query as { from?: string; to?: string }
+
+    if (!from || !to) {
+      res.status(400).json({ error: 'from and to revision ids are required' })
+      return
+    }
+    if (!UUID_PATTERN.test(from) || !UUID_PATTERN.test(to)) {
+      res.status(400).json({ error: 'Invalid revision id' })
+      return
+    }
+
+    const access = await requireTableReadAccess(id, req)
+    if (!access.exists) {
+      res.status(404).json({ error: 'Table not found' })
+      return
+    }
+    if (!access.allowed) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const [fromRevision, toRevision] = await Promise.all([getRevision(id, from), getRevision(id, to)])
+    if (!fromRevision || !toRevision) {
+      res.status(404).json({ error: 'Revision not found' })
+      return
+    }
+
+    res.json({
+      from: mapRevisionRow(fromRevision),
+      to: mapRevisionRow(toRevision),
+      diff: diffLayouts(parseLayout(fromRevision.layout), parseLayout(toRevision.layout)),
+    })
+  })
+)
+
+router.get(
+  '/:id/revisions/:revisionId',
+  optionalAuth,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { id, revisionId } = req.params
+    if (!UUID_PATTERN.test(revisionId)) {
+      res.status(400).json({ error: 'Invalid revision id' })
+      return
+    }
+    const access = await requireTableReadAccess(id, req)
+
+    if (!access.exists) {
+      res.status(404).json({ error: 'Table not found' })
+      return
+    }
+    if (!access.allowed) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const revision = await getRevision(id, revisionId)
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' })
+      return
+    }
+
+    res.json({ revision: mapRevisionRow(revision, true) })
+  })
+)
+
+// Restoring writes the old layout back as a new revision, so nothing is lost
+router.post(
+  '/:id/revisions/:revisionId/restore',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { id, revisionId } = req.params
+    if (!UUID_PATTERN.test(revisionId)) {
+      res.status(400).json({ error: 'Invalid revision id' })
+      return
+    }
+    const ownership = await requireTableOwnership(id, req)
+
+    if (!ownership.exists) {
+      res.status(404).json({ error: 'Table not found' })
+      return
+    }
+    if (!ownership.allowed) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const revision = await getRevision(id, revisionId)
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' })
+      return
+    }
+
+    const layoutValue = parseLayout(revision.layout)
+    const { table, created } = await transaction(async (client) => {
+      const updatedResult = await client.query(
+        `
+        UPDATE tables
+        SET layout = $1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2
+        RETURNING *
+      `,
+        [JSON.stringify(layoutValue), id]
+      )
+      const createdRevision = await recordRevision(
+        client,
+        id,
+        layoutValue,
+        req.userId ?? null,
+        `Restored revision ${revision.revision_number}`,
+        revision.id,
+      )
+      return { table: updatedResult.rows[0] as TableRow, created: createdRevision }
+    })
+
+    tablesLogger.info('Table layout restored', {
+      tableId: id,
+      userId: req.userId,
+      fromRevision: revision.revision_number,
+      newRevision: created.revision_number,
+    })
+
+    res.json({ table: mapTableRow(table), revision: mapRevisionRow(created) })
+  })
+)
+
+// Branching starts a new table from a revision; the source table is left untouched
+router.post(
+  '/:id/revisions/:revisionId/branch',
+  authenticate,
+  asyncHandler(async (req: AuthRequest, res) => {
+    const { id, revisionId } = req.params
+    const { name } = req.body as { name?: string }
+    if (!UUID_PATTERN.test(revisionId)) {
+      res.status(400).json({ error: 'Invalid revision id' })
+      return
+    }
+    const access = await requireTableReadAccess(id, req)
+
+    if (!access.exists || !access.table) {
+      res.status(404).json({ error: 'Table not found' })
+      return
+    }
+    if (!access.allowed) {
+      res.status(403).json({ error: 'Forbidden' })
+      return
+    }
+
+    const revision = await getRevision(id, revisionId)
+    if (!revision) {
+      res.status(404).json({ error: 'Revision not found' })
+      return
+    }
+
+    const source = access.table
+    const branchName = name ? String(name).trim() : `${source.name} (rev ${revision.revision_number})`
+    validateString(branchName, 'name', { minLength: 3, maxLength: 255 })
+
+    const shareCode = crypto.randomBytes(8).toString('hex').toUpperCase()
+    const layoutValue = parseLayout(revision.layout)
+
+    const result = await transaction(async (client) => {
+      const inserted = await client.query(
+        `
+        INSERT INTO tables (
+          user_id,
+          name,
+          description,
+          width,
+          depth,
+          outline,
+          layout,
+          is_public,
+          share_code
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, false, $8)
+        RETURNING *
+      `,
+        [
+          req.userId ?? null,
+          branchName,
+          source.description,
+          source.width,
+          source.depth,
+          source.outline ? JSON.stringify(source.outline) : null,
+          JSON.stringify(layoutValue),
+          shareCode,
+        ]
+      )
+      await recordRevision(
+        client,
+        inserted.rows[0].id,
+        layoutValue,
+        req.userId ?? null,
+        `Branched from ${source.name} revision ${revision.revision_number}`,
+        revision.id,
+      )
+      return inserted
+    })
+
+    tablesLogger.info('Table layout branched', {
+      sourceId: id,
+      revisionId,
+      branchId: result.rows[0].id,
+      userId: req.userId,
+    })
+
+    res.status(201).json({ table: mapTableRow(result.rows[0]) })
+  })
+)
+
 // ---------------------------------------------------------------------------
 // Get current user's tables
 // ---------------------------------------------------------------------------
@@ -777,6 +1230,7 @@ router.get(
           description: mockTable.description,
           width: mockTable.width,
           depth: mockTable.depth,
+          outline: mockTable.outline,
           layout: mockTable.layout,
           isPublic: mockTable.isPublic,
           shareCode: mockTable.shareCode,
@@ -0,0 +1,334 @@
+// backend/src/services/collaboration.ts
+// Live table editing: collaborators on a table share instance operations and presence
+// over a WebSocket at /api/tables/:id/collab. Rooms live in memory; saving the layout
+// still goes through PUT /api/tables/:id.
+
+import crypto from 'crypto'
+import type { IncomingMessage, Server } from 'http'
+import { STATUS_CODES } from 'http'
+import type { Duplex } from 'stream'
+import { WebSocket, WebSocketServer, type RawData } from 'ws'
+import { userFromToken, type User } from '../middleware/auth'
+import { canModifyTable, canViewTable, loadTable, type TableActor } from '../routes/table-library'
+import logger from '../utils/logger'
+
+const collabLogger = logger.child('COLLAB')
+
+const COLLAB_PATH = /^\/api\/tables\/([^/]+)\/collab\/?$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+const HEARTBEAT_MS = 30_000
+const MAX_PAYLOAD_BYTES = 1024 * 1024
+const MAX_SELECTION = 500
+const PEER_COLORS = ['#ff6b6b', '#4dabf7', '#51cf66', '#fcc419', '#cc5de8', '#ff922b', '#20c997', '#f06595']
+
+type OpKind = 'add' | 'update' | 'remove'
+
+interface Cursor {
+  x: number
+  z: number
+}
+
+interface Peer {
+  clientId: string
+  name: string
+  color: string
+  canEdit: boolean
+  cursor: Cursor | null
+  selection: string[]
+}
+
+// Latest accepted state of one instance; `instance` is null once removed
+interface InstanceEntry {
+  version: number
+  instance: Record<string, unknown> | null
+  lastClientId: string
+}
+
+interface Room {
+  tableId: string
+  clients: Map<WebSocket, Peer>
+  instances: Map<string, InstanceEntry>
+  nextColor: number
+}
+
+const rooms = new Map<string, Room>()
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+interface OpMessage {
+  type: 'op'
+  opId: string
+  kind: OpKind
+  instanceId: string
+  baseVersion: number
+  instance?: Record<string, unknown>
+}
+
+interface PresenceMessage {
+  type: 'presence'
+  cursor: Cursor | null
+  selection: string[]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function parseCursor(value: unknown): Cursor | null {
+  if (!isRecord(value)) return null
+  const x = Number(value.x)
+  const z = Number(value.z)
+  return Number.isFinite(x) && Number.isFinite(z) ? { x, z } : null
+}
+
+function parseMessage(data: RawData): OpMessage | PresenceMessage | null {
+  let message: unknown
+  try {
+    message = JSON.parse(data.toString())
+  } catch {
+    return null
+  }
+  if (!isRecord(message)) return null
+
+  if (message.type === 'op') {
+    const { opId, kind, instanceId, baseVersion, instance } = message
+    if (typeof opId !== 'string' || typeof instanceId !== 'string' || !instanceId) return null
+    if (kind !== 'add' && kind !== 'update' && kind !== 'remove') return null
+    if (kind !== 'remove' && (!isRecord(instance) || instance.id !== instanceId)) return null
+    return {
+      type: 'op',
+      opId,
+      kind,
+      instanceId,
+      baseVersion: Number.isInteger(baseVersion) ? Number(baseVersion) : 0,
+      instance: kind === 'remove' ? undefined : (instance as Record<string, unknown>),
+    }
+  }
+
+  if (message.type === 'presence') {
+    const selection = Array.isArray(message.selection)
+      ? message.selection.filter((id): id is string => typeof id === 'string').slice(0, MAX_SELECTION)
+      : []
+    return { type: 'presence', cursor: parseCursor(message.cursor), selection }
+  }
+
+  return null
+}
+
+function send(socket: WebSocket, message: Record<string, unknown>) {
+  if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+}
+
+function broadcast(room: Room, message: Record<string, unknown>, except?: WebSocket) {
+  const payload = JSON.stringify(message)
+  for (const socket of room.clients.keys()) {
+    if (socket !== except && socket.readyState === WebSocket.OPEN) socket.send(payload)
+  }
+}
+
+function publicPeer({ clientId, name, color, canEdit, cursor, selection }: Peer) {
+  return { clientId, name, color, canEdit, cursor, selection }
+}
+
+// ============================================================================
+// CONFLICT RESOLUTION
+// ============================================================================
+
+/**
+ * Conflicts are settled per instance: every accepted operation bumps that instance's
+ * version. An operation is accepted when it was made against the current version, or
+ * when its sender made the last accepted change (a drag streams updates faster than
+ * acks arrive). Otherwise it is rejected and the sender gets the winning state back.
+ */
+function applyOperation(room: Room, peer: Peer, op: OpMessage): { accepted: boolean; entry?: InstanceEntry; reason?: string } {
+  const current = room.instances.get(op.instanceId)
+
+  if (op.kind === 'add') {
+    if (current?.instance) return { accepted: false, entry: current, reason: 'Instance already exists' }
+  } else if (current) {
+    if (!current.instance) return { accepted: false, entry: current, reason: 'Instance was removed' }
+    if (current.version !== op.baseVersion && current.lastClientId !== peer.clientId) {
+      return { accepted: false, entry: current, reason: 'Instance was changed by someone else' }
+    }
+  }
+
+  const entry: InstanceEntry = {
+    version: (current?.version ?? 0) + 1,
+    instance: op.kind === 'remove' ? null : (op.instance ?? null),
+    lastClientId: peer.clientId,
+  }
+  room.instances.set(op.instanceId, entry)
+  return { accepted: true, entry }
+}
+
+// ============================================================================
+// CONNECTIONS
+// ============================================================================
+
+function joinRoom(socket: WebSocket, tableId: string, user: User | null, canEdit: boolean) {
+  let room = rooms.get(tableId)
+  if (!room) {
+    room = { tableId, clients: new Map(), instances: new Map(), nextColor: 0 }
+    rooms.set(tableId, room)
+  }
+
+  const peer: Peer = {
+    clientId: crypto.randomUUID(),
+    name: user?.display_name || 'Guest',
+    color: PEER_COLORS[room.nextColor++ % PEER_COLORS.length],
+    canEdit,
+    cursor: null,
+    selection: [],
+  }
+
+  send(socket, {
+    type: 'welcome',
+    clientId: peer.clientId,
+    color: peer.color,
+    canEdit,
+    peers: Array.from(room.clients.values()).map(publicPeer),
+    // changes made in this room since it opened, on top of the saved layout
+    instances: Array.from(room.instances, ([instanceId, entry]) => ({
+      instanceId,
+      version: entry.version,
+      instance: entry.instance,
+    })),
+  })
+  room.clients.set(socket, peer)
+  broadcast(room, { type: 'join', peer: publicPeer(peer) }, socket)
+
+  const activeRoom = room
+  socket.on('message', (data) => handleMessage(activeRoom, socket, peer, data))
+  socket.on('close', () => {
+    activeRoom.clients.delete(socket)
+    broadcast(activeRoom, { type: 'leave', clientId: peer.clientId })
+    if (activeRoom.clients.size === 0) rooms.delete(activeRoom.tableId)
+  })
+}
+
+function handleMessage(room: Room, socket: WebSocket, peer: Peer, data: RawData) {
+  const message = parseMessage(data)
+  if (!message) {
+    send(socket, { type: 'error', error: 'Malformed message' })
+    return
+  }
+
+  if (message.type === 'presence') {
+    peer.cursor = message.cursor
+    peer.selection = message.selection
+    broadcast(room, { type: 'presence', peer: publicPeer(peer) }, socket)
+    return
+  }
+
+  if (!peer.canEdit) {
+    send(socket, { type: 'error', error: 'You do not have permission to edit this table' })
+    return
+  }
+
+  const result = applyOperation(room, peer, message)
+  if (!result.accepted) {
+    send(socket, {
+      type: 'reject',
+      opId: message.opId,
+      instanceId: message.instanceId,
+      version: result.entry?.version ?? 0,
+      instance: result.entry?.instance ?? null,
+      reason: result.reason,
+    })
+    return
+  }
+
+  const version = result.entry!.version
+  send(socket, { type: 'ack', opId: message.opId, instanceId: message.instanceId, version })
+  broadcast(
+    room,
+    {
+      type: 'op',
+      clientId: peer.clientId,
+      kind: message.kind,
+      instanceId: message.instanceId,
+      instance: result.entry!.instance,
+      version,
+    },
+    socket,
+  )
+}
+
+function rejectUpgrade(socket: Duplex, status: number) {
+  socket.write(`HTTP/1.1 ${status} ${STATUS_CODES[status]}\r\nConnection: close\r\n\r\n`)
+  socket.destroy()
+}
+
+/**
+ * Browsers can't set headers on a WebSocket, so the access token and anonymous
+ * session id come as `token` / `session` query parameters.
+ */
+async function authorizeUpgrade(req: IncomingMessage, tableId: string) {
+  const url = new URL(req.url ?? '', 'http://localhost')
+  const token = url.searchParams.get('token')
+  const sessionId = url.searchParams.get('session')
+
+  const user = token ? await userFromToken(token) : null
+  const actor: TableActor = user
+    ? { user, userId: user.id, session: { id: user.id, isAnonymous: false, tableLimit: Number.POSITIVE_INFINITY } }
+    : sessionId && UUID_PATTERN.test(sessionId)
+      ? { session: { id: sessionId, isAnonymous: true, tableLimit: 0 } }
+      : {}
+
+  const table = await loadTable(tableId)
+  if (!table) return { status: 404 }
+  if (!canViewTable(actor, table)) return { status: 403 }
+  return { status: 101, user, canEdit: canModifyTable(actor, table) }
+}
+
+export function attachCollaboration(server: Server): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES })
+  const alive = new WeakMap<WebSocket, boolean>()
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    // other upgrade listeners (dev proxies, future channels) own every other path
+    const match = COLLAB_PATH.exec(new URL(req.url ?? '', 'http://localhost').pathname)
+    if (!match) return
+    const tableId = decodeURIComponent(match[1])
+
+    authorizeUpgrade(req, tableId)
+      .then((access) => {
+        if (access.status !== 101) {
+          rejectUpgrade(socket, access.status)
+          return
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => {
+          alive.set(ws, true)
+          ws.on('pong', () => alive.set(ws, true))
+          joinRoom(ws, tableId, access.user ?? null, Boolean(access.canEdit))
+          collabLogger.debug('Collaborator joined', { tableId, userId: access.user?.id, canEdit: access.canEdit })
+        })
+      })
+      .catch((error) => {
+        collabLogger.error('Collaboration upgrade failed', { tableId, error })
+        rejectUpgrade(socket, 500)
+      })
+  })
+
+  // Drop sockets that stopped answering pings so their cursors don't linger
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!alive.get(ws)) {
+        ws.terminate()
+        continue
+      }
+      alive.set(ws, false)
+      ws.ping()
+    }
+  }, HEARTBEAT_MS)
+
+  server.on('close', () => {
+    clearInterval(heartbeat)
+    for (const ws of wss.clients) ws.terminate()
+    wss.close()
+  })
+
+  return wss
+}
@@ -6,7 +6,7 @@ import { Document, NodeIO, Primitive } from '@gltf-transform/core'
 import { dedup, prune, quantize, weld, draco } from '@gltf-transform/functions'
 import logger from '../utils/logger'
 import { STORAGE_PATHS } from './storage'
-import type { AABB, Footprint, PrintStats, FilePaths, Vector3 } from '../types/shared'
+import type { AABB, Footprint, PrintStats, FilePaths, LodFile, Vector3, OccupancyMask, Connector } from '../types/shared'
 import { PNG } from 'pngjs'
 
 // ============================================================================
@@ -18,7 +18,7 @@ interface Triangle {
   vertices: [Vector3, Vector3, Vector3]
 }
 
-interface ParsedSTL {
+export interface ParsedSTL {
   triangles: Triangle[]
   triangleCount: number
   isBinary: boolean
@@ -198,6 +198,98 @@ export function calculateFootprint(aabb: AABB): Footprint {
   }
 }
 
+// Cells along the longer side of the default occupancy mask
+const OCCUPANCY_MASK_RESOLUTION = 32
+
+/**
+ * Derive a default occupancy mask from the model's top-down silhouette
+ *
+ * Every triangle is projected onto the XY plane (the table, Z up) and rasterised
+ * over the width × depth rectangle. Cell centres inside a triangle are blocked, and
+ * edges are walked at half-cell steps so thin vertical walls still register.
+ */
+export function calculateOccupancyMask(stl: ParsedSTL, aabb: AABB): OccupancyMask {
+  const width = Math.max(aabb.max.x - aabb.min.x, 1e-6)
+  const depth = Math.max(aabb.max.y - aabb.min.y, 1e-6)
+  const cellSize = Math.max(width, depth) / OCCUPANCY_MASK_RESOLUTION
+  const cols = Math.max(1, Math.ceil(width / cellSize))
+  const rows = Math.max(1, Math.ceil(depth / cellSize))
+  const blocked = new Uint8Array(cols * rows)
+
+  const toCol = (x: number) => Math.min(cols - 1, Math.max(0, Math.floor((x - aabb.min.x) / cellSize)))
+  const toRow = (y: number) => Math.min(rows - 1, Math.max(0, Math.floor((y - aabb.min.y) / cellSize)))
+  const mark = (x: number, y: number) => { blocked[toRow(y) * cols + toCol(x)] = 1 }
+
+  for (const triangle of stl.triangles) {
+    const [a, b, c] = triangle.vertices
+
+    for (const [p, q] of [[a, b], [b, c], [c, a]] as const) {
+      const steps = Math.max(1, Math.ceil(Math.hypot(q.x - p.x, q.y - p.y) / (cellSize / 2)))
+      for (let i = 0; i <= steps; i++) {
+        const t = i / steps
+        mark(p.x + (q.x - p.x) * t, p.y + (q.y - p.y) * t)
+      }
+    }
+
+    const area = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y)
+    if (Math.abs(area) < 1e-12) continue // edge-on: the edge walk already covered it
+
+    const c0 = toCol(Math.min(a.x, b.x, c.x)), c1 = toCol(Math.max(a.x, b.x, c.x))
+    const r0 = toRow(Math.min(a.y, b.y, c.y)), r1 = toRow(Math.max(a.y, b.y, c.y))
+    for (let r = r0; r <= r1; r++) {
+      for (let col = c0; col <= c1; col++) {
+        const px = aabb.min.x + (col + 0.5) * cellSize
+        const py = aabb.min.y + (r + 0.5) * cellSize
+        const w0 = ((b.x - px) * (c.y - py) - (c.x - px) * (b.y - py)) / area
+        const w1 = ((c.x - px) * (a.y - py) - (a.x - px) * (c.y - py)) / area
+        if (w0 >= 0 && w1 >= 0 && w0 + w1 <= 1) blocked[r * cols + col] = 1
+      }
+    }
+  }
+
+  return { type: 'bitmap', cols, rows, cells: Array.from(blocked).join('') }
+}
+
+/**
+ * Check an artist-supplied occupancy mask before storing it
+ */
+export function isValidOccupancyMask(mask: unknown): mask is OccupancyMask {
+  if (!mask || typeof mask !== 'object') return false
+  const m = mask as Record<string, unknown>
+  if (m.type === 'bitmap') {
+    return Number.isInteger(m.cols) && Number.isInteger(m.rows)
+      && (m.cols as number) > 0 && (m.rows as number) > 0
+      && typeof m.cells === 'string'
+      && m.cells.length === (m.cols as number) * (m.rows as number)
+      && /^[01]*$/.test(m.cells)
+  }
+  if (m.type === 'polygon') {
+    return Array.isArray(m.points) && m.points.length >= 3
+      && m.points.every((p) => Array.isArray(p) && p.length === 2 && p.every(Number.isFinite))
+  }
+  return false
+}
+
+// Enough for any modular piece; stops a form from storing an unbounded list
+const MAX_CONNECTORS = 32
+
+/**
+ * Check artist-supplied connectors before storing them: named uniquely, typed, with
+ * finite positions and facings
+ */
+export function isValidConnectors(value: unknown): value is Connector[] {
+  if (!Array.isArray(value) || value.length > MAX_CONNECTORS) return false
+  const names = new Set<string>()
+  return value.every((c) => {
+    if (!c || typeof c !== 'object') return false
+    const { name, type, x, z, facingDeg } = c as Record<string, unknown>
+    if (typeof name !== 'string' || !name.trim() || name.length > 50 || names.has(name)) return false
+    names.add(name)
+    return typeof type === 'string' && type.trim().length > 0 && type.length <= 50
+      && [x, z, facingDeg].every((n) => typeof n === 'number' && Number.isFinite(n))
+  })
+}
+
 /**
  * Calculate mesh volume using divergence theorem
  */
@@ -333,6 +425,41 @@ function decimateMesh(stl: ParsedSTL, decimationLevel: number): ParsedSTL {
   }
 }
 
+// Decimation % for each distance LOD an upload gets, finest first
+export const DEFAULT_LOD_LEVELS = [60, 85]
+
+/**
+ * Coarser copies of a mesh for distant views, written next to its GLB as
+ * `<name>_lod1.glb`, `<name>_lod2.glb`, ... (finest first). Each level is decimated from
+ * the full mesh, not from the previous level, so errors don't compound.
+ *
+ * A level that fails to convert is skipped; the builder falls back to the next finer one.
+ */
+export async function generateLodGLBs(
+  stl: ParsedSTL,
+  glbPath: string,
+  levels: number[],
+  options?: { enableDraco?: boolean; dracoCompressionLevel?: number }
+): Promise<Array<Omit<LodFile, 'glb'> & { path: string }>> {
+  const lods: Array<Omit<LodFile, 'glb'> & { path: string }> = []
+  const base = glbPath.replace(/\.glb$/i, '')
+  const sorted = [...levels].filter(level => level > 0 && level < 100).sort((a, b) => a - b)
+
+  for (const decimationLevel of sorted) {
+    const decimated = decimateMesh(stl, decimationLevel)
+    // not worth a separate file if decimation barely changed anything
+    if (decimated.triangleCount >= stl.triangleCount * 0.9) continue
+    const lodPath = `${base}_lod${lods.length + 1}.glb`
+    try {
+      await convertSTLtoGLB(decimated, lodPath, options)
+      lods.push({ path: lodPath, decimationLevel, triangleCount: decimated.triangleCount })
+    } catch (error) {
+      logger.warn('LOD conversion failed, skipping level', { error, glbPath, decimationLevel })
+    }
+  }
+  return lods
+}
+
 // ============================================================================
 // STL TO GLB CONVERSION
 // ============================================================================
@@ -663,6 +790,90 @@ export interface CompressionStats {
 // GLB TO STL CONVERSION (For customer downloads)
 // ============================================================================
 
+// Triangles of every mesh in a GLB, in the file's own units (metres, Y up)
+async function readGLBTriangles(glb: string | Uint8Array): Promise<Triangle[]> {
+  const io = new NodeIO()
+  const document = typeof glb === 'string' ? await io.read(glb) : await io.readBinary(glb)
+
+  // Extract all mesh data
+  const triangles: Triangle[] = []
+
+  // Traverse all meshes in the document
+  for (const mesh of document.getRoot().listMeshes()) {
+    for (const primitive of mesh.listPrimitives()) {
+      const positionAccessor = primitive.getAttribute('POSITION')
+      const indexAccessor = primitive.getIndices()
+
+      if (!positionAccessor) continue
+
+      const positions = positionAccessor.getArray() as Float32Array
+      const indices = indexAccessor?.getArray() as (Uint32Array | Uint16Array) | undefined
+
+      // If no indices, use positions directly
+      if (!indices) {
+        for (let i = 0; i < positions.length; i += 9) {
+          const v1 = { x: positions[i], y: positions[i + 1], z: positions[i + 2] }
+          const v2 = { x: positions[i + 3], y: positions[i + 4], z: positions[i + 5] }
+          const v3 = { x: positions[i + 6], y: positions[i + 7], z: positions[i + 8] }
+
+          // Calculate normal
+          const e1 = { x: v2.x - v1.x, y: v2.y - v1.y, z: v2.z - v1.z }
+          const e2 = { x: v3.x - v1.x, y: v3.y - v1.y, z: v3.z - v1.z }
+
+          let nx = e1.y * e2.z - e1.z * e2.y
+          let ny = e1.z * e2.x - e1.x * e2.z
+          let nz = e1.x * e2.y - e1.y * e2.x
+
+          const length = Math.hypot(nx, ny, nz)
+          if (length > 0) {
+            nx /= length
+            ny /= length
+            nz /= length
+          }
+
+          triangles.push({
+            normal: { x: nx, y: ny, z: nz },
+            vertices: [v1, v2, v3]
+          })
+        }
+      } else {
+        // Use indices to build triangles
+        for (let i = 0; i < indices.length; i += 3) {
+          const i1 = indices[i] * 3
+          const i2 = indices[i + 1] * 3
+          const i3 = indices[i + 2] * 3
+
+          const v1 = { x: positions[i1], y: positions[i1 + 1], z: positions[i1 + 2] }
+          const v2 = { x: positions[i2], y: positions[i2 + 1], z: positions[i2 + 2] }
+          const v3 = { x: positions[i3], y: positions[i3 + 1], z: positions[i3 + 2] }
+
+          // Calculate normal
+          const e1 = { x: v2.x - v1.x, y: v2.y - v1.y, z: v2.z - v1.z }
+          const e2 = { x: v3.x - v1.x, y: v3.y - v1.y, z: v3.z - v1.z }
+
+          let nx = e1.y * e2.z - e1.z * e2.y
+          let ny = e1.z * e2.x - e1.x * e2.z
+          let nz = e1.x * e2.y - e1.y * e2.x
+
+          const length = Math.hypot(nx, ny, nz)
+          if (length > 0) {
+            nx /= length
+            ny /= length
+            nz /= length
+          }
+
+          triangles.push({
+            normal: { x: nx, y: ny, z: nz },
+            vertices: [v1, v2, v3]
+          })
+        }
+      }
+    }
+  }
+
+  return triangles
+}
+
 /**
  * Convert GLB file back to STL format for customer downloads
  *
@@ -671,84 +882,7 @@ export interface CompressionStats {
  */
 export async function convertGLBtoSTL(glbPath: string, outputPath: string): Promise<void> {
   try {
-    const io = new NodeIO()
-    const document = await io.read(glbPath)
-
-    // Extract all mesh data
-    const triangles: Triangle[] = []
-
-    // Traverse all meshes in the document
-    for (const mesh of document.getRoot().listMeshes()) {
-      for (const primitive of mesh.listPrimitives()) {
-        const positionAccessor = primitive.getAttribute('POSITION')
-        const indexAccessor = primitive.getIndices()
-
-        if (!positionAccessor) continue
-
-        const positions = positionAccessor.getArray() as Float32Array
-        const indices = indexAccessor?.getArray() as (Uint32Array | Uint16Array) | undefined
-
-        // If no indices, use positions directly
-        if (!indices) {
-          for (let i = 0; i < positions.length; i += 9) {
-            const v1 = { x: positions[i], y: positions[i + 1], z: positions[i + 2] }
-            const v2 = { x: positions[i + 3], y: positions[i + 4], z: positions[i + 5] }
-            const v3 = { x: positions[i + 6], y: positions[i + 7], z: positions[i + 8] }
-
-            // Calculate normal
-            const e1 = { x: v2.x - v1.x, y: v2.y - v1.y, z: v2.z - v1.z }
-            const e2 = { x: v3.x - v1.x, y: v3.y - v1.y, z: v3.z - v1.z }
-
-            let nx = e1.y * e2.z - e1.z * e2.y
-            let ny = e1.z * e2.x - e1.x * e2.z
-            let nz = e1.x * e2.y - e1.y * e2.x
-
-            const length = Math.hypot(nx, ny, nz)
-            if (length > 0) {
-              nx /= length
-              ny /= length
-              nz /= length
-            }
-
-            triangles.push({
-              normal: { x: nx, y: ny, z: nz },
-              vertices: [v1, v2, v3]
-            })
-          }
-        } else {
-          // Use indices to build triangles
-          for (let i = 0; i < indices.length; i += 3) {
-            const i1 = indices[i] * 3
-            const i2 = indices[i + 1] * 3
-            const i3 = indices[i + 2] * 3
-
-            const v1 = { x: positions[i1], y: positions[i1 + 1], z: positions[i1 + 2] }
-            const v2 = { x: positions[i2], y: positions[i2 + 1], z: positions[i2 + 2] }
-            const v3 = { x: positions[i3], y: positions[i3 + 1], z: positions[i3 + 2] }
-
-            // Calculate normal
-            const e1 = { x: v2.x - v1.x, y: v2.y - v1.y, z: v2.z - v1.z }
-            const e2 = { x: v3.x - v1.x, y: v3.y - v1.y, z: v3.z - v1.z }
-
-            let nx = e1.y * e2.z - e1.z * e2.y
-            let ny = e1.z * e2.x - e1.x * e2.z
-            let nz = e1.x * e2.y - e1.y * e2.x
-
-            const length = Math.hypot(nx, ny, nz)
-            if (length > 0) {
-              nx /= length
-              ny /= length
-              nz /= length
-            }
-
-            triangles.push({
-              normal: { x: nx, y: ny, z: nz },
-              vertices: [v1, v2, v3]
-            })
-          }
-        }
-      }
-    }
+    const triangles = await readGLBTriangles(glbPath)
 
     // Write binary STL
     const triangleCount = triangles.length
@@ -790,6 +924,56 @@ export async function convertGLBtoSTL(glbPath: string, outputPath: string): Prom
   }
 }
 
+/**
+ * Convert a GLB preview to Wavefront OBJ for Tabletop Simulator, which can't load GLB.
+ * The mesh is written in inches (one TTS unit) at the model's own size, centred on X/Z
+ * with its base at Y = 0, so a piece stands on the point TTS places it at.
+ *
+ * @param glb - Path to the GLB file, or its contents
+ * @param outputPath - Path where the OBJ will be saved
+ */
+export async function convertGLBtoOBJ(glb: string | Uint8Array, outputPath: string): Promise<void> {
+  const METERS_TO_INCHES = 1 / 0.0254
+  try {
+    const triangles = await readGLBTriangles(glb)
+    if (triangles.length === 0) {
+      throw new Error('GLB contains no geometry')
+    }
+
+    const min = { x: Infinity, y: Infinity, z: Infinity }
+    const max = { x: -Infinity, y: -Infinity, z: -Infinity }
+    for (const triangle of triangles) {
+      for (const v of triangle.vertices) {
+        min.x = Math.min(min.x, v.x); max.x = Math.max(max.x, v.x)
+        min.y = Math.min(min.y, v.y); max.y = Math.max(max.y, v.y)
+        min.z = Math.min(min.z, v.z); max.z = Math.max(max.z, v.z)
+      }
+    }
+    const cx = (min.x + max.x) / 2
+    const cz = (min.z + max.z) / 2
+
+    const lines: string[] = ['# Converted from GLB by Artifact Armoury (units: inches)', 'o Terrain']
+    for (const triangle of triangles) {
+      for (const v of triangle.vertices) {
+        lines.push(
+          `v ${((v.x - cx) * METERS_TO_INCHES).toFixed(4)} ${((v.y - min.y) * METERS_TO_INCHES).toFixed(4)} ${((v.z - cz) * METERS_TO_INCHES).toFixed(4)}`
+        )
+      }
+    }
+    for (let i = 0; i < triangles.length; i++) {
+      const base = i * 3 + 1
+      lines.push(`f ${base} ${base + 1} ${base + 2}`)
+    }
+
+    await mkdir(path.dirname(outputPath), { recursive: true })
+    await writeFile(outputPath, lines.join('\n') + '\n')
+    logger.info('GLB to OBJ conversion successful', { outputPath, triangles: triangles.length })
+  } catch (error) {
+    logger.error('GLB to OBJ conversion failed', { error, outputPath })
+    throw new Error('Failed to convert GLB to OBJ')
+  }
+}
+
 // ============================================================================
 // COMPLETE FILE PROCESSING PIPELINE
 // ============================================================================
@@ -799,6 +983,7 @@ export interface ProcessFileResult {
   file_paths?: FilePaths
   aabb?: AABB
   footprint?: Footprint
+  occupancy_mask?: OccupancyMask
   print_stats?: PrintStats
   compression_stats?: CompressionStats
   error?: string
@@ -820,6 +1005,7 @@ export async function processSTLFile(
     decimationLevel?: number  // 0-90, default 0 (no decimation)
     enableDraco?: boolean     // default true
     dracoLevel?: number       // 0-10, default 7
+    lodLevels?: number[]      // decimation % per LOD level, default [60, 85]; [] for none
   }
 ): Promise<ProcessFileResult> {
   const processingLogger = logger.child('FILE_PROCESSOR')
@@ -838,7 +1024,7 @@ export async function processSTLFile(
     processingLogger.debug(`Parsed ${stl.triangleCount} triangles`)
 
     // 2. Apply decimation if requested
-    let decimationLevel = options?.decimationLevel ?? 0
+    const decimationLevel = options?.decimationLevel ?? 0
     if (decimationLevel > 0 && decimationLevel < 100) {
       processingLogger.debug(`Applying decimation: ${decimationLevel}%`)
       stl = decimateMesh(stl, decimationLevel)
@@ -849,6 +1035,7 @@ export async function processSTLFile(
     processingLogger.debug('Calculating geometry...')
     const aabb = calculateAABB(stl)
     const footprint = calculateFootprint(aabb)
+    const occupancyMask = calculateOccupancyMask(stl, aabb)
     const printStats = calculatePrintStats(stl, aabb)
 
     // 4. Convert to GLB with compression
@@ -858,6 +1045,7 @@ export async function processSTLFile(
 
     let glbBeforeDracoSize = 0
     let glbAfterDracoSize = 0
+    let lodFiles: LodFile[] = []
 
     try {
       // First pass: GLB without Draco to measure size
@@ -887,6 +1075,20 @@ export async function processSTLFile(
       const glbStats = await stat(glbPath)
       glbAfterDracoSize = glbStats.size
 
+      // 4b. Distance LODs, decimated from the mesh the full-detail GLB was built from
+      const lodLevels = options?.lodLevels ?? DEFAULT_LOD_LEVELS
+      if (lodLevels.length > 0) {
+        const lods = await generateLodGLBs(stl, glbPath, lodLevels, { enableDraco, dracoCompressionLevel: dracoLevel })
+        lodFiles = lods.map(({ path: lodPath, decimationLevel, triangleCount }) => ({
+          glb: path.relative(STORAGE_PATHS.models, lodPath),
+          decimationLevel,
+          triangleCount,
+        }))
+        processingLogger.debug(`Generated ${lodFiles.length} LOD levels`, {
+          triangles: lodFiles.map(lod => lod.triangleCount),
+        })
+      }
+
       processingLogger.info('GLB conversion successful', {
         glbBeforeDraco: glbBeforeDracoSize,
         glbAfterDraco: glbAfterDracoSize,
@@ -913,6 +1115,7 @@ export async function processSTLFile(
       stl: path.relative(STORAGE_PATHS.models, stlPath),
       glb: path.relative(STORAGE_PATHS.models, glbPath),
       thumbnail: thumbnailRelative,
+      ...(lodFiles.length > 0 ? { lods: lodFiles } : {}),
     }
 
     // 7. Calculate compression statistics
@@ -949,6 +1152,7 @@ export async function processSTLFile(
       file_paths: filePaths,
       aabb,
       footprint,
+      occupancy_mask: occupancyMask,
       print_stats: printStats,
       compression_stats: compressionStats,
     }
@@ -967,6 +1171,7 @@ export async function processSTL(stlPath: string): Promise<{
   volume: number
   surfaceArea: number
   dimensions: { x: number; y: number; z: number }
+  occupancyMask: OccupancyMask
   needsSupports: boolean
 }> {
   const stl = await parseSTL(stlPath)
@@ -977,6 +1182,7 @@ export async function processSTL(stlPath: string): Promise<{
     volume: stats.volume_mm3 ?? 0,
     surfaceArea: stats.surface_area_mm2 ?? 0,
     dimensions: { x: footprint.width, y: footprint.depth, z: footprint.height },
+    occupancyMask: calculateOccupancyMask(stl, aabb),
     needsSupports: false,
   }
 }
@@ -1005,10 +1211,13 @@ export default {
   parseSTL,
   calculateAABB,
   calculateFootprint,
+  calculateOccupancyMask,
   calculatePrintStats,
   convertSTLtoGLB,
+  convertGLBtoOBJ,
   processSTL,
   generateGLB,
   generateThumbnailFromSTL,
+  generateLodGLBs,
   processSTLFile
 }
@@ -0,0 +1,359 @@
+// backend/src/services/platePacker.ts
+// Lay a table's models out on as few print plates as possible and estimate each plate
+
+import { writeFile, unlink } from 'fs/promises'
+import path from 'path'
+import crypto from 'crypto'
+import logger from '../utils/logger'
+import { estimatePrintCost } from './printEstimator'
+import { STORAGE_PATHS, readFile } from './storage'
+import {
+  parseSTL,
+  calculateAABB,
+  calculateFootprint,
+  calculatePrintStats,
+  convertGLBtoSTL,
+  type ParsedSTL,
+} from './fileProcessor'
+import type { AABB, PrintOptions, PrintStats } from '../types/shared'
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PrinterBed {
+  width_mm: number
+  depth_mm: number
+  height_mm: number
+}
+
+export const DEFAULT_BED: PrinterBed = { width_mm: 256, depth_mm: 256, height_mm: 256 }
+
+// Gap left between parts on a plate, and the default when a request doesn't give one
+export const DEFAULT_SPACING_MM = 5
+
+/** One copy of a model to print, sized from its STL bounding box */
+export interface PlatePart {
+  key: string
+  modelId: string
+  name: string
+  width_mm: number
+  depth_mm: number
+  height_mm: number
+  print_stats: PrintStats
+}
+
+export interface PlacedPart {
+  key: string
+  modelId: string
+  name: string
+  x_mm: number        // offset of the part's footprint from the bed's front-left corner
+  y_mm: number
+  width_mm: number    // as placed, i.e. after any rotation
+  depth_mm: number
+  rotated: boolean    // turned 90° about Z to fit
+}
+
+export interface Plate {
+  index: number
+  parts: PlacedPart[]
+  utilisation: number           // share of the bed area covered by footprints (0–1)
+  estimated_time_hours: number
+  material_weight_g: number
+  material_cost: number
+}
+
+export interface PlatePlan {
+  bed: PrinterBed
+  spacing_mm: number
+  plates: Plate[]
+  unplaced: Array<{ key: string; modelId: string; name: string; reason: string }>
+  totals: {
+    plates: number
+    estimated_time_hours: number
+    material_weight_g: number
+    material_cost: number
+  }
+}
+
+export interface PackOptions {
+  spacing_mm?: number
+  allowRotation?: boolean
+  printOptions?: PrintOptions
+}
+
+// ============================================================================
+// BIN PACKING (MaxRects, best short side fit)
+// ============================================================================
+
+interface Rect {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+interface Bin {
+  free: Rect[]
+  parts: PlacedPart[]
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits))
+
+function contains(a: Rect, b: Rect): boolean {
+  return b.x >= a.x && b.y >= a.y && b.x + b.w <= a.x + a.w && b.y + b.h <= a.y + a.h
+}
+
+// Best spot for a w × h rectangle: the free rect it fills most snugly along its shorter leftover side
+function findPosition(bin: Bin, w: number, h: number): { rect: Rect; score: number } | null {
+  let best: { rect: Rect; score: number } | null = null
+  for (const free of bin.free) {
+    if (w > free.w || h > free.h) continue
+    const score = Math.min(free.w - w, free.h - h)
+    if (!best || score < best.score) best = { rect: { x: free.x, y: free.y, w, h }, score }
+  }
+  return best
+}
+
+// Carve a placed rectangle out of every free rect it overlaps, then drop redundant ones
+function occupy(bin: Bin, used: Rect) {
+  const next: Rect[] = []
+  for (const free of bin.free) {
+    const overlaps =
+      used.x < free.x + free.w && used.x + used.w > free.x && used.y < free.y + free.h && used.y + used.h > free.y
+    if (!overlaps) {
+      next.push(free)
+      continue
+    }
+    if (used.x > free.x) next.push({ x: free.x, y: free.y, w: used.x - free.x, h: free.h })
+    if (used.x + used.w < free.x + free.w) {
+      next.push({ x: used.x + used.w, y: free.y, w: free.x + free.w - used.x - used.w, h: free.h })
+    }
+    if (used.y > free.y) next.push({ x: free.x, y: free.y, w: free.w, h: used.y - free.y })
+    if (used.y + used.h < free.y + free.h) {
+      next.push({ x: free.x, y: used.y + used.h, w: free.w, h: free.y + free.h - used.y - used.h })
+    }
+  }
+  bin.free = next.filter((rect, i) => !next.some((other, j) => j !== i && contains(other, rect) && (!contains(rect, other) || j < i)))
+}
+
+/**
+ * Pack parts onto the fewest plates. Parts go largest first, each onto the first plate
+ * with room (rotated when allowed and it fits better), so early plates fill up before a
+ * new one is started. Spacing is added to every part and to the bed, which leaves that
+ * gap between neighbours without wasting it along the bed edges.
+ */
+export function packPlates(parts: PlatePart[], bed: PrinterBed = DEFAULT_BED, options: PackOptions = {}): PlatePlan {
+  const spacing = Math.max(0, options.spacing_mm ?? DEFAULT_SPACING_MM)
+  const allowRotation = options.allowRotation ?? true
+  const binW = bed.width_mm + spacing
+  const binH = bed.depth_mm + spacing
+
+  const unplaced: PlatePlan['unplaced'] = []
+  const bins: Bin[] = []
+  const newBin = (): Bin => ({ free: [{ x: 0, y: 0, w: binW, h: binH }], parts: [] })
+
+  const ordered = [...parts].sort(
+    (a, b) =>
+      Math.max(b.width_mm, b.depth_mm) - Math.max(a.width_mm, a.depth_mm) ||
+      b.width_mm * b.depth_mm - a.width_mm * a.depth_mm
+  )
+
+  for (const part of ordered) {
+    const w = part.width_mm + spacing
+    const h = part.depth_mm + spacing
+    const orientations: Array<{ w: number; h: number; rotated: boolean }> = [{ w, h, rotated: false }]
+    if (allowRotation && w !== h) orientations.push({ w: h, h: w, rotated: true })
+
+    if (part.height_mm > bed.height_mm) {
+      unplaced.push({ key: part.key, modelId: part.modelId, name: part.name, reason: 'Taller than the build volume' })
+      continue
+    }
+    if (!orientations.some((o) => o.w <= binW && o.h <= binH)) {
+      unplaced.push({ key: part.key, modelId: part.modelId, name: part.name, reason: 'Footprint larger than the bed' })
+      continue
+    }
+
+    let placed = false
+    for (const bin of [...bins, newBin()]) {
+      let best: { rect: Rect; score: number; rotated: boolean } | null = null
+      for (const o of orientations) {
+        const position = findPosition(bin, o.w, o.h)
+        if (position && (!best || position.score < best.score)) best = { ...position, rotated: o.rotated }
+      }
+      if (!best) continue
+
+      if (!bins.includes(bin)) bins.push(bin)
+      occupy(bin, best.rect)
+      bin.parts.push({
+        key: part.key,
+        modelId: part.modelId,
+        name: part.name,
+        x_mm: round(best.rect.x),
+        y_mm: round(best.rect.y),
+        width_mm: round(best.rotated ? part.depth_mm : part.width_mm),
+        depth_mm: round(best.rotated ? part.width_mm : part.depth_mm),
+        rotated: best.rotated,
+      })
+      placed = true
+      break
+    }
+    if (!placed) {
+      // fits an empty bed, so a fresh plate always takes it; kept as a guard
+      unplaced.push({ key: part.key, modelId: part.modelId, name: part.name, reason: 'Could not be placed' })
+    }
+  }
+
+  const partsByKey = new Map(parts.map((p) => [p.key, p]))
+  const plates: Plate[] = bins.map((bin, index) => {
+    let hours = 0
+    let grams = 0
+    let cost = 0
+    let area = 0
+    for (const placed of bin.parts) {
+      const estimate = estimatePrintCost(partsByKey.get(placed.key)!.print_stats, options.printOptions)
+      hours += estimate.estimated_time_hours
+      grams += estimate.material_weight_g
+      cost += estimate.material_cost
+      area += placed.width_mm * placed.depth_mm
+    }
+    return {
+      index,
+      parts: bin.parts,
+      utilisation: round(area / (bed.width_mm * bed.depth_mm), 3),
+      estimated_time_hours: round(hours),
+      material_weight_g: round(grams),
+      material_cost: round(cost),
+    }
+  })
+
+  return {
+    bed,
+    spacing_mm: spacing,
+    plates,
+    unplaced,
+    totals: {
+      plates: plates.length,
+      estimated_time_hours: round(plates.reduce((sum, p) => sum + p.estimated_time_hours, 0)),
+      material_weight_g: round(plates.reduce((sum, p) => sum + p.material_weight_g, 0)),
+      material_cost: round(plates.reduce((sum, p) => sum + p.material_cost, 0)),
+    },
+  }
+}
+
+// ============================================================================
+// MODEL GEOMETRY
+// ============================================================================
+
+export interface ModelGeometry {
+  stl: ParsedSTL
+  aabb: AABB
+  width_mm: number
+  depth_mm: number
+  height_mm: number
+  print_stats: PrintStats
+}
+
+/**
+ * Parse a stored model file (STL, or the GLB the upload pipeline keeps) and size it.
+ * Footprints come back from calculateFootprint in metres and are turned back into mm.
+ */
+export async function loadModelGeometry(filePath: string): Promise<ModelGeometry> {
+  const buffer = await readFile(filePath)
+  const isGlb = buffer.toString('ascii', 0, 4) === 'glTF'
+  const base = path.join(STORAGE_PATHS.temp, `plate-${crypto.randomUUID()}`)
+  const stlPath = `${base}.stl`
+  const sourcePath = isGlb ? `${base}.glb` : stlPath
+
+  try {
+    await writeFile(sourcePath, buffer)
+    if (isGlb) await convertGLBtoSTL(sourcePath, stlPath)
+    const stl = await parseSTL(stlPath)
+    const aabb = calculateAABB(stl)
+    const footprint = calculateFootprint(aabb)
+    return {
+      stl,
+      aabb,
+      width_mm: footprint.width * 1000,
+      depth_mm: footprint.depth * 1000,
+      height_mm: footprint.height * 1000,
+      print_stats: calculatePrintStats(stl, aabb),
+    }
+  } finally {
+    for (const temp of new Set([sourcePath, stlPath])) {
+      await unlink(temp).catch(() => undefined)
+    }
+  }
+}
+
+/**
+ * The same model printed `factor` times its uploaded size (a table at another model
+ * scale). Vertices are scaled about the origin, so placement from the AABB corner and
+ * the printed STL both follow; print stats are recalculated for the new volume.
+ */
+export function scaleModelGeometry(geometry: ModelGeometry, factor: number): ModelGeometry {
+  if (factor === 1) return geometry
+  const scale = (v: { x: number; y: number; z: number }) => ({ x: v.x * factor, y: v.y * factor, z: v.z * factor })
+  const triangles = geometry.stl.triangles.map((triangle) => ({
+    normal: triangle.normal,
+    vertices: triangle.vertices.map(scale) as typeof triangle.vertices,
+  }))
+  const stl: ParsedSTL = { ...geometry.stl, triangles }
+  const aabb: AABB = { min: scale(geometry.aabb.min), max: scale(geometry.aabb.max) }
+  return {
+    stl,
+    aabb,
+    width_mm: geometry.width_mm * factor,
+    depth_mm: geometry.depth_mm * factor,
+    height_mm: geometry.height_mm * factor,
+    print_stats: calculatePrintStats(stl, aabb),
+  }
+}
+
+/**
+ * Merge a plate's parts into one binary STL, each moved to its packed position with its
+ * base on the bed (Z = 0) and turned 90° about Z where the packer rotated it.
+ */
+export function buildPlateSTL(plate: Plate, geometryByModel: Map<string, ModelGeometry>): Buffer {
+  const placements = plate.parts
+    .map((part) => ({ part, geometry: geometryByModel.get(part.modelId) }))
+    .filter((p): p is { part: PlacedPart; geometry: ModelGeometry } => Boolean(p.geometry))
+  const triangleCount = placements.reduce((sum, p) => sum + p.geometry.stl.triangles.length, 0)
+
+  const buffer = Buffer.alloc(84 + triangleCount * 50)
+  buffer.write(`Plate ${plate.index + 1}`.padEnd(80, ' '), 0, 80, 'ascii')
+  buffer.writeUInt32LE(triangleCount, 80)
+
+  let offset = 84
+  for (const { part, geometry } of placements) {
+    const { min, max } = geometry.aabb
+    const depth = max.y - min.y
+    // local coordinates from the AABB corner; rotating +90° maps (x, y) to (depth - y, x)
+    const place = (x: number, y: number): [number, number] => {
+      const lx = x - min.x
+      const ly = y - min.y
+      return part.rotated ? [part.x_mm + depth - ly, part.y_mm + lx] : [part.x_mm + lx, part.y_mm + ly]
+    }
+
+    for (const triangle of geometry.stl.triangles) {
+      const n = triangle.normal
+      const [nx, ny] = part.rotated ? [-n.y, n.x] : [n.x, n.y]
+      buffer.writeFloatLE(nx, offset)
+      buffer.writeFloatLE(ny, offset + 4)
+      buffer.writeFloatLE(n.z, offset + 8)
+      offset += 12
+      for (const v of triangle.vertices) {
+        const [x, y] = place(v.x, v.y)
+        buffer.writeFloatLE(x, offset)
+        buffer.writeFloatLE(y, offset + 4)
+        buffer.writeFloatLE(v.z - min.z, offset + 8)
+        offset += 12
+      }
+      buffer.writeUInt16LE(0, offset)
+      offset += 2
+    }
+  }
+
+  logger.debug('Built plate STL', { plate: plate.index, parts: placements.length, triangleCount })
+  return buffer
+}
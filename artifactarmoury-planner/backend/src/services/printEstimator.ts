@@ -36,6 +36,18 @@ const QUALITY_MULTIPLIERS = {
   }
 }
 
+// Model scales the builder offers, as a factor of the 28mm size models are uploaded at
+export const PRINT_SCALES: Record<string, number> = {
+  '6mm': 6 / 28,
+  '10mm': 10 / 28,
+  '15mm': 15 / 28,
+  '20mm': 20 / 28,
+  '28mm': 1,
+  '32mm': 32 / 28,
+  '54mm': 54 / 28
+}
+export const DEFAULT_PRINT_SCALE = '28mm'
+
 // Fixed costs
 const SETUP_COST = 2.50      // £2.50 per model (setup, cleanup, QA)
 const LABOR_COST_PER_HOUR = 12.00 // £12/hour labor
@@ -12,6 +12,8 @@ export interface SubmitPrintJobParams {
     color?: string
     material?: string
     quality?: string
+    scale?: string
+    scaleFactor?: number
     specialInstructions?: string | null
   }>
   shipping: {
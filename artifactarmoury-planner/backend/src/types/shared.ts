@@ -51,6 +51,31 @@ export interface AABB { min: Vector3; max: Vector3 }
 
 export interface Footprint { width: number; depth: number; height: number }
 
+// Top-down occupancy over the model's width × depth rectangle. Bitmap cells are
+// row-major from -depth to +depth, '1' = blocked; polygon points are [x, z] in
+// metres from the model's centre.
+export type OccupancyMask =
+  | { type: 'bitmap'; cols: number; rows: number; cells: string }
+  | { type: 'polygon'; points: Array<[number, number]> }
+
+// Join point for modular pieces: [x, z] metres from the model's centre on its footprint,
+// facing outwards (0° = +X, turning like the builder's rotationDeg). Pieces snap together
+// where connectors of the same type meet facing each other.
+export interface Connector {
+  name: string;
+  type: string;
+  x: number;
+  z: number;
+  facingDeg: number;
+}
+
+// Outline of a table that isn't one rectangle, in mm from the table's centre (z runs
+// down the table): a polygon, or boards given by their centre and size. The table's
+// width x depth is the outline's bounding box.
+export type TableOutline =
+  | { kind: 'polygon'; points: Array<{ x: number; z: number }> }
+  | { kind: 'boards'; boards: Array<{ x: number; z: number; width: number; depth: number }> }
+
 export interface PrintStats {
   estimated_weight_g?: number;
   estimated_print_time_minutes?: number;
@@ -63,6 +88,13 @@ export interface FilePaths {
   stl: string;
   glb?: string;
   thumbnail?: string;
+  lods?: LodFile[]; // coarser GLBs for distant views, finest first
+}
+
+export interface LodFile {
+  glb: string;
+  decimationLevel: number; // percentage of triangles removed
+  triangleCount: number;
 }
 
 export interface PrintOptions {
@@ -0,0 +1,107 @@
+// backend/src/utils/layoutDiff.ts
+// Compare two saved table layouts piece by piece (added / removed / moved).
+
+export interface LayoutPiece {
+  key: string
+  modelId: string
+  x: number
+  y: number
+  elevation: number   // metres above the table (stacked pieces)
+  rotation: number
+  rotationX: number   // tip forward/back
+  rotationZ: number   // roll left/right
+}
+
+// What changed about a piece that stayed in the layout
+export type LayoutChange = 'position' | 'elevation' | 'rotation' | 'tilt'
+
+export interface LayoutMove {
+  key: string
+  modelId: string
+  from: LayoutPiece
+  to: LayoutPiece
+  changes: LayoutChange[]
+}
+
+export interface LayoutDiff {
+  added: LayoutPiece[]
+  removed: LayoutPiece[]
+  moved: LayoutMove[]
+  unchanged: number
+}
+
+// Moves smaller than this are rounding noise (0.5 mm, 0.01°)
+const POSITION_EPSILON = 0.0005
+const ROTATION_EPSILON = 0.01
+
+/**
+ * Pieces of a layout keyed for matching. Builder saves carry instance ids; older
+ * layouts only have the `models` summary, so those are keyed by model and occurrence.
+ */
+export function layoutPieces(layout: any): LayoutPiece[] {
+  const instances = layout?.builder?.instances
+  if (Array.isArray(instances)) {
+    return instances.map((inst: any) => ({
+      key: String(inst.id),
+      modelId: String(inst.assetId ?? ''),
+      x: Number(inst.position?.x ?? 0),
+      y: Number(inst.position?.z ?? 0),
+      elevation: Number(inst.elevation ?? 0),
+      rotation: Number(inst.rotationDeg ?? 0),
+      rotationX: Number(inst.rotationX ?? 0),
+      rotationZ: Number(inst.rotationZ ?? 0),
+    }))
+  }
+
+  const models = Array.isArray(layout?.models) ? layout.models : []
+  const seen = new Map<string, number>()
+  return models.map((model: any) => {
+    const modelId = String(model.modelId ?? model.model_id ?? '')
+    const occurrence = seen.get(modelId) ?? 0
+    seen.set(modelId, occurrence + 1)
+    return {
+      key: `${modelId}#${occurrence}`,
+      modelId,
+      x: Number(model.x ?? 0),
+      y: Number(model.y ?? 0),
+      elevation: 0,
+      rotation: Number(model.rotation ?? 0),
+      rotationX: 0,
+      rotationZ: 0,
+    }
+  })
+}
+
+export function diffLayouts(fromLayout: any, toLayout: any): LayoutDiff {
+  const before = new Map(layoutPieces(fromLayout).map((piece) => [piece.key, piece]))
+  const after = layoutPieces(toLayout)
+
+  const diff: LayoutDiff = { added: [], removed: [], moved: [], unchanged: 0 }
+  for (const piece of after) {
+    const previous = before.get(piece.key)
+    before.delete(piece.key)
+    const changes = previous ? pieceChanges(previous, piece) : []
+    if (!previous) {
+      diff.added.push(piece)
+    } else if (changes.length) {
+      diff.moved.push({ key: piece.key, modelId: piece.modelId, from: previous, to: piece, changes })
+    } else {
+      diff.unchanged += 1
+    }
+  }
+  diff.removed = Array.from(before.values())
+  return diff
+}
+
+function turned(from: number, to: number) {
+  return Math.abs((((to - from) % 360) + 540) % 360 - 180) > ROTATION_EPSILON
+}
+
+function pieceChanges(a: LayoutPiece, b: LayoutPiece): LayoutChange[] {
+  const changes: LayoutChange[] = []
+  if (Math.abs(a.x - b.x) > POSITION_EPSILON || Math.abs(a.y - b.y) > POSITION_EPSILON) changes.push('position')
+  if (Math.abs(a.elevation - b.elevation) > POSITION_EPSILON) changes.push('elevation')
+  if (turned(a.rotation, b.rotation)) changes.push('rotation')
+  if (turned(a.rotationX, b.rotationX) || turned(a.rotationZ, b.rotationZ)) changes.push('tilt')
+  return changes
+}
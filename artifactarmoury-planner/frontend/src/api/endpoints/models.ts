@@ -2,6 +2,7 @@ import apiClient from '../client'
 import {
   ApiResponse,
   TerrainModel,
+  ModelConnector,
   ModelUploadRequest,
   Review,
   CreateReviewRequest,
@@ -17,6 +18,7 @@ interface CreateModelPayload {
   tags?: string[]
   basePrice: number
   license: string
+  connectors?: ModelConnector[]
   modelFile: File
   thumbnailFile?: File
 }
@@ -61,6 +63,10 @@ export const modelsApi = {
 
     formData.append('license', payload.license)
 
+    if (payload.connectors && payload.connectors.length > 0) {
+      formData.append('connectors', JSON.stringify(payload.connectors))
+    }
+
     formData.append('model', payload.modelFile)
 
     if (payload.thumbnailFile) {
@@ -105,6 +111,11 @@ export const modelsApi = {
       payload.tags = data.tags
     }
 
+    if (data.occupancyMask !== undefined) {
+      payload.occupancy_mask = data.occupancyMask
+      delete payload.occupancyMask
+    }
+
     const response = await apiClient.patch<ApiResponse<TerrainModel>>(`${BASE_URL}/${id}`, payload)
     return response.data
   },
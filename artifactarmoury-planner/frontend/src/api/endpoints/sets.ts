@@ -0,0 +1,58 @@
+import apiClient from '../client'
+import { AssetSetCreateRequest, AssetSetItem, AssetSetKind, AssetSetRecord } from '../types'
+
+const BASE_URL = '/api/library/sets'
+
+const mapItem = (raw: any): AssetSetItem => ({
+  id: raw?.id,
+  assetId: raw?.asset_id ?? raw?.assetId ?? '',
+  x: Number(raw?.position_x ?? raw?.x ?? 0),
+  z: Number(raw?.position_z ?? raw?.z ?? 0),
+  rotationDeg: Number(raw?.rotation_deg ?? raw?.rotationDeg ?? 0),
+  rotationX: Number(raw?.rotation_x ?? raw?.rotationX ?? 0),
+  rotationZ: Number(raw?.rotation_z ?? raw?.rotationZ ?? 0),
+  elevation: Number(raw?.elevation ?? 0),
+  swapXZ: Boolean(raw?.swap_xz ?? raw?.swapXZ),
+})
+
+const mapSet = (raw: any): AssetSetRecord => ({
+  id: raw?.id,
+  ownerId: raw?.owner_id ?? raw?.ownerId ?? null,
+  ownerName: raw?.owner_name ?? raw?.ownerName ?? null,
+  name: raw?.name ?? '',
+  description: raw?.description ?? null,
+  isPublic: Boolean(raw?.is_public ?? raw?.isPublic),
+  kind: raw?.kind === 'prefab' ? 'prefab' : 'collection',
+  items: Array.isArray(raw?.items) ? raw.items.map(mapItem) : [],
+  createdAt: raw?.created_at ?? raw?.createdAt ?? '',
+  updatedAt: raw?.updated_at ?? raw?.updatedAt ?? '',
+})
+
+export const setsApi = {
+  async getSets(params: { kind?: AssetSetKind; mine?: boolean } = {}): Promise<AssetSetRecord[]> {
+    const response = await apiClient.get(BASE_URL, {
+      params: { kind: params.kind, mine: params.mine ? 'true' : undefined },
+    })
+    const payload = response.data ?? {}
+    return Array.isArray(payload.sets) ? payload.sets.map(mapSet) : []
+  },
+
+  async getSet(id: string): Promise<AssetSetRecord> {
+    const response = await apiClient.get(`${BASE_URL}/${id}`)
+    return mapSet(response.data?.set ?? response.data)
+  },
+
+  async createSet(data: AssetSetCreateRequest): Promise<AssetSetRecord> {
+    const response = await apiClient.post(BASE_URL, data)
+    return mapSet(response.data?.set ?? response.data)
+  },
+
+  async updateSet(id: string, data: Partial<Omit<AssetSetCreateRequest, 'kind'>>): Promise<AssetSetRecord> {
+    const response = await apiClient.put(`${BASE_URL}/${id}`, data)
+    return mapSet(response.data?.set ?? response.data)
+  },
+
+  async deleteSet(id: string): Promise<void> {
+    await apiClient.delete(`${BASE_URL}/${id}`)
+  },
+}
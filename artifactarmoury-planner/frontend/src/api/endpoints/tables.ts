@@ -1,9 +1,13 @@
 import apiClient from '../client'
 import {
+  PrintPlan,
+  PrintPlanOptions,
   TableLayout,
   TableLayoutCreateRequest,
   TableLayoutData,
   TableLayoutModel,
+  TableRevision,
+  TableRevisionDiff,
 } from '../types'
 
 const BASE_URL = '/api/tables'
@@ -39,7 +43,11 @@ const parseLayout = (layout: unknown): TableLayoutData => {
   try {
     const payload = typeof layout === 'string' ? JSON.parse(layout) : layout
     if (Array.isArray((payload as any)?.models)) {
-      return { models: (payload as any).models.map(normaliseModel) }
+      const builder = (payload as any).builder
+      return {
+        models: (payload as any).models.map(normaliseModel),
+        ...(builder && typeof builder === 'object' ? { builder } : {}),
+      }
     }
   } catch {
     // fall through and return empty layout
@@ -54,6 +62,7 @@ const mapTable = (raw: any): TableLayout => ({
   description: raw?.description ?? null,
   width: ensureNumber(raw?.width),
   depth: ensureNumber(raw?.depth),
+  outline: raw?.outline ?? null,
   layout: parseLayout(raw?.layout),
   isPublic: Boolean(raw?.is_public ?? raw?.isPublic),
   shareCode: raw?.share_code ?? raw?.shareCode ?? null,
@@ -63,12 +72,59 @@ const mapTable = (raw: any): TableLayout => ({
   updatedAt: raw?.updated_at ?? raw?.updatedAt ?? '',
 })
 
+const mapRevision = (raw: any): TableRevision => ({
+  id: raw?.id,
+  tableId: raw?.tableId ?? raw?.table_id,
+  revisionNumber: Number(raw?.revisionNumber ?? raw?.revision_number ?? 0),
+  authorId: raw?.authorId ?? raw?.author_id ?? null,
+  authorName: raw?.authorName ?? raw?.author_name ?? null,
+  message: raw?.message ?? null,
+  parentRevisionId: raw?.parentRevisionId ?? raw?.parent_revision_id ?? null,
+  createdAt: raw?.createdAt ?? raw?.created_at ?? '',
+  modelCount: Number(raw?.modelCount ?? raw?.model_count ?? 0),
+  ...(raw?.layout !== undefined ? { layout: parseLayout(raw.layout) } : {}),
+})
+
+const mapPrintPlan = (raw: any): PrintPlan => ({
+  bed: {
+    width: Number(raw?.bed?.width_mm ?? 0),
+    depth: Number(raw?.bed?.depth_mm ?? 0),
+    height: Number(raw?.bed?.height_mm ?? 0),
+  },
+  spacing: Number(raw?.spacing_mm ?? 0),
+  plates: (Array.isArray(raw?.plates) ? raw.plates : []).map((plate: any) => ({
+    index: Number(plate.index ?? 0),
+    parts: (Array.isArray(plate.parts) ? plate.parts : []).map((part: any) => ({
+      key: String(part.key),
+      modelId: String(part.modelId),
+      name: part.name ?? '',
+      x: Number(part.x_mm ?? 0),
+      y: Number(part.y_mm ?? 0),
+      width: Number(part.width_mm ?? 0),
+      depth: Number(part.depth_mm ?? 0),
+      rotated: Boolean(part.rotated),
+    })),
+    utilisation: Number(plate.utilisation ?? 0),
+    estimatedHours: Number(plate.estimated_time_hours ?? 0),
+    filamentGrams: Number(plate.material_weight_g ?? 0),
+    materialCost: Number(plate.material_cost ?? 0),
+  })),
+  unplaced: Array.isArray(raw?.unplaced) ? raw.unplaced : [],
+  totals: {
+    plates: Number(raw?.totals?.plates ?? 0),
+    estimatedHours: Number(raw?.totals?.estimated_time_hours ?? 0),
+    filamentGrams: Number(raw?.totals?.material_weight_g ?? 0),
+    materialCost: Number(raw?.totals?.material_cost ?? 0),
+  },
+})
+
 const buildPayload = (data: Partial<TableLayoutCreateRequest>) => {
   const payload: Record<string, unknown> = {}
   if (data.name !== undefined) payload.name = data.name
   if (data.description !== undefined) payload.description = data.description
   if (data.width !== undefined) payload.width = data.width
   if (data.depth !== undefined) payload.depth = data.depth
+  if (data.outline !== undefined) payload.outline = data.outline
   if (data.layout !== undefined) payload.layout = data.layout
   if (data.isPublic !== undefined) payload.is_public = data.isPublic
   return payload
@@ -87,8 +143,17 @@ export const tablesApi = {
     return mapTable(raw)
   },
 
-  async updateTable(id: string, data: Partial<TableLayoutCreateRequest>): Promise<TableLayout> {
-    const response = await apiClient.put(`${BASE_URL}/${id}`, buildPayload(data))
+  // `expectedUpdatedAt` makes the save fail with 409 if the table changed on the server since then
+  async updateTable(
+    id: string,
+    data: Partial<TableLayoutCreateRequest>,
+    revisionMessage?: string,
+    options: { expectedUpdatedAt?: string } = {},
+  ): Promise<TableLayout> {
+    const payload = buildPayload(data)
+    if (revisionMessage) payload.message = revisionMessage
+    if (options.expectedUpdatedAt) payload.expectedUpdatedAt = options.expectedUpdatedAt
+    const response = await apiClient.put(`${BASE_URL}/${id}`, payload)
     const raw = response.data?.table ?? response.data
     return mapTable(raw)
   },
@@ -172,6 +237,58 @@ export const tablesApi = {
     return mapTable(raw)
   },
 
+  async getRevisions(tableId: string): Promise<TableRevision[]> {
+    const response = await apiClient.get(`${BASE_URL}/${tableId}/revisions`)
+    const payload = response.data ?? {}
+    return Array.isArray(payload.revisions) ? payload.revisions.map(mapRevision) : []
+  },
+
+  async getRevision(tableId: string, revisionId: string): Promise<TableRevision> {
+    const response = await apiClient.get(`${BASE_URL}/${tableId}/revisions/${revisionId}`)
+    return mapRevision(response.data?.revision ?? response.data)
+  },
+
+  async diffRevisions(tableId: string, fromId: string, toId: string): Promise<TableRevisionDiff> {
+    const response = await apiClient.get(`${BASE_URL}/${tableId}/revisions/diff`, {
+      params: { from: fromId, to: toId },
+    })
+    const diff = response.data?.diff ?? {}
+    return {
+      added: diff.added ?? [],
+      removed: diff.removed ?? [],
+      moved: diff.moved ?? [],
+      unchanged: Number(diff.unchanged ?? 0),
+    }
+  },
+
+  async restoreRevision(tableId: string, revisionId: string): Promise<TableLayout> {
+    const response = await apiClient.post(`${BASE_URL}/${tableId}/revisions/${revisionId}/restore`)
+    return mapTable(response.data?.table ?? response.data)
+  },
+
+  async branchRevision(tableId: string, revisionId: string, name?: string): Promise<TableLayout> {
+    const response = await apiClient.post(
+      `${BASE_URL}/${tableId}/revisions/${revisionId}/branch`,
+      name ? { name } : undefined,
+    )
+    return mapTable(response.data?.table ?? response.data)
+  },
+
+  async getPrintPlan(tableId: string, options: PrintPlanOptions = {}): Promise<PrintPlan> {
+    const response = await apiClient.get(`${BASE_URL}/${tableId}/print-plan`, { params: options })
+    return mapPrintPlan(response.data?.plan ?? response.data)
+  },
+
+  // Merged STL of one plate; the server only allows it for models the user owns
+  async downloadPlateStl(tableId: string, plateIndex: number, options: PrintPlanOptions = {}): Promise<Blob> {
+    const response = await apiClient.get(`${BASE_URL}/${tableId}/print-plan/plates/${plateIndex}/stl`, {
+      params: options,
+      responseType: 'blob',
+      timeout: 120_000,
+    })
+    return response.data as Blob
+  },
+
   async exportTable(
     tableId: string,
     format: 'obj' | 'fbx' | 'glb' | 'unity' | 'unreal',
@@ -50,6 +50,8 @@ export const mapModelRecord = (model: any): TerrainModel => ({
   width: model.width ?? undefined,
   height: model.height ?? undefined,
   depth: model.depth ?? undefined,
+  occupancyMask: model.occupancy_mask ?? model.occupancyMask ?? undefined,
+  connectors: Array.isArray(model.connectors) ? model.connectors : undefined,
   viewCount: model.view_count ?? model.viewCount ?? undefined,
   saleCount: model.sale_count ?? model.saleCount ?? undefined,
   reviewCount: model.review_count ?? model.reviewCount ?? undefined,
@@ -95,6 +95,8 @@ export interface TerrainModel {
   width?: number
   height?: number
   depth?: number
+  occupancyMask?: ModelOccupancyMask
+  connectors?: ModelConnector[]
   printStats?: {
     estimatedWeightG?: number
     estimatedPrintTimeMinutes?: number
@@ -158,6 +160,25 @@ export interface ModelUploadRequest {
   width?: number
   height?: number
   depth?: number
+  occupancyMask?: ModelOccupancyMask | null // null goes back to blocking the whole footprint
+  connectors?: ModelConnector[]
+}
+
+// The part of a model's width × depth rectangle it blocks, seen from above. Bitmap cells
+// are row-major from -depth (back) to +depth, '1' = blocked; polygon points are [x, z] in
+// metres from the model's centre.
+export type ModelOccupancyMask =
+  | { type: 'bitmap'; cols: number; rows: number; cells: string }
+  | { type: 'polygon'; points: Array<[number, number]> }
+
+// Join point for modular pieces: [x, z] metres from the model's centre on its footprint,
+// facing outwards (0° = +X). Pieces snap together at connectors of the same type.
+export interface ModelConnector {
+  name: string
+  type: string
+  x: number
+  z: number
+  facingDeg: number
 }
 
 export interface UploadResponse {
@@ -243,8 +264,16 @@ export interface TableLayoutModel {
 
 export interface TableLayoutData {
   models: TableLayoutModel[]
+  // Full terrain builder state (table settings, scenario overlay, instances)
+  builder?: Record<string, unknown>
 }
 
+// Outline of a table that isn't one rectangle, in mm from the table's centre: a polygon,
+// or boards given by their centre and size. width × depth is its bounding box.
+export type TableOutline =
+  | { kind: 'polygon'; points: Array<{ x: number; z: number }> }
+  | { kind: 'boards'; boards: Array<{ x: number; z: number; width: number; depth: number }> }
+
 export interface TableLayout {
   id: string
   userId?: string | null
@@ -252,6 +281,7 @@ export interface TableLayout {
   description?: string | null
   width?: number | null
   depth?: number | null
+  outline?: TableOutline | null
   layout: TableLayoutData
   isPublic: boolean
   shareCode?: string | null
@@ -261,15 +291,130 @@ export interface TableLayout {
   updatedAt: string
 }
 
+export interface TableRevision {
+  id: string
+  tableId: string
+  revisionNumber: number
+  authorId: string | null
+  authorName: string | null
+  message: string | null
+  parentRevisionId: string | null
+  createdAt: string
+  modelCount: number
+  layout?: TableLayoutData
+}
+
+export interface TableRevisionPiece {
+  key: string
+  modelId: string
+  x: number
+  y: number
+  elevation: number
+  rotation: number
+  rotationX: number
+  rotationZ: number
+}
+
+export type TableRevisionChange = 'position' | 'elevation' | 'rotation' | 'tilt'
+
+export interface TableRevisionDiff {
+  added: TableRevisionPiece[]
+  removed: TableRevisionPiece[]
+  moved: Array<{
+    key: string
+    modelId: string
+    from: TableRevisionPiece
+    to: TableRevisionPiece
+    changes: TableRevisionChange[]
+  }>
+  unchanged: number
+}
+
+export interface PrintPlanOptions {
+  bedWidth?: number   // mm
+  bedDepth?: number
+  bedHeight?: number
+  spacing?: number
+  rotate?: boolean
+  material?: 'pla' | 'abs' | 'petg' | 'resin' | 'tpu' | 'nylon'
+  quality?: 'draft' | 'standard' | 'fine' | 'ultra'
+  infill?: number
+}
+
+export interface PrintPlatePart {
+  key: string
+  modelId: string
+  name: string
+  x: number           // mm from the bed's front-left corner
+  y: number
+  width: number       // mm, as placed
+  depth: number
+  rotated: boolean
+}
+
+export interface PrintPlate {
+  index: number
+  parts: PrintPlatePart[]
+  utilisation: number
+  estimatedHours: number
+  filamentGrams: number
+  materialCost: number
+}
+
+export interface PrintPlan {
+  bed: { width: number; depth: number; height: number }
+  spacing: number
+  plates: PrintPlate[]
+  unplaced: Array<{ key: string; modelId: string; name: string; reason: string }>
+  totals: { plates: number; estimatedHours: number; filamentGrams: number; materialCost: number }
+}
+
 export interface TableLayoutCreateRequest {
   name: string
   description?: string
   width?: number
   depth?: number
+  outline?: TableOutline | null
   layout?: TableLayoutData
   isPublic?: boolean
 }
 
+// Asset sets: 'collection' is a plain list of assets, 'prefab' a group of placed pieces
+export type AssetSetKind = 'collection' | 'prefab'
+
+export interface AssetSetItem {
+  id?: string
+  assetId: string
+  x: number            // metres from the group's centre
+  z: number
+  rotationDeg: number
+  rotationX?: number
+  rotationZ?: number
+  elevation?: number   // metres above the group's lowest base
+  swapXZ?: boolean
+}
+
+export interface AssetSetRecord {
+  id: string
+  ownerId: string | null
+  ownerName: string | null
+  name: string
+  description: string | null
+  isPublic: boolean
+  kind: AssetSetKind
+  items: AssetSetItem[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface AssetSetCreateRequest {
+  name: string
+  description?: string
+  isPublic?: boolean
+  kind?: AssetSetKind
+  items?: AssetSetItem[]
+}
+
 export interface OrderItem {
   modelId: string
   modelName: string
@@ -277,6 +422,7 @@ export interface OrderItem {
   artistName: string
   price: number
   quantity: number
+  scale?: string      // model scale printed at, e.g. '15mm'
   downloadUrl?: string
 }
 
@@ -104,7 +104,10 @@ const CartDrawer: React.FC = () => {
                     </div>
                     <div className="ml-4">
                       <h3 className="text-sm font-medium text-gray-900">{item.name}</h3>
-                      <p className="text-xs text-gray-500">{item.artistName}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.artistName}
+                        {item.scale ? ` · ${item.scale} scale` : ''}
+                      </p>
                       <p className="mt-1 text-sm font-semibold text-gray-900">
                         £{item.price.toFixed(2)}
                       </p>
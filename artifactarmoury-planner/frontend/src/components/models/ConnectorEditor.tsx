@@ -0,0 +1,163 @@
+import React from 'react'
+import { ModelConnector } from '../../api/types'
+
+// Rows as typed, so half-entered numbers like "-" survive until the form is submitted.
+// Positions are edited in mm and stored in metres.
+export interface ConnectorDraft {
+  name: string
+  type: string
+  x: string
+  z: string
+  facingDeg: string
+}
+
+interface ConnectorEditorProps {
+  value: ConnectorDraft[]
+  onChange: (value: ConnectorDraft[]) => void
+}
+
+const inputClass =
+  'w-full rounded-md border border-gray-300 px-2 py-1 text-sm focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500'
+
+const FACINGS = [
+  { value: '0', label: 'Right (+X)' },
+  { value: '90', label: 'Back (−Z)' },
+  { value: '180', label: 'Left (−X)' },
+  { value: '270', label: 'Front (+Z)' },
+]
+
+export const toConnectorDrafts = (connectors?: ModelConnector[]): ConnectorDraft[] =>
+  (connectors ?? []).map((connector) => ({
+    name: connector.name,
+    type: connector.type,
+    x: String(Math.round(connector.x * 10000) / 10),
+    z: String(Math.round(connector.z * 10000) / 10),
+    facingDeg: String(connector.facingDeg),
+  }))
+
+/**
+ * Connectors ready to send, or an error message naming the first bad row.
+ */
+export const parseConnectorDrafts = (
+  drafts: ConnectorDraft[],
+): { connectors: ModelConnector[]; error?: undefined } | { connectors?: undefined; error: string } => {
+  const connectors: ModelConnector[] = []
+  const names = new Set<string>()
+  for (const [index, draft] of drafts.entries()) {
+    const row = `Connector ${index + 1}`
+    const name = draft.name.trim()
+    const type = draft.type.trim()
+    if (!name || !type) return { error: `${row} needs a name and a type` }
+    if (names.has(name)) return { error: `${row}: the name "${name}" is already used` }
+    names.add(name)
+    const x = Number(draft.x)
+    const z = Number(draft.z)
+    const facingDeg = Number(draft.facingDeg)
+    if (draft.x.trim() === '' || draft.z.trim() === '' || !Number.isFinite(x) || !Number.isFinite(z)) {
+      return { error: `${row} needs a numeric X and Z position` }
+    }
+    if (!Number.isFinite(facingDeg)) return { error: `${row} needs a facing` }
+    connectors.push({ name, type, x: x / 1000, z: z / 1000, facingDeg })
+  }
+  return { connectors }
+}
+
+const ConnectorEditor: React.FC<ConnectorEditorProps> = ({ value, onChange }) => {
+  const update = (index: number, patch: Partial<ConnectorDraft>) => {
+    onChange(value.map((draft, i) => (i === index ? { ...draft, ...patch } : draft)))
+  }
+
+  const add = () => {
+    onChange([
+      ...value,
+      { name: `end-${value.length + 1}`, type: value[value.length - 1]?.type ?? 'wall', x: '0', z: '0', facingDeg: '0' },
+    ])
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h2 className="text-sm font-semibold text-gray-900">Connectors</h2>
+        <p className="mt-1 text-xs text-gray-500">
+          For modular pieces: points where another piece joins, such as the ends of a wall or road. Positions are in mm
+          from the centre of the model&apos;s footprint, seen from above. In the terrain builder, pieces snap together
+          where connectors of the same type meet facing each other.
+        </p>
+      </div>
+
+      {value.length > 0 && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-12 gap-2 text-xs font-medium text-gray-500">
+            <span className="col-span-3">Name</span>
+            <span className="col-span-3">Type</span>
+            <span className="col-span-2">X (mm)</span>
+            <span className="col-span-2">Z (mm)</span>
+            <span className="col-span-2">Facing</span>
+          </div>
+          {value.map((draft, index) => (
+            <div key={index} className="grid grid-cols-12 items-center gap-2">
+              <input
+                className={`col-span-3 ${inputClass}`}
+                value={draft.name}
+                onChange={(event) => update(index, { name: event.target.value })}
+                placeholder="north-end"
+              />
+              <input
+                className={`col-span-3 ${inputClass}`}
+                value={draft.type}
+                onChange={(event) => update(index, { type: event.target.value })}
+                placeholder="wall"
+              />
+              <input
+                className={`col-span-2 ${inputClass}`}
+                inputMode="decimal"
+                value={draft.x}
+                onChange={(event) => update(index, { x: event.target.value })}
+              />
+              <input
+                className={`col-span-2 ${inputClass}`}
+                inputMode="decimal"
+                value={draft.z}
+                onChange={(event) => update(index, { z: event.target.value })}
+              />
+              <div className="col-span-2 flex items-center gap-1">
+                <select
+                  className={inputClass}
+                  value={draft.facingDeg}
+                  onChange={(event) => update(index, { facingDeg: event.target.value })}
+                >
+                  {!FACINGS.some((facing) => facing.value === draft.facingDeg) && (
+                    <option value={draft.facingDeg}>{draft.facingDeg}°</option>
+                  )}
+                  {FACINGS.map((facing) => (
+                    <option key={facing.value} value={facing.value}>
+                      {facing.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter((_, i) => i !== index))}
+                  className="text-xs text-red-600 hover:text-red-700"
+                  aria-label={`Remove connector ${draft.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={add}
+        className="inline-flex items-center rounded-md border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+      >
+        Add connector
+      </button>
+    </div>
+  )
+}
+
+export default ConnectorEditor
@@ -0,0 +1,154 @@
+import React from 'react'
+import { ModelOccupancyMask } from '../../api/types'
+
+type BitmapMask = Extract<ModelOccupancyMask, { type: 'bitmap' }>
+
+interface MaskEditorProps {
+  value: ModelOccupancyMask | null
+  onChange: (value: ModelOccupancyMask | null) => void
+  // footprint, in any unit, for the shape of a new grid
+  width?: number
+  depth?: number
+}
+
+// Cells along the longer side of a new grid; uploads derive masks at the same resolution
+const GRID_CELLS = 32
+const CELL_PX = 12
+
+const newGrid = (width?: number, depth?: number, fill = '1'): BitmapMask => {
+  const w = width && width > 0 ? width : 1
+  const d = depth && depth > 0 ? depth : 1
+  const cellSize = Math.max(w, d) / GRID_CELLS
+  const cols = Math.max(1, Math.ceil(w / cellSize))
+  const rows = Math.max(1, Math.ceil(d / cellSize))
+  return { type: 'bitmap', cols, rows, cells: fill.repeat(cols * rows) }
+}
+
+const insidePolygon = (x: number, z: number, points: Array<[number, number]>) => {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, zi] = points[i]
+    const [xj, zj] = points[j]
+    if ((zi > z) !== (zj > z) && x < ((xj - xi) * (z - zi)) / (zj - zi) + xi) inside = !inside
+  }
+  return inside
+}
+
+/**
+ * A traced outline as a grid the artist can paint. The outline is centred on the model,
+ * so its furthest points give the rectangle it covers.
+ */
+export const polygonToGrid = (points: Array<[number, number]>): BitmapMask => {
+  const halfX = Math.max(...points.map(([x]) => Math.abs(x)))
+  const halfZ = Math.max(...points.map(([, z]) => Math.abs(z)))
+  const grid = newGrid(halfX * 2, halfZ * 2, '0')
+  let cells = ''
+  for (let r = 0; r < grid.rows; r++) {
+    const z = -halfZ + ((r + 0.5) * 2 * halfZ) / grid.rows
+    for (let c = 0; c < grid.cols; c++) {
+      const x = -halfX + ((c + 0.5) * 2 * halfX) / grid.cols
+      cells += insidePolygon(x, z, points) ? '1' : '0'
+    }
+  }
+  return { ...grid, cells }
+}
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ value, onChange, width, depth }) => {
+  // what a drag paints: set by the first cell pressed, so one stroke only adds or only erases
+  const paintRef = React.useRef<'0' | '1' | null>(null)
+
+  const grid = value?.type === 'polygon' ? polygonToGrid(value.points) : value
+  const blocked = grid ? grid.cells.split('').filter((cell) => cell === '1').length : 0
+
+  React.useEffect(() => {
+    const stop = () => {
+      paintRef.current = null
+    }
+    window.addEventListener('pointerup', stop)
+    return () => window.removeEventListener('pointerup', stop)
+  }, [])
+
+  const paint = (index: number) => {
+    if (!grid || paintRef.current === null || grid.cells[index] === paintRef.current) return
+    onChange({ ...grid, cells: grid.cells.slice(0, index) + paintRef.current + grid.cells.slice(index + 1) })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h2 className="text-sm font-semibold text-gray-900">Footprint mask</h2>
+        <p className="mt-1 text-xs text-gray-500">
+          The part of the model&apos;s footprint other pieces can&apos;t be placed on, seen from above with the back at
+          the top. Uploads trace it from the mesh; paint cells to open up doorways, courtyards or overhangs, or to
+          block areas the trace missed.
+        </p>
+      </div>
+
+      {grid ? (
+        <>
+          {value?.type === 'polygon' && (
+            <p className="text-xs text-gray-500">This mask is an outline; painting replaces it with the grid below.</p>
+          )}
+          <div className="overflow-auto">
+            <div
+              className="inline-grid touch-none select-none border border-gray-300 bg-white"
+              style={{ gridTemplateColumns: `repeat(${grid.cols}, ${CELL_PX}px)` }}
+              role="grid"
+              aria-label="Footprint mask"
+            >
+              {grid.cells.split('').map((cell, index) => (
+                <div
+                  key={index}
+                  className={cell === '1' ? 'bg-indigo-500' : 'bg-white hover:bg-indigo-100'}
+                  style={{ width: CELL_PX, height: CELL_PX, boxShadow: 'inset 0 0 0 0.5px rgba(0,0,0,0.08)' }}
+                  onPointerDown={(event) => {
+                    event.preventDefault()
+                    paintRef.current = cell === '1' ? '0' : '1'
+                    paint(index)
+                  }}
+                  onPointerEnter={() => paint(index)}
+                />
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            {blocked} of {grid.cols * grid.rows} cells blocked
+            {blocked === 0 && ' — pieces will be placeable anywhere on this model'}
+          </p>
+        </>
+      ) : (
+        <p className="text-xs text-gray-500">No mask: the whole footprint rectangle is blocked.</p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          onClick={() => onChange(grid ? { ...grid, cells: '1'.repeat(grid.cols * grid.rows) } : newGrid(width, depth))}
+          className="inline-flex items-center rounded-md border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+        >
+          {grid ? 'Block all' : 'Draw a mask'}
+        </button>
+        {grid && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...grid, cells: '0'.repeat(grid.cols * grid.rows) })}
+            className="inline-flex items-center rounded-md border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50"
+          >
+            Clear all
+          </button>
+        )}
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="inline-flex items-center rounded-md border border-gray-300 px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-gray-50"
+          >
+            Remove mask
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MaskEditor
@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useState } from 'react'
+import { isAxiosError } from 'axios'
+import { tablesApi } from '../api/endpoints/tables'
+import type { TableLayout, TableRevision, TableRevisionDiff } from '../api/types'
+
+interface UseTableRevisions {
+  revisions: TableRevision[]
+  loading: boolean
+  error: string | null
+  refresh: () => Promise<void>
+  diff: (fromId: string, toId: string) => Promise<TableRevisionDiff>
+  restore: (revisionId: string) => Promise<TableLayout>
+  branch: (revisionId: string, name?: string) => Promise<TableLayout>
+}
+
+export const revisionErrorMessage = (error: unknown): string => {
+  const apiError = isAxiosError<{ error?: string }>(error) ? error.response?.data?.error : undefined
+  return apiError ?? (error instanceof Error ? error.message : 'Request failed')
+}
+
+export function useTableRevisions(tableId: string | null | undefined): UseTableRevisions {
+  const [revisions, setRevisions] = useState<TableRevision[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    if (!tableId) {
+      setRevisions([])
+      return
+    }
+    setLoading(true)
+    try {
+      setRevisions(await tablesApi.getRevisions(tableId))
+      setError(null)
+    } catch (err) {
+      setError(revisionErrorMessage(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [tableId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const diff = useCallback(
+    (fromId: string, toId: string) => tablesApi.diffRevisions(tableId as string, fromId, toId),
+    [tableId],
+  )
+
+  // Restoring adds a revision, so the list is reloaded afterwards. Failed actions are
+  // thrown to the caller; `error` only reports loading the list.
+  const restore = useCallback(
+    async (revisionId: string) => {
+      const table = await tablesApi.restoreRevision(tableId as string, revisionId)
+      await refresh()
+      return table
+    },
+    [tableId, refresh],
+  )
+
+  const branch = useCallback(
+    (revisionId: string, name?: string) => tablesApi.branchRevision(tableId as string, revisionId, name),
+    [tableId],
+  )
+
+  return { revisions, loading, error, refresh, diff, restore, branch }
+}
@@ -84,6 +84,7 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ items, subtotal, clearCart
         items: items.map((item) => ({
           modelId: item.modelId,
           quantity: item.quantity,
+          scale: item.scale,
         })),
         customerEmail: shipping.email.trim(),
         shipping: {
@@ -245,6 +246,7 @@ const CheckoutForm: React.FC<CheckoutFormProps> = ({ items, subtotal, clearCart
                 <p className="font-medium text-gray-900">{item.name}</p>
                 <p className="text-xs text-gray-500">
                   {item.artistName} · Qty {item.quantity}
+                  {item.scale ? ` · ${item.scale} scale` : ''}
                 </p>
               </div>
               <span className="font-medium text-gray-900">
@@ -6,6 +6,8 @@ import toast from 'react-hot-toast'
 import { useNavigate } from 'react-router-dom'
 import { useQueryClient } from '@tanstack/react-query'
 import { LICENSE_OPTIONS } from '../../utils/licenses'
+import { ModelConnector } from '../../api/types'
+import ConnectorEditor, { ConnectorDraft, parseConnectorDrafts } from '../../components/models/ConnectorEditor'
 
 type FormValues = {
   name: string
@@ -43,6 +45,7 @@ const CreateModel: React.FC = () => {
   const [modelFile, setModelFile] = useState<File | null>(null)
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null)
   const [galleryFiles, setGalleryFiles] = useState<File[]>([])
+  const [connectorDrafts, setConnectorDrafts] = useState<ConnectorDraft[]>([])
   const [uploadProgress, setUploadProgress] = useState<number | null>(null)
   const [uploadStage, setUploadStage] = useState<'idle' | 'uploading' | 'processing' | 'gallery'>('idle')
 
@@ -54,6 +57,7 @@ const CreateModel: React.FC = () => {
       basePrice: number
       tags: string[]
       license: string
+      connectors: ModelConnector[]
       modelFile: File
       thumbnailFile?: File
     }
@@ -76,6 +80,12 @@ const CreateModel: React.FC = () => {
       return
     }
 
+    const parsedConnectors = parseConnectorDrafts(connectorDrafts)
+    if (parsedConnectors.error !== undefined) {
+      toast.error(parsedConnectors.error)
+      return
+    }
+
     const tags = values.tags
       ? values.tags
           .split(',')
@@ -95,6 +105,7 @@ const CreateModel: React.FC = () => {
           basePrice: Number(values.basePrice),
           tags,
           license: values.license,
+          connectors: parsedConnectors.connectors,
           modelFile,
           thumbnailFile: thumbnailFile ?? undefined,
         },
@@ -285,6 +296,8 @@ const CreateModel: React.FC = () => {
             </div>
           </div>
 
+          <ConnectorEditor value={connectorDrafts} onChange={setConnectorDrafts} />
+
           <div className="flex items-center justify-between rounded-lg border border-indigo-100 bg-indigo-50 px-4 py-3 text-sm text-indigo-700">
             <p>
               Tip: include assembly notes and recommended slicer settings to improve conversion rates and lower support requests.
@@ -5,8 +5,10 @@ import { useNavigate, useParams } from 'react-router-dom'
 import toast from 'react-hot-toast'
 
 import { modelsApi } from '../../api/endpoints/models'
-import { ModelUploadRequest } from '../../api/types'
+import { ModelOccupancyMask, ModelUploadRequest } from '../../api/types'
 import { LICENSE_OPTIONS } from '../../utils/licenses'
+import ConnectorEditor, { ConnectorDraft, parseConnectorDrafts, toConnectorDrafts } from '../../components/models/ConnectorEditor'
+import MaskEditor from '../../components/models/MaskEditor'
 
 type FormValues = {
   name: string
@@ -32,6 +34,12 @@ const EditModel: React.FC = () => {
   const queryClient = useQueryClient()
   const [newGalleryFiles, setNewGalleryFiles] = useState<File[]>([])
   const [isGalleryUploading, setIsGalleryUploading] = useState(false)
+  const [connectorDrafts, setConnectorDrafts] = useState<ConnectorDraft[]>([])
+  // only sent once the artist edits it, so saving other details never rewrites the mask
+  const [maskDraft, setMaskDraft] = useState<{ mask: ModelOccupancyMask | null; edited: boolean }>({
+    mask: null,
+    edited: false,
+  })
 
   const {
     register,
@@ -65,6 +73,8 @@ const EditModel: React.FC = () => {
         license: modelQuery.data.license ?? 'standard-commercial',
         tags: modelQuery.data.tags?.join(', ') ?? '',
       })
+      setConnectorDrafts(toConnectorDrafts(modelQuery.data.connectors))
+      setMaskDraft({ mask: modelQuery.data.occupancyMask ?? null, edited: false })
     }
   }, [modelQuery.data, reset])
 
@@ -94,6 +104,12 @@ const EditModel: React.FC = () => {
   const onSubmit = handleSubmit(async (values) => {
     if (!id) return
 
+    const parsedConnectors = parseConnectorDrafts(connectorDrafts)
+    if (parsedConnectors.error !== undefined) {
+      toast.error(parsedConnectors.error)
+      return
+    }
+
     const tagsArray = values.tags
       ? values.tags
           .split(',')
@@ -109,6 +125,8 @@ const EditModel: React.FC = () => {
         basePrice: Number(values.basePrice),
         license: values.license,
         tags: tagsArray,
+        connectors: parsedConnectors.connectors,
+        ...(maskDraft.edited ? { occupancyMask: maskDraft.mask } : {}),
       }
 
       await updateMutation.mutateAsync(updatePayload)
@@ -282,6 +300,15 @@ const EditModel: React.FC = () => {
             )}
           </div>
 
+          <MaskEditor
+            value={maskDraft.mask}
+            onChange={(mask) => setMaskDraft({ mask, edited: true })}
+            width={Number(existingModel.width) || undefined}
+            depth={Number(existingModel.depth) || undefined}
+          />
+
+          <ConnectorEditor value={connectorDrafts} onChange={setConnectorDrafts} />
+
           <div className="space-y-3">
             <h2 className="text-sm font-semibold text-gray-900">Gallery</h2>
             {existingImages.length > 0 ? (
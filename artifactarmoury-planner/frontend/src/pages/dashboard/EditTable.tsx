@@ -1,9 +1,11 @@
-import React from 'react'
+import React, { useState } from 'react'
 import { Link, useParams } from 'react-router-dom'
 import TerrainBuilder from '@ui/App'
+import { HistoryDialog } from '@ui/HistoryPanel'
 
 const EditTable: React.FC = () => {
   const { id } = useParams<{ id: string }>()
+  const [showHistory, setShowHistory] = useState(false)
 
   return (
     <div className="flex h-screen flex-col bg-slate-950 text-slate-100">
@@ -29,6 +31,13 @@ const EditTable: React.FC = () => {
               >
                 Browse global assets
               </Link>
+              <button
+                type="button"
+                onClick={() => setShowHistory(true)}
+                className="inline-flex items-center rounded-md border border-slate-700 px-3 py-1 text-xs font-semibold text-slate-200 hover:border-indigo-400"
+              >
+                History
+              </button>
             </div>
           )}
         </div>
@@ -37,6 +46,15 @@ const EditTable: React.FC = () => {
       <main className="flex-1">
         <TerrainBuilder tableId={id} />
       </main>
+
+      {showHistory && (
+        <div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/60"
+          onClick={() => setShowHistory(false)}
+        >
+          <HistoryDialog onClose={() => setShowHistory(false)} />
+        </div>
+      )}
     </div>
   )
 }
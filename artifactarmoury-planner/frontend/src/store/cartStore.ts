@@ -9,6 +9,8 @@ export interface CartItem {
   price: number
   imageUrl?: string
   quantity: number
+  // Model scale to print at (e.g. '15mm'), set by the terrain builder; unset prints as modelled
+  scale?: string
 }
 
 interface CartState {
@@ -20,6 +22,7 @@ interface CartState {
   addItem: (item: Omit<CartItem, 'quantity'>, options?: { openCart?: boolean }) => void
   removeItem: (modelId: string) => void
   updateQuantity: (modelId: string, quantity: number) => void
+  setItemScale: (modelId: string, scale: string | undefined) => void
   clearCart: () => void
   toggleCart: () => void
   openCart: () => void
@@ -105,6 +108,12 @@ export const useCartStore = create<CartState>()(
         })
       },
 
+      setItemScale: (modelId, scale) => {
+        set((state) => ({
+          items: state.items.map((item) => (item.modelId === modelId ? { ...item, scale } : item)),
+        }))
+      },
+
       clearCart: () => {
         set({ items: [], subtotal: 0, totalItems: 0, isOpen: false })
       },
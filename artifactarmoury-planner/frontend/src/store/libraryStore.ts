@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import apiClient from '../api/client'
+import { isOfflineError, useOfflineStore } from './offlineStore'
 
 const apiBase = (import.meta.env.VITE_API_BASE_URL ?? '').replace(/\/$/, '')
 
@@ -46,6 +47,9 @@ const normaliseLibraryAsset = (
     updated_at: raw.updated_at,
     file_ref: raw.file_ref,
     glb_file_path: toUploadUrl(raw.glb_file_path),
+    glb_lod_paths: Array.isArray(raw.glb_lod_paths)
+      ? raw.glb_lod_paths.map((lod) => toUploadUrl(lod)).filter((lod): lod is string => Boolean(lod))
+      : undefined,
     width: raw.width,
     depth: raw.depth,
     height: raw.height,
@@ -74,9 +78,12 @@ export interface LibraryAsset {
   updated_at?: string
   file_ref?: string
   glb_file_path?: string
+  glb_lod_paths?: string[] // distance LODs from the upload pipeline, finest first
   width?: number
   depth?: number
   height?: number
+  occupancy_mask?: unknown
+  connectors?: unknown
   model_id?: string
   artist_name?: string | null
   artist_display_name?: string | null
@@ -201,6 +208,17 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
       })
       await get().fetchTableAssets(tableId)
     } catch (error) {
+      if (isOfflineError(error)) {
+        useOfflineStore.getState().enqueue({ kind: 'table-asset-add', tableId, assetId, quantity })
+        set((state) => {
+          const current = state.tableAssets[tableId] ?? []
+          const existing = current.find((asset) => asset.asset_id === assetId)
+          const asset = state.assets.find((item) => item.id === assetId)
+          if (existing || !asset) return {}
+          return { tableAssets: { ...state.tableAssets, [tableId]: [...current, { ...asset, asset_id: assetId, quantity }] } }
+        })
+        return
+      }
       console.error('Failed to add asset to table', error)
       set({ error: 'Unable to add asset to table' })
     }
@@ -212,6 +230,16 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
       await apiClient.delete(`/api/tables/${tableId}/library/assets/${assetId}`)
       await get().fetchTableAssets(tableId)
     } catch (error) {
+      if (isOfflineError(error)) {
+        useOfflineStore.getState().enqueue({ kind: 'table-asset-remove', tableId, assetId })
+        set((state) => ({
+          tableAssets: {
+            ...state.tableAssets,
+            [tableId]: (state.tableAssets[tableId] ?? []).filter((asset) => asset.asset_id !== assetId),
+          },
+        }))
+        return
+      }
       console.error('Failed to remove asset from table', error)
       set({ error: 'Unable to remove asset from table' })
     }
@@ -252,7 +280,9 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
 
   async fetchAssetSets() {
     try {
-      const response = await apiClient.get<{ sets: AssetSet[] }>(`/api/library/sets`)
+      const response = await apiClient.get<{ sets: AssetSet[] }>(`/api/library/sets`, {
+        params: { kind: 'collection' },
+      })
       const { ownedAssetIds, ownedModelIds } = get()
       const sets = (response.data?.sets ?? []).map((set) => ({
         ...set,
@@ -355,6 +385,11 @@ export const useLibraryStore = create<LibraryState>((set, get) => ({
         applyRemoval()
         return
       }
+      if (isOfflineError(error)) {
+        useOfflineStore.getState().enqueue({ kind: 'library-remove', assetId })
+        applyRemoval()
+        return
+      }
       console.error('Failed to remove asset from library', error)
       throw error
     }
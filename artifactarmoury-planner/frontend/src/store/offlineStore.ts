@@ -0,0 +1,178 @@
+// src/store/offlineStore.ts
+import { create } from 'zustand'
+import { createJSONStorage, persist } from 'zustand/middleware'
+import { isAxiosError } from 'axios'
+import apiClient from '../api/client'
+import { tablesApi } from '../api/endpoints/tables'
+import type { TableLayout, TableLayoutData } from '../api/types'
+import { useAuthStore } from './authStore'
+
+// Changes made while the server can't be reached, replayed in order once it can.
+// A layout remembers the table version it was edited from (baseUpdatedAt), so replaying
+// it can't overwrite changes someone made on the server in the meantime.
+export type QueuedChange =
+  | { kind: 'table-layout'; tableId: string; layout: TableLayoutData; message?: string; baseUpdatedAt?: string }
+  | { kind: 'table-asset-add'; tableId: string; assetId: string; quantity: number }
+  | { kind: 'table-asset-remove'; tableId: string; assetId: string }
+  | { kind: 'library-remove'; assetId: string }
+
+export type QueuedEntry = { id: string; change: QueuedChange; queuedAt: number }
+
+// A queued layout the server refused because the table changed, with the table as it is now
+export type QueuedConflict = { entry: QueuedEntry; remote: TableLayout }
+
+interface OfflineState {
+  online: boolean
+  queue: QueuedEntry[]
+  replaying: boolean
+  // changes the server refused on replay; retrying them won't help
+  rejected: QueuedEntry[]
+  // layouts that need the user to choose between their copy and the server's
+  conflicts: QueuedConflict[]
+
+  setOnline: (online: boolean) => void
+  enqueue: (change: QueuedChange) => void
+  replay: () => Promise<QueuedChange[]>
+  dismissRejected: () => void
+  dismissConflict: (entryId: string) => void
+}
+
+/** No response at all: the browser is offline or the server is unreachable. */
+export const isOfflineError = (error: unknown): boolean =>
+  (typeof navigator !== 'undefined' && !navigator.onLine) ||
+  (isAxiosError(error) && !error.response && error.code !== 'ERR_CANCELED')
+
+// A later change with the same key supersedes an earlier one, so only the last layout
+// saved for a table (or the last add/remove of an asset) is sent
+const changeKey = (change: QueuedChange): string => {
+  switch (change.kind) {
+    case 'table-layout':
+      return `layout:${change.tableId}`
+    case 'table-asset-add':
+    case 'table-asset-remove':
+      return `table-asset:${change.tableId}:${change.assetId}`
+    case 'library-remove':
+      return `library:${change.assetId}`
+  }
+}
+
+async function send(change: QueuedChange) {
+  switch (change.kind) {
+    case 'table-layout':
+      await tablesApi.updateTable(change.tableId, { layout: change.layout }, change.message ?? 'Saved offline', {
+        expectedUpdatedAt: change.baseUpdatedAt,
+      })
+      return
+    case 'table-asset-add':
+      await apiClient.post(`/api/tables/${change.tableId}/library/assets`, {
+        assetId: change.assetId,
+        quantity: change.quantity,
+      })
+      return
+    case 'table-asset-remove':
+      await apiClient.delete(`/api/tables/${change.tableId}/library/assets/${change.assetId}`)
+      return
+    case 'library-remove':
+      await apiClient.delete(`/api/library/owned/${change.assetId}`)
+      return
+  }
+}
+
+// Queues are kept per user on this device, like saved layouts; signed-out changes use the guest slot
+const queueStorage = createJSONStorage(() => ({
+  getItem: (name: string) => localStorage.getItem(`${name}:${useAuthStore.getState().user?.id ?? 'guest'}`),
+  setItem: (name: string, value: string) =>
+    localStorage.setItem(`${name}:${useAuthStore.getState().user?.id ?? 'guest'}`, value),
+  removeItem: (name: string) => localStorage.removeItem(`${name}:${useAuthStore.getState().user?.id ?? 'guest'}`),
+}))
+
+export const useOfflineStore = create<OfflineState>()(
+  persist(
+    (set, get) => ({
+      online: typeof navigator === 'undefined' ? true : navigator.onLine,
+      queue: [],
+      replaying: false,
+      rejected: [],
+      conflicts: [],
+
+      setOnline: (online) => set({ online }),
+
+      enqueue: (change) => {
+        const key = changeKey(change)
+        const entry: QueuedEntry = {
+          id: `q_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`,
+          change,
+          queuedAt: Date.now(),
+        }
+        set((state) => ({
+          queue: [...state.queue.filter((queued) => changeKey(queued.change) !== key), entry],
+        }))
+      },
+
+      // Stops at the first change that can't get through, leaving it and the rest queued
+      replay: async () => {
+        if (get().replaying || get().queue.length === 0) return []
+        set({ replaying: true })
+        const applied: QueuedChange[] = []
+        try {
+          for (const entry of get().queue) {
+            try {
+              await send(entry.change)
+              applied.push(entry.change)
+            } catch (error) {
+              const status = isAxiosError(error) ? error.response?.status : undefined
+              // still offline, or the server is having trouble: try again later
+              if (isOfflineError(error) || !status || status >= 500) break
+              if (status === 409 && entry.change.kind === 'table-layout') {
+                // undefined: can't fetch it right now; null: the table has gone since
+                const remote = await tablesApi
+                  .getTableById(entry.change.tableId)
+                  .catch((fetchError) => (isOfflineError(fetchError) ? undefined : null))
+                if (remote === undefined) break
+                set((state) =>
+                  remote
+                    ? { conflicts: [...state.conflicts, { entry, remote }] }
+                    : { rejected: [...state.rejected, entry] },
+                )
+                set((state) => ({ queue: state.queue.filter((queued) => queued.id !== entry.id) }))
+                continue
+              }
+              // already removed is as good as removed
+              if (!(status === 404 && entry.change.kind !== 'table-layout' && entry.change.kind !== 'table-asset-add')) {
+                console.error('Queued change rejected by the server', entry.change, error)
+                set((state) => ({ rejected: [...state.rejected, entry] }))
+              }
+            }
+            set((state) => ({ queue: state.queue.filter((queued) => queued.id !== entry.id) }))
+          }
+        } finally {
+          set({ replaying: false })
+        }
+        return applied
+      },
+
+      dismissRejected: () => set({ rejected: [] }),
+
+      dismissConflict: (entryId) =>
+        set((state) => ({ conflicts: state.conflicts.filter((conflict) => conflict.entry.id !== entryId) })),
+    }),
+    {
+      name: 'terrain_offline_queue',
+      storage: queueStorage,
+      partialize: (state) => ({ queue: state.queue, rejected: state.rejected, conflicts: state.conflicts }),
+      // another user's slot replaces this one's entirely, empty or not
+      merge: (persisted, current) => ({
+        ...current,
+        queue: [],
+        rejected: [],
+        conflicts: [],
+        ...(persisted as Partial<OfflineState> | undefined),
+      }),
+    },
+  ),
+)
+
+// Signing in or out swaps in that user's queue
+useAuthStore.subscribe((state, prev) => {
+  if (state.user?.id !== prev.user?.id) void useOfflineStore.persist.rehydrate()
+})
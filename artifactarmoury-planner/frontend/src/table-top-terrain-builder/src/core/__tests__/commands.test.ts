@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import {
+  COMMANDS,
+  ShortcutOverridesSchema,
+  commandsForKey,
+  findConflicts,
+  formatKeys,
+  keyFromEvent,
+  resolveBindings,
+  searchCommands,
+  type KeyLike,
+} from '@core/commands'
+
+const press = (code: string, key: string, mods: Partial<KeyLike> = {}): KeyLike => ({
+  code,
+  key,
+  ctrlKey: false,
+  metaKey: false,
+  altKey: false,
+  shiftKey: false,
+  ...mods,
+})
+
+describe('keyFromEvent', () => {
+  it('writes modifiers in a fixed order', () => {
+    expect(keyFromEvent(press('KeyZ', 'Z', { ctrlKey: true, shiftKey: true }))).toBe('Mod+Shift+Z')
+    expect(keyFromEvent(press('KeyK', 'k', { metaKey: true }))).toBe('Mod+K')
+  })
+
+  it('reads letters by position so Alt combos still match', () => {
+    expect(keyFromEvent(press('KeyX', '≈', { altKey: true }))).toBe('Alt+X')
+  })
+
+  it('leaves Shift out of typed symbols', () => {
+    expect(keyFromEvent(press('Slash', '?', { shiftKey: true }))).toBe('?')
+    expect(keyFromEvent(press('Digit1', '!', { shiftKey: true }))).toBe('!')
+    expect(keyFromEvent(press('Equal', '+', { shiftKey: true }))).toBe('Plus')
+  })
+
+  it('names special keys and ignores bare modifiers', () => {
+    expect(keyFromEvent(press('Space', ' '))).toBe('Space')
+    expect(keyFromEvent(press('Escape', 'Escape'))).toBe('Escape')
+    expect(keyFromEvent(press('ShiftLeft', 'Shift', { shiftKey: true }))).toBeNull()
+  })
+})
+
+describe('formatKeys', () => {
+  it('spells out Mod for the platform', () => {
+    expect(formatKeys('Mod+Shift+Z', false)).toBe('Ctrl + Shift + Z')
+    expect(formatKeys('Mod+Shift+Z', true)).toBe('⌘ + Shift + Z')
+    expect(formatKeys('Escape', false)).toBe('Esc')
+  })
+})
+
+describe('bindings', () => {
+  it('ships without conflicts', () => {
+    expect(findConflicts(resolveBindings({}))).toEqual([])
+  })
+
+  it('only lets commands share keys when they apply at different times', () => {
+    const bindings = resolveBindings({})
+    expect(commandsForKey(bindings, 'Q', 'placing').map((c) => c.id)).toEqual(['placement.rotateLeft'])
+    expect(commandsForKey(bindings, 'Q', 'selection').map((c) => c.id)).toEqual(['selection.rotateLeft'])
+    expect(commandsForKey(bindings, 'Q', null)).toEqual([])
+  })
+
+  it('reports a rebinding that clashes with a global command', () => {
+    const bindings = resolveBindings({ 'selection.duplicate': ['Mod+Z'] })
+    expect(findConflicts(bindings)).toEqual([{ combo: 'Mod+Z', ids: ['edit.undo', 'selection.duplicate'] }])
+  })
+
+  it('keeps defaults for commands the user did not rebind', () => {
+    const bindings = resolveBindings({ 'edit.redo': ['Mod+Shift+Y'] })
+    expect(bindings.get('edit.redo')).toEqual(['Mod+Shift+Y'])
+    expect(bindings.get('edit.undo')).toEqual(['Mod+Z'])
+    expect(bindings.size).toBe(COMMANDS.length)
+  })
+
+  it('validates stored overrides', () => {
+    expect(ShortcutOverridesSchema.safeParse({ 'edit.undo': ['Mod+U'] }).success).toBe(true)
+    expect(ShortcutOverridesSchema.safeParse({ 'edit.undo': 'Mod+U' }).success).toBe(false)
+  })
+})
+
+describe('searchCommands', () => {
+  it('matches every word against title and category', () => {
+    const ids = searchCommands('rotate selection').map((c) => c.id)
+    expect(ids).toContain('selection.rotateLeft')
+    expect(ids).not.toContain('placement.rotateLeft')
+  })
+
+  it('returns everything for an empty query', () => {
+    expect(searchCommands('  ')).toBe(COMMANDS)
+  })
+})
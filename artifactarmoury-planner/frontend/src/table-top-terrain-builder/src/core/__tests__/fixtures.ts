@@ -0,0 +1,15 @@
+// Shared builders for the core tests
+import type { Asset } from '@core/assets'
+
+/** A catalogue asset named after its id: a 10 cm cube unless `extra` says otherwise. */
+export function testAsset(id: string, extra: Partial<Asset> = {}): Asset {
+  return {
+    id,
+    name: id,
+    tags: [],
+    aabb: { x: 0.1, y: 0.1, z: 0.1 },
+    footprint: { cols: 1, rows: 1 },
+    rotationStepDeg: 90,
+    ...extra,
+  }
+}
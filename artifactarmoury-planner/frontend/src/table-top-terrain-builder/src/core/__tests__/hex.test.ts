@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import {
+  hexCorners,
+  hexDistance,
+  hexFootprint,
+  hexRadius,
+  hexToWorld,
+  hexesInRange,
+  snapToHex,
+  worldToHex,
+  type HexOrientation,
+} from '@core/hex'
+
+const INCH = 0.0254
+
+describe.each<HexOrientation>(['flat', 'pointy'])('%s hexes', (orientation) => {
+  it('round-trips every hex centre', () => {
+    for (const h of hexesInRange({ q: 0, r: 0 }, 3)) {
+      const p = hexToWorld(h, INCH, orientation)
+      expect(worldToHex(p.x, p.z, INCH, orientation)).toEqual(h)
+    }
+  })
+
+  it('puts neighbouring centres one grid size apart', () => {
+    const centre = hexToWorld({ q: 0, r: 0 }, INCH, orientation)
+    for (const h of hexesInRange({ q: 0, r: 0 }, 1).filter((n) => n.q || n.r)) {
+      const p = hexToWorld(h, INCH, orientation)
+      expect(Math.hypot(p.x - centre.x, p.z - centre.z)).toBeCloseTo(INCH)
+    }
+  })
+
+  it('snaps a point to the centre of the hex it is in', () => {
+    const target = hexToWorld({ q: 2, r: -1 }, INCH, orientation)
+    const snapped = snapToHex(target.x + INCH * 0.2, target.z - INCH * 0.2, INCH, orientation)
+    expect(snapped.x).toBeCloseTo(target.x)
+    expect(snapped.z).toBeCloseTo(target.z)
+  })
+
+  it('places six corners on the circumradius', () => {
+    const corners = hexCorners(1, 2, INCH, orientation)
+    expect(corners).toHaveLength(6)
+    for (const c of corners) expect(Math.hypot(c.x - 1, c.z - 2)).toBeCloseTo(hexRadius(INCH))
+  })
+})
+
+describe('hexDistance', () => {
+  it('counts steps between hexes', () => {
+    expect(hexDistance({ q: 0, r: 0 }, { q: 2, r: -1 })).toBe(2)
+    expect(hexDistance({ q: -1, r: 3 }, { q: -1, r: 3 })).toBe(0)
+  })
+})
+
+describe('hexesInRange', () => {
+  it('returns 1, 7 and 19 hexes for radii 0, 1 and 2', () => {
+    expect(hexesInRange({ q: 4, r: 4 }, 0)).toEqual([{ q: 4, r: 4 }])
+    expect(hexesInRange({ q: 0, r: 0 }, 1)).toHaveLength(7)
+    expect(hexesInRange({ q: 0, r: 0 }, 2)).toHaveLength(19)
+  })
+})
+
+describe('hexFootprint', () => {
+  it('always covers the anchor, even for a piece smaller than a hex', () => {
+    expect(hexFootprint({ q: 1, r: 1 }, INCH / 4, INCH / 4, INCH, 'flat')).toEqual([{ q: 1, r: 1 }])
+  })
+
+  it('covers every hex centre inside the rectangle', () => {
+    const cells = hexFootprint({ q: 0, r: 0 }, 3 * INCH, 3 * INCH, INCH, 'pointy')
+    for (const h of cells) {
+      const p = hexToWorld(h, INCH, 'pointy')
+      expect(Math.abs(p.x)).toBeLessThanOrEqual(1.5 * INCH + 1e-6)
+      expect(Math.abs(p.z)).toBeLessThanOrEqual(1.5 * INCH + 1e-6)
+    }
+    expect(cells.length).toBeGreaterThan(1)
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { footprintPolygon, obbOverlap, orientedBox, placedDims, projectedExtent } from '@core/obb'
+
+const unit = { x: 1, y: 1, z: 1 }
+const at = (x: number, z: number, rotationDeg = 0) => ({ position: { x, z }, rotationDeg })
+
+describe('orientedBox', () => {
+  it('stands the box on its base at its elevation', () => {
+    const box = orientedBox({ ...at(0.2, -0.3), elevation: 0.5 }, { x: 1, y: 2, z: 1 })
+    expect(box.centre).toEqual({ x: 0.2, y: 1.5, z: -0.3 })
+    expect(box.half).toEqual({ x: 0.5, y: 1, z: 0.5 })
+  })
+
+  it('turns the shadow with the yaw', () => {
+    const ext = projectedExtent(orientedBox(at(0, 0, 90), { x: 2, y: 1, z: 0.5 }))
+    expect(ext.x).toBeCloseTo(0.25)
+    expect(ext.z).toBeCloseTo(1)
+  })
+
+  it('lays a tipped piece along the table', () => {
+    const ext = projectedExtent(orientedBox({ ...at(0, 0), rotationX: 90 }, { x: 1, y: 2, z: 0.5 }))
+    expect(ext.x).toBeCloseTo(0.5)
+    expect(ext.z).toBeCloseTo(1)
+  })
+
+  it('swaps X and Z for stretched pieces', () => {
+    expect(placedDims({ swapXZ: true }, { x: 1, y: 2, z: 3 })).toEqual({ x: 3, y: 2, z: 1 })
+    expect(orientedBox({ ...at(0, 0), swapXZ: true }, { x: 1, y: 2, z: 3 }).half).toEqual({ x: 1.5, y: 1, z: 0.5 })
+  })
+})
+
+describe('obbOverlap', () => {
+  it('finds overlapping boxes', () => {
+    expect(obbOverlap(orientedBox(at(0, 0), unit), orientedBox(at(0.5, 0.5), unit))).toBe(true)
+  })
+
+  it('treats touching faces as clear', () => {
+    expect(obbOverlap(orientedBox(at(0, 0), unit), orientedBox(at(1, 0), unit))).toBe(false)
+  })
+
+  it('lets a turned piece sit in the gap at a corner', () => {
+    const wall = orientedBox(at(0, 0), unit)
+    const crate = orientedBox(at(0.62, 0.62, 45), { x: 0.2, y: 1, z: 0.2 })
+    const ext = projectedExtent(crate)
+    // the axis-aligned shadows overlap, the boxes don't
+    expect(0.62 - ext.x).toBeLessThan(0.5)
+    expect(obbOverlap(wall, crate)).toBe(false)
+  })
+
+  it('separates boxes stacked on top of each other', () => {
+    const below = orientedBox(at(0, 0), unit)
+    const above = orientedBox({ ...at(0, 0), elevation: 1 }, unit)
+    expect(obbOverlap(below, above)).toBe(false)
+  })
+})
+
+describe('footprintPolygon', () => {
+  it('is the box outline for an upright piece', () => {
+    const outline = footprintPolygon(orientedBox(at(1, 2), { x: 2, y: 1, z: 1 }))
+    const xs = outline.map((p) => p.x)
+    const zs = outline.map((p) => p.z)
+    expect([Math.min(...xs), Math.max(...xs), Math.min(...zs), Math.max(...zs)]).toEqual([0, 2, 1.5, 2.5])
+  })
+})
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import type { Table } from '@state/store'
+import {
+  aabbFootprint,
+  buildOccupiedSet,
+  collides,
+  gridDims,
+  groupFits,
+  inBounds,
+  instanceCells,
+  instanceOccupant,
+  restingElevation,
+  snapRotationForFootprint,
+  worldToCell,
+} from '@core/occupancy'
+import { roundOutline } from '@core/tableShape'
+import { testAsset } from './fixtures'
+
+const table: Table = { width: 1.2, height: 0.9, unitDisplay: 'm', gridSize: 0.1 }
+
+const wall = testAsset('wall', { aabb: { x: 0.2, y: 0.1, z: 0.1 } })
+const crate = testAsset('crate', { aabb: { x: 0.1, y: 0.05, z: 0.1 } })
+// 0.4 m square with its +x/+z quarter open
+const corner = testAsset('corner', {
+  aabb: { x: 0.4, y: 0.1, z: 0.4 },
+  occupancy: { type: 'bitmap', cols: 2, rows: 2, cells: '1110' },
+})
+const assetsById = new Map([wall, crate, corner].map((a) => [a.id, a]))
+
+const place = (id: string, assetId: string, x: number, z: number, extra = {}) => ({
+  id,
+  assetId,
+  position: { x, z },
+  rotationDeg: 0,
+  ...extra,
+})
+
+const hits = (piece: ReturnType<typeof place>, others: Array<ReturnType<typeof place>>) =>
+  collides(instanceOccupant(piece, assetsById.get(piece.assetId)!, table), buildOccupiedSet(others, assetsById, table), table)
+
+describe('grid cells', () => {
+  it('sizes the grid from the table', () => {
+    expect(gridDims(table)).toEqual({ cols: 13, rows: 10 })
+  })
+
+  it('maps world points to cells, clamped to the board', () => {
+    expect(worldToCell(-0.6, -0.45, table)).toEqual({ c: 0, r: 0 })
+    expect(worldToCell(5, 5, table)).toEqual({ c: 12, r: 9 })
+  })
+
+  it('turns footprints with the piece', () => {
+    expect(aabbFootprint(wall, 0, 0.1)).toEqual({ cols: 2, rows: 1 })
+    expect(aabbFootprint(wall, 90, 0.1)).toEqual({ cols: 1, rows: 2 })
+  })
+
+  it('snaps free rotations to quarter turns', () => {
+    expect(snapRotationForFootprint(-80)).toBe(270)
+    expect(snapRotationForFootprint(359)).toBe(0)
+  })
+
+  it('keeps pieces inside a shaped table', () => {
+    const round: Table = { ...table, width: 0.9, outline: roundOutline(0.9) }
+    expect(inBounds(instanceCells(place('a', 'crate', 0, 0), crate, round), round)).toBe(true)
+    expect(inBounds(instanceCells(place('a', 'crate', -0.4, -0.4), crate, round), round)).toBe(false)
+  })
+})
+
+describe('collides', () => {
+  it('finds pieces on the same spot', () => {
+    expect(hits(place('b', 'wall', 0.05, 0), [place('a', 'wall', 0, 0)])).toBe(true)
+  })
+
+  it('lets pieces touch side by side', () => {
+    expect(hits(place('b', 'wall', 0.2, 0), [place('a', 'wall', 0, 0)])).toBe(false)
+  })
+
+  it('lets a piece stand on top of another', () => {
+    expect(hits(place('b', 'crate', 0, 0, { elevation: 0.1 }), [place('a', 'wall', 0, 0)])).toBe(false)
+  })
+
+  it('leaves the open part of a masked piece free', () => {
+    expect(hits(place('b', 'crate', 0.1, 0.1), [place('a', 'corner', 0, 0)])).toBe(false)
+    expect(hits(place('b', 'crate', -0.1, -0.1), [place('a', 'corner', 0, 0)])).toBe(true)
+  })
+})
+
+describe('restingElevation', () => {
+  it('drops a piece onto the tallest one below it', () => {
+    const others = [place('a', 'wall', 0, 0), place('b', 'crate', 0.05, 0, { elevation: 0.1 })]
+    expect(restingElevation(place('c', 'crate', 0.05, 0), others, assetsById, table)).toBeCloseTo(0.15)
+    expect(restingElevation(place('c', 'crate', 0.4, 0.3), others, assetsById, table)).toBe(0)
+  })
+})
+
+describe('groupFits', () => {
+  const instances = [place('a', 'wall', 0, 0), place('b', 'wall', 0.4, 0)]
+
+  it('accepts a move into free space', () => {
+    expect(groupFits([place('b', 'wall', 0.3, 0.3)], instances, assetsById, table)).toBe(true)
+  })
+
+  it('rejects moves onto other pieces', () => {
+    expect(groupFits([place('b', 'wall', 0.05, 0)], instances, assetsById, table)).toBe(false)
+  })
+
+  it('rejects moves off a shaped table', () => {
+    const round: Table = { ...table, width: 0.9, outline: roundOutline(0.9) }
+    expect(groupFits([place('b', 'wall', 0.35, 0.35)], instances, assetsById, round)).toBe(false)
+  })
+
+  it('checks members of the group against each other', () => {
+    const moved = [place('a', 'wall', 0.3, 0.3), place('b', 'wall', 0.35, 0.3)]
+    expect(groupFits(moved, instances, assetsById, table)).toBe(false)
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import type { Instance, Table } from '@state/store'
+import { BUILT_IN_RULE_SETS, checkLayout, parseRuleSet, type RuleSet } from '@core/rules'
+import { testAsset } from './fixtures'
+
+const INCH = 0.0254
+const table: Table = { width: 0.6, height: 0.6, unitDisplay: 'm', gridSize: INCH }
+
+const block = testAsset('block', { aabb: { x: 0.3, y: 0.02, z: 0.3 } })
+const crate = testAsset('crate', { aabb: { x: 0.05, y: 0.05, z: 0.05 }, tags: ['Crate'] })
+const assetsById = new Map([block, crate].map((a) => [a.id, a]))
+
+const place = (id: string, assetId: string, x: number, z: number, extra: Partial<Instance> = {}): Instance => ({
+  id,
+  assetId,
+  position: { x, z },
+  rotationDeg: 0,
+  ...extra,
+})
+
+const check = (rules: RuleSet['rules'], instances: Instance[], onTable: Table = table) =>
+  checkLayout({ name: 'Test', rules }, instances, assetsById, onTable)
+
+describe('parseRuleSet', () => {
+  it('fills in defaults', () => {
+    const set = parseRuleSet('{"name":"Club","rules":[{"type":"open-lane","maxInches":18}]}')
+    expect(set.rules[0]).toEqual({ type: 'open-lane', maxInches: 18, blockerHeightInches: 0 })
+  })
+
+  it('says where an invalid rule set is wrong', () => {
+    expect(() => parseRuleSet('{"name":"Club","rules":[{"type":"min-gap","inches":-1}]}')).toThrow(/rules\.0\.inches/)
+  })
+
+  it('accepts the built-in sets', () => {
+    for (const set of BUILT_IN_RULE_SETS) expect(parseRuleSet(JSON.stringify(set))).toEqual(set)
+  })
+})
+
+describe('checkLayout', () => {
+  it('measures coverage from piece footprints', () => {
+    const report = check(
+      [
+        { type: 'coverage', minPercent: 20, maxPercent: 30 },
+        { type: 'coverage', maxPercent: 10 },
+      ],
+      [place('a', 'block', 0, 0)],
+    )
+    expect(report.results.map((r) => r.passed)).toEqual([true, false])
+    expect(report.results[0].label).toBe('Coverage 20–30%')
+    expect(report.score).toBe(50)
+  })
+
+  it('does not count pieces stacked on others as ground cover', () => {
+    const report = check([{ type: 'coverage', maxPercent: 10 }], [place('a', 'block', 0, 0, { elevation: 0.05 })])
+    expect(report.results[0].detail).toBe('0.0% covered')
+  })
+
+  it('reports the open lane across an empty table', () => {
+    const [result] = check([{ type: 'open-lane', maxInches: 12, blockerHeightInches: 0 }], []).results
+    const [from, to] = result.lanes[0]
+    expect(result.passed).toBe(false)
+    expect(Math.hypot(to.x - from.x, to.z - from.z)).toBeCloseTo(0.6)
+  })
+
+  it('flags pieces that are close but not touching', () => {
+    const tooClose = check([{ type: 'min-gap', inches: 2 }], [place('a', 'crate', 0, 0), place('b', 'crate', 0.05 + INCH, 0)])
+    expect(tooClose.results[0].passed).toBe(false)
+    expect(tooClose.results[0].instanceIds.sort()).toEqual(['a', 'b'])
+
+    const touching = check([{ type: 'min-gap', inches: 2 }], [place('a', 'crate', 0, 0), place('b', 'crate', 0.05, 0)])
+    expect(touching.results[0].passed).toBe(true)
+  })
+
+  it('counts pieces by tag and highlights too many', () => {
+    const [result] = check([{ type: 'category-count', category: 'crate', max: 1 }], [
+      place('a', 'crate', 0, 0),
+      place('b', 'crate', 0.2, 0.2),
+    ]).results
+    expect(result.passed).toBe(false)
+    expect(result.detail).toBe('2 crate')
+    expect(result.instanceIds).toEqual(['a', 'b'])
+  })
+
+  it('passes zone checks when the table has no zones', () => {
+    const [result] = check([{ type: 'zone-blockers', maxHeightInches: 1 }], [place('a', 'crate', 0, 0)]).results
+    expect(result).toMatchObject({ passed: true, detail: 'no deployment zones' })
+  })
+
+  it('skips instances whose asset is missing', () => {
+    const report = check([{ type: 'coverage', maxPercent: 10 }], [place('a', 'gone', 0, 0)])
+    expect(report.results[0].passed).toBe(true)
+  })
+})
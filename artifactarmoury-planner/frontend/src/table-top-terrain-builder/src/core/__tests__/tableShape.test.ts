@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest'
+import {
+  boardsOutline,
+  centreOutline,
+  lShapeOutline,
+  onTable,
+  outlineArea,
+  roundOutline,
+  scaleOutline,
+  tableSpans,
+} from '@core/tableShape'
+
+const rectangle = { width: 1.2, height: 0.9 }
+// back-right 0.4 × 0.3 corner missing
+const lShape = { ...rectangle, outline: lShapeOutline(1.2, 0.9, 0.4, 0.3) }
+
+describe('onTable', () => {
+  it('counts the edges of a plain table', () => {
+    expect(onTable(rectangle, 0.6, 0.45)).toBe(true)
+    expect(onTable(rectangle, 0.61, 0)).toBe(false)
+  })
+
+  it('follows an L-shaped outline', () => {
+    expect(onTable(lShape, 0.5, -0.4)).toBe(false)
+    expect(onTable(lShape, -0.5, 0.4)).toBe(true)
+    expect(onTable(lShape, 0.2, -0.4)).toBe(true)
+  })
+
+  it('joins boards pushed together', () => {
+    const boards = { width: 1.2, height: 0.6, outline: boardsOutline(2, 1, 0.6, 0.6) }
+    expect(onTable(boards, 0, 0)).toBe(true)
+    expect(onTable(boards, 0, 0.31)).toBe(false)
+  })
+
+  it('cuts the corners off a round table', () => {
+    const round = { width: 1, height: 1, outline: roundOutline(1) }
+    expect(onTable(round, 0.49, 0)).toBe(true)
+    expect(onTable(round, 0.45, 0.45)).toBe(false)
+  })
+})
+
+describe('outlineArea', () => {
+  it('measures the table that is there', () => {
+    expect(outlineArea(lShape.outline)).toBeCloseTo(1.2 * 0.9 - 0.4 * 0.3)
+    expect(outlineArea(boardsOutline(3, 2, 0.6, 0.6))).toBeCloseTo(6 * 0.36)
+  })
+})
+
+describe('tableSpans', () => {
+  it('returns where a line crosses the table', () => {
+    const [[from, to]] = tableSpans(lShape, 'x', -0.4)
+    expect(from).toBeCloseTo(-0.6)
+    expect(to).toBeCloseTo(0.2)
+    expect(tableSpans(lShape, 'z', -0.5)).toHaveLength(1)
+  })
+
+  it('merges boards that meet', () => {
+    const spans = tableSpans({ width: 1.2, height: 0.6, outline: boardsOutline(2, 1, 0.6, 0.6) }, 'x', 0)
+    expect(spans).toHaveLength(1)
+    expect(spans[0][0]).toBeCloseTo(-0.6)
+    expect(spans[0][1]).toBeCloseTo(0.6)
+  })
+})
+
+describe('centreOutline / scaleOutline', () => {
+  it('centres an outline on its bounding box', () => {
+    const { outline, width, height } = centreOutline({
+      kind: 'polygon',
+      points: [{ x: 0, z: 0 }, { x: 2, z: 0 }, { x: 2, z: 1 }],
+    })
+    expect([width, height]).toEqual([2, 1])
+    expect(outline).toEqual({ kind: 'polygon', points: [{ x: -1, z: -0.5 }, { x: 1, z: -0.5 }, { x: 1, z: 0.5 }] })
+  })
+
+  it('scales boards by position and size', () => {
+    expect(scaleOutline(boardsOutline(2, 1, 0.6, 0.6), 1000)).toEqual({
+      kind: 'boards',
+      boards: [
+        { x: -300, z: 0, width: 600, depth: 600 },
+        { x: 300, z: 0, width: 600, depth: 600 },
+      ],
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import type { Instance, Table } from '@state/store'
+import { isTTSSave, layoutToTTS, ttsToLayout, type TTSSave } from '@core/tts'
+import { testAsset } from './fixtures'
+
+const INCH = 0.0254
+const table: Table = { width: 1.8288, height: 1.2192, unitDisplay: 'in', gridSize: INCH }
+const baseUrl = 'https://armoury.example'
+
+const ruin = testAsset('ruin', { name: 'Ruined chapel', sourceModelId: 'model-1', artistName: 'Ada' })
+const handmade = testAsset('handmade', { name: 'Handmade hill' })
+const assets = [ruin, handmade]
+const assetsById = new Map(assets.map((a) => [a.id, a]))
+
+const instance = (id: string, extra: Partial<Instance> = {}): Instance => ({
+  id,
+  assetId: 'ruin',
+  position: { x: 10 * INCH, z: 2 * INCH },
+  rotationDeg: 0,
+  ...extra,
+})
+
+describe('layoutToTTS', () => {
+  it('places library pieces in inches on the TTS table', () => {
+    const save = layoutToTTS([instance('a', { elevation: INCH })], assetsById, table, { baseUrl })
+    const [obj] = save.ObjectStates
+    expect(obj.Transform).toMatchObject({ posX: 10, posY: 2, posZ: -2, scaleX: 1, scaleY: 1, scaleZ: 1 })
+    expect(obj.CustomMesh?.MeshURL).toBe(`${baseUrl}/api/models/model-1/tts.obj`)
+    expect(obj).toMatchObject({ Nickname: 'Ruined chapel', Description: 'by Ada', Locked: true })
+  })
+
+  it("scales pieces by the table's scale profile", () => {
+    const [obj] = layoutToTTS([instance('a')], assetsById, { ...table, scale: '15mm' }, { baseUrl }).ObjectStates
+    expect(obj.Transform?.scaleX).toBeCloseTo(15 / 28, 6)
+  })
+
+  it('skips pieces that are not library models and says so', () => {
+    const save = layoutToTTS([instance('a'), instance('b', { assetId: 'handmade' })], assetsById, table, { baseUrl })
+    expect(save.ObjectStates).toHaveLength(1)
+    expect(save.Note).toContain('Not exported (not a library model): Handmade hill')
+  })
+
+  it('gives each instance a stable GUID', () => {
+    const first = layoutToTTS([instance('a')], assetsById, table, { baseUrl }).ObjectStates[0].GUID
+    const again = layoutToTTS([instance('a')], assetsById, table, { baseUrl }).ObjectStates[0].GUID
+    expect(first).toMatch(/^[0-9a-f]{6}$/)
+    expect(again).toBe(first)
+  })
+})
+
+describe('ttsToLayout', () => {
+  it('reads an export back to the same placement', () => {
+    const placed = [
+      instance('a', { rotationDeg: 90 }),
+      instance('b', { position: { x: -0.3, z: 0.2 }, rotationDeg: 30, rotationX: 90, elevation: 0.05, swapXZ: true }),
+    ]
+    const { instances, unresolved } = ttsToLayout(layoutToTTS(placed, assetsById, table, { baseUrl }), assets)
+
+    expect(unresolved).toEqual([])
+    instances.forEach((inst, i) => {
+      const original = placed[i]
+      expect(inst.assetId).toBe('ruin')
+      expect(inst.position.x).toBeCloseTo(original.position.x, 4)
+      expect(inst.position.z).toBeCloseTo(original.position.z, 4)
+      expect(inst.rotationDeg).toBeCloseTo(original.rotationDeg, 2)
+      expect(inst.rotationX ?? 0).toBeCloseTo(original.rotationX ?? 0, 2)
+      expect(inst.elevation ?? 0).toBeCloseTo(original.elevation ?? 0, 4)
+      expect(Boolean(inst.swapXZ)).toBe(Boolean(original.swapXZ))
+    })
+  })
+
+  it('matches objects from other saves by mesh URL or name', () => {
+    const save: TTSSave = {
+      SaveName: 'Club night',
+      ObjectStates: [
+        { Name: 'Custom_Model', Transform: { posX: 0, posY: 1, posZ: 0 }, CustomMesh: { MeshURL: 'http://elsewhere/api/models/model-1/tts.obj' } },
+        { Name: 'Custom_Model', Nickname: 'handmade HILL', Transform: { posX: 1, posY: 1, posZ: 0 } },
+      ],
+    }
+    expect(ttsToLayout(save, assets).instances.map((i) => i.assetId)).toEqual(['ruin', 'handmade'])
+  })
+
+  it('reports what it cannot place', () => {
+    const save: TTSSave = {
+      SaveName: 'Club night',
+      ObjectStates: [
+        { Name: 'Die_6', Transform: { posX: 0, posY: 1, posZ: 0 } },
+        { Name: 'Bag', ContainedObjects: [{ Name: 'Custom_Model' }] },
+        { Name: 'Custom_Model', Nickname: 'Ruined chapel' },
+      ],
+    }
+    expect(ttsToLayout(save, assets).unresolved.map((u) => u.reason)).toEqual([
+      'Not a custom model',
+      'Container of 1 objects, not unpacked',
+      'No position',
+    ])
+  })
+})
+
+describe('isTTSSave', () => {
+  it('recognises saved-object files', () => {
+    expect(isTTSSave({ SaveName: 'x', ObjectStates: [] })).toBe(true)
+    expect(isTTSSave({ builder: {} })).toBe(false)
+    expect(isTTSSave(null)).toBe(false)
+  })
+})
@@ -3,6 +3,9 @@ import { z } from 'zod'
 import manifest from '@data/assets.manifest.json'
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js'
 import * as THREE from 'three'
+import { OccupancyMaskSchema } from '@core/mask'
+import { ConnectorSchema } from '@core/connectors'
+import { fetchGLB } from '@core/glbCache'
 
 export const AssetSchema = z.object({
   id: z.string().min(1),
@@ -17,10 +20,13 @@ export const AssetSchema = z.object({
     cols: z.number().int().positive(),
     rows: z.number().int().positive(),
   }),
+  occupancy: OccupancyMaskSchema.optional(), // blocked area within the aabb; whole rectangle when absent
+  connectors: z.array(ConnectorSchema).optional(), // join points for modular pieces
   rotationStepDeg: z.number().int().positive().default(90),
   price: z.number().optional(),
   sku: z.string().optional(),
   model: z.string().optional(),      // /assets/models/foo.glb
+  lods: z.array(z.string()).optional(), // coarser versions of `model` for distant views, finest first
   thumbnail: z.string().optional(),  // optional thumbnail
   assetLibraryId: z.string().optional(),
   sourceModelId: z.string().optional(),
@@ -71,14 +77,16 @@ export function searchAssets(query: string): Asset[] {
 }
 
 // ---------- GLB cache + measurement ----------
+// Parsed scenes for this page; the files themselves persist across reloads in glbCache
 const gltfCache = new Map<string, Promise<THREE.Group>>()
 
 export function loadGLTFScene(url: string): Promise<THREE.Group> {
   if (!gltfCache.has(url)) {
     const loader = new GLTFLoader()
-    const p = new Promise<THREE.Group>((resolve, reject) => {
-      loader.load(
-        url,
+    const p = fetchGLB(url).then((bytes) => new Promise<THREE.Group>((resolve, reject) => {
+      loader.parse(
+        bytes,
+        THREE.LoaderUtils.extractUrlBase(url),
         (gltf) => {
           try {
             const root = gltf.scene
@@ -102,15 +110,14 @@ export function loadGLTFScene(url: string): Promise<THREE.Group> {
             reject(error)
           }
         },
-        (progress) => {
-          console.log(`Loading GLB: ${url} - ${Math.round((progress.loaded / progress.total) * 100)}%`)
-        },
         (error) => {
           console.error(`✗ Failed to load GLB: ${url}`, error)
           reject(error)
         }
       )
-    })
+    }))
+    // a failed load (say, offline and not cached) is retried next time it's asked for
+    p.catch(() => gltfCache.delete(url))
     gltfCache.set(url, p)
   }
   return gltfCache.get(url)!
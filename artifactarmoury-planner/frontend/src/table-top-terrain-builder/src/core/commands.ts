@@ -0,0 +1,149 @@
+// src/core/commands.ts
+// Every builder action that has a shortcut or a place in the command palette. Components
+// register what each command does (see @state/commands); this file only knows names,
+// default keys and when a command applies, so the palette, the help sheet and conflict
+// checks all read from one list.
+//
+// Key combos are written 'Mod+Shift+Z': modifiers in the order Mod (Ctrl, or Cmd on a
+// Mac), Alt, Shift, then the key. Letters are upper case; punctuation is the character
+// typed, so '?' already implies Shift.
+import { z } from 'zod'
+
+// Where a command applies. Placing (a piece or prefab under the cursor) wins over a
+// selection, so the two can share keys; global commands apply everywhere.
+export type CommandContext = 'global' | 'placing' | 'selection'
+
+export type CommandInfo = {
+  id: string
+  title: string
+  category: string
+  context: CommandContext
+  keys: string[]          // defaults; users can rebind them
+}
+
+export const COMMANDS: CommandInfo[] = [
+  { id: 'palette.open', title: 'Open command palette', category: 'General', context: 'global', keys: ['Mod+K'] },
+  { id: 'help.toggle', title: 'Keyboard shortcuts', category: 'General', context: 'global', keys: ['?'] },
+  { id: 'edit.escape', title: 'Cancel placement / leave tool / deselect', category: 'General', context: 'global', keys: ['Escape'] },
+  { id: 'edit.undo', title: 'Undo', category: 'Edit', context: 'global', keys: ['Mod+Z'] },
+  { id: 'edit.redo', title: 'Redo', category: 'Edit', context: 'global', keys: ['Mod+Shift+Z', 'Mod+Y'] },
+  { id: 'layout.save', title: 'Save layout', category: 'Edit', context: 'global', keys: ['Mod+S'] },
+  { id: 'layout.load', title: 'Load layout', category: 'Edit', context: 'global', keys: [] },
+  { id: 'placement.rotateLeft', title: 'Rotate placement 90° left', category: 'Placement', context: 'placing', keys: ['Q'] },
+  { id: 'placement.rotateRight', title: 'Rotate placement 90° right', category: 'Placement', context: 'placing', keys: ['E'] },
+  { id: 'selection.duplicate', title: 'Duplicate selected', category: 'Selection', context: 'selection', keys: ['Mod+D'] },
+  { id: 'selection.delete', title: 'Delete selected', category: 'Selection', context: 'selection', keys: ['Delete', 'Backspace'] },
+  { id: 'selection.drop', title: 'Drop onto surface below', category: 'Selection', context: 'selection', keys: ['G'] },
+  { id: 'selection.rotateLeft', title: 'Rotate selection 90° left', category: 'Selection', context: 'selection', keys: ['Q'] },
+  { id: 'selection.rotateRight', title: 'Rotate selection 90° right', category: 'Selection', context: 'selection', keys: ['E'] },
+  { id: 'selection.tipBack', title: 'Tip piece back 90°', category: 'Selection', context: 'selection', keys: ['Shift+Q'] },
+  { id: 'selection.tipForward', title: 'Tip piece forward 90°', category: 'Selection', context: 'selection', keys: ['Shift+E'] },
+  { id: 'selection.rollLeft', title: 'Roll piece left 90°', category: 'Selection', context: 'selection', keys: ['Mod+Q'] },
+  { id: 'selection.rollRight', title: 'Roll piece right 90°', category: 'Selection', context: 'selection', keys: ['Mod+E'] },
+  { id: 'selection.flipX', title: 'Turn piece 180° about X', category: 'Selection', context: 'selection', keys: ['X'] },
+  { id: 'selection.flipY', title: 'Turn piece 180° about Y', category: 'Selection', context: 'selection', keys: ['Y'] },
+  { id: 'selection.flipZ', title: 'Turn piece 180° about Z', category: 'Selection', context: 'selection', keys: ['Z'] },
+  { id: 'selection.swapXZ', title: 'Swap piece X and Z size', category: 'Selection', context: 'selection', keys: ['Alt+X'] },
+  { id: 'gizmo.translate', title: 'Move gizmo', category: 'Selection', context: 'selection', keys: ['T'] },
+  { id: 'gizmo.rotate', title: 'Rotate gizmo', category: 'Selection', context: 'selection', keys: ['R'] },
+  { id: 'tool.select', title: 'Select tool', category: 'Tools', context: 'global', keys: [] },
+  { id: 'tool.ruler', title: 'Ruler', category: 'Tools', context: 'global', keys: [] },
+  { id: 'tool.los', title: 'Line of sight', category: 'Tools', context: 'global', keys: [] },
+  { id: 'tool.paint', title: 'Paint ground', category: 'Tools', context: 'global', keys: [] },
+  { id: 'view.fit', title: 'Fit table in view', category: 'View', context: 'global', keys: [] },
+  { id: 'view.perspective', title: 'Perspective camera', category: 'View', context: 'global', keys: [] },
+  { id: 'view.topDown', title: 'Top-down camera', category: 'View', context: 'global', keys: [] },
+  { id: 'view.isometric', title: 'Isometric camera', category: 'View', context: 'global', keys: [] },
+  { id: 'view.screenshot', title: 'Take screenshot', category: 'View', context: 'global', keys: [] },
+  { id: 'panel.scenario', title: 'Scenario & deployment…', category: 'Panels', context: 'global', keys: [] },
+  { id: 'panel.generator', title: 'Generate terrain…', category: 'Panels', context: 'global', keys: [] },
+  { id: 'panel.rules', title: 'Table rules check…', category: 'Panels', context: 'global', keys: [] },
+  { id: 'panel.history', title: 'Table history…', category: 'Panels', context: 'global', keys: [] },
+  { id: 'panel.printPlates', title: 'Print plates…', category: 'Panels', context: 'global', keys: [] },
+  { id: 'panel.mapExport', title: 'Export map…', category: 'Panels', context: 'global', keys: [] },
+]
+
+// Mouse gestures, listed on the help sheet but not rebindable
+export const POINTER_GESTURES: Array<[string, string]> = [
+  ['Add/remove from selection', 'Shift + Click'],
+  ['Box select', 'Shift + Drag'],
+  ['Free rotation (no snap)', 'Hold Shift'],
+]
+
+// A user's rebound commands: id → combos. Commands not listed keep their defaults.
+export const ShortcutOverridesSchema = z.record(z.string(), z.array(z.string()))
+export type ShortcutOverrides = z.infer<typeof ShortcutOverridesSchema>
+
+export type KeyLike = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+
+const IS_MAC = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock'])
+
+/** The combo a key press stands for, or null for a bare modifier. */
+export function keyFromEvent(e: KeyLike): string | null {
+  if (MODIFIER_KEYS.has(e.key)) return null
+  // letters and digits by position, so Alt (which changes e.key on a Mac) still matches;
+  // Shift+1 is '!', not a digit
+  const key = /^Key[A-Z]$/.test(e.code) ? e.code.slice(3)
+    : /^Digit[0-9]$/.test(e.code) && !e.shiftKey ? e.code.slice(5)
+    : e.key === ' ' ? 'Space'
+    : e.key === '+' ? 'Plus'
+    : e.key.length === 1 ? e.key.toUpperCase()
+    : e.key
+  // a typed symbol already says whether Shift was down
+  const symbol = key === 'Plus' || (key.length === 1 && !/[A-Z0-9]/.test(key))
+  const parts: string[] = []
+  if (e.ctrlKey || e.metaKey) parts.push('Mod')
+  if (e.altKey) parts.push('Alt')
+  if (e.shiftKey && !symbol) parts.push('Shift')
+  parts.push(key)
+  return parts.join('+')
+}
+
+/** A combo as people read it: 'Mod+Shift+Z' → 'Ctrl + Shift + Z'. */
+export function formatKeys(combo: string, mac = IS_MAC) {
+  return combo.split('+').map(part => part === 'Mod' ? (mac ? '⌘' : 'Ctrl') : part === 'Escape' ? 'Esc' : part).join(' + ')
+}
+
+/** Each command's combos after the user's overrides. */
+export function resolveBindings(overrides: ShortcutOverrides): Map<string, string[]> {
+  return new Map(COMMANDS.map(c => [c.id, overrides[c.id] ?? c.keys]))
+}
+
+function contextsOverlap(a: CommandContext, b: CommandContext) {
+  return a === 'global' || b === 'global' || a === b
+}
+
+/** Combos bound to more than one command that can apply at the same time. */
+export function findConflicts(bindings: Map<string, string[]>): Array<{ combo: string; ids: string[] }> {
+  const byCombo = new Map<string, CommandInfo[]>()
+  for (const command of COMMANDS) {
+    for (const combo of bindings.get(command.id) ?? []) {
+      byCombo.set(combo, [...(byCombo.get(combo) ?? []), command])
+    }
+  }
+  const conflicts: Array<{ combo: string; ids: string[] }> = []
+  for (const [combo, commands] of byCombo) {
+    const clashing = commands.filter(c => commands.some(o => o !== c && contextsOverlap(c.context, o.context)))
+    if (clashing.length > 1) conflicts.push({ combo, ids: clashing.map(c => c.id) })
+  }
+  return conflicts
+}
+
+/** Commands `combo` triggers in `context`, in list order; the first that can run wins. */
+export function commandsForKey(bindings: Map<string, string[]>, combo: string, context: CommandContext | null) {
+  return COMMANDS.filter(c =>
+    (c.context === 'global' || c.context === context) && (bindings.get(c.id) ?? []).includes(combo),
+  )
+}
+
+/** Commands whose title or category contains every word of `query`. */
+export function searchCommands(query: string, commands: CommandInfo[] = COMMANDS) {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean)
+  if (!words.length) return commands
+  return commands.filter(c => {
+    const text = `${c.title} ${c.category}`.toLowerCase()
+    return words.every(w => text.includes(w))
+  })
+}
@@ -0,0 +1,121 @@
+// src/core/connectors.ts
+// Named join points on modular pieces (wall ends, road mouths, trench openings).
+// A connector sits on the footprint at [x, z] metres from the asset's centre, before
+// rotation, and faces outwards: 0° = +X, turning the same way as Instance.rotationDeg.
+// Two connectors join when they share a type, touch, and face each other.
+import { z } from 'zod'
+
+export const ConnectorSchema = z.object({
+  name: z.string().min(1),
+  type: z.string().min(1),   // only connectors of the same type join
+  x: z.number(),
+  z: z.number(),
+  facingDeg: z.number(),
+})
+
+export type Connector = z.infer<typeof ConnectorSchema>
+
+// A ghost connector this close to an open one (metres) pulls the ghost onto it
+export const CONNECTOR_SNAP_RADIUS = 0.03
+// Connectors closer than this are already joined (1 mm)
+const JOINED_EPSILON = 0.001
+
+type Placed = {
+  position: { x: number; z: number }
+  rotationDeg: number
+  rotationX?: number
+  rotationZ?: number
+  swapXZ?: boolean
+}
+
+export type WorldConnector = Connector & { world: { x: number; z: number }; worldFacingDeg: number }
+
+export type ConnectorSnap = {
+  position: { x: number; z: number }
+  rotationDeg: number
+  connector: string   // the ghost's connector that joined
+  target: WorldConnector
+}
+
+function wrapDeg(deg: number) {
+  return ((deg % 360) + 360) % 360
+}
+
+// Same convention as Object3D.rotation.y (see rotateAboutPivot)
+function rotate(x: number, z: number, deg: number) {
+  const rad = deg * Math.PI / 180
+  const cos = Math.cos(rad), sin = Math.sin(rad)
+  return { x: x * cos + z * sin, z: -x * sin + z * cos }
+}
+
+/** A piece's connectors in table coordinates. */
+export function worldConnectors(inst: Placed, connectors: Connector[]): WorldConnector[] {
+  return connectors.map(c => {
+    const offset = rotate(c.x, c.z, inst.rotationDeg)
+    return {
+      ...c,
+      world: { x: inst.position.x + offset.x, z: inst.position.z + offset.z },
+      worldFacingDeg: wrapDeg(inst.rotationDeg + c.facingDeg),
+    }
+  })
+}
+
+/**
+ * Connectors on placed pieces that nothing is joined to yet. Tipped and stretched
+ * (swapXZ) pieces are left out: their connectors no longer sit where the model's ends are.
+ */
+export function openConnectors(
+  instances: Array<Placed & { assetId: string }>,
+  connectorsOf: (assetId: string) => Connector[] | undefined
+): WorldConnector[] {
+  const all: WorldConnector[] = []
+  for (const inst of instances) {
+    if (inst.rotationX || inst.rotationZ || inst.swapXZ) continue
+    const connectors = connectorsOf(inst.assetId)
+    if (connectors?.length) all.push(...worldConnectors(inst, connectors))
+  }
+  // bucket by millimetre so joined pairs are found without comparing every pair
+  const key = (p: { x: number; z: number }) => `${Math.round(p.x / JOINED_EPSILON)},${Math.round(p.z / JOINED_EPSILON)}`
+  const buckets = new Map<string, WorldConnector[]>()
+  for (const c of all) {
+    const k = `${c.type}|${key(c.world)}`
+    const bucket = buckets.get(k)
+    if (bucket) bucket.push(c)
+    else buckets.set(k, [c])
+  }
+  return all.filter(c => buckets.get(`${c.type}|${key(c.world)}`)!.length === 1)
+}
+
+/**
+ * Where a ghost at `at` should go so one of its connectors joins a nearby open one, or
+ * null when none is within `radius`. The ghost is turned so the pair face each other;
+ * of several candidates the nearest wins, then the one needing the least turn from
+ * `rotationDeg`.
+ */
+export function snapToConnectors(
+  ghost: Connector[],
+  at: { x: number; z: number },
+  rotationDeg: number,
+  open: WorldConnector[],
+  radius = CONNECTOR_SNAP_RADIUS
+): ConnectorSnap | null {
+  let best: (ConnectorSnap & { distance: number; turn: number }) | null = null
+  for (const target of open) {
+    for (const c of ghost) {
+      if (c.type !== target.type) continue
+      const turned = wrapDeg(target.worldFacingDeg + 180 - c.facingDeg)
+      const offset = rotate(c.x, c.z, turned)
+      const position = { x: target.world.x - offset.x, z: target.world.z - offset.z }
+      const distance = Math.hypot(position.x - at.x, position.z - at.z)
+      if (distance > radius) continue
+      const diff = wrapDeg(turned - rotationDeg)
+      const turn = Math.min(diff, 360 - diff)
+      if (!best || distance < best.distance - JOINED_EPSILON || (Math.abs(distance - best.distance) <= JOINED_EPSILON && turn < best.turn)) {
+        best = { position, rotationDeg: turned, connector: c.name, target, distance, turn }
+      }
+    }
+  }
+  if (!best) return null
+  const { distance: _distance, turn: _turn, ...snap } = best
+  return snap
+}
@@ -0,0 +1,146 @@
+// src/core/generator.ts
+// Seeded procedural layouts: scatter a pool of assets over the table without collisions,
+// keeping clear of deployment zones and the table edge. Same seed + inputs = same layout.
+// Shaped tables are scattered over their bounding box and every candidate is checked
+// against the outline, the same way the stage checks a placement.
+import type { Asset } from '@core/assets'
+import type { Instance, Table } from '@state/store'
+import {
+  buildOccupiedSet, broadPhaseCells, collides, inBounds, instanceCells, instanceOccupant, occupy, type Occupant
+} from '@core/occupancy'
+import { footprintPolygon, projectedExtent } from '@core/obb'
+import { pointInPolygon, polygonsOverlap, type Point2 } from '@core/polygon'
+import { zonePolygon } from '@core/scenario'
+import { onTable, outlineArea, tablePolygons } from '@core/tableShape'
+
+export type GeneratorOptions = {
+  seed: string
+  density: number     // target share of the usable table area covered by footprints (0..1)
+  ruinRatio: number   // share of that area given to ruins; the rest is scatter (0..1)
+  minGap: number      // clear space kept around every generated piece (metres)
+  edgeMargin: number  // clear strip along every table edge (metres)
+  avoidZones: boolean // keep out of the scenario's deployment zones
+}
+
+export const DEFAULT_GENERATOR_OPTIONS: GeneratorOptions = {
+  seed: 'terrain',
+  density: 0.25,
+  ruinRatio: 0.6,
+  minGap: 0.0508,     // 2"
+  edgeMargin: 0.0254, // 1"
+  avoidZones: true,
+}
+
+// Failed placements in a row before a category is treated as full
+const MAX_MISSES = 200
+
+const RUIN_TAGS = /ruin|building|wall|structure|bunker|tower|house/i
+// Untagged pieces at least this tall (metres) count as ruins
+const RUIN_MIN_HEIGHT = 0.06
+
+export function isRuin(asset: Asset) {
+  if (asset.tags.some(tag => RUIN_TAGS.test(tag))) return true
+  return (asset.aabb?.y ?? 0) >= RUIN_MIN_HEIGHT
+}
+
+/**
+ * New instances for the table, placed around the existing ones. Ruins go down first
+ * (they are the hardest to fit), then scatter fills the gaps.
+ */
+export function generateLayout(
+  pool: Asset[],
+  table: Table,
+  existing: Instance[],
+  assetsById: Map<string, Asset>,
+  options: GeneratorOptions
+): Array<Omit<Instance, 'id'>> {
+  const random = seededRandom(options.seed)
+  const occupied = buildOccupiedSet(existing, assetsById, table)
+  const zones = options.avoidZones ? (table.scenario?.zones ?? []).map(z => zonePolygon(z, table)) : []
+
+  const hw = table.width / 2 - options.edgeMargin
+  const hh = table.height / 2 - options.edgeMargin
+  if (hw <= 0 || hh <= 0) return []
+
+  const usable = table.outline ? outlineArea(table.outline) * (2 * hw) * (2 * hh) / (table.width * table.height) : (2 * hw) * (2 * hh)
+  const budget = clamp01(options.density) * usable
+  const ruinShare = clamp01(options.ruinRatio)
+  const groups: Array<[Asset[], number]> = [
+    [pool.filter(isRuin), budget * ruinShare],
+    [pool.filter(a => !isRuin(a)), budget * (1 - ruinShare)],
+  ]
+
+  const placed: Array<Omit<Instance, 'id'>> = []
+  for (const [assets, target] of groups) {
+    if (assets.length === 0) continue
+    let covered = 0
+    let misses = 0
+    while (covered < target && misses < MAX_MISSES) {
+      const asset = assets[Math.floor(random() * assets.length)]
+      const steps = Math.max(1, Math.round(360 / asset.rotationStepDeg))
+      const candidate = {
+        assetId: asset.id,
+        position: { x: (random() * 2 - 1) * hw, z: (random() * 2 - 1) * hh },
+        rotationDeg: Math.floor(random() * steps) * asset.rotationStepDeg % 360,
+        elevation: 0,
+      }
+      const occupant = instanceOccupant(candidate, asset, table)
+      const ext = projectedExtent(occupant.box)
+      const fits =
+        Math.abs(candidate.position.x) + ext.x <= hw &&
+        Math.abs(candidate.position.z) + ext.z <= hh &&
+        inBounds(instanceCells(candidate, asset, table), table) &&
+        footprintOnTable(footprintPolygon(inflate(occupant, options.edgeMargin).box), table) &&
+        !zones.some(zone => polygonsOverlap(footprintPolygon(occupant.box), zone)) &&
+        !collides(inflate(occupant, options.minGap), occupied, table)
+      if (!fits) {
+        misses++
+        continue
+      }
+      for (const cell of broadPhaseCells(occupant.box, table)) occupy(occupied, cell, occupant)
+      placed.push(candidate)
+      covered += (asset.aabb?.x ?? table.gridSize) * (asset.aabb?.z ?? table.gridSize)
+      misses = 0
+    }
+  }
+  return placed
+}
+
+// Probe distance (metres) either side of a table corner
+const CORNER_PROBE = 0.001
+
+// Every corner on the table and no corner of the table that borders empty space (an L's
+// notch, a gap between boards) inside the footprint; seams where boards meet are fine
+function footprintOnTable(footprint: Point2[], table: Table) {
+  if (!table.outline) return true
+  if (!footprint.every(p => onTable(table, p.x, p.z))) return false
+  const offEdge = (p: Point2) =>
+    [[-1, -1], [1, -1], [-1, 1], [1, 1]].some(([dx, dz]) => !onTable(table, p.x + dx * CORNER_PROBE, p.z + dz * CORNER_PROBE))
+  return !tablePolygons(table).some(poly => poly.some(p => pointInPolygon(p.x, p.z, footprint) && offEdge(p)))
+}
+
+// Grow the box and every masked part sideways, so anything within `gap` counts as a hit
+function inflate(o: Occupant, gap: number): Occupant {
+  if (gap <= 0) return o
+  const grow = <T extends { half: { x: number; y: number; z: number } }>(b: T): T =>
+    ({ ...b, half: { x: b.half.x + gap, y: b.half.y, z: b.half.z + gap } })
+  return { span: o.span, box: grow(o.box), parts: o.parts.map(grow) }
+}
+
+// mulberry32 seeded from a string hash (FNV-1a)
+function seededRandom(seed: string) {
+  let h = 2166136261
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i)
+    h = Math.imul(h, 16777619)
+  }
+  let t = h >>> 0
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0
+    let r = Math.imul(t ^ (t >>> 15), 1 | t)
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function clamp01(v: number) { return Math.max(0, Math.min(1, v)) }
@@ -0,0 +1,214 @@
+// src/core/glbCache.ts
+// Model files kept in IndexedDB across reloads, so a table that has been opened once
+// loads without the network. Entries are keyed by URL and point at their bytes by
+// content hash, so one file served under several URLs is stored once. The least recently
+// used entries are evicted to stay under a byte quota.
+
+const DB_NAME = 'terrain-builder-cache'
+const DB_VERSION = 1
+const ENTRIES = 'glb-entries'   // url → GLBEntry
+const BLOBS = 'glb-blobs'       // hash → { hash, bytes }
+const QUOTA_KEY = 'terrain_glb_cache_quota'
+
+export const DEFAULT_GLB_CACHE_QUOTA = 256 * 1024 * 1024
+// Cached files are used straight away; the server is asked whether they changed at most this often
+const REVALIDATE_AFTER_MS = 60 * 60 * 1000
+
+type GLBEntry = {
+  url: string
+  hash: string
+  size: number
+  etag: string | null
+  lastModified: string | null
+  lastUsed: number
+  checkedAt: number
+}
+
+type GLBBlob = { hash: string; bytes: ArrayBuffer }
+
+export type GLBCacheStats = { files: number; bytes: number; quota: number }
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+// null when IndexedDB isn't available (some private windows); models then load uncached
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') return resolve(null)
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        const db = req.result
+        db.createObjectStore(ENTRIES, { keyPath: 'url' }).createIndex('hash', 'hash')
+        db.createObjectStore(BLOBS, { keyPath: 'hash' })
+      }
+      req.onsuccess = () => {
+        // ask the browser not to clear the cache under storage pressure; it may say no
+        void navigator.storage?.persist?.().catch(() => undefined)
+        resolve(req.result)
+      }
+      req.onerror = () => {
+        console.warn('GLB cache unavailable', req.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+function done<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function committed(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error)
+  })
+}
+
+async function contentHash(bytes: ArrayBuffer): Promise<string> {
+  if (globalThis.crypto?.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', bytes)
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+  }
+  // crypto.subtle only exists on secure origins; FNV-1a plus length is plenty for dedupe
+  const view = new Uint8Array(bytes)
+  let h = 0x811c9dc5
+  for (let i = 0; i < view.length; i++) h = Math.imul(h ^ view[i], 0x01000193)
+  return `fnv-${(h >>> 0).toString(16)}-${view.length}`
+}
+
+export function getGLBCacheQuota(): number {
+  const saved = Number(localStorage.getItem(QUOTA_KEY))
+  return Number.isFinite(saved) && saved > 0 ? saved : DEFAULT_GLB_CACHE_QUOTA
+}
+
+export function setGLBCacheQuota(bytes: number) {
+  localStorage.setItem(QUOTA_KEY, String(Math.max(0, Math.round(bytes))))
+  void openDb().then(db => db && evict(db, getGLBCacheQuota()))
+}
+
+async function read(db: IDBDatabase, url: string): Promise<{ entry: GLBEntry; bytes: ArrayBuffer } | null> {
+  const tx = db.transaction([ENTRIES, BLOBS], 'readonly')
+  const entry = await done(tx.objectStore(ENTRIES).get(url)) as GLBEntry | undefined
+  if (!entry) return null
+  const blob = await done(tx.objectStore(BLOBS).get(entry.hash)) as GLBBlob | undefined
+  return blob ? { entry, bytes: blob.bytes } : null
+}
+
+async function touch(db: IDBDatabase, entry: GLBEntry) {
+  const tx = db.transaction(ENTRIES, 'readwrite')
+  tx.objectStore(ENTRIES).put({ ...entry, lastUsed: Date.now() })
+  await committed(tx)
+}
+
+async function write(db: IDBDatabase, url: string, bytes: ArrayBuffer, response: Response) {
+  const hash = await contentHash(bytes)
+  const now = Date.now()
+  const entry: GLBEntry = {
+    url,
+    hash,
+    size: bytes.byteLength,
+    etag: response.headers.get('ETag'),
+    lastModified: response.headers.get('Last-Modified'),
+    lastUsed: now,
+    checkedAt: now,
+  }
+  const tx = db.transaction([ENTRIES, BLOBS], 'readwrite')
+  const previous = await done(tx.objectStore(ENTRIES).get(url)) as GLBEntry | undefined
+  tx.objectStore(BLOBS).put({ hash, bytes } satisfies GLBBlob)
+  tx.objectStore(ENTRIES).put(entry)
+  await committed(tx)
+  if (previous && previous.hash !== hash) await dropOrphan(db, previous.hash)
+  await evict(db, getGLBCacheQuota())
+}
+
+// Bytes no URL points at any more
+async function dropOrphan(db: IDBDatabase, hash: string) {
+  const tx = db.transaction([ENTRIES, BLOBS], 'readwrite')
+  const users = await done(tx.objectStore(ENTRIES).index('hash').count(hash))
+  if (users === 0) tx.objectStore(BLOBS).delete(hash)
+  await committed(tx)
+}
+
+// Least recently used first, until the stored bytes fit the quota
+async function evict(db: IDBDatabase, quota: number) {
+  const tx = db.transaction([ENTRIES, BLOBS], 'readwrite')
+  const entries = await done(tx.objectStore(ENTRIES).getAll()) as GLBEntry[]
+  const sizes = new Map(entries.map(e => [e.hash, e.size]))
+  let total = Array.from(sizes.values()).reduce((sum, size) => sum + size, 0)
+  if (total <= quota) return committed(tx)
+
+  const users = new Map<string, number>()
+  entries.forEach(e => users.set(e.hash, (users.get(e.hash) ?? 0) + 1))
+  for (const entry of entries.sort((a, b) => a.lastUsed - b.lastUsed)) {
+    if (total <= quota) break
+    tx.objectStore(ENTRIES).delete(entry.url)
+    const remaining = users.get(entry.hash)! - 1
+    users.set(entry.hash, remaining)
+    if (remaining === 0) {
+      tx.objectStore(BLOBS).delete(entry.hash)
+      total -= entry.size
+    }
+  }
+  await committed(tx)
+}
+
+// Conditional re-fetch; a changed file replaces the cached one for the next load
+async function revalidate(db: IDBDatabase, entry: GLBEntry) {
+  const headers: Record<string, string> = {}
+  if (entry.etag) headers['If-None-Match'] = entry.etag
+  if (entry.lastModified) headers['If-Modified-Since'] = entry.lastModified
+  const response = await fetch(entry.url, { headers, cache: 'no-cache' })
+  if (response.status === 304) {
+    const tx = db.transaction(ENTRIES, 'readwrite')
+    tx.objectStore(ENTRIES).put({ ...entry, checkedAt: Date.now() })
+    return committed(tx)
+  }
+  if (response.ok) await write(db, entry.url, await response.arrayBuffer(), response)
+}
+
+/**
+ * The model file at `url`, from the cache when it has it. Cache failures never fail the
+ * load: the file is fetched as if there were no cache.
+ */
+export async function fetchGLB(url: string): Promise<ArrayBuffer> {
+  const db = await openDb()
+  const cached = db ? await read(db, url).catch(() => null) : null
+  if (cached && db) {
+    void touch(db, cached.entry).catch(() => undefined)
+    const online = typeof navigator === 'undefined' || navigator.onLine
+    if (online && Date.now() - cached.entry.checkedAt > REVALIDATE_AFTER_MS) {
+      void revalidate(db, cached.entry).catch(error => console.warn(`GLB cache: could not revalidate ${url}`, error))
+    }
+    return cached.bytes
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`HTTP ${response.status} loading ${url}`)
+  const bytes = await response.arrayBuffer()
+  if (db) void write(db, url, bytes, response).catch(error => console.warn(`GLB cache: could not store ${url}`, error))
+  return bytes
+}
+
+export async function getGLBCacheStats(): Promise<GLBCacheStats> {
+  const quota = getGLBCacheQuota()
+  const db = await openDb()
+  if (!db) return { files: 0, bytes: 0, quota }
+  const entries = await done(db.transaction(ENTRIES, 'readonly').objectStore(ENTRIES).getAll()) as GLBEntry[]
+  const sizes = new Map(entries.map(e => [e.hash, e.size]))
+  return { files: entries.length, bytes: Array.from(sizes.values()).reduce((sum, size) => sum + size, 0), quota }
+}
+
+export async function clearGLBCache() {
+  const db = await openDb()
+  if (!db) return
+  const tx = db.transaction([ENTRIES, BLOBS], 'readwrite')
+  tx.objectStore(ENTRIES).clear()
+  tx.objectStore(BLOBS).clear()
+  await committed(tx)
+}
@@ -1,5 +1,7 @@
 /* Grid conversion helpers (same as scaffold text) */
 // src/core/grid.ts
+import type { Table } from '@state/store'
+import { snapToHex } from '@core/hex'
 
 /** Convert a world coordinate (metres) to a snapped grid cell index. */
 export function worldToCell(valueM: number, gridSizeM: number) {
@@ -16,3 +18,14 @@ export function cellToWorld(cell: number, gridSizeM: number) {
 export function snapToGrid(valueM: number, gridSizeM: number) {
   return cellToWorld(worldToCell(valueM, gridSizeM), gridSizeM)
 }
+
+/** True when the table uses a hex grid (older layouts without a grid type are square). */
+export function isHexGrid(table: Pick<Table, 'gridType'>) {
+  return table.gridType === 'hex'
+}
+
+/** Snap a world point (metres) to the nearest cell centre of the table's grid. */
+export function snapPointToGrid(x: number, z: number, table: Table) {
+  if (isHexGrid(table)) return snapToHex(x, z, table.gridSize, table.hexOrientation ?? 'flat')
+  return { x: snapToGrid(x, table.gridSize), z: snapToGrid(z, table.gridSize) }
+}
@@ -0,0 +1,99 @@
+// src/core/hex.ts
+// Hex grid maths (axial coordinates, centre-origin board).
+// `gridSize` is the flat-to-flat width of a hex, i.e. the distance between
+// neighbouring hex centres, so a "1 inch hex" grid uses gridSize = 0.0254.
+
+export type HexOrientation = 'flat' | 'pointy'
+export type Axial = { q: number; r: number }
+
+const SQRT3 = Math.sqrt(3)
+
+/** Circumradius (centre → corner) of a hex with the given flat-to-flat width. */
+export function hexRadius(gridSize: number) {
+  return gridSize / SQRT3
+}
+
+/** Axial hex → world centre (metres). */
+export function hexToWorld(h: Axial, gridSize: number, orientation: HexOrientation) {
+  const R = hexRadius(gridSize)
+  if (orientation === 'pointy') {
+    return { x: R * SQRT3 * (h.q + h.r / 2), z: R * 1.5 * h.r }
+  }
+  return { x: R * 1.5 * h.q, z: R * SQRT3 * (h.r + h.q / 2) }
+}
+
+/** World (metres) → nearest axial hex. */
+export function worldToHex(x: number, z: number, gridSize: number, orientation: HexOrientation): Axial {
+  const R = hexRadius(gridSize)
+  if (R <= 0) return { q: 0, r: 0 }
+  const q = orientation === 'pointy'
+    ? (SQRT3 / 3 * x - z / 3) / R
+    : (2 / 3 * x) / R
+  const r = orientation === 'pointy'
+    ? (2 / 3 * z) / R
+    : (-x / 3 + SQRT3 / 3 * z) / R
+  return hexRound(q, r)
+}
+
+/** Snap a world point to the centre of the hex containing it. */
+export function snapToHex(x: number, z: number, gridSize: number, orientation: HexOrientation) {
+  return hexToWorld(worldToHex(x, z, gridSize, orientation), gridSize, orientation)
+}
+
+/** Corner positions of a hex centred at (cx, cz), in winding order. */
+export function hexCorners(cx: number, cz: number, gridSize: number, orientation: HexOrientation) {
+  const R = hexRadius(gridSize)
+  const offset = orientation === 'pointy' ? -30 : 0
+  const corners: { x: number; z: number }[] = []
+  for (let i = 0; i < 6; i++) {
+    const a = (60 * i + offset) * Math.PI / 180
+    corners.push({ x: cx + R * Math.cos(a), z: cz + R * Math.sin(a) })
+  }
+  return corners
+}
+
+/** Hex distance in steps between two axial coordinates. */
+export function hexDistance(a: Axial, b: Axial) {
+  const dq = a.q - b.q
+  const dr = a.r - b.r
+  return (Math.abs(dq) + Math.abs(dr) + Math.abs(dq + dr)) / 2
+}
+
+/** All hexes within `radius` steps of `centre` (inclusive). */
+export function hexesInRange(centre: Axial, radius: number): Axial[] {
+  const out: Axial[] = []
+  for (let dq = -radius; dq <= radius; dq++) {
+    const rMin = Math.max(-radius, -dq - radius)
+    const rMax = Math.min(radius, -dq + radius)
+    for (let dr = rMin; dr <= rMax; dr++) {
+      out.push({ q: centre.q + dq, r: centre.r + dr })
+    }
+  }
+  return out
+}
+
+/**
+ * Hexes covered by a w × d rectangle centred on `anchor`'s centre: every hex whose
+ * centre lies inside (or on the edge of) the rectangle, plus the anchor itself.
+ */
+export function hexFootprint(anchor: Axial, w: number, d: number, gridSize: number, orientation: HexOrientation): Axial[] {
+  const c = hexToWorld(anchor, gridSize, orientation)
+  const reach = Math.ceil(Math.max(w, d) / gridSize) + 1
+  const eps = 1e-6
+  return hexesInRange(anchor, reach).filter(h => {
+    if (h.q === anchor.q && h.r === anchor.r) return true
+    const p = hexToWorld(h, gridSize, orientation)
+    return Math.abs(p.x - c.x) <= w / 2 + eps && Math.abs(p.z - c.z) <= d / 2 + eps
+  })
+}
+
+// Cube rounding keeps q + r + s = 0 so we land on a real hex
+function hexRound(q: number, r: number): Axial {
+  const s = -q - r
+  let rq = Math.round(q), rr = Math.round(r)
+  const rs = Math.round(s)
+  const dq = Math.abs(rq - q), dr = Math.abs(rr - r), ds = Math.abs(rs - s)
+  if (dq > dr && dq > ds) rq = -rr - rs
+  else if (dr > ds) rr = -rq - rs
+  return { q: rq + 0, r: rr + 0 } // + 0 avoids -0 in cell keys
+}
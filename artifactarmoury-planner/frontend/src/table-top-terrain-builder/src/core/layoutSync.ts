@@ -0,0 +1,92 @@
+// src/core/layoutSync.ts
+// Two-way sync between layouts saved in this browser and the user's server tables.
+// Each side keeps a last-modified time; a layout changed on both sides since their last
+// sync is a conflict and is left for the user to settle.
+import type { Instance, SavedLayout, Table } from '@state/store'
+
+export type RemoteLayout = {
+  id: string
+  name: string
+  updatedAt: string   // server updated_at, compared verbatim against what we last saw
+  table: Table
+  instances: Instance[]
+}
+
+export type LayoutConflict = { local: SavedLayout; remote: RemoteLayout }
+
+// 'both' keeps the server copy under the original name and this device's as a new layout
+export type ConflictChoice = 'local' | 'remote' | 'both' | 'merge'
+
+export type SyncPlan = {
+  upload: SavedLayout[]      // new here, or changed only here (or its table was deleted elsewhere)
+  download: RemoteLayout[]   // new on the server, or changed only there
+  conflicts: LayoutConflict[]
+  dropLocal: string[]        // local ids whose table was deleted elsewhere and that haven't changed here
+}
+
+export function localModifiedAt(layout: SavedLayout) {
+  return layout.updatedAt ?? layout.createdAt
+}
+
+export function localChanged(layout: SavedLayout) {
+  return layout.syncedAt === undefined || localModifiedAt(layout) > layout.syncedAt
+}
+
+function sameContent(local: SavedLayout, remote: RemoteLayout) {
+  return local.name === remote.name &&
+    JSON.stringify(local.table) === JSON.stringify(remote.table) &&
+    JSON.stringify(local.instances) === JSON.stringify(remote.instances)
+}
+
+export function planSync(local: SavedLayout[], remote: RemoteLayout[]): SyncPlan {
+  const remoteById = new Map(remote.map(r => [r.id, r]))
+  const linked = new Set<string>()
+  const plan: SyncPlan = { upload: [], download: [], conflicts: [], dropLocal: [] }
+
+  for (const layout of local) {
+    if (!layout.remoteId) {
+      plan.upload.push(layout)
+      continue
+    }
+    const match = remoteById.get(layout.remoteId)
+    if (!match) {
+      if (localChanged(layout)) plan.upload.push({ ...layout, remoteId: undefined, remoteUpdatedAt: undefined })
+      else plan.dropLocal.push(layout.id)
+      continue
+    }
+    linked.add(match.id)
+    const changedHere = localChanged(layout)
+    const changedThere = match.updatedAt !== layout.remoteUpdatedAt
+    if (changedHere && changedThere) {
+      // the same edit made on both sides (or a re-save of unchanged work) isn't a conflict
+      if (sameContent(layout, match)) plan.download.push(match)
+      else plan.conflicts.push({ local: layout, remote: match })
+    } else if (changedHere) {
+      plan.upload.push(layout)
+    } else if (changedThere) {
+      plan.download.push(match)
+    }
+  }
+
+  for (const table of remote) {
+    if (!linked.has(table.id)) plan.download.push(table)
+  }
+  return plan
+}
+
+/**
+ * Both sides' pieces in one layout. Without a common ancestor there's no telling a
+ * deletion from an addition, so every piece survives; a piece edited on both sides
+ * (same id) and the table settings come from whichever side was saved last.
+ */
+export function mergeLayouts(local: SavedLayout, remote: RemoteLayout): { table: Table; instances: Instance[] } {
+  const localNewer = localModifiedAt(local) >= Date.parse(remote.updatedAt)
+  const [first, second] = localNewer ? [local.instances, remote.instances] : [remote.instances, local.instances]
+  const byId = new Map<string, Instance>()
+  for (const inst of second) byId.set(inst.id, inst)
+  for (const inst of first) byId.set(inst.id, inst)
+  return {
+    table: localNewer ? local.table : remote.table,
+    instances: Array.from(byId.values()),
+  }
+}
@@ -0,0 +1,520 @@
+// src/core/mapExport.ts
+// Printable top-down map of a layout for event packs: true-scale footprints, piece keys,
+// grid, ruler, deployment zones and a legend, as SVG or as a PDF tiled across pages at 1:1.
+// Built from instances and table state alone, so it needs neither the scene nor the GPU.
+// Map space is millimetres from the table's top-left corner (x across, y down the table).
+import type { Asset } from '@core/assets'
+import type { Instance, Table, Unit } from '@state/store'
+import { isHexGrid } from '@core/grid'
+import { hexCorners, hexesInRange, hexToWorld } from '@core/hex'
+import { instanceOccupant } from '@core/occupancy'
+import { footprintPolygon } from '@core/obb'
+import type { Point2 } from '@core/polygon'
+import { zonePolygon } from '@core/scenario'
+import { GROUND_TYPES, groundCoverage, groundInfo, surfaceRects } from '@core/surface'
+import { onTable, tablePolygons, tableSpans } from '@core/tableShape'
+import { MM_TO_PT, PAPER_SIZES, buildPdf, createPage, pdf, textWidth, type PaperSize, type PdfPage } from '@core/pdf'
+
+type Pt = { x: number; y: number }
+
+export type MapStyle = { fill?: string; stroke?: string; width?: number; opacity?: number; dash?: number[] }
+export type MapShape =
+  | { kind: 'polygon'; points: Pt[]; style: MapStyle }
+  | { kind: 'line'; points: Pt[]; style: MapStyle }
+  | { kind: 'circle'; centre: Pt; radius: number; style: MapStyle }
+  | { kind: 'text'; at: Pt; text: string; size: number; color: string; align: 'start' | 'middle' | 'end' }
+
+export type LegendEntry = { key: string; assetId: string; name: string; count: number; color: string }
+export type GroundLegendEntry = { name: string; color: string; percent: number; difficult: boolean }
+
+export type LayoutMap = {
+  title: string
+  width: number    // table, mm
+  height: number
+  bounds: { x: number; y: number; width: number; height: number } // everything drawn, ruler included
+  shapes: MapShape[]
+  legend: LegendEntry[]
+  ground: GroundLegendEntry[]
+}
+
+export type MapOptions = {
+  title?: string
+  grid?: boolean
+  zones?: boolean   // scenario zones, objectives and lines
+  labels?: boolean  // legend keys on the pieces
+  ground?: boolean  // painted ground, difficult ground hatched
+}
+
+// Light fills that stay readable in greyscale, cycled per asset
+const PALETTE = ['#9ecae1', '#fdae6b', '#a1d99b', '#bcbddc', '#fc9272', '#d9d9d9', '#f0c987', '#c7e9c0', '#9e9ac8', '#fdd0a2']
+// Same side order as the scene overlay
+const SIDE_COLORS = ['#4da3ff', '#e05757', '#3fbf5a', '#ffd166']
+const INK = '#222222'
+const GRID_COLOR = '#c8d0da'
+
+const RULER_MARGIN = 20 // mm of paper kept outside the table for the ruler
+const MINOR_TICK = 3
+const MAJOR_TICK = 6
+const RULER_TEXT = 3
+const PIECE_LABEL = 4
+const OBJECTIVE_MARKER = 20 // radius of a 40 mm objective marker, as in the scene
+const GROUND_OPACITY = 0.45
+const HATCH_SPACING = 4    // mm between the diagonal lines over difficult ground
+
+const mm = (metres: number) => metres * 1000
+
+/** Lay out everything the map draws; renderers only turn shapes into SVG or PDF. */
+export function buildLayoutMap(
+  instances: Instance[],
+  assetsById: Map<string, Asset>,
+  table: Table,
+  options: MapOptions = {}
+): LayoutMap {
+  const { grid = true, zones = true, labels = true, ground = true } = options
+  const width = mm(table.width)
+  const height = mm(table.height)
+  const toMap = (p: Point2): Pt => ({ x: mm(p.x) + width / 2, y: mm(p.z) + height / 2 })
+  const shapes: MapShape[] = []
+
+  if (ground) {
+    for (const rect of surfaceRects(table.surface, table)) {
+      const info = groundInfo(rect.ground)
+      const a = toMap({ x: rect.x0, z: rect.z0 }), b = toMap({ x: rect.x1, z: rect.z1 })
+      const points = [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }]
+      shapes.push({ kind: 'polygon', points, style: { fill: info.color, opacity: GROUND_OPACITY } })
+      if (info.difficult) shapes.push(...hatchShapes(a, b, info.color))
+    }
+  }
+  const coverage = ground ? groundCoverage(table.surface, table) : new Map()
+  const groundLegend: GroundLegendEntry[] = GROUND_TYPES
+    .filter(g => coverage.has(g.id))
+    .map(g => ({ name: g.label, color: g.color, percent: 100 * coverage.get(g.id)!, difficult: g.difficult }))
+
+  const scenario = table.scenario
+  if (zones && scenario) {
+    for (const zone of scenario.zones) {
+      const color = SIDE_COLORS[zone.side] ?? '#9fb2c8'
+      const points = zonePolygon(zone, table).map(toMap)
+      shapes.push({ kind: 'polygon', points, style: { fill: color, opacity: 0.18 } })
+      shapes.push({ kind: 'polygon', points, style: { stroke: color, width: 0.5 } })
+      if (zone.label) shapes.push({ kind: 'text', at: centroid(points), text: zone.label, size: 8, color, align: 'middle' })
+    }
+  }
+
+  if (grid) shapes.push(...gridShapes(table, toMap))
+
+  // legend keys follow asset name so the same set of pieces always numbers the same way
+  const counts = new Map<string, number>()
+  instances.forEach(inst => {
+    if (assetsById.has(inst.assetId)) counts.set(inst.assetId, (counts.get(inst.assetId) ?? 0) + 1)
+  })
+  const legend: LegendEntry[] = Array.from(counts.keys())
+    .map(id => assetsById.get(id)!)
+    .sort((a, b) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id))
+    .map((asset, i) => ({
+      key: String(i + 1),
+      assetId: asset.id,
+      name: asset.name,
+      count: counts.get(asset.id)!,
+      color: PALETTE[i % PALETTE.length],
+    }))
+  const legendById = new Map(legend.map(e => [e.assetId, e]))
+
+  // stacked pieces are drawn over what they stand on
+  const ordered = [...instances].sort((a, b) => (a.elevation ?? 0) - (b.elevation ?? 0))
+  for (const inst of ordered) {
+    const asset = assetsById.get(inst.assetId)
+    const entry = legendById.get(inst.assetId)
+    if (!asset || !entry) continue
+    const occupant = instanceOccupant(inst, asset, table)
+    if (asset.occupancy) {
+      // bounding box for reference, blocked area filled
+      shapes.push({ kind: 'polygon', points: footprintPolygon(occupant.box).map(toMap), style: { stroke: INK, width: 0.25, dash: [1.5, 1] } })
+    }
+    for (const part of occupant.parts) {
+      shapes.push({ kind: 'polygon', points: footprintPolygon(part).map(toMap), style: { fill: entry.color, stroke: INK, width: 0.35 } })
+    }
+    if (labels) {
+      const centre = toMap(occupant.box.centre)
+      shapes.push({ kind: 'text', at: { x: centre.x, y: centre.y + PIECE_LABEL * 0.35 }, text: entry.key, size: PIECE_LABEL, color: INK, align: 'middle' })
+    }
+  }
+
+  if (zones && scenario) {
+    for (const obj of scenario.objectives) {
+      const centre = toMap(obj.position)
+      shapes.push({ kind: 'circle', centre, radius: OBJECTIVE_MARKER, style: { fill: '#ffd166', stroke: INK, width: 0.4 } })
+      if (obj.radius > 0) {
+        // control radius is measured from the marker's edge, as on the tabletop
+        shapes.push({ kind: 'circle', centre, radius: mm(obj.radius) + OBJECTIVE_MARKER, style: { stroke: '#b8860b', width: 0.4, dash: [3, 2] } })
+      }
+      if (obj.label) shapes.push({ kind: 'text', at: { x: centre.x, y: centre.y + 2 }, text: obj.label, size: 5, color: INK, align: 'middle' })
+    }
+    for (const line of scenario.lines) {
+      shapes.push({ kind: 'line', points: [toMap(line.from), toMap(line.to)], style: { stroke: '#555555', width: 0.5, dash: [4, 3] } })
+    }
+  }
+
+  // the board's edge: one rectangle, the outline, or each board of a multi-board table
+  for (const poly of tablePolygons(table)) {
+    shapes.push({ kind: 'polygon', points: poly.map(toMap), style: { stroke: INK, width: 0.7 } })
+  }
+  shapes.push(...rulerShapes(width, height, table.unitDisplay))
+
+  return {
+    title: options.title?.trim() || 'Table layout',
+    width,
+    height,
+    bounds: { x: -RULER_MARGIN, y: -RULER_MARGIN, width: width + RULER_MARGIN, height: height + RULER_MARGIN },
+    shapes,
+    legend,
+    ground: groundLegend,
+  }
+}
+
+// Diagonal lines across a rectangle, on one lattice for the whole map so neighbouring
+// rectangles' hatching lines up
+function hatchShapes(a: Pt, b: Pt, color: string): MapShape[] {
+  const style: MapStyle = { stroke: color, width: 0.3 }
+  const shapes: MapShape[] = []
+  const first = Math.ceil((a.y - b.x) / HATCH_SPACING)
+  const last = Math.floor((b.y - a.x) / HATCH_SPACING)
+  for (let k = first; k <= last; k++) {
+    // the line y = x + c, clipped to the rectangle
+    const c = k * HATCH_SPACING
+    const x0 = Math.max(a.x, a.y - c), x1 = Math.min(b.x, b.y - c)
+    if (x1 > x0) shapes.push({ kind: 'line', points: [{ x: x0, y: x0 + c }, { x: x1, y: x1 + c }], style })
+  }
+  return shapes
+}
+
+// Same lines as the scene grid: square cells run out from the table centre, hexes are
+// outlined wherever their centre is on the board
+function gridShapes(table: Table, toMap: (p: Point2) => Pt): MapShape[] {
+  const style: MapStyle = { stroke: GRID_COLOR, width: 0.2 }
+  const shapes: MapShape[] = []
+  const hw = table.width / 2, hh = table.height / 2
+  if (isHexGrid(table)) {
+    const orientation = table.hexOrientation ?? 'flat'
+    const reach = Math.ceil(Math.max(table.width, table.height) / table.gridSize) + 1
+    for (const h of hexesInRange({ q: 0, r: 0 }, reach)) {
+      const c = hexToWorld(h, table.gridSize, orientation)
+      if (!onTable(table, c.x, c.z)) continue
+      shapes.push({ kind: 'polygon', points: hexCorners(c.x, c.z, table.gridSize, orientation).map(toMap), style })
+    }
+    return shapes
+  }
+  const cols = Math.floor(Math.floor(table.width / table.gridSize) / 2)
+  for (let i = -cols; i <= cols; i++) {
+    const x = i * table.gridSize
+    for (const [z0, z1] of lineSpans(table, 'z', x, hh)) shapes.push({ kind: 'line', points: [toMap({ x, z: z0 }), toMap({ x, z: z1 })], style })
+  }
+  const rows = Math.floor(Math.floor(table.height / table.gridSize) / 2)
+  for (let j = -rows; j <= rows; j++) {
+    const z = j * table.gridSize
+    for (const [x0, x1] of lineSpans(table, 'x', z, hw)) shapes.push({ kind: 'line', points: [toMap({ x: x0, z }), toMap({ x: x1, z })], style })
+  }
+  return shapes
+}
+
+// A grid line runs edge to edge on a rectangular table and stops at a shaped table's outline
+function lineSpans(table: Table, along: 'x' | 'z', at: number, half: number): Array<[number, number]> {
+  return table.outline ? tableSpans(table, along, at) : [[-half, half]]
+}
+
+// Ticks along the top and left edges: inches for imperial tables, centimetres otherwise
+function rulerShapes(width: number, height: number, unit: Unit): MapShape[] {
+  const imperial = unit === 'in' || unit === 'ft'
+  const step = imperial ? 25.4 : 10
+  const majorEvery = imperial ? 6 : 10
+  const style: MapStyle = { stroke: INK, width: 0.25 }
+  const shapes: MapShape[] = []
+  const label = (i: number) => (imperial ? `${i}"` : `${i}`)
+
+  for (let i = 0; i * step <= width + 1e-6; i++) {
+    const major = i % majorEvery === 0
+    const x = i * step
+    shapes.push({ kind: 'line', points: [{ x, y: 0 }, { x, y: -(major ? MAJOR_TICK : MINOR_TICK) }], style })
+    if (major && i > 0) shapes.push({ kind: 'text', at: { x, y: -MAJOR_TICK - 1.5 }, text: label(i), size: RULER_TEXT, color: INK, align: 'middle' })
+  }
+  for (let i = 0; i * step <= height + 1e-6; i++) {
+    const major = i % majorEvery === 0
+    const y = i * step
+    shapes.push({ kind: 'line', points: [{ x: 0, y }, { x: -(major ? MAJOR_TICK : MINOR_TICK), y }], style })
+    if (major && i > 0) shapes.push({ kind: 'text', at: { x: -MAJOR_TICK - 1.5, y: y + RULER_TEXT * 0.35 }, text: label(i), size: RULER_TEXT, color: INK, align: 'end' })
+  }
+  shapes.push({ kind: 'text', at: { x: -MAJOR_TICK - 1.5, y: -MAJOR_TICK - 1.5 }, text: imperial ? 'in' : 'cm', size: RULER_TEXT, color: INK, align: 'end' })
+  return shapes
+}
+
+function centroid(points: Pt[]): Pt {
+  const sum = points.reduce((acc, p) => ({ x: acc.x + p.x, y: acc.y + p.y }), { x: 0, y: 0 })
+  return { x: sum.x / points.length, y: sum.y / points.length }
+}
+
+function circlePoints(centre: Pt, radius: number, segments = 48): Pt[] {
+  return Array.from({ length: segments }, (_, i) => {
+    const a = (i / segments) * Math.PI * 2
+    return { x: centre.x + Math.cos(a) * radius, y: centre.y + Math.sin(a) * radius }
+  })
+}
+
+// Rough extent of a shape, so tile pages skip what they can't show
+function shapeBox(shape: MapShape) {
+  const points =
+    shape.kind === 'circle'
+      ? [{ x: shape.centre.x - shape.radius, y: shape.centre.y - shape.radius }, { x: shape.centre.x + shape.radius, y: shape.centre.y + shape.radius }]
+      : shape.kind === 'text'
+        ? [{ x: shape.at.x - textWidth(shape.text, shape.size), y: shape.at.y - shape.size }, { x: shape.at.x + textWidth(shape.text, shape.size), y: shape.at.y }]
+        : shape.points
+  const xs = points.map(p => p.x), ys = points.map(p => p.y)
+  return { x0: Math.min(...xs), y0: Math.min(...ys), x1: Math.max(...xs), y1: Math.max(...ys) }
+}
+
+function legendLine(entry: LegendEntry, maxChars: number) {
+  const name = entry.name.length > maxChars ? `${entry.name.slice(0, maxChars - 3)}...` : entry.name
+  return `${entry.key}. ${name} ×${entry.count}`
+}
+
+// Painted ground first, then the pieces
+function legendRows(map: LayoutMap, maxChars: number) {
+  return [
+    ...map.ground.map(g => ({ color: g.color, text: `${g.name}${g.difficult ? ' (difficult)' : ''} ${g.percent.toFixed(0)}%` })),
+    ...map.legend.map(entry => ({ color: entry.color, text: legendLine(entry, maxChars) })),
+  ]
+}
+
+// ---------- SVG ----------
+
+const TITLE_BAND = 12
+const LEGEND_COLUMN = 70
+const LEGEND_ROW = 6
+const LEGEND_TEXT = 3.5
+
+const xml = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+const f = (v: number) => Number(v.toFixed(2))
+
+function svgStyle(style: MapStyle) {
+  const attrs = [
+    `fill="${style.fill ?? 'none'}"`,
+    style.opacity !== undefined ? `fill-opacity="${style.opacity}"` : '',
+    style.stroke ? `stroke="${style.stroke}" stroke-width="${style.width ?? 0.3}"` : '',
+    style.dash ? `stroke-dasharray="${style.dash.join(' ')}"` : '',
+  ]
+  return attrs.filter(Boolean).join(' ')
+}
+
+function svgShape(shape: MapShape) {
+  switch (shape.kind) {
+    case 'polygon':
+      return `<polygon points="${shape.points.map(p => `${f(p.x)},${f(p.y)}`).join(' ')}" ${svgStyle(shape.style)}/>`
+    case 'line':
+      return `<polyline points="${shape.points.map(p => `${f(p.x)},${f(p.y)}`).join(' ')}" ${svgStyle(shape.style)}/>`
+    case 'circle':
+      return `<circle cx="${f(shape.centre.x)}" cy="${f(shape.centre.y)}" r="${f(shape.radius)}" ${svgStyle(shape.style)}/>`
+    case 'text':
+      return `<text x="${f(shape.at.x)}" y="${f(shape.at.y)}" font-size="${shape.size}" fill="${shape.color}" text-anchor="${shape.align}">${xml(shape.text)}</text>`
+  }
+}
+
+/** Standalone SVG sized in millimetres, so it prints at true scale at 100%. */
+export function layoutMapToSvg(map: LayoutMap): string {
+  const b = map.bounds
+  const columns = Math.max(1, Math.floor(b.width / LEGEND_COLUMN))
+  const entries = legendRows(map, 30)
+  const rows = Math.ceil(entries.length / columns)
+  const legendHeight = rows > 0 ? 8 + rows * LEGEND_ROW : 0
+  const top = b.y - TITLE_BAND
+  const totalHeight = TITLE_BAND + b.height + legendHeight
+
+  const legend = entries.map((entry, i) => {
+    const x = b.x + (i % columns) * LEGEND_COLUMN
+    const y = b.y + b.height + 8 + Math.floor(i / columns) * LEGEND_ROW
+    return (
+      `<rect x="${f(x)}" y="${f(y - 3.5)}" width="4" height="4" fill="${entry.color}" stroke="${INK}" stroke-width="0.25"/>` +
+      `<text x="${f(x + 6)}" y="${f(y)}" font-size="${LEGEND_TEXT}" fill="${INK}">${xml(entry.text)}</text>`
+    )
+  })
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${f(b.width)}mm" height="${f(totalHeight)}mm" viewBox="${f(b.x)} ${f(top)} ${f(b.width)} ${f(totalHeight)}" font-family="Helvetica, Arial, sans-serif">`,
+    `<title>${xml(map.title)}</title>`,
+    `<rect x="${f(b.x)}" y="${f(top)}" width="${f(b.width)}" height="${f(totalHeight)}" fill="#ffffff"/>`,
+    `<text x="0" y="${f(b.y - 4)}" font-size="7" font-weight="bold" fill="${INK}">${xml(map.title)}</text>`,
+    ...map.shapes.map(svgShape),
+    ...legend,
+    `</svg>`,
+  ].join('\n')
+}
+
+// ---------- PDF ----------
+
+const PAGE_MARGIN = 10 // mm; most printers can't reach closer to the edge
+const PAGE_HEADER = 10
+const SCALE_BAR = 50
+
+export type PdfTiling = {
+  landscape: boolean
+  pageWidth: number   // mm
+  pageHeight: number
+  tileWidth: number   // printable map area per page, mm
+  tileHeight: number
+  columns: number
+  rows: number
+}
+
+/** Page orientation and tile grid for a 1:1 print, picking whichever orientation needs fewer pages. */
+export function planPdfTiles(map: LayoutMap, paper: PaperSize): PdfTiling {
+  const size = PAPER_SIZES[paper]
+  const options = [false, true].map(landscape => {
+    const pageWidth = (landscape ? size.height : size.width) / MM_TO_PT
+    const pageHeight = (landscape ? size.width : size.height) / MM_TO_PT
+    const tileWidth = pageWidth - 2 * PAGE_MARGIN
+    const tileHeight = pageHeight - 2 * PAGE_MARGIN - PAGE_HEADER
+    return {
+      landscape,
+      pageWidth,
+      pageHeight,
+      tileWidth,
+      tileHeight,
+      columns: Math.ceil(map.bounds.width / tileWidth),
+      rows: Math.ceil(map.bounds.height / tileHeight),
+    }
+  })
+  return options.reduce((best, o) => (o.columns * o.rows < best.columns * best.rows ? o : best))
+}
+
+const tileName = (column: number, row: number) => `${String.fromCharCode(65 + (column % 26))}${row + 1}`
+
+// Pages are drawn in millimetres from the top-left corner; text is flipped back upright
+function mmPage(t: PdfTiling): PdfPage {
+  const page = createPage(t.pageWidth * MM_TO_PT, t.pageHeight * MM_TO_PT)
+  pdf.transform(page, MM_TO_PT, 0, 0, -MM_TO_PT, 0, page.height)
+  return page
+}
+
+function pdfPaint(page: PdfPage, style: MapStyle, draw: () => void) {
+  pdf.save(page)
+  if (style.opacity !== undefined && style.opacity < 1) pdf.alpha(page, style.opacity)
+  if (style.fill) pdf.fillColor(page, style.fill)
+  if (style.stroke) {
+    pdf.strokeColor(page, style.stroke)
+    pdf.lineWidth(page, style.width ?? 0.3)
+    pdf.dash(page, style.dash)
+  }
+  draw()
+  if (style.fill && style.stroke) pdf.fillStroke(page)
+  else if (style.fill) pdf.fill(page)
+  else pdf.stroke(page)
+  pdf.restore(page)
+}
+
+function pdfShape(page: PdfPage, shape: MapShape) {
+  const coords = (points: Pt[]) => points.map((p): [number, number] => [p.x, p.y])
+  switch (shape.kind) {
+    case 'polygon':
+      return pdfPaint(page, shape.style, () => pdf.path(page, coords(shape.points), true))
+    case 'line':
+      return pdfPaint(page, { ...shape.style, fill: undefined }, () => pdf.path(page, coords(shape.points), false))
+    case 'circle':
+      return pdfPaint(page, shape.style, () => pdf.path(page, coords(circlePoints(shape.centre, shape.radius)), true))
+    case 'text':
+      pdf.fillColor(page, shape.color)
+      return pdf.text(page, shape.at.x, shape.at.y, shape.text, shape.size, shape.align, true)
+  }
+}
+
+function pdfText(page: PdfPage, x: number, y: number, text: string, size: number, align: 'start' | 'middle' | 'end' = 'start') {
+  pdf.fillColor(page, INK)
+  pdf.text(page, x, y, text, size, align, true)
+}
+
+/**
+ * Overview page with the legend and tile index, then one page per tile at 1:1. Each tile
+ * page carries a 50 mm bar so the print scale can be checked with a ruler.
+ */
+export function layoutMapToPdf(map: LayoutMap, paper: PaperSize = 'a4'): Uint8Array {
+  const t = planPdfTiles(map, paper)
+  const b = map.bounds
+  const pages: PdfPage[] = []
+  const areaTop = PAGE_MARGIN + PAGE_HEADER
+
+  // overview: whole map scaled to fit above the legend
+  const overview = mmPage(t)
+  const columns = Math.max(1, Math.floor(t.tileWidth / 60))
+  const entries = legendRows(map, 26)
+  const legendHeight = Math.ceil(entries.length / columns) * 5 + (entries.length ? 8 : 0)
+  const fitHeight = t.tileHeight - legendHeight - 10
+  const scale = Math.min(t.tileWidth / b.width, fitHeight / b.height, 1)
+  pdfText(overview, PAGE_MARGIN, PAGE_MARGIN + 6, map.title, 7)
+  pdfText(
+    overview,
+    PAGE_MARGIN + t.tileWidth,
+    PAGE_MARGIN + 6,
+    `Overview - ${t.columns * t.rows} page${t.columns * t.rows === 1 ? '' : 's'} at 1:1 follow`,
+    3.5,
+    'end'
+  )
+  pdf.save(overview)
+  pdf.transform(overview, scale, 0, 0, scale, PAGE_MARGIN - b.x * scale, areaTop - b.y * scale)
+  map.shapes.forEach(shape => pdfShape(overview, shape))
+  for (let row = 0; row < t.rows; row++) {
+    for (let column = 0; column < t.columns; column++) {
+      const x = b.x + column * t.tileWidth
+      const y = b.y + row * t.tileHeight
+      pdfPaint(overview, { stroke: '#4da3ff', width: 0.6 / scale, dash: [3 / scale, 2 / scale] }, () =>
+        pdf.rect(overview, x, y, t.tileWidth, t.tileHeight)
+      )
+      pdf.fillColor(overview, '#4da3ff')
+      pdf.text(overview, x + t.tileWidth / 2, y + t.tileHeight / 2, tileName(column, row), 10 / scale, 'middle', true)
+    }
+  }
+  pdf.restore(overview)
+
+  const legendTop = areaTop + b.height * scale + 10
+  entries.forEach((entry, i) => {
+    const x = PAGE_MARGIN + (i % columns) * 60
+    const y = legendTop + Math.floor(i / columns) * 5
+    pdfPaint(overview, { fill: entry.color, stroke: INK, width: 0.25 }, () => pdf.rect(overview, x, y - 3, 3.5, 3.5))
+    pdfText(overview, x + 5, y, entry.text, 3.2)
+  })
+  pdfText(
+    overview,
+    PAGE_MARGIN,
+    t.pageHeight - PAGE_MARGIN + 4,
+    'Print at 100% / actual size; the bar on each tile page measures 50 mm. Trim along the blue border and butt pages together.',
+    2.8
+  )
+  pages.push(overview)
+
+  const boxes = map.shapes.map(shapeBox)
+
+  for (let row = 0; row < t.rows; row++) {
+    for (let column = 0; column < t.columns; column++) {
+      const page = mmPage(t)
+      const x0 = b.x + column * t.tileWidth
+      const y0 = b.y + row * t.tileHeight
+      pdfText(page, PAGE_MARGIN, PAGE_MARGIN + 6, `${tileName(column, row)}  ${map.title}`, 5)
+      pdfText(page, PAGE_MARGIN + t.tileWidth - SCALE_BAR - 3, PAGE_MARGIN + 6, `column ${column + 1}/${t.columns}, row ${row + 1}/${t.rows}`, 3, 'end')
+      // scale check bar
+      pdfPaint(page, { fill: INK }, () => pdf.rect(page, PAGE_MARGIN + t.tileWidth - SCALE_BAR, PAGE_MARGIN + 3, SCALE_BAR, 1.5))
+      pdfText(page, PAGE_MARGIN + t.tileWidth - SCALE_BAR / 2, PAGE_MARGIN + 8.5, '50 mm', 2.5, 'middle')
+
+      pdf.save(page)
+      pdf.rect(page, PAGE_MARGIN, areaTop, t.tileWidth, t.tileHeight)
+      pdf.clip(page)
+      pdf.transform(page, 1, 0, 0, 1, PAGE_MARGIN - x0, areaTop - y0)
+      map.shapes.forEach((shape, i) => {
+        const box = boxes[i]
+        if (box.x1 < x0 || box.y1 < y0 || box.x0 > x0 + t.tileWidth || box.y0 > y0 + t.tileHeight) return
+        pdfShape(page, shape)
+      })
+      pdf.restore(page)
+      pdfPaint(page, { stroke: '#4da3ff', width: 0.3 }, () => pdf.rect(page, PAGE_MARGIN, areaTop, t.tileWidth, t.tileHeight))
+      pages.push(page)
+    }
+  }
+
+  return buildPdf(pages, map.title)
+}
@@ -0,0 +1,96 @@
+// src/core/mask.ts
+// Per-asset occupancy masks: which parts of the bounding rectangle a piece actually blocks.
+// Bitmaps cover the asset's x × z rectangle, row-major from -z to +z, '1' = blocked.
+// Polygons are [x, z] points in metres relative to the asset's centre.
+import { z } from 'zod'
+
+export const OccupancyMaskSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('bitmap'),
+    cols: z.number().int().positive(),
+    rows: z.number().int().positive(),
+    cells: z.string().regex(/^[01]*$/),
+  }),
+  z.object({
+    type: z.literal('polygon'),
+    points: z.array(z.tuple([z.number(), z.number()])).min(3),
+  }),
+]).refine(m => m.type !== 'bitmap' || m.cells.length === m.cols * m.rows, 'cells must hold cols × rows entries')
+
+export type OccupancyMask = z.infer<typeof OccupancyMaskSchema>
+
+// Blocked rectangle in asset-local metres (centre-origin, before rotation)
+export type MaskRect = { x0: number; z0: number; x1: number; z1: number }
+
+// Cells along the longer side when a polygon is rasterised
+const POLYGON_RASTER_CELLS = 32
+
+const rectCache = new WeakMap<OccupancyMask, { key: string; rects: MaskRect[] }>()
+
+/** Blocked areas of a mask as a few merged rectangles (cached per mask and size). */
+export function maskRects(mask: OccupancyMask, aabb: { x: number; z: number }): MaskRect[] {
+  const key = `${aabb.x},${aabb.z}`
+  const cached = rectCache.get(mask)
+  if (cached && cached.key === key) return cached.rects
+  const grid = mask.type === 'bitmap' ? mask : rasterisePolygon(mask.points, aabb)
+  const rects = mergeCells(grid, aabb)
+  rectCache.set(mask, { key, rects })
+  return rects
+}
+
+// Runs of blocked cells per row, grown downwards while the next row has the same run
+function mergeCells(grid: { cols: number; rows: number; cells: string }, aabb: { x: number; z: number }) {
+  const cw = aabb.x / grid.cols
+  const cd = aabb.z / grid.rows
+  const open = new Map<string, MaskRect>()
+  const rects: MaskRect[] = []
+  for (let r = 0; r < grid.rows; r++) {
+    const runs = new Map<string, MaskRect>()
+    let c = 0
+    while (c < grid.cols) {
+      if (grid.cells[r * grid.cols + c] !== '1') { c++; continue }
+      const start = c
+      while (c < grid.cols && grid.cells[r * grid.cols + c] === '1') c++
+      const runKey = `${start}:${c}`
+      const z1 = -aabb.z / 2 + (r + 1) * cd
+      const prev = open.get(runKey)
+      if (prev) {
+        prev.z1 = z1
+        runs.set(runKey, prev)
+      } else {
+        const rect = { x0: -aabb.x / 2 + start * cw, z0: -aabb.z / 2 + r * cd, x1: -aabb.x / 2 + c * cw, z1 }
+        rects.push(rect)
+        runs.set(runKey, rect)
+      }
+    }
+    open.clear()
+    runs.forEach((rect, k) => open.set(k, rect))
+  }
+  return rects
+}
+
+// A cell is blocked when its centre is inside the polygon (even-odd rule)
+function rasterisePolygon(points: Array<[number, number]>, aabb: { x: number; z: number }) {
+  const cellSize = Math.max(aabb.x, aabb.z) / POLYGON_RASTER_CELLS
+  const cols = Math.max(1, Math.ceil(aabb.x / cellSize))
+  const rows = Math.max(1, Math.ceil(aabb.z / cellSize))
+  let cells = ''
+  for (let r = 0; r < rows; r++) {
+    const pz = -aabb.z / 2 + (r + 0.5) * (aabb.z / rows)
+    for (let c = 0; c < cols; c++) {
+      const px = -aabb.x / 2 + (c + 0.5) * (aabb.x / cols)
+      cells += insidePolygon(px, pz, points) ? '1' : '0'
+    }
+  }
+  return { cols, rows, cells }
+}
+
+function insidePolygon(x: number, z: number, points: Array<[number, number]>) {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [xi, zi] = points[i]
+    const [xj, zj] = points[j]
+    if ((zi > z) !== (zj > z) && x < (xj - xi) * (z - zi) / (zj - zi) + xi) inside = !inside
+  }
+  return inside
+}
@@ -0,0 +1,129 @@
+// src/core/obb.ts
+// Oriented bounding boxes in world space (metres) and a separating-axis overlap test.
+// Rotations follow the meshes in ThreeStage: Euler order XYZ, degrees, centred on the model.
+import { convexHull, type Point2 } from '@core/polygon'
+
+export type Vec3 = { x: number; y: number; z: number }
+export type OBB = {
+  centre: Vec3
+  half: Vec3              // half-extents along the box's local axes
+  axes: [Vec3, Vec3, Vec3] // local X, Y, Z in world space (unit vectors)
+}
+
+// Faces closer than this are touching, not overlapping (1 mm)
+const TOUCH_EPSILON = 0.001
+
+type Oriented = {
+  position: { x: number; z: number }
+  rotationDeg: number
+  rotationX?: number
+  rotationZ?: number
+  elevation?: number
+  swapXZ?: boolean
+}
+
+/** The piece's size as placed: swapXZ stretches the model so its X and Z sizes trade places. */
+export function placedDims(inst: { swapXZ?: boolean }, aabb: { x: number; y: number; z: number }) {
+  return inst.swapXZ ? { x: aabb.z, y: aabb.y, z: aabb.x } : aabb
+}
+
+/** World-space box of a placed piece; the model is centred half its height above its base. */
+export function orientedBox(inst: Oriented, modelAabb: { x: number; y: number; z: number }): OBB {
+  const [ax, ay, az] = eulerXYZAxes(inst.rotationX ?? 0, inst.rotationDeg, inst.rotationZ ?? 0)
+  const aabb = placedDims(inst, modelAabb)
+  return {
+    centre: { x: inst.position.x, y: (inst.elevation ?? 0) + aabb.y / 2, z: inst.position.z },
+    half: { x: aabb.x / 2, y: aabb.y / 2, z: aabb.z / 2 },
+    axes: [ax, ay, az],
+  }
+}
+
+/**
+ * One box per blocked rectangle of an occupancy mask (asset-local metres), each
+ * full-height and turned with the piece, so an L-shaped ruin leaves its corner free.
+ */
+export function orientedParts(
+  box: OBB,
+  rects: Array<{ x0: number; z0: number; x1: number; z1: number }>
+): OBB[] {
+  const [u, v, w] = box.axes
+  return rects.map(r => {
+    const cx = (r.x0 + r.x1) / 2, cz = (r.z0 + r.z1) / 2
+    return {
+      centre: {
+        x: box.centre.x + u.x * cx + w.x * cz,
+        y: box.centre.y + u.y * cx + w.y * cz,
+        z: box.centre.z + u.z * cx + w.z * cz,
+      },
+      half: { x: (r.x1 - r.x0) / 2, y: box.half.y, z: (r.z1 - r.z0) / 2 },
+      axes: [u, v, w],
+    }
+  })
+}
+
+/** Half-widths of the box's shadow on the world X and Z axes (broad-phase extent). */
+export function projectedExtent(b: OBB) {
+  const [u, v, w] = b.axes
+  return {
+    x: Math.abs(u.x) * b.half.x + Math.abs(v.x) * b.half.y + Math.abs(w.x) * b.half.z,
+    z: Math.abs(u.z) * b.half.x + Math.abs(v.z) * b.half.y + Math.abs(w.z) * b.half.z,
+  }
+}
+
+/** Outline of the box's shadow on the table (convex, x/z metres), tilted boxes included. */
+export function footprintPolygon(b: OBB): Point2[] {
+  const [u, v, w] = b.axes
+  const corners: Point2[] = []
+  for (const a of [-1, 1]) for (const c of [-1, 1]) for (const d of [-1, 1]) {
+    corners.push({
+      x: b.centre.x + u.x * b.half.x * a + v.x * b.half.y * c + w.x * b.half.z * d,
+      z: b.centre.z + u.z * b.half.x * a + v.z * b.half.y * c + w.z * b.half.z * d,
+    })
+  }
+  return convexHull(corners)
+}
+
+/** Separating axis test over the 15 candidate axes; touching faces don't count. */
+export function obbOverlap(a: OBB, b: OBB) {
+  const t = sub(b.centre, a.centre)
+  const axes: Vec3[] = [...a.axes, ...b.axes]
+  for (const u of a.axes) {
+    for (const v of b.axes) {
+      const c = cross(u, v)
+      if (dot(c, c) > 1e-10) axes.push(c) // parallel edges give no new axis
+    }
+  }
+  for (const axis of axes) {
+    const len = Math.sqrt(dot(axis, axis))
+    const ra = radius(a, axis) / len
+    const rb = radius(b, axis) / len
+    if (Math.abs(dot(t, axis)) / len >= ra + rb - TOUCH_EPSILON) return false
+  }
+  return true
+}
+
+function radius(b: OBB, axis: Vec3) {
+  return Math.abs(dot(b.axes[0], axis)) * b.half.x
+    + Math.abs(dot(b.axes[1], axis)) * b.half.y
+    + Math.abs(dot(b.axes[2], axis)) * b.half.z
+}
+
+// Columns of Rx · Ry · Rz, matching THREE.Euler with order 'XYZ'
+function eulerXYZAxes(xDeg: number, yDeg: number, zDeg: number): [Vec3, Vec3, Vec3] {
+  const rad = Math.PI / 180
+  const a = Math.cos(xDeg * rad), b = Math.sin(xDeg * rad)
+  const c = Math.cos(yDeg * rad), d = Math.sin(yDeg * rad)
+  const e = Math.cos(zDeg * rad), f = Math.sin(zDeg * rad)
+  const ae = a * e, af = a * f, be = b * e, bf = b * f
+  return [
+    { x: c * e, y: af + be * d, z: bf - ae * d },
+    { x: -c * f, y: ae - bf * d, z: be + af * d },
+    { x: d, y: -b * c, z: a * c },
+  ]
+}
+
+function sub(p: Vec3, q: Vec3): Vec3 { return { x: p.x - q.x, y: p.y - q.y, z: p.z - q.z } }
+function dot(p: Vec3, q: Vec3) { return p.x * q.x + p.y * q.y + p.z * q.z }
+function cross(p: Vec3, q: Vec3): Vec3 {
+  return { x: p.y * q.z - p.z * q.y, y: p.z * q.x - p.x * q.z, z: p.x * q.y - p.y * q.x }
+}
@@ -1,10 +1,37 @@
 // src/core/occupancy.ts
 import type { Asset } from '@core/assets'
 import type { Table } from '@state/store'
+import { isHexGrid } from '@core/grid'
+import { worldToHex, hexToWorld, hexFootprint, hexesInRange, hexRadius } from '@core/hex'
+import { footprintPolygon, orientedBox, placedDims, orientedParts, projectedExtent, obbOverlap, type OBB } from '@core/obb'
+import { polygonsOverlap } from '@core/polygon'
+import { maskRects } from '@core/mask'
+import { onTable } from '@core/tableShape'
 
 export type Rotation = 0|90|180|270
 export type Cell = { c: number; r: number }
 
+// Vertical extent of a piece above the table surface (metres)
+export type Span = { bottom: number; top: number }
+// A piece's claim on a cell: its span for the layer rule, its world-space box, and the
+// boxes of the area it actually blocks (just the box itself unless the asset has a mask)
+export type Occupant = { span: Span; box: OBB; parts: OBB[] }
+// Cell key → every piece whose extent reaches that cell (broad-phase only)
+export type Occupancy = Map<string, Occupant[]>
+
+type Placed = {
+  assetId: string
+  position: { x: number; z: number }
+  rotationDeg: number
+  rotationX?: number
+  rotationZ?: number
+  elevation?: number
+  swapXZ?: boolean
+}
+
+// A base this close to another piece's top is standing on it (5 mm)
+const STACK_EPSILON = 0.005
+
 // Grid dimensions in cells (centre-origin board, but indices are 0..N-1)
 export function gridDims(table: Table){
   const cols = Math.max(1, Math.round(table.width  / table.gridSize) + 1)
@@ -12,8 +39,13 @@ export function gridDims(table: Table){
   return { cols, rows }
 }
 
-// World (metres) → cell index (0..N-1), rounding to nearest cell
+// World (metres) → cell index (0..N-1), rounding to nearest cell.
+// Hex grids use axial coordinates instead: c = q, r = r, centred on the board (may be negative).
 export function worldToCell(x: number, z: number, table: Table){
+  if (isHexGrid(table)){
+    const h = worldToHex(x, z, table.gridSize, table.hexOrientation ?? 'flat')
+    return { c: h.q, r: h.r }
+  }
   const { cols, rows } = gridDims(table)
   const u = (x + table.width  / 2) / table.gridSize
   const v = (z + table.height / 2) / table.gridSize
@@ -52,34 +84,250 @@ export function footprintCells(anchor: Cell, fp: {cols:number;rows:number}): Cel
   return cells
 }
 
+// A cell is on the board when its centre is (inside the outline, for shaped tables)
 export function inBounds(cells: Cell[], table: Table){
+  if (isHexGrid(table)){
+    return cells.every(({c,r}) => {
+      const p = hexToWorld({ q: c, r }, table.gridSize, table.hexOrientation ?? 'flat')
+      return onTable(table, p.x, p.z)
+    })
+  }
   const { cols, rows } = gridDims(table)
-  return cells.every(({c,r}) => c >= 0 && r >= 0 && c < cols && r < rows)
+  return cells.every(({c,r}) =>
+    c >= 0 && r >= 0 && c < cols && r < rows &&
+    (!table.outline || onTable(table, c * table.gridSize - table.width / 2, r * table.gridSize - table.height / 2))
+  )
 }
 
-// Build an occupied-set from placed instances using dynamic footprints
+// Build the broad-phase occupancy map: each piece is filed under every cell its
+// oriented box reaches, so candidates for the exact test are found by cell lookup
 export function buildOccupiedSet(
-  instances: {assetId:string; position:{x:number;z:number}; rotationDeg:number}[],
+  instances: Placed[],
   assetsById: Map<string, Asset>,
   table: Table
-){
-  const occ = new Set<string>()
+): Occupancy {
+  const occ: Occupancy = new Map()
   for (const inst of instances){
     const asset = assetsById.get(inst.assetId)
     if (!asset) continue
-    const anchor = worldToCell(inst.position.x, inst.position.z, table)
-    // Snap rotation to 90° for footprint calculation
-    const snappedRot = snapRotationForFootprint(inst.rotationDeg)
-    const fp = aabbFootprint(asset, snappedRot, table.gridSize)
-    for (const cell of footprintCells(anchor, fp)){
-      if (cell.c >= 0 && cell.r >= 0) occ.add(key(cell))
-    }
+    const occupant = instanceOccupant(inst, asset, table)
+    for (const cell of broadPhaseCells(occupant.box, table)) occupy(occ, cell, occupant)
   }
   return occ
 }
 
-export function collides(cells: Cell[], occupied: Set<string>){
-  return cells.some(c => occupied.has(key(c)))
+// Vertical span of a placed instance, from its elevation to the top of its AABB
+export function instanceSpan(inst: {elevation?: number}, asset: Asset): Span {
+  const bottom = inst.elevation ?? 0
+  const height = asset.aabb?.y ?? 0
+  return { bottom, top: bottom + height }
+}
+
+export function instanceOccupant(inst: Omit<Placed, 'assetId'>, asset: Asset, table: Table): Occupant {
+  const dims = asset.aabb ?? { x: table.gridSize, y: table.gridSize, z: table.gridSize }
+  const box = orientedBox(inst, dims)
+  // the mask covers the model as stretched, so it swaps with it
+  const parts = asset.occupancy ? orientedParts(box, maskRects(asset.occupancy, placedDims(inst, dims))) : [box]
+  return { span: instanceSpan(inst, asset), box, parts }
+}
+
+export function occupy(occ: Occupancy, cell: Cell, occupant: Occupant){
+  const k = key(cell)
+  const list = occ.get(k)
+  if (list) list.push(occupant)
+  else occ.set(k, [occupant])
+}
+
+// Every cell touched by the box's shadow on the table, at its true rotation and tilt
+export function broadPhaseCells(box: OBB, table: Table): Cell[] {
+  const ext = projectedExtent(box)
+  const { x, z } = box.centre
+  if (isHexGrid(table)){
+    // hexes whose cell (circumradius R around the centre) can touch the rectangle
+    const orientation = table.hexOrientation ?? 'flat'
+    const R = hexRadius(table.gridSize)
+    const anchor = worldToHex(x, z, table.gridSize, orientation)
+    const reach = Math.ceil(2 * Math.max(ext.x, ext.z) / table.gridSize) + 1
+    return hexesInRange(anchor, reach)
+      .filter(h => {
+        const p = hexToWorld(h, table.gridSize, orientation)
+        return Math.abs(p.x - x) <= ext.x + R && Math.abs(p.z - z) <= ext.z + R
+      })
+      .map(h => ({ c: h.q, r: h.r }))
+  }
+  const lo = worldToCell(x - ext.x, z - ext.z, table)
+  const hi = worldToCell(x + ext.x, z + ext.z, table)
+  const cells: Cell[] = []
+  for (let c = lo.c; c <= hi.c; c++){
+    for (let r = lo.r; r <= hi.r; r++) cells.push({ c, r })
+  }
+  return cells
+}
+
+// Cells covered by a single placed instance (rotation snapped to 90° for the footprint).
+// Used for bounds and snapping; collisions use the oriented box instead.
+export function instanceCells(
+  inst: {position:{x:number;z:number}; rotationDeg:number; swapXZ?: boolean},
+  modelAsset: Asset,
+  table: Table
+){
+  const anchor = worldToCell(inst.position.x, inst.position.z, table)
+  const snappedRot = snapRotationForFootprint(inst.rotationDeg)
+  const asset = inst.swapXZ && modelAsset.aabb ? { ...modelAsset, aabb: placedDims(inst, modelAsset.aabb) } : modelAsset
+  if (isHexGrid(table)){
+    const aabb = asset.aabb || { x: table.gridSize, z: table.gridSize }
+    const quarter = snappedRot === 90 || snappedRot === 270
+    const w = quarter ? aabb.z : aabb.x
+    const d = quarter ? aabb.x : aabb.z
+    return hexFootprint({ q: anchor.c, r: anchor.r }, w, d, table.gridSize, table.hexOrientation ?? 'flat')
+      .map(h => ({ c: h.q, r: h.r }))
+  }
+  const fp = aabbFootprint(asset, snappedRot, table.gridSize)
+  return footprintCells(anchor, fp)
+}
+
+// The grid only finds candidates; two pieces collide when their heights overlap and
+// their oriented boxes actually overlap, so a ruin turned 45° can sit in the gap beside
+// a wall. A piece whose base is on another's top is resting on it (placement drops it
+// onto the surface below), so a crate on a rooftop doesn't collide with the building.
+export function collides(occupant: Occupant, occupied: Occupancy, table: Table){
+  const seen = new Set<Occupant>()
+  for (const cell of broadPhaseCells(occupant.box, table)){
+    for (const other of occupied.get(key(cell)) ?? []){
+      if (seen.has(other)) continue
+      seen.add(other)
+      if (spansOverlap(occupant.span, other.span) && occupantsOverlap(occupant, other)) return true
+    }
+  }
+  return false
+}
+
+// Bounding boxes first (cheap reject), then the masked parts pairwise
+function occupantsOverlap(a: Occupant, b: Occupant){
+  if (!obbOverlap(a.box, b.box)) return false
+  return a.parts.some(p => b.parts.some(q => obbOverlap(p, q)))
+}
+
+function spansOverlap(a: Span, b: Span){
+  if (Math.abs(a.bottom - b.top) <= STACK_EPSILON || Math.abs(b.bottom - a.top) <= STACK_EPSILON) return false
+  return a.top > b.bottom && b.top > a.bottom
+}
+
+function shadows(o: Occupant){ return o.parts.map(footprintPolygon) }
+
+function restsOn(a: Occupant, b: Occupant){
+  if (Math.abs(a.span.bottom - b.span.top) > STACK_EPSILON) return false
+  const under = shadows(b)
+  return shadows(a).some(p => under.some(q => polygonsOverlap(p, q)))
+}
+
+// Top of the highest piece under the occupant's footprint that it could stand on (0 = table)
+function supportHeight(occupant: Occupant, others: Occupant[]){
+  const mine = shadows(occupant)
+  let height = 0
+  for (const other of others){
+    if (other.span.top > occupant.span.bottom + STACK_EPSILON) continue
+    if (shadows(other).some(p => mine.some(q => polygonsOverlap(p, q)))) height = Math.max(height, other.span.top)
+  }
+  return height
+}
+
+/**
+ * Elevation a piece comes to rest at when dropped from above onto `others`: the top of
+ * the tallest piece under its footprint, or 0 for the table.
+ */
+export function restingElevation(
+  inst: Placed,
+  others: Placed[],
+  assetsById: Map<string, Asset>,
+  table: Table
+){
+  const asset = assetsById.get(inst.assetId)
+  if (!asset) return 0
+  const mine = shadows(instanceOccupant({ ...inst, elevation: 0 }, asset, table))
+  let height = 0
+  for (const other of others){
+    const otherAsset = assetsById.get(other.assetId)
+    if (!otherAsset) continue
+    const occupant = instanceOccupant(other, otherAsset, table)
+    if (occupant.span.top <= height) continue
+    if (shadows(occupant).some(p => mine.some(q => polygonsOverlap(p, q)))) height = occupant.span.top
+  }
+  return height
+}
+
+/**
+ * Pieces that stood on a changed or removed piece (and whatever stood on them) drop onto
+ * what is still under them in `after`, lowest first so a stack settles in one pass.
+ * `before` is the layout the supports are judged in; pieces elsewhere are left alone.
+ */
+export function settleDependants<T extends Placed & {id:string}>(
+  before: T[],
+  after: T[],
+  changed: Set<string>,
+  assetsById: Map<string, Asset>,
+  table: Table
+): T[] {
+  const occupantOf = (inst: T) => {
+    const asset = assetsById.get(inst.assetId)
+    return asset ? instanceOccupant(inst, asset, table) : null
+  }
+  const beforeOcc = new Map(before.map(i => [i.id, occupantOf(i)]))
+  const dependants = new Set<string>()
+  let frontier = [...changed]
+  while (frontier.length > 0){
+    const next: string[] = []
+    for (const id of frontier){
+      const support = beforeOcc.get(id)
+      if (!support) continue
+      for (const inst of before){
+        if ((inst.elevation ?? 0) <= 0 || changed.has(inst.id) || dependants.has(inst.id)) continue
+        const occupant = beforeOcc.get(inst.id)
+        if (occupant && restsOn(occupant, support)){
+          dependants.add(inst.id)
+          next.push(inst.id)
+        }
+      }
+    }
+    frontier = next
+  }
+  if (dependants.size === 0) return after
+
+  const current = new Map(after.map(i => [i.id, i]))
+  const order = after.filter(i => dependants.has(i.id)).sort((a, b) => (a.elevation ?? 0) - (b.elevation ?? 0))
+  for (const inst of order){
+    const occupant = occupantOf(inst)
+    if (!occupant) continue
+    const others = [...current.values()]
+      .filter(other => other.id !== inst.id)
+      .map(occupantOf)
+      .filter((o): o is Occupant => o !== null)
+    const height = supportHeight(occupant, others)
+    if (Math.abs(height - (inst.elevation ?? 0)) <= STACK_EPSILON) continue
+    const { elevation: _old, ...rest } = inst
+    current.set(inst.id, (height > 0 ? { ...rest, elevation: height } : rest) as T)
+  }
+  return after.map(i => current.get(i.id)!)
+}
+
+// Validate a whole group in one pass: the group is checked against everything
+// outside it, and members are added as we go so they can't overlap each other.
+export function groupFits(
+  moved: (Placed & {id:string})[],
+  instances: (Placed & {id:string})[],
+  assetsById: Map<string, Asset>,
+  table: Table
+){
+  const movedIds = new Set(moved.map(m => m.id))
+  const occ = buildOccupiedSet(instances.filter(i => !movedIds.has(i.id)), assetsById, table)
+  for (const inst of moved){
+    const asset = assetsById.get(inst.assetId)
+    if (!asset) continue
+    const occupant = instanceOccupant(inst, asset, table)
+    if (!inBounds(instanceCells(inst, asset, table), table) || collides(occupant, occ, table)) return false
+    for (const cell of broadPhaseCells(occupant.box, table)) occupy(occ, cell, occupant)
+  }
+  return true
 }
 
 export function key(cell: Cell){ return `${cell.c},${cell.r}` }
@@ -0,0 +1,124 @@
+// src/core/pdf.ts
+// Minimal PDF 1.4 writer for vector pages: paths, fills, clipping, translucency and
+// text in the built-in Helvetica, with uncompressed content streams and no dependencies.
+// Coordinates are PDF points (1/72 in) from the page's bottom-left corner.
+
+export const PAPER_SIZES = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+} as const
+
+export type PaperSize = keyof typeof PAPER_SIZES
+
+export const MM_TO_PT = 72 / 25.4
+
+export type PdfPage = {
+  width: number
+  height: number
+  ops: string[]
+  alphas: Set<number>
+}
+
+// Helvetica averages about half an em per character; close enough to centre labels
+const HELVETICA_AVG_WIDTH = 0.55
+
+export function textWidth(text: string, size: number) {
+  return text.length * size * HELVETICA_AVG_WIDTH
+}
+
+export function createPage(width: number, height: number): PdfPage {
+  return { width, height, ops: [], alphas: new Set() }
+}
+
+export function num(v: number) {
+  return Number.isInteger(v) ? String(v) : v.toFixed(4).replace(/\.?0+$/, '')
+}
+
+/** '#rrggbb' → PDF colour operands (0–1 per channel). */
+function rgb(hex: string) {
+  const v = parseInt(hex.replace('#', ''), 16)
+  return [(v >> 16) & 255, (v >> 8) & 255, v & 255].map(c => num(c / 255)).join(' ')
+}
+
+export const pdf = {
+  save: (p: PdfPage) => p.ops.push('q'),
+  restore: (p: PdfPage) => p.ops.push('Q'),
+  transform: (p: PdfPage, a: number, b: number, c: number, d: number, e: number, f: number) =>
+    p.ops.push(`${[a, b, c, d, e, f].map(num).join(' ')} cm`),
+  fillColor: (p: PdfPage, hex: string) => p.ops.push(`${rgb(hex)} rg`),
+  strokeColor: (p: PdfPage, hex: string) => p.ops.push(`${rgb(hex)} RG`),
+  lineWidth: (p: PdfPage, w: number) => p.ops.push(`${num(w)} w`),
+  dash: (p: PdfPage, pattern: number[] = []) => p.ops.push(`[${pattern.map(num).join(' ')}] 0 d`),
+  /** Fill and stroke opacity for what follows; reset with 1. */
+  alpha: (p: PdfPage, a: number) => {
+    const key = Math.round(a * 100)
+    p.alphas.add(key)
+    p.ops.push(`/GS${key} gs`)
+  },
+  path: (p: PdfPage, points: Array<[number, number]>, close: boolean) => {
+    points.forEach(([x, y], i) => p.ops.push(`${num(x)} ${num(y)} ${i === 0 ? 'm' : 'l'}`))
+    if (close) p.ops.push('h')
+  },
+  rect: (p: PdfPage, x: number, y: number, w: number, h: number) => p.ops.push(`${[x, y, w, h].map(num).join(' ')} re`),
+  // paint operators for the current path
+  fill: (p: PdfPage) => p.ops.push('f'),
+  stroke: (p: PdfPage) => p.ops.push('S'),
+  fillStroke: (p: PdfPage) => p.ops.push('B'),
+  clip: (p: PdfPage) => p.ops.push('W n'),
+  /**
+   * Text with its baseline at (x, y). `flipY` is for pages drawn under a y-down transform,
+   * where glyphs would otherwise come out upside down.
+   */
+  text: (p: PdfPage, x: number, y: number, text: string, size: number, align: 'start' | 'middle' | 'end' = 'start', flipY = false) => {
+    const shift = align === 'middle' ? textWidth(text, size) / 2 : align === 'end' ? textWidth(text, size) : 0
+    p.ops.push(`BT /F1 ${num(size)} Tf 1 0 0 ${flipY ? -1 : 1} ${num(x - shift)} ${num(y)} Tm (${escapeText(text)}) Tj ET`)
+  },
+}
+
+// Helvetica uses WinAnsi here, which covers Latin-1; anything else prints as '?'
+function escapeText(text: string) {
+  return text
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/[\\()]/g, c => `\\${c}`)
+}
+
+/** Assemble pages into a PDF file. */
+export function buildPdf(pages: PdfPage[], title?: string): Uint8Array {
+  const objects: string[] = []
+  const add = (body: string) => objects.push(body)
+
+  // 1: catalog, 2: page tree, 3: font, 4: info; pages and their streams follow
+  const alphas = new Set<number>()
+  pages.forEach(p => p.alphas.forEach(a => alphas.add(a)))
+  const extGState = Array.from(alphas).map(a => `/GS${a} << /Type /ExtGState /ca ${num(a / 100)} /CA ${num(a / 100)} >>`).join(' ')
+  const pageIds = pages.map((_, i) => 5 + i * 2)
+
+  add('<< /Type /Catalog /Pages 2 0 R >>')
+  add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`)
+  add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  add(`<< /Producer (Terrain Builder)${title ? ` /Title (${escapeText(title)})` : ''} >>`)
+  pages.forEach((page, i) => {
+    const stream = page.ops.join('\n')
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] ` +
+      `/Resources << /Font << /F1 3 0 R >> /ExtGState << ${extGState} >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+    )
+    add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`)
+  })
+
+  // every character is below 256, so string offsets are byte offsets
+  let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n'
+  const offsets: number[] = []
+  objects.forEach((body, i) => {
+    offsets.push(out.length)
+    out += `${i + 1} 0 obj\n${body}\nendobj\n`
+  })
+  const xref = out.length
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+  out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 4 0 R >>\nstartxref\n${xref}\n%%EOF\n`
+
+  const bytes = new Uint8Array(out.length)
+  for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i)
+  return bytes
+}
@@ -0,0 +1,77 @@
+// src/core/polygon.ts
+// Convex polygons on the table plane (x, z in metres): piece footprints and scenario zones.
+
+export type Point2 = { x: number; z: number }
+
+/** Separating axis test; polygons that only touch don't overlap. */
+export function polygonsOverlap(a: Point2[], b: Point2[]) {
+  for (const poly of [a, b]) {
+    for (let i = 0; i < poly.length; i++) {
+      const p = poly[i], q = poly[(i + 1) % poly.length]
+      const nx = q.z - p.z, nz = p.x - q.x
+      const [aMin, aMax] = project(a, nx, nz)
+      const [bMin, bMax] = project(b, nx, nz)
+      if (aMax <= bMin || bMax <= aMin) return false
+    }
+  }
+  return true
+}
+
+/** Clear distance between two polygons (0 when they overlap or touch). */
+export function polygonGap(a: Point2[], b: Point2[]) {
+  if (polygonsOverlap(a, b)) return 0
+  let best = Infinity
+  for (const [poly, other] of [[a, b], [b, a]]) {
+    for (const p of poly) {
+      for (let i = 0; i < other.length; i++) {
+        best = Math.min(best, segmentDistance(p, other[i], other[(i + 1) % other.length]))
+      }
+    }
+  }
+  return best
+}
+
+/** Even-odd test; works for concave outlines too. */
+export function pointInPolygon(x: number, z: number, poly: Point2[]) {
+  let inside = false
+  for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+    const pi = poly[i], pj = poly[j]
+    if ((pi.z > z) !== (pj.z > z) && x < (pj.x - pi.x) * (z - pi.z) / (pj.z - pi.z) + pi.x) inside = !inside
+  }
+  return inside
+}
+
+/** Convex hull (counter-clockwise, monotone chain). */
+export function convexHull(points: Point2[]): Point2[] {
+  const sorted = [...points].sort((p, q) => p.x - q.x || p.z - q.z)
+  if (sorted.length < 3) return sorted
+  const cross = (o: Point2, p: Point2, q: Point2) => (p.x - o.x) * (q.z - o.z) - (p.z - o.z) * (q.x - o.x)
+  const half = (pts: Point2[]) => {
+    const out: Point2[] = []
+    for (const p of pts) {
+      while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 0) out.pop()
+      out.push(p)
+    }
+    out.pop()
+    return out
+  }
+  return [...half(sorted), ...half([...sorted].reverse())]
+}
+
+function project(poly: Point2[], nx: number, nz: number): [number, number] {
+  let min = Infinity, max = -Infinity
+  for (const v of poly) {
+    const d = v.x * nx + v.z * nz
+    if (d < min) min = d
+    if (d > max) max = d
+  }
+  return [min, max]
+}
+
+/** Distance from `p` to the segment from `a` to `b`. */
+export function segmentDistance(p: Point2, a: Point2, b: Point2) {
+  const dx = b.x - a.x, dz = b.z - a.z
+  const len2 = dx * dx + dz * dz
+  const t = len2 > 0 ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.z - a.z) * dz) / len2)) : 0
+  return Math.hypot(p.x - (a.x + t * dx), p.z - (a.z + t * dz))
+}
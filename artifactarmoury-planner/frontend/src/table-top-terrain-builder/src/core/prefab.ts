@@ -0,0 +1,45 @@
+// src/core/prefab.ts
+// Prefabs: a group of placed pieces stored relative to its own centre, so it can be
+// dropped anywhere on a table (and turned) as one unit.
+import type { AssetSetItem } from '@/api/types'
+import type { Instance } from '@state/store'
+import { groupPivot, transformGroup } from './selection'
+
+const round = (v: number, digits = 5) => Number(v.toFixed(digits))
+
+/**
+ * Items for a prefab made from `members`: offsets from the group's centroid, and
+ * elevations above the lowest base so stacked pieces keep their stacking.
+ */
+export function prefabFromInstances(members: Instance[]): AssetSetItem[] {
+  const pivot = groupPivot(members)
+  const floor = Math.min(...members.map(m => m.elevation ?? 0))
+  return members.map(m => ({
+    assetId: m.assetId,
+    x: round(m.position.x - pivot.x),
+    z: round(m.position.z - pivot.z),
+    rotationDeg: m.rotationDeg,
+    ...(m.rotationX ? { rotationX: m.rotationX } : {}),
+    ...(m.rotationZ ? { rotationZ: m.rotationZ } : {}),
+    ...((m.elevation ?? 0) > floor ? { elevation: round((m.elevation ?? 0) - floor) } : {}),
+    ...(m.swapXZ ? { swapXZ: true } : {}),
+  }))
+}
+
+/**
+ * The prefab's pieces with the group centred on `at` and turned by `rotationDeg`.
+ * Ids are placeholders for collision checks; the store assigns real ones on placement.
+ */
+export function placePrefab(items: AssetSetItem[], at: { x: number; z: number }, rotationDeg: number): Instance[] {
+  const members: Instance[] = items.map((item, i) => ({
+    id: `prefab_${i}`,
+    assetId: item.assetId,
+    position: { x: item.x, z: item.z },
+    rotationDeg: item.rotationDeg,
+    ...(item.rotationX ? { rotationX: item.rotationX } : {}),
+    ...(item.rotationZ ? { rotationZ: item.rotationZ } : {}),
+    ...(item.elevation ? { elevation: item.elevation } : {}),
+    ...(item.swapXZ ? { swapXZ: true } : {}),
+  }))
+  return transformGroup(members, { x: 0, z: 0 }, { dx: at.x, dz: at.z, deltaDeg: rotationDeg })
+}
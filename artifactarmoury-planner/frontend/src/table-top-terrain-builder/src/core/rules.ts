@@ -0,0 +1,290 @@
+// src/core/rules.ts
+// Layout rule checker: scores the placed pieces against a tournament-style rule set.
+// Rule sets are JSON (lengths in inches, as the guideline packs give them); the checks
+// work on asset boxes and occupancy masks, so they run without the 3D scene.
+import { z } from 'zod'
+import type { Asset } from '@core/assets'
+import type { Instance, Table } from '@state/store'
+import { instanceOccupant } from '@core/occupancy'
+import { footprintPolygon } from '@core/obb'
+import { polygonGap, polygonsOverlap, pointInPolygon, type Point2 } from '@core/polygon'
+import { zonePolygon } from '@core/scenario'
+import { isRuin } from '@core/generator'
+import { GROUND_TYPES, GroundTypeSchema, groundCoverage, groundInfo } from '@core/surface'
+import type { GroundType } from '@core/surface'
+import { onTable } from '@core/tableShape'
+
+const INCH = 0.0254
+// Raster cell for coverage and lanes (half an inch)
+const RASTER_CELL = INCH / 2
+// Pieces based higher than this are stacked on something and don't count on the ground (5 mm)
+const GROUND_EPSILON = 0.005
+// Pieces closer than this are touching and count as one feature (1 mm)
+const TOUCH_EPSILON = 0.001
+
+const label = z.string().optional()
+
+export const RuleSchema = z.discriminatedUnion('type', [
+  // share of the table covered by piece footprints
+  z.object({ type: z.literal('coverage'), label, minPercent: z.number().min(0).max(100).optional(), maxPercent: z.number().min(0).max(100).optional() }),
+  // longest straight lane along the table's X or Z axis that no piece of at least blockerHeight blocks
+  z.object({ type: z.literal('open-lane'), label, maxInches: z.number().positive(), blockerHeightInches: z.number().nonnegative().default(0) }),
+  // pieces either touch or leave at least this much room between them
+  z.object({ type: z.literal('min-gap'), label, inches: z.number().positive() }),
+  // nothing taller than this inside a deployment zone
+  z.object({ type: z.literal('zone-blockers'), label, maxHeightInches: z.number().nonnegative() }),
+  // 'ruin' and 'scatter' use the generator's split; anything else matches an asset tag
+  z.object({ type: z.literal('category-count'), label, category: z.string().min(1), min: z.number().int().nonnegative().optional(), max: z.number().int().nonnegative().optional() }),
+  // share of the table painted with a ground type; 'difficult' counts every difficult type (water)
+  z.object({ type: z.literal('ground-cover'), label, ground: z.union([GroundTypeSchema, z.literal('difficult')]), minPercent: z.number().min(0).max(100).optional(), maxPercent: z.number().min(0).max(100).optional() }),
+])
+
+export const RuleSetSchema = z.object({
+  name: z.string().min(1),
+  rules: z.array(RuleSchema).min(1),
+})
+
+export type Rule = z.infer<typeof RuleSchema>
+export type RuleSet = z.infer<typeof RuleSetSchema>
+
+export type RuleResult = {
+  rule: Rule
+  label: string
+  passed: boolean
+  detail: string
+  instanceIds: string[]            // pieces to highlight
+  lanes: Array<[Point2, Point2]>   // open lanes to draw (open-lane only)
+}
+
+export type RuleReport = {
+  ruleSet: string
+  score: number                    // percentage of rules passed
+  results: RuleResult[]
+}
+
+export const BUILT_IN_RULE_SETS: RuleSet[] = [
+  {
+    name: 'Tournament 6×4',
+    rules: [
+      { type: 'coverage', minPercent: 25, maxPercent: 50 },
+      { type: 'open-lane', maxInches: 24, blockerHeightInches: 3 },
+      { type: 'min-gap', inches: 2 },
+      { type: 'zone-blockers', maxHeightInches: 3 },
+      { type: 'category-count', category: 'ruin', min: 6 },
+    ],
+  },
+  {
+    name: 'Casual',
+    rules: [
+      { type: 'coverage', minPercent: 15, maxPercent: 60 },
+      { type: 'open-lane', maxInches: 36, blockerHeightInches: 2 },
+    ],
+  },
+]
+
+/** Parse a rule set from JSON text; throws with a readable message when it doesn't validate. */
+export function parseRuleSet(json: string): RuleSet {
+  const parsed = RuleSetSchema.safeParse(JSON.parse(json))
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    throw new Error(`Invalid rule set at ${issue.path.join('.') || 'root'}: ${issue.message}`)
+  }
+  return parsed.data
+}
+
+type Piece = { id: string; asset: Asset; top: number; ground: boolean; outlines: Point2[][] }
+
+export function checkLayout(
+  ruleSet: RuleSet,
+  instances: Instance[],
+  assetsById: Map<string, Asset>,
+  table: Table
+): RuleReport {
+  const pieces: Piece[] = []
+  for (const inst of instances) {
+    const asset = assetsById.get(inst.assetId)
+    if (!asset) continue
+    const occupant = instanceOccupant(inst, asset, table)
+    pieces.push({
+      id: inst.id,
+      asset,
+      top: occupant.span.top,
+      ground: occupant.span.bottom <= GROUND_EPSILON,
+      outlines: occupant.parts.map(footprintPolygon),
+    })
+  }
+  const results = ruleSet.rules.map(rule => checkRule(rule, pieces, table))
+  const passed = results.filter(r => r.passed).length
+  return { ruleSet: ruleSet.name, score: Math.round(100 * passed / results.length), results }
+}
+
+function checkRule(rule: Rule, pieces: Piece[], table: Table): RuleResult {
+  const result = (passed: boolean, detail: string, instanceIds: string[] = [], lanes: RuleResult['lanes'] = []) =>
+    ({ rule, label: rule.label ?? defaultLabel(rule), passed, detail, instanceIds, lanes })
+
+  switch (rule.type) {
+    case 'coverage': {
+      const raster = rasterise(pieces, table, 0)
+      const percent = raster.board ? 100 * raster.filled / raster.board : 0
+      const passed = percent >= (rule.minPercent ?? 0) && percent <= (rule.maxPercent ?? 100)
+      return result(passed, `${percent.toFixed(1)}% covered`)
+    }
+    case 'open-lane': {
+      const lane = longestLane(rasterise(pieces, table, rule.blockerHeightInches * INCH))
+      const length = Math.hypot(lane[1].x - lane[0].x, lane[1].z - lane[0].z)
+      const passed = length <= rule.maxInches * INCH
+      return result(passed, `longest lane ${inches(length)}`, [], passed ? [] : [lane])
+    }
+    case 'min-gap': {
+      const offenders = new Set<string>()
+      let worst = Infinity
+      const ground = pieces.filter(p => p.ground)
+      for (let i = 0; i < ground.length; i++) {
+        for (let j = i + 1; j < ground.length; j++) {
+          const gap = piecesGap(ground[i], ground[j])
+          if (gap > TOUCH_EPSILON && gap < rule.inches * INCH) {
+            offenders.add(ground[i].id)
+            offenders.add(ground[j].id)
+            worst = Math.min(worst, gap)
+          }
+        }
+      }
+      const detail = offenders.size ? `${offenders.size} pieces too close (tightest ${inches(worst)})` : 'all gaps clear'
+      return result(offenders.size === 0, detail, [...offenders])
+    }
+    case 'zone-blockers': {
+      const zones = (table.scenario?.zones ?? []).map(zone => zonePolygon(zone, table))
+      const offenders = pieces
+        .filter(p => p.top > rule.maxHeightInches * INCH)
+        .filter(p => zones.some(zone => p.outlines.some(o => polygonsOverlap(o, zone))))
+        .map(p => p.id)
+      const detail = zones.length === 0 ? 'no deployment zones' : offenders.length ? `${offenders.length} tall pieces in zones` : 'zones clear'
+      return result(offenders.length === 0, detail, offenders)
+    }
+    case 'category-count': {
+      const matching = pieces.filter(p => inCategory(p.asset, rule.category))
+      const passed = matching.length >= (rule.min ?? 0) && matching.length <= (rule.max ?? Infinity)
+      // too many: point at them; too few: nothing on the table to highlight
+      const ids = !passed && rule.max !== undefined && matching.length > rule.max ? matching.map(p => p.id) : []
+      return result(passed, `${matching.length} ${rule.category}`, ids)
+    }
+    case 'ground-cover': {
+      const coverage = groundCoverage(table.surface, table)
+      const share = GROUND_TYPES
+        .filter(g => (rule.ground === 'difficult' ? g.difficult : g.id === rule.ground))
+        .reduce((sum, g) => sum + (coverage.get(g.id) ?? 0), 0)
+      const percent = 100 * share
+      const passed = percent >= (rule.minPercent ?? 0) && percent <= (rule.maxPercent ?? 100)
+      return result(passed, `${percent.toFixed(1)}% ${groundName(rule.ground).toLowerCase()}`)
+    }
+  }
+}
+
+function groundName(ground: GroundType | 'difficult') {
+  return ground === 'difficult' ? 'Difficult ground' : groundInfo(ground).label
+}
+
+function defaultLabel(rule: Rule) {
+  const range = (min?: number, max?: number, unit = '') =>
+    min !== undefined && max !== undefined ? `${min}–${max}${unit}` : min !== undefined ? `≥ ${min}${unit}` : `≤ ${max}${unit}`
+  switch (rule.type) {
+    case 'coverage': return `Coverage ${range(rule.minPercent, rule.maxPercent, '%')}`
+    case 'open-lane': return `Open lanes ≤ ${rule.maxInches}"`
+    case 'min-gap': return `Gaps ≥ ${rule.inches}"`
+    case 'zone-blockers': return `Zone terrain ≤ ${rule.maxHeightInches}" tall`
+    case 'category-count': return `${rule.category} count ${range(rule.min, rule.max)}`
+    case 'ground-cover': return `${groundName(rule.ground)} ${range(rule.minPercent, rule.maxPercent, '%')}`
+  }
+}
+
+function inCategory(asset: Asset, category: string) {
+  const c = category.toLowerCase()
+  if (c === 'ruin') return isRuin(asset)
+  if (c === 'scatter') return !isRuin(asset)
+  return asset.tags.some(tag => tag.toLowerCase() === c)
+}
+
+function piecesGap(a: Piece, b: Piece) {
+  let best = Infinity
+  for (const p of a.outlines) for (const q of b.outlines) best = Math.min(best, polygonGap(p, q))
+  return best
+}
+
+function inches(metres: number) {
+  return `${(metres / INCH).toFixed(1)}"`
+}
+
+// Raster cells: free board, under a piece, or off a shaped table (blocks lanes, never counted)
+const FREE = 0, COVERED = 1, OFF_TABLE = 2
+
+type Raster = { cols: number; rows: number; cells: Uint8Array; filled: number; board: number; table: Table }
+
+// Half-inch cells whose centre lies under a ground piece at least `minHeight` tall
+function rasterise(pieces: Piece[], table: Table, minHeight: number): Raster {
+  const cols = Math.max(1, Math.round(table.width / RASTER_CELL))
+  const rows = Math.max(1, Math.round(table.height / RASTER_CELL))
+  const cw = table.width / cols, ch = table.height / rows
+  const cells = new Uint8Array(cols * rows)
+  let board = cols * rows
+  if (table.outline) {
+    for (let r = 0; r < rows; r++) {
+      const z = -table.height / 2 + (r + 0.5) * ch
+      for (let c = 0; c < cols; c++) {
+        if (onTable(table, -table.width / 2 + (c + 0.5) * cw, z)) continue
+        cells[r * cols + c] = OFF_TABLE
+        board--
+      }
+    }
+  }
+  let filled = 0
+  for (const piece of pieces) {
+    if (!piece.ground || piece.top < minHeight) continue
+    for (const outline of piece.outlines) {
+      const xs = outline.map(p => p.x), zs = outline.map(p => p.z)
+      const c0 = Math.max(0, Math.floor((Math.min(...xs) + table.width / 2) / cw))
+      const c1 = Math.min(cols - 1, Math.floor((Math.max(...xs) + table.width / 2) / cw))
+      const r0 = Math.max(0, Math.floor((Math.min(...zs) + table.height / 2) / ch))
+      const r1 = Math.min(rows - 1, Math.floor((Math.max(...zs) + table.height / 2) / ch))
+      for (let r = r0; r <= r1; r++) {
+        const z = -table.height / 2 + (r + 0.5) * ch
+        for (let c = c0; c <= c1; c++) {
+          const i = r * cols + c
+          if (cells[i] !== FREE || !pointInPolygon(-table.width / 2 + (c + 0.5) * cw, z, outline)) continue
+          cells[i] = COVERED
+          filled++
+        }
+      }
+    }
+  }
+  return { cols, rows, cells, filled, board, table }
+}
+
+// Longest run of free cells along any row or column; the table's edge ends a lane too, as world-space end points
+function longestLane({ cols, rows, cells, table }: Raster): [Point2, Point2] {
+  const cw = table.width / cols, ch = table.height / rows
+  let best = { length: 0, lane: [{ x: 0, z: 0 }, { x: 0, z: 0 }] as [Point2, Point2] }
+  const consider = (length: number, lane: () => [Point2, Point2]) => {
+    if (length > best.length) best = { length, lane: lane() }
+  }
+  for (let r = 0; r < rows; r++) {
+    const z = -table.height / 2 + (r + 0.5) * ch
+    let start = 0
+    for (let c = 0; c <= cols; c++) {
+      if (c < cols && cells[r * cols + c] === FREE) continue
+      const s = start
+      consider((c - s) * cw, () => [{ x: -table.width / 2 + s * cw, z }, { x: -table.width / 2 + c * cw, z }])
+      start = c + 1
+    }
+  }
+  for (let c = 0; c < cols; c++) {
+    const x = -table.width / 2 + (c + 0.5) * cw
+    let start = 0
+    for (let r = 0; r <= rows; r++) {
+      if (r < rows && cells[r * cols + c] === FREE) continue
+      const s = start
+      consider((r - s) * ch, () => [{ x, z: -table.height / 2 + s * ch }, { x, z: -table.height / 2 + r * ch }])
+      start = r + 1
+    }
+  }
+  return best.lane
+}
@@ -0,0 +1,47 @@
+// src/core/scale.ts
+// Model scale for a table. Library assets are sized for 28mm games; a table set to 15mm
+// shows every piece (its GLB, footprint, mask and connectors) shrunk to match, and the
+// print order carries the profile so the farm prints at that size too.
+import { z } from 'zod'
+import type { Asset } from '@core/assets'
+
+export const SCALE_PROFILES = [
+  { id: '6mm', label: '6mm (epic)', factor: 6 / 28 },
+  { id: '10mm', label: '10mm', factor: 10 / 28 },
+  { id: '15mm', label: '15mm', factor: 15 / 28 },
+  { id: '20mm', label: '20mm (1:72)', factor: 20 / 28 },
+  { id: '28mm', label: '28mm (heroic)', factor: 1 },
+  { id: '32mm', label: '32mm', factor: 32 / 28 },
+  { id: '54mm', label: '54mm', factor: 54 / 28 },
+] as const
+
+export type ScaleProfile = typeof SCALE_PROFILES[number]['id']
+export const ScaleProfileSchema = z.enum(['6mm', '10mm', '15mm', '20mm', '28mm', '32mm', '54mm'])
+
+// The scale library assets are modelled at; tables without a profile use it
+export const DEFAULT_SCALE: ScaleProfile = '28mm'
+
+export function scaleInfo(profile: ScaleProfile | undefined) {
+  return SCALE_PROFILES.find(p => p.id === (profile ?? DEFAULT_SCALE)) ?? SCALE_PROFILES.find(p => p.id === DEFAULT_SCALE)!
+}
+
+/**
+ * A copy of `asset` at `factor` times its modelled size. Always a new object: the stage
+ * caches per-load measurements on assets, and those belong to one size only.
+ */
+export function scaleAsset(asset: Asset, factor: number): Asset {
+  const { occupancy, connectors } = asset
+  return {
+    ...asset,
+    aabb: { x: asset.aabb.x * factor, y: asset.aabb.y * factor, z: asset.aabb.z * factor },
+    footprint: {
+      cols: Math.max(1, Math.round(asset.footprint.cols * factor)),
+      rows: Math.max(1, Math.round(asset.footprint.rows * factor)),
+    },
+    // bitmaps cover the aabb whatever its size; polygon points are in metres
+    occupancy: occupancy?.type === 'polygon'
+      ? { type: 'polygon', points: occupancy.points.map(([x, z]) => [x * factor, z * factor] as [number, number]) }
+      : occupancy,
+    connectors: connectors?.map(c => ({ ...c, x: c.x * factor, z: c.z * factor })),
+  }
+}
@@ -0,0 +1,181 @@
+// src/core/scenario.ts
+// Mission overlay for a table: deployment zones, objectives and no-man's-land lines.
+// Nothing here is printed or priced; it only guides where terrain goes.
+// Scenario coordinates are metres on the centre-origin board (x across, z down the table).
+import { z } from 'zod'
+
+const Vec2Schema = z.object({ x: z.number(), z: z.number() })
+
+export const DeploymentZoneSchema = z.discriminatedUnion('kind', [
+  z.object({ id: z.string(), kind: z.literal('rect'), side: z.number().int(), label: z.string().optional(), min: Vec2Schema, max: Vec2Schema }),
+  z.object({ id: z.string(), kind: z.literal('triangle'), side: z.number().int(), label: z.string().optional(), points: z.tuple([Vec2Schema, Vec2Schema, Vec2Schema]) }),
+  // everything within `depth` metres of one table edge
+  z.object({ id: z.string(), kind: z.literal('edge'), side: z.number().int(), label: z.string().optional(), edge: z.enum(['north', 'south', 'east', 'west']), depth: z.number().positive() }),
+])
+
+export const ObjectiveSchema = z.object({
+  id: z.string(),
+  position: Vec2Schema,
+  radius: z.number().nonnegative(), // control radius in metres
+  label: z.string().optional(),
+})
+
+export const NoMansLineSchema = z.object({
+  id: z.string(),
+  from: Vec2Schema,
+  to: Vec2Schema,
+})
+
+export const ScenarioSchema = z.object({
+  name: z.string().optional(),
+  zones: z.array(DeploymentZoneSchema).default([]),
+  objectives: z.array(ObjectiveSchema).default([]),
+  lines: z.array(NoMansLineSchema).default([]),
+})
+
+export type Vec2 = z.infer<typeof Vec2Schema>
+export type DeploymentZone = z.infer<typeof DeploymentZoneSchema>
+export type Objective = z.infer<typeof ObjectiveSchema>
+export type NoMansLine = z.infer<typeof NoMansLineSchema>
+export type Scenario = z.infer<typeof ScenarioSchema>
+export type TableEdge = Extract<DeploymentZone, { kind: 'edge' }>['edge']
+
+// Presets store positions as fractions of the board (-0.5..0.5 on each axis) so one
+// preset fits any table size; depths and radii stay in metres, as mission packs give them.
+export const ScenarioPresetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  builtIn: z.boolean().optional(),
+  scenario: ScenarioSchema,
+})
+export type ScenarioPreset = z.infer<typeof ScenarioPresetSchema>
+
+const INCH = 0.0254
+
+export const BUILT_IN_PRESETS: ScenarioPreset[] = [
+  {
+    id: 'long-edges',
+    name: 'Long-edge lines',
+    builtIn: true,
+    scenario: {
+      zones: [
+        { id: 'z1', kind: 'edge', side: 0, label: 'Attacker', edge: 'north', depth: 12 * INCH },
+        { id: 'z2', kind: 'edge', side: 1, label: 'Defender', edge: 'south', depth: 12 * INCH },
+      ],
+      objectives: [
+        { id: 'o1', position: { x: 0, z: 0 }, radius: 3 * INCH },
+        { id: 'o2', position: { x: -0.3, z: 0 }, radius: 3 * INCH },
+        { id: 'o3', position: { x: 0.3, z: 0 }, radius: 3 * INCH },
+      ],
+      lines: [{ id: 'l1', from: { x: -0.5, z: 0 }, to: { x: 0.5, z: 0 } }],
+    },
+  },
+  {
+    id: 'short-edges',
+    name: 'Short-edge lines',
+    builtIn: true,
+    scenario: {
+      zones: [
+        { id: 'z1', kind: 'edge', side: 0, label: 'Attacker', edge: 'west', depth: 18 * INCH },
+        { id: 'z2', kind: 'edge', side: 1, label: 'Defender', edge: 'east', depth: 18 * INCH },
+      ],
+      objectives: [
+        { id: 'o1', position: { x: 0, z: 0 }, radius: 3 * INCH },
+        { id: 'o2', position: { x: 0, z: -0.3 }, radius: 3 * INCH },
+        { id: 'o3', position: { x: 0, z: 0.3 }, radius: 3 * INCH },
+      ],
+      lines: [{ id: 'l1', from: { x: 0, z: -0.5 }, to: { x: 0, z: 0.5 } }],
+    },
+  },
+  {
+    id: 'diagonal',
+    name: 'Diagonal corners',
+    builtIn: true,
+    scenario: {
+      zones: [
+        { id: 'z1', kind: 'triangle', side: 0, label: 'Attacker', points: [{ x: -0.5, z: -0.5 }, { x: 0.1, z: -0.5 }, { x: -0.5, z: 0.3 }] },
+        { id: 'z2', kind: 'triangle', side: 1, label: 'Defender', points: [{ x: 0.5, z: 0.5 }, { x: -0.1, z: 0.5 }, { x: 0.5, z: -0.3 }] },
+      ],
+      objectives: [
+        { id: 'o1', position: { x: 0, z: 0 }, radius: 3 * INCH },
+        { id: 'o2', position: { x: -0.25, z: 0.25 }, radius: 3 * INCH },
+        { id: 'o3', position: { x: 0.25, z: -0.25 }, radius: 3 * INCH },
+      ],
+      lines: [{ id: 'l1', from: { x: -0.5, z: 0.5 }, to: { x: 0.5, z: -0.5 } }],
+    },
+  },
+  {
+    id: 'quarters',
+    name: 'Opposing quarters',
+    builtIn: true,
+    scenario: {
+      zones: [
+        { id: 'z1', kind: 'rect', side: 0, label: 'Attacker', min: { x: -0.5, z: -0.5 }, max: { x: -0.1, z: -0.1 } },
+        { id: 'z2', kind: 'rect', side: 1, label: 'Defender', min: { x: 0.1, z: 0.1 }, max: { x: 0.5, z: 0.5 } },
+      ],
+      objectives: [
+        { id: 'o1', position: { x: 0, z: 0 }, radius: 3 * INCH },
+        { id: 'o2', position: { x: -0.3, z: 0.3 }, radius: 3 * INCH },
+        { id: 'o3', position: { x: 0.3, z: -0.3 }, radius: 3 * INCH },
+      ],
+      lines: [
+        { id: 'l1', from: { x: -0.5, z: 0 }, to: { x: 0.5, z: 0 } },
+        { id: 'l2', from: { x: 0, z: -0.5 }, to: { x: 0, z: 0.5 } },
+      ],
+    },
+  },
+]
+
+type Board = { width: number; height: number }
+
+/** Preset (board fractions) → scenario in metres for this table. */
+export function presetToScenario(preset: ScenarioPreset, board: Board): Scenario {
+  const p = (v: Vec2) => ({ x: v.x * board.width, z: v.z * board.height })
+  return mapPositions({ ...preset.scenario, name: preset.name }, p)
+}
+
+/** Scenario in metres → board fractions, so a saved preset scales to other tables. */
+export function scenarioToPreset(scenario: Scenario, board: Board, name: string): ScenarioPreset {
+  const p = (v: Vec2) => ({ x: v.x / board.width, z: v.z / board.height })
+  return { id: `preset_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`, name, scenario: mapPositions(scenario, p) }
+}
+
+function mapPositions(s: Scenario, p: (v: Vec2) => Vec2): Scenario {
+  return {
+    name: s.name,
+    zones: s.zones.map(zone => {
+      if (zone.kind === 'rect') return { ...zone, min: p(zone.min), max: p(zone.max) }
+      if (zone.kind === 'triangle') return { ...zone, points: [p(zone.points[0]), p(zone.points[1]), p(zone.points[2])] }
+      return { ...zone }
+    }),
+    objectives: s.objectives.map(o => ({ ...o, position: p(o.position) })),
+    lines: s.lines.map(l => ({ ...l, from: p(l.from), to: p(l.to) })),
+  }
+}
+
+/** Outline of a zone on the board (metres), in winding order. */
+export function zonePolygon(zone: DeploymentZone, board: Board): Vec2[] {
+  const hw = board.width / 2, hh = board.height / 2
+  switch (zone.kind) {
+    case 'rect':
+      return [
+        { x: zone.min.x, z: zone.min.z }, { x: zone.max.x, z: zone.min.z },
+        { x: zone.max.x, z: zone.max.z }, { x: zone.min.x, z: zone.max.z },
+      ]
+    case 'triangle':
+      return [...zone.points]
+    case 'edge': {
+      const d = zone.depth
+      const [x0, z0, x1, z1] =
+        zone.edge === 'north' ? [-hw, -hh, hw, -hh + d] :
+        zone.edge === 'south' ? [-hw, hh - d, hw, hh] :
+        zone.edge === 'west' ? [-hw, -hh, -hw + d, hh] :
+        [hw - d, -hh, hw, hh]
+      return [{ x: x0, z: z0 }, { x: x1, z: z0 }, { x: x1, z: z1 }, { x: x0, z: z1 }]
+    }
+  }
+}
+
+export function emptyScenario(): Scenario {
+  return { zones: [], objectives: [], lines: [] }
+}
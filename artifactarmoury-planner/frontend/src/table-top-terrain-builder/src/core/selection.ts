@@ -0,0 +1,54 @@
+// src/core/selection.ts
+// Group transform helpers for multi-selection (shared pivot, rigid moves)
+
+export type GroupMember = {
+  id: string
+  position: { x: number; z: number }
+  rotationDeg: number
+}
+
+export type GroupTransform = {
+  dx: number
+  dz: number
+  deltaDeg: number
+}
+
+// Shared pivot = centroid of the members' positions on the XZ plane
+export function groupPivot(members: GroupMember[]){
+  if (members.length === 0) return { x: 0, z: 0 }
+  let x = 0, z = 0
+  for (const m of members){ x += m.position.x; z += m.position.z }
+  return { x: x / members.length, z: z / members.length }
+}
+
+// Rotate a point around the pivot using the same convention as Object3D.rotation.y
+export function rotateAboutPivot(p: {x:number;z:number}, pivot: {x:number;z:number}, deg: number){
+  const rad = deg * Math.PI / 180
+  const cos = Math.cos(rad), sin = Math.sin(rad)
+  const ox = p.x - pivot.x
+  const oz = p.z - pivot.z
+  return {
+    x: pivot.x + ox * cos + oz * sin,
+    z: pivot.z - ox * sin + oz * cos,
+  }
+}
+
+// Rotate every member around the pivot, then translate. Relative layout is preserved.
+export function transformGroup<T extends GroupMember>(
+  members: T[],
+  pivot: {x:number;z:number},
+  t: GroupTransform
+): T[] {
+  return members.map(m => {
+    const rotated = t.deltaDeg ? rotateAboutPivot(m.position, pivot, t.deltaDeg) : m.position
+    return {
+      ...m,
+      position: { x: rotated.x + t.dx, z: rotated.z + t.dz },
+      rotationDeg: normaliseDeg(m.rotationDeg + t.deltaDeg),
+    }
+  })
+}
+
+export function normaliseDeg(deg: number){
+  return ((Math.round(deg) % 360) + 360) % 360
+}
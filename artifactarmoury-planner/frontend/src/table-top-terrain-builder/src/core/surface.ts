@@ -0,0 +1,226 @@
+// src/core/surface.ts
+// Ground painted onto the table (grass, sand, urban, water) on a grid of square-ish cells
+// covering the board, row-major from -z to +z like occupancy bitmaps. Saved inside the
+// table as run-length text, so a mostly bare board costs a few characters.
+import { z } from 'zod'
+import { onTable } from '@core/tableShape'
+import type { TableOutline } from '@core/tableShape'
+
+export const GROUND_TYPES = [
+  { id: 'grass', label: 'Grass', code: 'g', color: '#5b8c3a', difficult: false },
+  { id: 'sand', label: 'Sand', code: 's', color: '#d2b77c', difficult: false },
+  { id: 'urban', label: 'Urban', code: 'u', color: '#85898f', difficult: false },
+  { id: 'water', label: 'Water', code: 'w', color: '#3a78b0', difficult: true },
+] as const
+
+export type GroundType = typeof GROUND_TYPES[number]['id']
+export const GroundTypeSchema = z.enum(['grass', 'sand', 'urban', 'water'])
+
+// Cell edges offered for painting (metres); finer cells paint finer edges but save larger
+export const SURFACE_CELL_SIZES = [0.0125, 0.025, 0.05, 0.1]
+export const DEFAULT_SURFACE_CELL = 0.025
+
+const BARE = '.'
+const RUNS = /(\d*)([.gsuw])/g
+
+export const SurfaceSchema = z.object({
+  cellSize: z.number().positive(),   // requested cell edge; cells are stretched to fit the table exactly
+  cols: z.number().int().positive(),
+  rows: z.number().int().positive(),
+  cells: z.string().regex(/^(\d*[.gsuw])*$/), // runs of "<count><code>", '.' = bare board
+})
+
+export type Surface = z.infer<typeof SurfaceSchema>
+
+// Shaped tables (see tableShape) keep the grid over their bounding box but only paint on the board
+type Board = { width: number; height: number; outline?: TableOutline }
+
+// Decoded cells: 0 = bare, otherwise 1 + index into GROUND_TYPES
+const decoded = new WeakMap<Surface, Uint8Array | null>()
+
+/** Cells of a surface, or null when the saved text doesn't fill its grid. */
+export function surfaceCells(surface: Surface): Uint8Array | null {
+  if (decoded.has(surface)) return decoded.get(surface)!
+  const total = surface.cols * surface.rows
+  let cells: Uint8Array | null = new Uint8Array(total)
+  let i = 0
+  for (const [, count, code] of surface.cells.matchAll(RUNS)) {
+    const n = count ? Number(count) : 1
+    if (i + n > total) { cells = null; break }
+    cells.fill(code === BARE ? 0 : GROUND_TYPES.findIndex(g => g.code === code) + 1, i, i + n)
+    i += n
+  }
+  if (cells && i !== total) cells = null
+  decoded.set(surface, cells)
+  return cells
+}
+
+/** A surface from decoded cells; undefined once nothing is painted. */
+export function encodeSurface(cellSize: number, cols: number, rows: number, cells: Uint8Array): Surface | undefined {
+  if (cells.every(c => c === 0)) return undefined
+  let text = ''
+  for (let i = 0; i < cells.length;) {
+    let j = i
+    while (j < cells.length && cells[j] === cells[i]) j++
+    const code = cells[i] === 0 ? BARE : GROUND_TYPES[cells[i] - 1].code
+    text += (j - i > 1 ? String(j - i) : '') + code
+    i = j
+  }
+  const surface = { cellSize, cols, rows, cells: text }
+  decoded.set(surface, cells)
+  return surface
+}
+
+export function surfaceGrid(board: Board, cellSize: number) {
+  return {
+    cols: Math.max(1, Math.round(board.width / cellSize)),
+    rows: Math.max(1, Math.round(board.height / cellSize)),
+  }
+}
+
+export function groundInfo(ground: GroundType) {
+  return GROUND_TYPES.find(g => g.id === ground)!
+}
+
+function cellIndexAt(surface: Surface, board: Board, x: number, z: number) {
+  const c = Math.floor((x + board.width / 2) / (board.width / surface.cols))
+  const r = Math.floor((z + board.height / 2) / (board.height / surface.rows))
+  if (c < 0 || r < 0 || c >= surface.cols || r >= surface.rows) return -1
+  return r * surface.cols + c
+}
+
+export function groundAt(surface: Surface | undefined, board: Board, x: number, z: number): GroundType | null {
+  const cells = surface && surfaceCells(surface)
+  if (!cells) return null
+  const i = cellIndexAt(surface, board, x, z)
+  return i < 0 || cells[i] === 0 ? null : GROUND_TYPES[cells[i] - 1].id
+}
+
+/**
+ * The same paint on a new grid: after the table is resized or the resolution changes,
+ * each new cell takes whatever was under its centre.
+ */
+export function resampleSurface(surface: Surface | undefined, from: Board, to: Board, cellSize: number): Surface | undefined {
+  const cells = surface && surfaceCells(surface)
+  if (!cells) return undefined
+  const { cols, rows } = surfaceGrid(to, cellSize)
+  if (cellSize === surface.cellSize && cols === surface.cols && rows === surface.rows &&
+      from.width === to.width && from.height === to.height) return surface
+  const next = new Uint8Array(cols * rows)
+  const cw = to.width / cols, ch = to.height / rows
+  for (let r = 0; r < rows; r++) {
+    const z = -to.height / 2 + (r + 0.5) * ch
+    for (let c = 0; c < cols; c++) {
+      const i = cellIndexAt(surface, from, -to.width / 2 + (c + 0.5) * cw, z)
+      if (i >= 0) next[r * cols + c] = cells[i]
+    }
+  }
+  return encodeSurface(cellSize, cols, rows, next)
+}
+
+/**
+ * Paint (or erase, with null) every cell whose centre is within `radius` of any of
+ * `points`. Strokes pass consecutive pointer positions; gaps between them are filled in.
+ */
+export function paintSurface(
+  surface: Surface | undefined,
+  board: Board,
+  points: Array<{ x: number; z: number }>,
+  radius: number,
+  ground: GroundType | null,
+  cellSize = surface?.cellSize ?? DEFAULT_SURFACE_CELL
+): Surface | undefined {
+  const fitted = resampleSurface(surface, board, board, cellSize)
+  const { cols, rows } = surfaceGrid(board, cellSize)
+  const cells = fitted ? new Uint8Array(surfaceCells(fitted)!) : new Uint8Array(cols * rows)
+  const value = ground ? GROUND_TYPES.findIndex(g => g.id === ground) + 1 : 0
+  const cw = board.width / cols, ch = board.height / rows
+
+  const dab = (x: number, z: number) => {
+    const c0 = Math.max(0, Math.floor((x - radius + board.width / 2) / cw))
+    const c1 = Math.min(cols - 1, Math.floor((x + radius + board.width / 2) / cw))
+    const r0 = Math.max(0, Math.floor((z - radius + board.height / 2) / ch))
+    const r1 = Math.min(rows - 1, Math.floor((z + radius + board.height / 2) / ch))
+    for (let r = r0; r <= r1; r++) {
+      const dz = -board.height / 2 + (r + 0.5) * ch - z
+      for (let c = c0; c <= c1; c++) {
+        const dx = -board.width / 2 + (c + 0.5) * cw - x
+        if (dx * dx + dz * dz > radius * radius) continue
+        if (board.outline && !onTable(board, x + dx, z + dz)) continue
+        cells[r * cols + c] = value
+      }
+    }
+  }
+
+  const step = Math.max(Math.min(cw, ch), radius / 2)
+  points.forEach((p, i) => {
+    const prev = points[i - 1]
+    if (prev) {
+      const n = Math.ceil(Math.hypot(p.x - prev.x, p.z - prev.z) / step)
+      for (let k = 1; k < n; k++) dab(prev.x + (p.x - prev.x) * k / n, prev.z + (p.z - prev.z) * k / n)
+    }
+    dab(p.x, p.z)
+  })
+  return encodeSurface(cellSize, cols, rows, cells)
+}
+
+/** Share of the board (0–1) painted with each ground type; for a shaped board, of the cells on it. */
+export function groundCoverage(surface: Surface | undefined, board?: Board): Map<GroundType, number> {
+  const coverage = new Map<GroundType, number>()
+  const cells = surface && surfaceCells(surface)
+  if (!cells) return coverage
+  const counts = new Array(GROUND_TYPES.length + 1).fill(0)
+  let total = 0
+  cells.forEach((c, i) => {
+    if (board?.outline) {
+      const x = -board.width / 2 + (i % surface.cols + 0.5) * board.width / surface.cols
+      const z = -board.height / 2 + (Math.floor(i / surface.cols) + 0.5) * board.height / surface.rows
+      if (!onTable(board, x, z)) return
+    }
+    counts[c]++
+    total++
+  })
+  GROUND_TYPES.forEach((g, i) => {
+    if (counts[i + 1] > 0) coverage.set(g.id, counts[i + 1] / total)
+  })
+  return coverage
+}
+
+export type GroundRect = { ground: GroundType; x0: number; z0: number; x1: number; z1: number }
+
+/** Painted areas as a few rectangles in table metres: runs per row, grown down while the next row repeats them. */
+export function surfaceRects(surface: Surface | undefined, board: Board): GroundRect[] {
+  const cells = surface && surfaceCells(surface)
+  if (!cells) return []
+  const cw = board.width / surface.cols, ch = board.height / surface.rows
+  const rects: GroundRect[] = []
+  let open = new Map<string, GroundRect>()
+  for (let r = 0; r < surface.rows; r++) {
+    const next = new Map<string, GroundRect>()
+    for (let c = 0; c < surface.cols;) {
+      const value = cells[r * surface.cols + c]
+      const start = c
+      while (c < surface.cols && cells[r * surface.cols + c] === value) c++
+      if (value === 0) continue
+      const key = `${start}:${c}:${value}`
+      const z1 = -board.height / 2 + (r + 1) * ch
+      const prev = open.get(key)
+      if (prev) {
+        prev.z1 = z1
+        next.set(key, prev)
+      } else {
+        const rect = {
+          ground: GROUND_TYPES[value - 1].id,
+          x0: -board.width / 2 + start * cw,
+          x1: -board.width / 2 + c * cw,
+          z0: -board.height / 2 + r * ch,
+          z1,
+        }
+        rects.push(rect)
+        next.set(key, rect)
+      }
+    }
+    open = next
+  }
+  return rects
+}
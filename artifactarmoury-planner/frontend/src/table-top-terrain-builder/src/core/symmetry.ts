@@ -0,0 +1,42 @@
+// src/core/symmetry.ts
+// Symmetric placement: every piece gets a linked twin mirrored about the table centre.
+// 'mirror-x' reflects across the X axis (z → -z), 'mirror-z' across the Z axis (x → -x),
+// 'point' turns the piece 180° about the centre. Positions are centre-origin metres.
+import type { Instance } from '@state/store'
+
+export type SymmetryMode = 'off' | 'mirror-x' | 'mirror-z' | 'point'
+export type TwinLink = { id: string; mode: Exclude<SymmetryMode, 'off'> }
+
+// Twins closer than this to their source sit on the axis and are not placed (1 mm)
+const ON_AXIS_EPSILON = 0.001
+
+type Transform = Pick<Instance, 'position' | 'rotationDeg' | 'rotationX' | 'rotationZ' | 'elevation' | 'swapXZ'>
+
+/**
+ * Where the twin of `inst` goes. The same asset is reused, so a reflection becomes the
+ * nearest rotation: a mirror negates the angles about the two axes lying in its plane,
+ * and point symmetry is a 180° turn about Y (which also negates the tip about X).
+ */
+export function twinTransform(inst: Transform, mode: TwinLink['mode']): Transform {
+  const { x, z } = inst.position
+  const rx = inst.rotationX ?? 0, ry = inst.rotationDeg, rz = inst.rotationZ ?? 0
+  const base = { elevation: inst.elevation, swapXZ: inst.swapXZ }
+  switch (mode) {
+    case 'mirror-x':
+      return { ...base, position: { x, z: -z }, rotationDeg: normalise(-ry), rotationX: -rx || undefined, rotationZ: inst.rotationZ }
+    case 'mirror-z':
+      return { ...base, position: { x: -x, z }, rotationDeg: normalise(-ry), rotationX: inst.rotationX, rotationZ: -rz || undefined }
+    case 'point':
+      return { ...base, position: { x: -x, z: -z }, rotationDeg: normalise(ry + 180), rotationX: -rx || undefined, rotationZ: inst.rotationZ }
+  }
+}
+
+/** True when the twin would land on its source (the piece straddles the axis or centre). */
+export function isOnAxis(inst: Pick<Instance, 'position'>, mode: TwinLink['mode']) {
+  const t = twinTransform({ ...inst, rotationDeg: 0 }, mode).position
+  return Math.hypot(t.x - inst.position.x, t.z - inst.position.z) < ON_AXIS_EPSILON
+}
+
+function normalise(deg: number) {
+  return ((deg % 360) + 360) % 360
+}
@@ -0,0 +1,39 @@
+// src/core/tablePresets.ts
+// Standard table sizes for common game systems, so a new table is one click instead of
+// typing the same dimensions every time. Sizes are width (across) × depth in the unit
+// players quote them in; the grid is the spacing people usually mark out for that game.
+import type { Unit } from '@core/units'
+import { toMetres } from '@core/units'
+import type { ScaleProfile } from '@core/scale'
+
+export type TablePreset = {
+  id: string
+  name: string
+  unit: Unit
+  width: number      // in `unit`
+  depth: number
+  grid: number
+  scale: ScaleProfile
+}
+
+export const TABLE_PRESETS: TablePreset[] = [
+  { id: 'strike-force', name: 'Warhammer 40,000 Strike Force (44"×60")', unit: 'in', width: 60, depth: 44, grid: 1, scale: '28mm' },
+  { id: 'incursion', name: 'Warhammer 40,000 Incursion (44"×30")', unit: 'in', width: 44, depth: 30, grid: 1, scale: '28mm' },
+  { id: 'kill-team', name: 'Kill Team (22"×30")', unit: 'in', width: 30, depth: 22, grid: 1, scale: '28mm' },
+  { id: 'six-by-four', name: 'Standard 6\'×4\' (48"×72")', unit: 'in', width: 72, depth: 48, grid: 6, scale: '28mm' },
+  { id: 'skirmish-3x3', name: 'Skirmish 3\'×3\'', unit: 'in', width: 36, depth: 36, grid: 1, scale: '28mm' },
+  { id: 'flames-of-war', name: 'Flames of War (48"×72", 15mm)', unit: 'in', width: 72, depth: 48, grid: 6, scale: '15mm' },
+  { id: 'epic', name: 'Epic / 6mm (48"×72")', unit: 'in', width: 72, depth: 48, grid: 6, scale: '6mm' },
+  { id: 'metric-120x90', name: 'Metric 120×90 cm', unit: 'cm', width: 120, depth: 90, grid: 10, scale: '28mm' },
+]
+
+/** The table settings a preset stands for, in metres. */
+export function presetTable(preset: TablePreset) {
+  return {
+    width: toMetres(preset.width, preset.unit),
+    height: toMetres(preset.depth, preset.unit),
+    gridSize: toMetres(preset.grid, preset.unit),
+    unitDisplay: preset.unit,
+    scale: preset.scale,
+  }
+}
@@ -0,0 +1,172 @@
+// src/core/tableShape.ts
+// Tables that aren't one rectangle: L-shaped shop tables, round skirmish boards, or
+// several boards pushed together. The outline sits inside the table's width × height
+// (its bounding box, which still sizes the grid and painted surface) in metres on the
+// centre-origin board. Without an outline the whole rectangle is the table.
+import { z } from 'zod'
+import { pointInPolygon, segmentDistance } from '@core/polygon'
+import type { Point2 } from '@core/polygon'
+
+const PointSchema = z.object({ x: z.number(), z: z.number() })
+
+// One board, by its centre and size
+const BoardSchema = z.object({
+  x: z.number(),
+  z: z.number(),
+  width: z.number().positive(),
+  depth: z.number().positive(),
+})
+
+export const TableOutlineSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('polygon'), points: z.array(PointSchema).min(3) }),
+  z.object({ kind: z.literal('boards'), boards: z.array(BoardSchema).min(1) }),
+])
+
+export type Board = z.infer<typeof BoardSchema>
+export type TableOutline = z.infer<typeof TableOutlineSchema>
+
+type Shaped = { width: number; height: number; outline?: TableOutline }
+
+// Points this close to an edge (metres) are on the table, like the rectangle's own edges
+const EDGE_EPSILON = 1e-6
+
+function boardPolygon(b: Board): Point2[] {
+  const hw = b.width / 2, hd = b.depth / 2
+  return [
+    { x: b.x - hw, z: b.z - hd },
+    { x: b.x + hw, z: b.z - hd },
+    { x: b.x + hw, z: b.z + hd },
+    { x: b.x - hw, z: b.z + hd },
+  ]
+}
+
+function outlinePolygons(outline: TableOutline): Point2[][] {
+  return outline.kind === 'boards' ? outline.boards.map(boardPolygon) : [outline.points]
+}
+
+/** The table as polygons: one per board, or the outline, or the plain rectangle. */
+export function tablePolygons(table: Shaped): Point2[][] {
+  if (!table.outline) return [boardPolygon({ x: 0, z: 0, width: table.width, depth: table.height })]
+  return outlinePolygons(table.outline)
+}
+
+export function outlineBounds(outline: TableOutline) {
+  const points = outline.kind === 'boards' ? outline.boards.flatMap(boardPolygon) : outline.points
+  const xs = points.map(p => p.x), zs = points.map(p => p.z)
+  return { minX: Math.min(...xs), maxX: Math.max(...xs), minZ: Math.min(...zs), maxZ: Math.max(...zs) }
+}
+
+/** An outline moved so its bounding box is centred on the origin, with that box's size. */
+export function centreOutline(outline: TableOutline): { outline: TableOutline; width: number; height: number } {
+  const { minX, maxX, minZ, maxZ } = outlineBounds(outline)
+  const dx = (minX + maxX) / 2, dz = (minZ + maxZ) / 2
+  const centred: TableOutline = outline.kind === 'boards'
+    ? { kind: 'boards', boards: outline.boards.map(b => ({ ...b, x: b.x - dx, z: b.z - dz })) }
+    : { kind: 'polygon', points: outline.points.map(p => ({ x: p.x - dx, z: p.z - dz })) }
+  return { outline: centred, width: maxX - minX, height: maxZ - minZ }
+}
+
+/**
+ * An outline stretched by `sx` across and `sz` down the table: following a resize, or
+ * converting between metres and the server's millimetres.
+ */
+export function scaleOutline(outline: TableOutline, sx: number, sz = sx): TableOutline {
+  return outline.kind === 'boards'
+    ? { kind: 'boards', boards: outline.boards.map(b => ({ x: b.x * sx, z: b.z * sz, width: b.width * sx, depth: b.depth * sz })) }
+    : { kind: 'polygon', points: outline.points.map(p => ({ x: p.x * sx, z: p.z * sz })) }
+}
+
+/** True when (x, z) is on the table; edges count. */
+export function onTable(table: Shaped, x: number, z: number) {
+  if (!table.outline) {
+    return Math.abs(x) <= table.width / 2 + EDGE_EPSILON && Math.abs(z) <= table.height / 2 + EDGE_EPSILON
+  }
+  return tablePolygons(table).some(poly => {
+    if (pointInPolygon(x, z, poly)) return true
+    for (let i = 0; i < poly.length; i++) {
+      if (segmentDistance({ x, z }, poly[i], poly[(i + 1) % poly.length]) <= EDGE_EPSILON) return true
+    }
+    return false
+  })
+}
+
+/**
+ * Where a straight line across the table is on it: the line z = `at` when `along` is 'x',
+ * or x = `at` when it is 'z'. Returns merged [from, to] intervals along the line.
+ */
+export function tableSpans(table: Shaped, along: 'x' | 'z', at: number): Array<[number, number]> {
+  const spans: Array<[number, number]> = []
+  for (const poly of tablePolygons(table)) {
+    const crossings: number[] = []
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+      const a = along === 'x' ? poly[i] : { x: poly[i].z, z: poly[i].x }
+      const b = along === 'x' ? poly[j] : { x: poly[j].z, z: poly[j].x }
+      if ((a.z > at) !== (b.z > at)) crossings.push(a.x + (at - a.z) * (b.x - a.x) / (b.z - a.z))
+    }
+    crossings.sort((p, q) => p - q)
+    for (let i = 0; i + 1 < crossings.length; i += 2) spans.push([crossings[i], crossings[i + 1]])
+  }
+  spans.sort((p, q) => p[0] - q[0])
+  const merged: Array<[number, number]> = []
+  for (const span of spans) {
+    const last = merged[merged.length - 1]
+    if (last && span[0] <= last[1] + EDGE_EPSILON) last[1] = Math.max(last[1], span[1])
+    else merged.push([...span])
+  }
+  return merged
+}
+
+/** Area inside an outline; overlapping boards are counted once per board. */
+export function outlineArea(outline: TableOutline) {
+  return outlinePolygons(outline).reduce((sum, poly) => {
+    let twice = 0
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) twice += poly[j].x * poly[i].z - poly[i].x * poly[j].z
+    return sum + Math.abs(twice) / 2
+  }, 0)
+}
+
+// Preset shapes. Each is centred on its bounding box, ready for centreOutline's width/height.
+
+/** A width × height table with the back-right corner (cutWidth × cutDepth) missing. */
+export function lShapeOutline(width: number, height: number, cutWidth: number, cutDepth: number): TableOutline {
+  const hw = width / 2, hh = height / 2
+  return {
+    kind: 'polygon',
+    points: [
+      { x: -hw, z: -hh },
+      { x: hw - cutWidth, z: -hh },
+      { x: hw - cutWidth, z: -hh + cutDepth },
+      { x: hw, z: -hh + cutDepth },
+      { x: hw, z: hh },
+      { x: -hw, z: hh },
+    ],
+  }
+}
+
+/** A round board, as a polygon fine enough that the flats don't show. */
+export function roundOutline(diameter: number, segments = 64): TableOutline {
+  const r = diameter / 2
+  return {
+    kind: 'polygon',
+    points: Array.from({ length: segments }, (_, i) => {
+      const a = i / segments * Math.PI * 2
+      return { x: r * Math.cos(a), z: r * Math.sin(a) }
+    }),
+  }
+}
+
+/** cols × rows boards of one size pushed edge to edge. */
+export function boardsOutline(cols: number, rows: number, boardWidth: number, boardDepth: number): TableOutline {
+  const boards: Board[] = []
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      boards.push({
+        x: (c - (cols - 1) / 2) * boardWidth,
+        z: (r - (rows - 1) / 2) * boardDepth,
+        width: boardWidth,
+        depth: boardDepth,
+      })
+    }
+  }
+  return { kind: 'boards', boards }
+}
@@ -0,0 +1,252 @@
+// src/core/tts.ts
+// Tabletop Simulator saved-object JSON: each placed piece becomes a locked Custom_Model
+// pointing at an OBJ of its model (TTS can't load GLB), and TTS saves are matched back
+// to library assets.
+// TTS is Unity, so it is left-handed with one unit to the inch: positions flip Z and
+// rotations are re-expressed in Unity's Z-X-Y order.
+import * as THREE from 'three'
+import type { Asset } from '@core/assets'
+import { scaleInfo } from '@core/scale'
+import type { Instance, Table } from '@state/store'
+
+const INCH = 0.0254
+// Height of the default TTS table surface; pieces are placed relative to it
+const TTS_TABLE_Y = 1
+const GM_NOTES_KEY = 'terrainBuilder'
+
+type TTSTransform = {
+  posX: number; posY: number; posZ: number
+  rotX: number; rotY: number; rotZ: number
+  scaleX: number; scaleY: number; scaleZ: number
+}
+
+export type TTSObjectState = {
+  GUID?: string
+  Name: string
+  Nickname?: string
+  Description?: string
+  GMNotes?: string
+  Transform?: Partial<TTSTransform>
+  Locked?: boolean
+  ColorDiffuse?: { r: number; g: number; b: number }
+  CustomMesh?: {
+    MeshURL: string
+    DiffuseURL?: string
+    NormalURL?: string
+    ColliderURL?: string
+    Convex?: boolean
+    MaterialIndex?: number
+    TypeIndex?: number
+    CastShadows?: boolean
+  }
+  ContainedObjects?: TTSObjectState[]
+}
+
+export type TTSSave = {
+  SaveName: string
+  GameMode?: string
+  Date?: string
+  Table?: string
+  Note?: string
+  ObjectStates: TTSObjectState[]
+}
+
+export type TTSUnresolved = { name: string; meshUrl: string | null; reason: string }
+
+export type TTSImportResult = {
+  instances: Instance[]
+  unresolved: TTSUnresolved[]
+}
+
+// Left-handed mirror: Z flips, which turns rotations about X and Y around
+const MIRROR = new THREE.Matrix4().makeScale(1, 1, -1)
+
+function mirrorRotation(euler: THREE.Euler, toOrder: THREE.EulerOrder) {
+  const m = MIRROR.clone().multiply(new THREE.Matrix4().makeRotationFromEuler(euler)).multiply(MIRROR)
+  return new THREE.Euler().setFromRotationMatrix(m, toOrder)
+}
+
+const deg = THREE.MathUtils.radToDeg
+const rad = THREE.MathUtils.degToRad
+const round = (v: number, digits = 4) => Number(v.toFixed(digits))
+const wrapDeg = (v: number) => round(((v % 360) + 360) % 360) % 360
+
+function guid(seed: string) {
+  // TTS wants six hex digits; derive them from the instance id so re-exports are stable
+  let h = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) h = Math.imul(h ^ seed.charCodeAt(i), 0x01000193)
+  return ((h >>> 0) & 0xffffff).toString(16).padStart(6, '0')
+}
+
+function absoluteUrl(url: string, baseUrl: string) {
+  try {
+    return new URL(url, baseUrl).href
+  } catch {
+    return url
+  }
+}
+
+// The backend converts each published model to OBJ in inches at its modelled size,
+// centred with its base on the origin, which is where TTS places a mesh
+function meshUrl(modelId: string, baseUrl: string) {
+  return absoluteUrl(`/api/models/${encodeURIComponent(modelId)}/tts.obj`, baseUrl)
+}
+
+/**
+ * Saved-object JSON for the layout. The OBJ is already in TTS units at the library
+ * size (the catalogue `aabb`), so each piece is scaled by the table's scale profile,
+ * which is what sized `asset.aabb` for this table. Assets that aren't library models
+ * have no OBJ; they are skipped and listed in the save's note.
+ */
+export function layoutToTTS(
+  instances: Instance[],
+  assetsById: Map<string, Asset>,
+  table: Table,
+  options: { baseUrl: string; saveName?: string }
+): TTSSave {
+  const skipped = new Set<string>()
+  const objects: TTSObjectState[] = []
+  const scale = round(scaleInfo(table.scale).factor, 6)
+
+  for (const inst of instances) {
+    const asset = assetsById.get(inst.assetId)
+    if (!asset?.sourceModelId) {
+      skipped.add(asset?.name ?? inst.assetId)
+      continue
+    }
+    const rotation = mirrorRotation(
+      new THREE.Euler(rad(inst.rotationX ?? 0), rad(inst.rotationDeg), rad(inst.rotationZ ?? 0), 'XYZ'),
+      'YXZ' // Unity applies Z, then X, then Y
+    )
+
+    objects.push({
+      GUID: guid(inst.id),
+      Name: 'Custom_Model',
+      Nickname: asset.name,
+      Description: asset.artistName ? `by ${asset.artistName}` : '',
+      GMNotes: JSON.stringify({ [GM_NOTES_KEY]: { assetId: asset.id, instanceId: inst.id, swapXZ: Boolean(inst.swapXZ) } }),
+      Locked: true,
+      Transform: {
+        posX: round(inst.position.x / INCH),
+        posY: round(TTS_TABLE_Y + (inst.elevation ?? 0) / INCH),
+        posZ: round(-inst.position.z / INCH),
+        rotX: wrapDeg(deg(rotation.x)),
+        rotY: wrapDeg(deg(rotation.y)),
+        rotZ: wrapDeg(deg(rotation.z)),
+        scaleX: scale,
+        scaleY: scale,
+        scaleZ: scale,
+      },
+      ColorDiffuse: { r: 1, g: 1, b: 1 },
+      CustomMesh: {
+        MeshURL: meshUrl(asset.sourceModelId, options.baseUrl),
+        DiffuseURL: '',
+        NormalURL: '',
+        ColliderURL: '',
+        Convex: true,
+        MaterialIndex: 0,
+        TypeIndex: 0, // generic
+        CastShadows: true,
+      },
+    })
+  }
+
+  const widthIn = round(table.width / INCH, 1)
+  const heightIn = round(table.height / INCH, 1)
+  return {
+    SaveName: options.saveName ?? 'Terrain layout',
+    GameMode: '',
+    Date: new Date().toLocaleString(),
+    Table: '',
+    Note: [
+      `Terrain layout for a ${widthIn}" × ${heightIn}" table, centred on the TTS origin.`,
+      skipped.size > 0 ? `Not exported (not a library model): ${Array.from(skipped).join(', ')}` : '',
+    ].filter(Boolean).join('\n'),
+    ObjectStates: objects,
+  }
+}
+
+export function isTTSSave(data: unknown): data is TTSSave {
+  return typeof data === 'object' && data !== null && Array.isArray((data as TTSSave).ObjectStates)
+}
+
+// Compare URLs by path so the same upload matches across hosts and query strings
+function urlKey(url: string) {
+  try {
+    return decodeURIComponent(new URL(url, 'http://local').pathname).toLowerCase()
+  } catch {
+    return url.toLowerCase()
+  }
+}
+
+function builderNotes(gmNotes?: string): { assetId?: string; swapXZ?: boolean } | null {
+  if (!gmNotes) return null
+  try {
+    return JSON.parse(gmNotes)?.[GM_NOTES_KEY] ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Turn a TTS save back into instances. Objects are matched to assets by the id we wrote
+ * into GMNotes, then by mesh URL, then by nickname; anything else (including non-model
+ * objects like dice and decks) is reported rather than dropped silently. Bags and decks
+ * aren't opened: what's inside isn't on the table.
+ */
+export function ttsToLayout(save: TTSSave, assets: Asset[]): TTSImportResult {
+  const byId = new Map(assets.map(a => [a.id, a]))
+  const byUrl = new Map(assets.filter(a => a.model).map(a => [urlKey(a.model!), a]))
+  // our own exports point at the OBJ route rather than the GLB
+  for (const a of assets) {
+    if (a.sourceModelId) byUrl.set(urlKey(meshUrl(a.sourceModelId, 'http://local')), a)
+  }
+  const byName = new Map(assets.map(a => [a.name.trim().toLowerCase(), a]))
+  const instances: Instance[] = []
+  const unresolved: TTSUnresolved[] = []
+
+  const visit = (obj: TTSObjectState) => {
+    const name = obj.Nickname || obj.Name
+    const meshUrl = obj.CustomMesh?.MeshURL || null
+    if (obj.ContainedObjects?.length) {
+      unresolved.push({ name, meshUrl, reason: `Container of ${obj.ContainedObjects.length} objects, not unpacked` })
+      return
+    }
+    if (!obj.Transform) {
+      unresolved.push({ name, meshUrl, reason: 'No position' })
+      return
+    }
+    const notes = builderNotes(obj.GMNotes)
+    const asset =
+      (notes?.assetId ? byId.get(notes.assetId) : undefined) ??
+      (meshUrl ? byUrl.get(urlKey(meshUrl)) : undefined) ??
+      byName.get(name.trim().toLowerCase())
+    if (!asset) {
+      unresolved.push({ name, meshUrl, reason: meshUrl ? 'No library asset with this mesh or name' : 'Not a custom model' })
+      return
+    }
+
+    const t = obj.Transform
+    const tilted = wrapDeg(t.rotX ?? 0) !== 0 || wrapDeg(t.rotZ ?? 0) !== 0
+    // upright pieces keep a plain yaw; decomposing would turn 180° into two 180° tilts
+    const rotation = tilted
+      ? mirrorRotation(new THREE.Euler(rad(t.rotX ?? 0), rad(t.rotY ?? 0), rad(t.rotZ ?? 0), 'YXZ'), 'XYZ')
+      : new THREE.Euler(0, -rad(t.rotY ?? 0), 0)
+    const rotationX = round(deg(rotation.x), 2)
+    const rotationZ = round(deg(rotation.z), 2)
+    const elevation = Math.max(0, ((t.posY ?? TTS_TABLE_Y) - TTS_TABLE_Y) * INCH)
+    instances.push({
+      id: `i_${Math.random().toString(36).slice(2, 10)}`,
+      assetId: asset.id,
+      position: { x: round((t.posX ?? 0) * INCH, 5), z: round(-(t.posZ ?? 0) * INCH, 5) },
+      rotationDeg: wrapDeg(deg(rotation.y)),
+      ...(rotationX !== 0 ? { rotationX } : {}),
+      ...(rotationZ !== 0 ? { rotationZ } : {}),
+      // TTS drops pieces onto the table, so anything within 1 mm of it counts as on it
+      ...(elevation > 0.001 ? { elevation: round(elevation, 5) } : {}),
+      ...(notes?.swapXZ ? { swapXZ: true } : {}),
+    })
+  }
+  save.ObjectStates.forEach(visit)
+  return { instances, unresolved }
+}
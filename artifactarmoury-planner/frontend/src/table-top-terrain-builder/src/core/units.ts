@@ -16,6 +16,22 @@ export function toMetres(value: number, unit: Unit) {
   }
 }
 
+/** Convert metres to the given unit. */
+export function fromMetres(value: number, unit: Unit) {
+  switch (unit) {
+    case 'm':  return value
+    case 'cm': return value * 100
+    case 'ft': return value / 0.3048
+    case 'in': return value / 0.0254
+  }
+}
+
+/** Format a distance in metres for display, e.g. "12.5 in". */
+export function formatDistance(metres: number, unit: Unit) {
+  const decimals = unit === 'm' ? 3 : unit === 'ft' ? 2 : 1
+  return `${fromMetres(metres, unit).toFixed(decimals)} ${unitLabel(unit)}`
+}
+
 /** Parse a string like "6" using the provided unit and return metres. Non-numbers -> 0. */
 export function parseDimensionToMetres(text: string, unit: Unit) {
   const v = parseFloat(text)
@@ -1,11 +1,16 @@
 import React, { useEffect, useRef } from 'react'
 import * as THREE from 'three'
 import { useAppStore } from '@state/store'
-import { GridHelper } from './helpers'
+import {
+  GridHelper, HexGridHelper, MeasureLine, PeerCursor, ScenarioOverlay, TableBorder, TableGeometry, sightBlockers, surfaceHeightBelow
+} from './helpers'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
 import { TransformControls } from 'three/examples/jsm/controls/TransformControls.js'
 import { getAssetById } from '@core/assets'
-import { buildPlaceholderFor, setGhostValid } from './primitiveFactory'
+import { buildPlaceholderFor, buildMaskOverlay, setGhostValid } from './primitiveFactory'
+import { createInstanceBatcher, PICK_LAYER } from './instancing'
+import { createSurfaceMaterial } from './surfaceMaterial'
+import type { BatchablePiece } from './instancing'
 
 // Helper function that normalizes rotation values to 0, 90, 180, or 270 degrees
 function normalizeRotation(rotation: number): 0|90|180|270 {
@@ -23,10 +28,37 @@ function normalizeRotation(rotation: number): 0|90|180|270 {
   return 270
 }
 import {
-  worldToCell, aabbFootprint, footprintCells,
-  inBounds, buildOccupiedSet, collides, snapRotationForFootprint
+  inBounds, buildOccupiedSet, collides, snapRotationForFootprint, groupFits, instanceOccupant, instanceCells
 } from '@core/occupancy'
+import { isHexGrid, snapPointToGrid } from '@core/grid'
+import { groupPivot, transformGroup } from '@core/selection'
+import { openConnectors, snapToConnectors } from '@core/connectors'
+import { placePrefab } from '@core/prefab'
+import { formatDistance } from '@core/units'
+import { publishCursor } from '@state/collaboration'
+import { registerCommands } from '@state/commands'
 import type { Asset } from '@core/assets'
+import type { Instance, Table } from '@state/store'
+import type { AssetSetItem } from '@/api/types'
+
+const SELECTION_COLOR = 0x4da3ff
+const SELECTION_INVALID_COLOR = 0xe05757
+const BOX_SELECT_THRESHOLD_PX = 4
+const RULER_COLOR = 0xffd166
+const SIGHT_CLEAR_COLOR = 0x3fbf5a
+const SIGHT_BLOCKED_COLOR = 0xe05757
+const RULE_VIOLATION_COLOR = 0xff8c42
+// Open lanes float just above the mat so they read against zone fills
+const RULE_LANE_Y = 0.004
+// Collaborators' cursors sit with the lanes, above zone fills
+const PEER_CURSOR_Y = 0.004
+// How often the status bar's frame time is refreshed
+const FRAME_STATS_INTERVAL_MS = 500
+
+// TransformControls can only snap to a square lattice; hex grids are snapped by hand on change
+function translationSnapFor(table: Table) {
+  return isHexGrid(table) ? undefined : table.gridSize
+}
 
 
 export function ThreeStage() {
@@ -38,15 +70,33 @@ export function ThreeStage() {
   const fitView = useAppStore(s => s.actions.fitView)
   const selectedAssetId = useAppStore(s => s.selectedAssetId)
   const setSelectedAsset = useAppStore(s => s.setSelectedAsset)
+  const activePrefabId = useAppStore(s => s.activePrefabId)
+  const setActivePrefab = useAppStore(s => s.setActivePrefab)
   const instances = useAppStore(s => s.instances)
+  // the catalogue at the table's model scale; a new scale rebuilds every mesh
+  const assets = useAppStore(s => s.assets)
   const addInstance = useAppStore(s => s.actions.addInstance)
-  const selectedInstanceId = useAppStore(s => s.selectedInstanceId)
+  const selectedInstanceIds = useAppStore(s => s.selectedInstanceIds)
   const setSelectedInstance = useAppStore(s => s.setSelectedInstance)
+  const setSelectedInstances = useAppStore(s => s.setSelectedInstances)
+  const toggleInstanceSelection = useAppStore(s => s.toggleInstanceSelection)
+  const toolMode = useAppStore(s => s.toolMode)
+  const setToolMode = useAppStore(s => s.setToolMode)
+  const setMeasurement = useAppStore(s => s.setMeasurement)
+  const losHeight = useAppStore(s => s.losHeight)
+  const ruleReport = useAppStore(s => s.ruleReport)
+  const misfitInstanceIds = useAppStore(s => s.misfitInstanceIds)
+  const peers = useAppStore(s => s.peers)
   const updateInstance = useAppStore(s => s.actions.updateInstance)
+  const updateInstances = useAppStore(s => s.actions.updateInstances)
+  const setFrameStats = useAppStore(s => s.setFrameStats)
 
   // Current rotation display
   const [currentRotation, setCurrentRotation] = React.useState<number | null>(null)
 
+  // Box-select rectangle in client (viewport) coordinates
+  const [selectionBox, setSelectionBox] = React.useState<{ x: number; y: number; w: number; h: number } | null>(null)
+
   // core refs
   const raycaster = useRef(new THREE.Raycaster())
   const mouseNDC = useRef(new THREE.Vector2())
@@ -60,28 +110,82 @@ export function ThreeStage() {
 
   // scene element refs
   const tableGroupRef = useRef<THREE.Group | null>(null)
+  const scenarioGroupRef = useRef<THREE.Group | null>(null)
   const tablePlaneRef = useRef<THREE.Mesh | null>(null)
   const placedGroupRef = useRef<THREE.Group | null>(null)
   const meshByInstanceId = useRef<Map<string, THREE.Object3D>>(new Map())
+  // What each placed mesh was built from, so only changed pieces are rebuilt
+  const builtFromRef = useRef<Map<string, { inst: Instance; asset: Asset }>>(new Map())
+
+  // repeated pieces drawn instanced; rebuilt on the next frame after anything marks it dirty
+  const batcherRef = useRef<ReturnType<typeof createInstanceBatcher> | null>(null)
+  const batchDirtyRef = useRef(true)
 
   // placement refs
   const ghostRef = useRef<THREE.Object3D | null>(null)
   const ghostRotationRef = useRef<0 | 90 | 180 | 270>(0)
 
   // transform state
-  const lastValid = useRef<{ pos: THREE.Vector3; rot: number } | null>(null)
-
-  // Helper function to calculate proper Y position based on AABB and rotation
-  function calculateYPosition(asset: Asset, rotationY: number): number {
-    // Buildings are created with their base at y=0 in buildPlaceholderFor
-    // The geometry has height 'h', positioned so bottom is at y=0, top at y=h
-    // We need to return 0 so the base sits on the floor
-    return 0
+  const lastValid = useRef<{ pos: THREE.Vector3; rot: number; elevation: number } | null>(null)
+
+  // multi-selection: gizmo drives a shared pivot, members follow rigidly
+  const pivotRef = useRef<THREE.Object3D | null>(null)
+  const groupDragRef = useRef<{
+    pivot: { x: number; z: number }
+    members: Instance[]
+    lastValid: Instance[]
+  } | null>(null)
+  const selectionGroupRef = useRef<THREE.Group | null>(null)
+  const boxStartRef = useRef<{ x: number; y: number } | null>(null)
+  const suppressClickRef = useRef(false)
+
+  // ruler / line of sight: surface points picked so far, and the overlay drawn for them
+  const measureRef = useRef<{ start: THREE.Vector3 | null; end: THREE.Vector3 | null }>({ start: null, end: null })
+  const measureGroupRef = useRef<THREE.Group | null>(null)
+  const measureLabelRef = useRef<HTMLDivElement | null>(null)
+
+  // rule checker: outlines on offending pieces and the lanes that are too long
+  const rulesGroupRef = useRef<THREE.Group | null>(null)
+
+  // live collaboration: other people's cursors and selection outlines
+  const peersGroupRef = useRef<THREE.Group | null>(null)
+
+  // ground painting: the table's splat material, the last point of the stroke being
+  // painted, and the brush outline that follows the cursor
+  const surfaceMaterialRef = useRef<ReturnType<typeof createSurfaceMaterial> | null>(null)
+  const paintStrokeRef = useRef<{ x: number; z: number } | null>(null)
+  const brushRef = useRef<THREE.LineLoop | null>(null)
+
+  // Helper function to calculate the mesh Y position for a base resting at `elevation`
+  function calculateYPosition(asset: Asset, elevation = 0): number {
+    // Placeholders are built with their base at y=0; loaded GLBs are centred, so they
+    // need lifting by their (scaled) bottom offset to put the base on the surface
+    let yPos = elevation + 0.001 // Tiny offset above the surface to prevent z-fighting
+    const modelBottomOffset = (asset as any).modelBottomOffset
+    if (modelBottomOffset !== undefined) {
+      const scaleY = (asset as any).modelScale?.y ?? 1
+      yPos += modelBottomOffset * scaleY
+    }
+    return yPos
+  }
+
+  // "Drop onto surface below": raycast down through the footprint against placed pieces
+  function dropElevation(asset: Asset, x: number, z: number, rotationDeg: number, exclude: string[] = [], fromY?: number) {
+    const placed = placedGroupRef.current
+    if (!placed) return 0
+    const skip = new Set(exclude.map(id => meshByInstanceId.current.get(id)))
+    const targets = placed.children.filter(c => !skip.has(c))
+    const aabb = asset.aabb ?? { x: 0.1, y: 0.1, z: 0.1 }
+    const quarter = snapRotationForFootprint(rotationDeg) % 180 === 90
+    const halfX = (quarter ? aabb.z : aabb.x) / 2
+    const halfZ = (quarter ? aabb.x : aabb.z) / 2
+    return surfaceHeightBelow(targets, x, z, halfX, halfZ, fromY)
   }
 
   useEffect(() => {
     const mount = mountRef.current!
     const renderer = new THREE.WebGLRenderer({ antialias: true })
+    raycaster.current.layers.enable(PICK_LAYER)
     renderer.setPixelRatio(Math.min(devicePixelRatio, 2))
     renderer.setSize(mount.clientWidth, mount.clientHeight)
     renderer.setClearColor(0x0b0f14)
@@ -100,7 +204,7 @@ export function ThreeStage() {
     // Transform controls with 360Â° rotation
     const tctrl = new TransformControls(camera, renderer.domElement)
     tctrl.setSpace('world')
-    tctrl.setTranslationSnap(useAppStore.getState().table.gridSize)
+    tctrl.setTranslationSnap(translationSnapFor(useAppStore.getState().table))
     tctrl.setRotationSnap(THREE.MathUtils.degToRad(15)) // 15Â° default snap
     tctrl.setSize(0.8) // Smaller, more subtle gizmo
     tctrl.showX = true
@@ -149,7 +253,7 @@ export function ThreeStage() {
 
     // live snap update if grid changes
     const updateSnapFromTable = () => {
-      tctrl.setTranslationSnap(useAppStore.getState().table.gridSize)
+      tctrl.setTranslationSnap(translationSnapFor(useAppStore.getState().table))
     }
 
     scene.add(new THREE.AmbientLight(0xffffff, 0.6))
@@ -157,14 +261,39 @@ export function ThreeStage() {
 
     // root groups
     const tableGroup = new THREE.Group(); scene.add(tableGroup)
+    const scenarioGroup = new THREE.Group(); scene.add(scenarioGroup)
     const placedGroup = new THREE.Group(); scene.add(placedGroup)
+    const selectionGroup = new THREE.Group(); scene.add(selectionGroup)
+    const measureGroup = new THREE.Group(); scene.add(measureGroup)
+    const brush = new THREE.LineLoop(
+      new THREE.BufferGeometry().setFromPoints(Array.from({ length: 48 }, (_, i) => {
+        const a = (i / 48) * Math.PI * 2
+        return new THREE.Vector3(Math.cos(a), 0, Math.sin(a))
+      })),
+      new THREE.LineBasicMaterial({ color: 0xffffff })
+    )
+    brush.visible = false
+    scene.add(brush)
+    brushRef.current = brush
+    const rulesGroup = new THREE.Group(); scene.add(rulesGroup)
+    const peersGroup = new THREE.Group(); scene.add(peersGroup)
+    const pivot = new THREE.Object3D(); scene.add(pivot)
+    const batchGroup = new THREE.Group(); scene.add(batchGroup)
+    const batcher = createInstanceBatcher(batchGroup, () => { batchDirtyRef.current = true })
+    batcherRef.current = batcher
 
     // refs
     sceneRef.current = scene
     cameraRef.current = camera
     rendererRef.current = renderer
     tableGroupRef.current = tableGroup
+    scenarioGroupRef.current = scenarioGroup
     placedGroupRef.current = placedGroup
+    selectionGroupRef.current = selectionGroup
+    measureGroupRef.current = measureGroup
+    rulesGroupRef.current = rulesGroup
+    peersGroupRef.current = peersGroup
+    pivotRef.current = pivot
 
     // initial build
     rebuildTable()
@@ -180,15 +309,63 @@ export function ThreeStage() {
     const ro = new ResizeObserver(onResize); ro.observe(mount)
 
     let raf = 0
+    let statsFrom = performance.now()
+    let statsFrames = 0
     const tick = () => {
       raf = requestAnimationFrame(tick)
       orbit.update()
+      if (batchDirtyRef.current) {
+        batchDirtyRef.current = false
+        batcher.rebuild(batchablePieces())
+      }
+      // keep selection outlines glued to meshes (models swap in async, gizmo moves them)
+      selectionGroup.children.forEach(h => (h as THREE.BoxHelper).update())
+      rulesGroup.children.forEach(h => { if (h instanceof THREE.BoxHelper) h.update() })
+      peersGroup.children.forEach(h => { if (h instanceof THREE.BoxHelper) h.update() })
+      placeMeasureLabel()
+      batcher.update(camera)
       renderer.render(scene, camera)
+
+      statsFrames++
+      const now = performance.now()
+      if (now - statsFrom >= FRAME_STATS_INTERVAL_MS) {
+        setFrameStats({
+          frameMs: (now - statsFrom) / statsFrames,
+          drawCalls: renderer.info.render.calls,
+          triangles: renderer.info.render.triangles,
+        })
+        statsFrom = now
+        statsFrames = 0
+      }
     }
     tick()
 
     // pointer: placement ghost
     function onPointerMove(e: PointerEvent) {
+      shareCursor(e)
+      if (boxStartRef.current) {
+        const start = boxStartRef.current
+        setSelectionBox({
+          x: Math.min(start.x, e.clientX),
+          y: Math.min(start.y, e.clientY),
+          w: Math.abs(e.clientX - start.x),
+          h: Math.abs(e.clientY - start.y),
+        })
+        return
+      }
+      if (useAppStore.getState().toolMode === 'paint') {
+        paintMove(e)
+        return
+      }
+      if (useAppStore.getState().toolMode !== 'select') {
+        // stretch the line from the anchored point to the cursor
+        const { start, end } = measureRef.current
+        if (start && !end) {
+          const p = pickSurfacePoint(e)
+          if (p) measureTo(start, p)
+        }
+        return
+      }
       if (!tablePlaneRef.current || !cameraRef.current || !rendererRef.current) return
 
       const rect = rendererRef.current.domElement.getBoundingClientRect()
@@ -200,18 +377,18 @@ export function ThreeStage() {
       if (!hit) return
 
       const tbl = useAppStore.getState().table
-      const gs = tbl.gridSize
-      let x = Math.round(hit.point.x / gs) * gs
-      let z = Math.round(hit.point.z / gs) * gs
       const hw = tbl.width / 2, hh = tbl.height / 2
-      x = THREE.MathUtils.clamp(x, -hw, hw)
-      z = THREE.MathUtils.clamp(z, -hh, hh)
+      const cursor = {
+        x: THREE.MathUtils.clamp(hit.point.x, -hw, hw),
+        z: THREE.MathUtils.clamp(hit.point.z, -hh, hh),
+      }
+      let { x, z } = snapPointToGrid(cursor.x, cursor.z, tbl)
 
       // ensure ghost for current selection
       if (!ghostRef.current) {
         const currentSelected = useAppStore.getState().selectedAssetId
         if (!currentSelected || !sceneRef.current) return
-        const asset = getAssetById(currentSelected)
+        const asset = useAppStore.getState().assets.find(a => a.id === currentSelected) ?? getAssetById(currentSelected)
         if (!asset) return
         const ghost = buildPlaceholderFor(asset)
         ghost.userData.assetId = asset.id
@@ -220,34 +397,148 @@ export function ThreeStage() {
       }
 
       const ghost = ghostRef.current!
+      const assetsById = new Map(useAppStore.getState().assets.map(a => [a.id, a]))
+
+      // modular pieces join a nearby open connector of the same type instead of the grid,
+      // turned to face it; R still picks which way round when both ends would fit
+      let rotationDeg: number = ghostRotationRef.current
+      const ghostConnectors = assetsById.get(ghost.userData.assetId)?.connectors
+      if (ghostConnectors?.length && !ghost.userData.prefabItems) {
+        const open = openConnectors(useAppStore.getState().instances, id => assetsById.get(id)?.connectors)
+        const snap = snapToConnectors(ghostConnectors, cursor, rotationDeg, open)
+        if (snap) {
+          ({ x, z } = snap.position)
+          rotationDeg = snap.rotationDeg
+        }
+      }
+      ghost.userData.rotationDeg = rotationDeg
       ghost.position.set(x, ghost.position.y, z)
-      ghost.rotation.y = THREE.MathUtils.degToRad(ghostRotationRef.current)
+      ghost.rotation.y = THREE.MathUtils.degToRad(rotationDeg)
+
+      // prefab: every piece of the group has to fit where it would land
+      const prefabItems = ghost.userData.prefabItems as AssetSetItem[] | undefined
+      if (prefabItems) {
+        const store = useAppStore.getState()
+        const placed = placePrefab(prefabItems, { x, z }, ghostRotationRef.current)
+        const valid = groupFits(placed, store.instances, assetsById, tbl)
+        setGhostValid(ghost, valid)
+        ghost.userData.valid = valid
+        return
+      }
 
       // validity
-      const assetsById = new Map(useAppStore.getState().assets.map(a => [a.id, a]))
       const occ = buildOccupiedSet(useAppStore.getState().instances, assetsById, tbl)
-      const anchor = worldToCell(x, z, tbl)
       const assetId = (ghost.userData as any).assetId as string
       const asset = assetsById.get(assetId)
       let valid = false
       if (asset) {
-        const fp = aabbFootprint(asset, ghostRotationRef.current, tbl.gridSize)
-        const cells = footprintCells(anchor, fp)
-        valid = inBounds(cells, tbl) && !collides(cells, occ)
+        // rest the ghost on the highest surface underneath it
+        const elevation = dropElevation(asset, x, z, rotationDeg)
+        ghost.position.y = calculateYPosition(asset, elevation)
+        ghost.userData.elevation = elevation
+
+        // show the masked footprint on the surface; re-parented because the GLB swap clears the ghost
+        if (ghost.userData.maskOverlay === undefined) ghost.userData.maskOverlay = buildMaskOverlay(asset)
+        const overlay = ghost.userData.maskOverlay as THREE.Object3D | null
+        if (overlay) {
+          if (overlay.parent !== ghost) ghost.add(overlay)
+          overlay.position.y = elevation + 0.002 - ghost.position.y
+        }
+
+        const candidate = { position: { x, z }, rotationDeg, elevation }
+        valid = inBounds(instanceCells(candidate, asset, tbl), tbl) && !collides(instanceOccupant(candidate, asset, tbl), occ, tbl)
       }
       setGhostValid(ghost, valid)
       ghost.userData.valid = valid
     }
 
+    // Shift + drag on empty table: box select (adds to the current selection)
+    function onPointerDown(e: PointerEvent) {
+      if (useAppStore.getState().toolMode === 'paint') {
+        if (e.button === 0) paintStart(e)
+        return
+      }
+      if (!e.shiftKey || e.button !== 0 || ghostRef.current) return
+      if (useAppStore.getState().toolMode !== 'select') return
+      if (tctrlRef.current?.axis) return // grabbing the gizmo, not selecting
+      boxStartRef.current = { x: e.clientX, y: e.clientY }
+      if (orbitRef.current) orbitRef.current.enabled = false
+    }
+
+    function onPointerUp(e: PointerEvent) {
+      if (paintStrokeRef.current) {
+        paintStrokeRef.current = null
+        if (orbitRef.current) orbitRef.current.enabled = true
+        return
+      }
+      const start = boxStartRef.current
+      if (!start) return
+      boxStartRef.current = null
+      setSelectionBox(null)
+      if (orbitRef.current) orbitRef.current.enabled = true
+
+      const w = Math.abs(e.clientX - start.x)
+      const h = Math.abs(e.clientY - start.y)
+      if (w < BOX_SELECT_THRESHOLD_PX && h < BOX_SELECT_THRESHOLD_PX) return // treat as shift-click
+      suppressClickRef.current = true
+      if (!cameraRef.current || !rendererRef.current) return
+
+      const rect = rendererRef.current.domElement.getBoundingClientRect()
+      const minX = Math.min(start.x, e.clientX), maxX = Math.max(start.x, e.clientX)
+      const minY = Math.min(start.y, e.clientY), maxY = Math.max(start.y, e.clientY)
+      const picked: string[] = []
+      const v = new THREE.Vector3()
+      meshByInstanceId.current.forEach((mesh, id) => {
+        mesh.getWorldPosition(v).project(cameraRef.current!)
+        if (v.z > 1) return // behind the camera
+        const sx = rect.left + (v.x + 1) / 2 * rect.width
+        const sy = rect.top + (1 - v.y) / 2 * rect.height
+        if (sx >= minX && sx <= maxX && sy >= minY && sy <= maxY) picked.push(id)
+      })
+      setSelectedInstances([...useAppStore.getState().selectedInstanceIds, ...picked])
+      tctrlRef.current?.setMode('translate')
+    }
+
     // click: place OR select
     function onClick(e: MouseEvent) {
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false
+        return
+      }
+      if (useAppStore.getState().toolMode === 'paint') return // painted on pointer down
+      // measuring: first click anchors, second fixes the end, a third starts over
+      if (useAppStore.getState().toolMode !== 'select') {
+        const p = pickSurfacePoint(e)
+        if (!p) return
+        const m = measureRef.current
+        if (m.start && !m.end) {
+          m.end = p
+          measureTo(m.start, p)
+        } else {
+          measureRef.current = { start: p, end: null }
+          clearMeasurement()
+        }
+        return
+      }
       // if in placement mode (have a ghost), try to place
       if (ghostRef.current) {
-        if (ghostRef.current.userData.valid) {
+        const prefabItems = ghostRef.current.userData.prefabItems as AssetSetItem[] | undefined
+        if (prefabItems && ghostRef.current.userData.valid) {
+          const p = ghostRef.current.position
+          const placed = placePrefab(prefabItems, { x: p.x, z: p.z }, ghostRotationRef.current)
+          // one undo step for the group; the new pieces come back selected
+          useAppStore.getState().actions.addInstances(placed.map(({ id: _id, ...inst }) => inst))
+        } else if (ghostRef.current.userData.valid) {
           const assetId: string | undefined = (ghostRef.current.userData as any).assetId
           if (assetId) {
             const p = ghostRef.current.position
-            addInstance({ assetId, position: { x: p.x, z: p.z }, rotationDeg: ghostRotationRef.current })
+            const elevation: number = ghostRef.current.userData.elevation ?? 0
+            addInstance({
+              assetId,
+              position: { x: p.x, z: p.z },
+              rotationDeg: ghostRef.current.userData.rotationDeg ?? ghostRotationRef.current,
+              ...(elevation > 0 ? { elevation } : {})
+            })
           }
         }
         return
@@ -261,6 +552,7 @@ export function ThreeStage() {
       raycaster.current.setFromCamera(mouseNDC.current, cameraRef.current)
       const hits = raycaster.current.intersectObjects(placedGroupRef.current.children, true)
       if (hits.length === 0) {
+        if (e.shiftKey) return // keep the current selection when shift-clicking empty space
         setSelectedInstance(null)
         if (tctrlRef.current) tctrlRef.current.detach()
         return
@@ -287,13 +579,19 @@ export function ThreeStage() {
       }
       const [instanceId, mesh] = entry
       console.log(`Selected instance: ${instanceId}, mesh scale:`, mesh.scale)
+      if (e.shiftKey) {
+        toggleInstanceSelection(instanceId)
+        tctrlRef.current?.setMode('translate')
+        return
+      }
       setSelectedInstance(instanceId)
 
       if (tctrlRef.current) {
         tctrlRef.current.attach(mesh as THREE.Object3D)
         tctrlRef.current.setMode('translate') // default mode
         // record last valid
-        lastValid.current = { pos: mesh.position.clone(), rot: mesh.rotation.y }
+        const inst = useAppStore.getState().instances.find(i => i.id === instanceId)
+        lastValid.current = { pos: mesh.position.clone(), rot: mesh.rotation.y, elevation: inst?.elevation ?? 0 }
         console.log(`Attached gizmo to mesh`)
       }
     }
@@ -304,12 +602,17 @@ export function ThreeStage() {
       if (!tctrl || !tctrl.object) return
       const obj = tctrl.object
       const tbl = useAppStore.getState().table
-      const gs = tbl.gridSize
+
+      if (obj === pivotRef.current) {
+        previewGroupTransform(obj)
+        return
+      }
 
       if (tctrl.mode === 'translate') {
         // snap to grid while dragging
-        obj.position.x = Math.round(obj.position.x / gs) * gs
-        obj.position.z = Math.round(obj.position.z / gs) * gs
+        const snapped = snapPointToGrid(obj.position.x, obj.position.z, tbl)
+        obj.position.x = snapped.x
+        obj.position.z = snapped.z
       } else if (tctrl.mode === 'rotate') {
         // Rotation is now free (0-360Â°) with optional 15Â° snap via TransformControls
         // Normalize to 0-360 range for storage
@@ -336,14 +639,15 @@ export function ThreeStage() {
       const asset = assetsById.get(inst.assetId)
       if (!asset) return
 
-      const anchor = worldToCell(obj.position.x, obj.position.z, tbl)
-      
-      // For collision detection, snap rotation to 90Â° increments
+      // Bounds use the 90°-snapped footprint; collisions use the exact rotation and tilt
+      const rotDeg = THREE.MathUtils.radToDeg(obj.rotation.y)
+      const cells = instanceCells({ position: { x: obj.position.x, z: obj.position.z }, rotationDeg: rotDeg }, asset, tbl)
 
-      const rotDeg = normalizeRotation(THREE.MathUtils.radToDeg(obj.rotation.y))
-      const fp = aabbFootprint(asset, rotDeg, tbl.gridSize)
-      const cells = footprintCells(anchor, fp)
-      const valid = inBounds(cells, tbl) && !collides(cells, occ)
+      // moving onto (or off) another piece re-seats it on the surface below
+      const elevation = dropElevation(asset, obj.position.x, obj.position.z, rotDeg, [instId])
+      obj.position.y = calculateYPosition(asset, elevation)
+      const candidate = { ...inst, position: { x: obj.position.x, z: obj.position.z }, rotationDeg: rotDeg, elevation }
+      const valid = inBounds(cells, tbl) && !collides(instanceOccupant(candidate, asset, tbl), occ, tbl)
 
       // tint mesh (wireframe material) to indicate validity while dragging
       if (obj instanceof THREE.Mesh) {
@@ -355,7 +659,93 @@ export function ThreeStage() {
 
       // if valid, record as last valid
       if (valid) {
-        lastValid.current = { pos: obj.position.clone(), rot: obj.rotation.y }
+        lastValid.current = { pos: obj.position.clone(), rot: obj.rotation.y, elevation }
+      }
+    }
+
+    // Group drag: snap the pivot's offset (not the pivot) to the grid so members stay on their cells
+    function previewGroupTransform(obj: THREE.Object3D) {
+      const drag = groupDragRef.current
+      const tctrl = tctrlRef.current
+      if (!drag || !tctrl) return
+      const store = useAppStore.getState()
+
+      let dx = 0, dz = 0
+      if (tctrl.mode === 'translate') {
+        // grid lattices are centred on the origin, so a snapped offset is itself a lattice step
+        const step = snapPointToGrid(obj.position.x - drag.pivot.x, obj.position.z - drag.pivot.z, store.table)
+        dx = step.x
+        dz = step.z
+        obj.position.set(drag.pivot.x + dx, 0, drag.pivot.z + dz)
+      } else {
+        dx = obj.position.x - drag.pivot.x
+        dz = obj.position.z - drag.pivot.z
+        setCurrentRotation(Math.round(THREE.MathUtils.radToDeg(obj.rotation.y) + 360) % 360)
+      }
+      const deltaDeg = THREE.MathUtils.radToDeg(obj.rotation.y)
+
+      const moved = transformGroup(drag.members, drag.pivot, { dx, dz, deltaDeg })
+      applyToMeshes(moved)
+
+      const assetsById = new Map(store.assets.map(a => [a.id, a]))
+      const valid = groupFits(moved, store.instances, assetsById, store.table)
+      tintSelection(valid)
+      if (valid) drag.lastValid = moved
+    }
+
+    function commitGroupTransform() {
+      const drag = groupDragRef.current
+      if (!drag) return
+      const changed = drag.lastValid.filter((m, i) =>
+        m.position.x !== drag.members[i].position.x ||
+        m.position.z !== drag.members[i].position.z ||
+        m.rotationDeg !== drag.members[i].rotationDeg
+      )
+      applyToMeshes(drag.lastValid)
+      tintSelection(true)
+      setCurrentRotation(null)
+      if (changed.length === 0) {
+        attachGizmoToSelection()
+        return
+      }
+      // one history step for the whole group
+      updateInstances(changed.map(m => ({
+        id: m.id,
+        patch: { position: { ...m.position }, rotationDeg: m.rotationDeg }
+      })))
+    }
+
+    function dropSelection() {
+      const store = useAppStore.getState()
+      const ids = store.selectedInstanceIds
+      const assetsById = new Map(store.assets.map(a => [a.id, a]))
+      const dropped = store.instances
+        .filter(i => ids.includes(i.id))
+        .map(inst => {
+          const asset = assetsById.get(inst.assetId)
+          if (!asset) return inst
+          // start just above the current base so the piece can only fall, never climb
+          const from = (inst.elevation ?? 0) + 0.001
+          const elevation = dropElevation(asset, inst.position.x, inst.position.z, inst.rotationDeg, [inst.id], from)
+          return { ...inst, elevation }
+        })
+        .filter(inst => inst.elevation !== (store.instances.find(i => i.id === inst.id)?.elevation ?? 0))
+      if (dropped.length === 0) return
+      if (!groupFits(dropped, store.instances, assetsById, store.table)) {
+        tintSelection(false)
+        setTimeout(() => tintSelection(true), 120)
+        return
+      }
+      updateInstances(dropped.map(inst => ({ id: inst.id, patch: { elevation: inst.elevation } })))
+    }
+
+    function applyToMeshes(members: Instance[]) {
+      for (const m of members) {
+        const mesh = meshByInstanceId.current.get(m.id)
+        if (!mesh) continue
+        mesh.position.x = m.position.x
+        mesh.position.z = m.position.z
+        mesh.rotation.y = THREE.MathUtils.degToRad(m.rotationDeg)
       }
     }
 
@@ -363,6 +753,10 @@ export function ThreeStage() {
       const tctrl = tctrlRef.current
       if (!tctrl || !tctrl.object) return
       const obj = tctrl.object
+      if (obj === pivotRef.current) {
+        commitGroupTransform()
+        return
+      }
       const instId = useAppStore.getState().selectedInstanceId
       if (!instId) return
 
@@ -384,7 +778,8 @@ export function ThreeStage() {
       
       updateInstance(instId, {
         position: { x: obj.position.x, z: obj.position.z },
-        rotationDeg: roundedRotDeg
+        rotationDeg: roundedRotDeg,
+        elevation: lastValid.current.elevation
       })
       
       // Clear rotation display
@@ -396,218 +791,194 @@ export function ThreeStage() {
 
     // listeners
     renderer.domElement.addEventListener('pointermove', onPointerMove)
+    renderer.domElement.addEventListener('pointerleave', onPointerLeave)
+    renderer.domElement.addEventListener('pointerdown', onPointerDown)
+    window.addEventListener('pointerup', onPointerUp)
     renderer.domElement.addEventListener('click', onClick)
 
-    function onKeyDown(e: KeyboardEvent) {
-      const store = useAppStore.getState()
+    // Keyboard commands: keys are bound in @core/commands and dispatched by @state/commands
+    const ghostActive = () => !!ghostRef.current
+    const singleSelected = () => useAppStore.getState().selectedInstanceIds.length === 1
 
-      // Esc: cancel placement or deselect transform
-      if (e.key === 'Escape') {
-        if (sceneRef.current && ghostRef.current) {
-          sceneRef.current.remove(ghostRef.current); ghostRef.current = null
-        }
-        ghostRotationRef.current = 0
-        setSelectedAsset(null)
-        if (tctrlRef.current) tctrlRef.current.detach()
-        setSelectedInstance(null)
+    // Esc leaves the ruler / line of sight tool first, then cancels placement and deselects
+    function cancelOrDeselect() {
+      const store = useAppStore.getState()
+      if (store.toolMode !== 'select') {
+        store.setToolMode('select')
         return
       }
+      if (sceneRef.current && ghostRef.current) {
+        sceneRef.current.remove(ghostRef.current); ghostRef.current = null
+      }
+      ghostRotationRef.current = 0
+      setSelectedAsset(null)
+      setActivePrefab(null)
+      if (tctrlRef.current) tctrlRef.current.detach()
+      setSelectedInstance(null)
+    }
 
-      // Placement rotation (ghost)
-      if (ghostRef.current && e.key.toLowerCase() === 'r') {
+    function rotateGhost(delta: number) {
+      if (!ghostRef.current) return
+      ghostRotationRef.current = normalizeRotation(ghostRotationRef.current + delta)
+      ghostRef.current.rotation.y = THREE.MathUtils.degToRad(ghostRotationRef.current)
+    }
 
-        ghostRotationRef.current = normalizeRotation(ghostRotationRef.current + 90)
-        ghostRef.current.rotation.y = THREE.MathUtils.degToRad(ghostRotationRef.current)
+    function deleteSelection() {
+      const store = useAppStore.getState()
+      if (store.selectedInstanceIds.length > 1) {
+        if (tctrlRef.current) tctrlRef.current.detach()
+        store.actions.removeInstances(store.selectedInstanceIds)
         return
       }
-
-      // If an instance is selected: mode toggles + delete + Q/E rotate
       const instId = store.selectedInstanceId
       if (!instId) return
+      if (tctrlRef.current) tctrlRef.current.detach()
+      store.actions.removeInstance(instId)
+      setSelectedInstance(null)
+    }
 
-      // Delete / Backspace â remove selected instance
-      if (e.key === 'Delete' || e.key === 'Backspace') {
-        if (tctrlRef.current) tctrlRef.current.detach()
-        useAppStore.getState().actions.removeInstance(instId)
-        setSelectedInstance(null)
+    // Several pieces turn about their shared pivot, and only about Y
+    function rotateGroup(delta: number) {
+      const store = useAppStore.getState()
+      const ids = store.selectedInstanceIds
+      const members = store.instances.filter(i => ids.includes(i.id))
+      const moved = transformGroup(members, groupPivot(members), { dx: 0, dz: 0, deltaDeg: delta })
+      const assetsById = new Map(store.assets.map(a => [a.id, a]))
+      if (!groupFits(moved, store.instances, assetsById, store.table)) {
+        tintSelection(false)
+        setTimeout(() => tintSelection(true), 120)
         return
       }
+      updateInstances(moved.map(m => ({
+        id: m.id,
+        patch: { position: { ...m.position }, rotationDeg: m.rotationDeg }
+      })))
+    }
 
-      if (e.key.toLowerCase() === 't') tctrlRef.current?.setMode('translate')
-      if (e.key.toLowerCase() === 'r') tctrlRef.current?.setMode('rotate')
+    // Turn one piece 90° about Y, or tip (X) / roll (Z) it; tipping or rolling changes its
+    // shadow on the table, so all three are validated
+    function turnSelected(axis: 'x' | 'y' | 'z', delta: number) {
+      const store = useAppStore.getState()
+      const instId = store.selectedInstanceId
+      const inst = store.instances.find((ii) => ii.id === instId)
+      if (!instId || !inst) return
 
-      // X/Y/Z = rotate 180° on that axis (to turn model around without mirroring)
-      // Alt+X = swap X and Z dimensions
-      if (e.key.toLowerCase() === 'x') {
-        const inst = store.instances.find((ii) => ii.id === instId)
-        if (!inst) return
+      const tbl = store.table
+      const assetsById: Map<string, Asset> = new Map<string, Asset>(store.assets.map(a => [a.id, a]))
+      const asset = assetsById.get(inst.assetId)
+      if (!asset) return
 
-        if (e.altKey) {
-          updateInstance(instId, { swapXZ: !inst.swapXZ })
-          console.log(`✓ Swapped X/Z: ${!inst.swapXZ}`)
-        } else {
-          // Rotate 180° around X axis - calculate position offset to keep it in place
-          const mesh = meshByInstanceId.current.get(instId)
-          if (mesh) {
-            const currentRotX = inst.rotationX ?? 0
-            const newRotX = normalizeRotation(currentRotX + 180)
-
-            // Get current bounding box
-            mesh.updateMatrixWorld(true)
-            const oldBbox = new THREE.Box3().setFromObject(mesh)
-            const oldCenter = oldBbox.getCenter(new THREE.Vector3())
-
-            // Temporarily apply new rotation to calculate new center
-            mesh.rotation.x = THREE.MathUtils.degToRad(newRotX)
-            mesh.updateMatrixWorld(true)
-            const newBbox = new THREE.Box3().setFromObject(mesh)
-            const newCenter = newBbox.getCenter(new THREE.Vector3())
-
-            // Calculate offset to keep center in same place
-            const offset = oldCenter.sub(newCenter)
-            const newPos = { x: inst.position.x + offset.x, z: inst.position.z + offset.z }
-
-            updateInstance(instId, { rotationX: newRotX, position: newPos })
-            console.log(`✓ Rotated 180° on X axis: ${newRotX}°`)
-          }
-        }
-        return
-      }
-      if (e.key.toLowerCase() === 'y') {
-        const inst = store.instances.find((ii) => ii.id === instId)
-        if (inst) {
-          // Rotate 180° around Y axis - calculate position offset to keep it in place
-          const mesh = meshByInstanceId.current.get(instId)
-          if (mesh) {
-            const currentRotY = inst.rotationDeg ?? 0
-            const newRotY = normalizeRotation(currentRotY + 180)
-
-            // Get current bounding box
-            mesh.updateMatrixWorld(true)
-            const oldBbox = new THREE.Box3().setFromObject(mesh)
-            const oldCenter = oldBbox.getCenter(new THREE.Vector3())
-
-            // Temporarily apply new rotation to calculate new center
-            mesh.rotation.y = THREE.MathUtils.degToRad(newRotY)
-            mesh.updateMatrixWorld(true)
-            const newBbox = new THREE.Box3().setFromObject(mesh)
-            const newCenter = newBbox.getCenter(new THREE.Vector3())
-
-            // Calculate offset to keep center in same place
-            const offset = oldCenter.sub(newCenter)
-            const newPos = { x: inst.position.x + offset.x, z: inst.position.z + offset.z }
-
-            updateInstance(instId, { rotationDeg: newRotY, position: newPos })
-            console.log(`✓ Rotated 180° on Y axis: ${newRotY}°`)
-          }
-        }
-        return
-      }
-      if (e.key.toLowerCase() === 'z') {
-        const inst = store.instances.find((ii) => ii.id === instId)
-        if (inst) {
-          // Rotate 180° around Z axis - calculate position offset to keep it in place
-          const mesh = meshByInstanceId.current.get(instId)
-          if (mesh) {
-            const currentRotZ = inst.rotationZ ?? 0
-            const newRotZ = normalizeRotation(currentRotZ + 180)
-
-            // Get current bounding box
-            mesh.updateMatrixWorld(true)
-            const oldBbox = new THREE.Box3().setFromObject(mesh)
-            const oldCenter = oldBbox.getCenter(new THREE.Vector3())
-
-            // Temporarily apply new rotation to calculate new center
-            mesh.rotation.z = THREE.MathUtils.degToRad(newRotZ)
-            mesh.updateMatrixWorld(true)
-            const newBbox = new THREE.Box3().setFromObject(mesh)
-            const newCenter = newBbox.getCenter(new THREE.Vector3())
-
-            // Calculate offset to keep center in same place
-            const offset = oldCenter.sub(newCenter)
-            const newPos = { x: inst.position.x + offset.x, z: inst.position.z + offset.z }
-
-            updateInstance(instId, { rotationZ: newRotZ, position: newPos })
-            console.log(`✓ Rotated 180° on Z axis: ${newRotZ}°`)
+      // current position (prefer live mesh if attached)
+      const mesh = meshByInstanceId.current.get(instId)
+      const px = mesh ? mesh.position.x : inst.position.x
+      const pz = mesh ? mesh.position.z : inst.position.z
+
+      const patch: Partial<Instance> = axis === 'x'
+        ? { rotationX: (inst.rotationX ?? 0) + delta }
+        : axis === 'z'
+          ? { rotationZ: (inst.rotationZ ?? 0) + delta }
+          : { rotationDeg: normalizeRotation(inst.rotationDeg + delta) }
+      const candidate = { ...inst, position: { x: px, z: pz }, ...patch }
+
+      // occupancy excluding the instance being rotated
+      const others = store.instances.filter((ii) => ii.id !== instId)
+      const occ = buildOccupiedSet(others, assetsById, tbl)
+
+      const cells = instanceCells(candidate, asset, tbl)
+      const valid = inBounds(cells, tbl) && !collides(instanceOccupant(candidate, asset, tbl), occ, tbl)
+
+      if (!valid) {
+        // flash red for feedback
+        if (mesh && mesh instanceof THREE.Mesh) {
+          const mat = mesh.material
+          if (mat instanceof THREE.MeshBasicMaterial) {
+            mat.color.setHex(0xe05757)
+            setTimeout(() => {
+              mat.color.setHex(0x4da3ff)
+            }, 120)
           }
         }
         return
       }
 
-      // Q/E = rotate around Y axis (horizontal)
-      // Shift+Q/E = rotate around X axis (tip forward/back)
-      // Ctrl+Q/E = rotate around Z axis (roll left/right)
-      if (e.key.toLowerCase() === 'q' || e.key.toLowerCase() === 'e') {
-        const delta = e.key.toLowerCase() === 'q' ? -90 : 90
-        const inst = store.instances.find((ii) => ii.id === instId)
-        if (!inst) return
-
-        if (e.shiftKey) {
-          // Rotate around X axis (tip forward/back)
-          const currentRotX = inst.rotationX ?? 0
-          const newRotX = currentRotX + delta
-          updateInstance(instId, { rotationX: newRotX })
-          console.log(`✓ Rotated X: ${newRotX}°`)
-          return
-        } else if (e.ctrlKey) {
-          // Rotate around Z axis (roll left/right)
-          const currentRotZ = inst.rotationZ ?? 0
-          const newRotZ = currentRotZ + delta
-          updateInstance(instId, { rotationZ: newRotZ })
-          console.log(`✓ Rotated Z: ${newRotZ}°`)
-          return
-        }
+      // commit rotation
+      updateInstance(instId, patch)
+      if (mesh && patch.rotationDeg !== undefined) mesh.rotation.y = THREE.MathUtils.degToRad(patch.rotationDeg)
+    }
 
-        const tbl = store.table
-        const assetsById: Map<string, Asset> = new Map<string, Asset>(store.assets.map(a => [a.id, a]))
-        const asset = assetsById.get(inst.assetId)
-        if (!asset) return
+    function rotateSelection(delta: number) {
+      if (useAppStore.getState().selectedInstanceIds.length > 1) rotateGroup(delta)
+      else turnSelected('y', delta)
+    }
 
-        // current position (prefer live mesh if attached)
-        const mesh = meshByInstanceId.current.get(instId)
-        const px = mesh ? mesh.position.x : inst.position.x
-        const pz = mesh ? mesh.position.z : inst.position.z
-
-        const newRot = normalizeRotation(inst.rotationDeg + delta)
-
-        // occupancy excluding the instance being rotated
-        const others = store.instances.filter((ii) => ii.id !== instId)
-        const occ = buildOccupiedSet(others, assetsById, tbl)
-
-        const anchor = worldToCell(px, pz, tbl)
-        const fp = aabbFootprint(asset, newRot, tbl.gridSize)
-        const cells = footprintCells(anchor, fp)
-        const valid = inBounds(cells, tbl) && !collides(cells, occ)
-
-        if (!valid) {
-          // flash red for feedback
-          if (mesh && mesh instanceof THREE.Mesh) {
-            const mat = mesh.material
-            if (mat instanceof THREE.MeshBasicMaterial) {
-              mat.color.setHex(0xe05757)
-              setTimeout(() => {
-                mat.color.setHex(0x4da3ff)
-              }, 120)
-            }
-          }
-          return
-        }
+    // Turn one piece 180° on an axis (to turn a model around without mirroring), moved so
+    // its bounding box keeps the same centre
+    function flipSelected(axis: 'x' | 'y' | 'z') {
+      const store = useAppStore.getState()
+      const instId = store.selectedInstanceId
+      const inst = store.instances.find((ii) => ii.id === instId)
+      const mesh = instId ? meshByInstanceId.current.get(instId) : undefined
+      if (!instId || !inst || !mesh) return
 
-        // commit rotation
-        updateInstance(instId, { rotationDeg: newRot })
-        if (mesh) mesh.rotation.y = THREE.MathUtils.degToRad(newRot)
-      }
+      const field = axis === 'x' ? 'rotationX' : axis === 'y' ? 'rotationDeg' : 'rotationZ'
+      const newRot = normalizeRotation((inst[field] ?? 0) + 180)
+
+      // Get current bounding box
+      mesh.updateMatrixWorld(true)
+      const oldCenter = new THREE.Box3().setFromObject(mesh).getCenter(new THREE.Vector3())
+
+      // Temporarily apply new rotation to calculate new center
+      mesh.rotation[axis] = THREE.MathUtils.degToRad(newRot)
+      mesh.updateMatrixWorld(true)
+      const newCenter = new THREE.Box3().setFromObject(mesh).getCenter(new THREE.Vector3())
+
+      // Calculate offset to keep center in same place
+      const offset = oldCenter.sub(newCenter)
+      const newPos = { x: inst.position.x + offset.x, z: inst.position.z + offset.z }
+
+      updateInstance(instId, { [field]: newRot, position: newPos })
+      console.log(`✓ Rotated 180° on ${axis.toUpperCase()} axis: ${newRot}°`)
     }
 
-    window.addEventListener('keydown', onKeyDown)
+    function swapSelectedXZ() {
+      const store = useAppStore.getState()
+      const inst = store.instances.find((ii) => ii.id === store.selectedInstanceId)
+      if (!inst) return
+      updateInstance(inst.id, { swapXZ: !inst.swapXZ })
+      console.log(`✓ Swapped X/Z: ${!inst.swapXZ}`)
+    }
+
+    const unregisterCommands = registerCommands({
+      'edit.escape': cancelOrDeselect,
+      'placement.rotateLeft': { run: () => rotateGhost(-90), enabled: ghostActive },
+      'placement.rotateRight': { run: () => rotateGhost(90), enabled: ghostActive },
+      'selection.delete': deleteSelection,
+      'selection.drop': dropSelection,
+      'selection.rotateLeft': () => rotateSelection(-90),
+      'selection.rotateRight': () => rotateSelection(90),
+      'selection.tipBack': { run: () => turnSelected('x', -90), enabled: singleSelected },
+      'selection.tipForward': { run: () => turnSelected('x', 90), enabled: singleSelected },
+      'selection.rollLeft': { run: () => turnSelected('z', -90), enabled: singleSelected },
+      'selection.rollRight': { run: () => turnSelected('z', 90), enabled: singleSelected },
+      'selection.flipX': { run: () => flipSelected('x'), enabled: singleSelected },
+      'selection.flipY': { run: () => flipSelected('y'), enabled: singleSelected },
+      'selection.flipZ': { run: () => flipSelected('z'), enabled: singleSelected },
+      'selection.swapXZ': { run: swapSelectedXZ, enabled: singleSelected },
+      'gizmo.translate': () => tctrlRef.current?.setMode('translate'),
+      'gizmo.rotate': () => tctrlRef.current?.setMode('rotate'),
+    })
 
     return () => {
       cancelAnimationFrame(raf)
       ro.disconnect()
+      batcher.dispose()
       renderer.dispose()
       renderer.domElement.removeEventListener('pointermove', onPointerMove)
+      renderer.domElement.removeEventListener('pointerleave', onPointerLeave)
+      renderer.domElement.removeEventListener('pointerdown', onPointerDown)
+      window.removeEventListener('pointerup', onPointerUp)
       renderer.domElement.removeEventListener('click', onClick)
-      window.removeEventListener('keydown', onKeyDown)
+      unregisterCommands()
       window.removeEventListener('keydown', handleKeyDown)
       window.removeEventListener('keyup', handleKeyUp)
       tctrl.removeEventListener('change', onTctrlChange)
@@ -621,20 +992,42 @@ export function ThreeStage() {
   useEffect(() => {
     rebuildTable()
     // keep transform snap in sync with grid
-    tctrlRef.current?.setTranslationSnap(table.gridSize)
-  }, [table.width, table.height, table.gridSize])
+    tctrlRef.current?.setTranslationSnap(translationSnapFor(table))
+  }, [table.width, table.height, table.gridSize, table.gridType, table.hexOrientation, table.outline])
 
-  // Rebuild placed meshes when instances change
+  // Scenario overlay (deployment zones, objectives, no-man's-land) sits on the table surface
+  useEffect(() => {
+    const group = scenarioGroupRef.current
+    if (!group) return
+    group.traverse(o => {
+      if (o instanceof THREE.Line || o instanceof THREE.Mesh) o.geometry.dispose()
+    })
+    group.clear()
+    if (table.scenario) group.add(ScenarioOverlay(table.scenario, table.width, table.height))
+  }, [table.scenario, table.width, table.height])
+
+  // Painted ground only refills the splat texture; the table itself stays
+  useEffect(() => {
+    surfaceMaterialRef.current?.setSurface(table.surface)
+  }, [table.surface])
+
+  // Rebuild the placed meshes of pieces that changed (or whose asset did); the rest,
+  // and the batches drawing them, stay as they are
   useEffect(() => {
     const g = placedGroupRef.current
     if (!g) return
-    g.clear()
-    meshByInstanceId.current.clear()
-    const byId = new Map(useAppStore.getState().assets.map(a => [a.id, a]))
+    const builtFrom = builtFromRef.current
+    const byId = new Map(assets.map(a => [a.id, a]))
+    const placed = new Set<string>()
     for (const inst of instances) {
       const asset = byId.get(inst.assetId)
       if (!asset) continue
-      const mesh = buildPlaceholderFor(asset)
+      placed.add(inst.id)
+      const built = builtFrom.get(inst.id)
+      if (built && built.inst === inst && built.asset === asset) continue
+      const previous = meshByInstanceId.current.get(inst.id)
+      if (previous) g.remove(previous)
+      const mesh = buildPlaceholderFor(asset, () => { batchDirtyRef.current = true })
 
       // Apply all rotations
       const rotYRad = THREE.MathUtils.degToRad(inst.rotationDeg)
@@ -664,70 +1057,367 @@ export function ThreeStage() {
       mesh.scale.set(scaleX, scaleY, scaleZ)
 
       // Position the model at the instance position (X, Z are centered)
-      // Calculate Y position based on model's bottom offset to ensure all models sit on the table surface
-      let yPos = 0.001 // Tiny offset above table surface to prevent z-fighting
-      const modelBottomOffset = (asset as any).modelBottomOffset
-      if (modelBottomOffset !== undefined) {
-        // The model is centered at origin, so its bottom is at -modelBottomOffset
-        // To place the bottom at Y=0, we need to move it up by modelBottomOffset
-        // IMPORTANT: Scale the offset by the Y scale factor since the model is scaled
-        yPos = modelBottomOffset * scaleY + 0.001
-      }
+      // Y puts the model's base on the table, or on the piece it is stacked on
+      const yPos = calculateYPosition(asset, inst.elevation ?? 0)
       mesh.position.set(inst.position.x, yPos, inst.position.z)
 
       mesh.userData.instanceId = inst.id
       g.add(mesh)
       meshByInstanceId.current.set(inst.id, mesh)
+      builtFrom.set(inst.id, { inst, asset })
     }
+    for (const [id, mesh] of meshByInstanceId.current) {
+      if (placed.has(id)) continue
+      g.remove(mesh)
+      meshByInstanceId.current.delete(id)
+      builtFrom.delete(id)
+    }
+    batchDirtyRef.current = true
+
+    // a fixed line of sight is re-checked against the new layout
+    const { start, end } = measureRef.current
+    if (start && end) measureTo(start, end)
+  }, [instances, assets])
 
-    // if a selected instance was rebuilt, reattach gizmo
-    if (selectedInstanceId && tctrlRef.current) {
-      const m = meshByInstanceId.current.get(selectedInstanceId)
-      if (m) tctrlRef.current.attach(m as THREE.Object3D)
+  // Selection outlines and the gizmo follow the selection and any rebuilt meshes; selected
+  // pieces leave their batches so the gizmo can move them
+  useEffect(() => {
+    const outlines = selectionGroupRef.current
+    if (outlines) {
+      outlines.children.forEach(h => (h as THREE.BoxHelper).geometry.dispose())
+      outlines.clear()
+      for (const id of selectedInstanceIds) {
+        const m = meshByInstanceId.current.get(id)
+        if (m) outlines.add(new THREE.BoxHelper(m, SELECTION_COLOR))
+      }
     }
-    
-    // Add selection outline
-    if (selectedInstanceId) {
-      const m = meshByInstanceId.current.get(selectedInstanceId)
-      if (m && m instanceof THREE.Mesh) {
-        const mat = m.material
-        if (mat instanceof THREE.MeshBasicMaterial) {
-          mat.color.setHex(0x4da3ff)
-        }
+
+    // if selected instances were rebuilt, reattach gizmo
+    attachGizmoToSelection()
+    batchDirtyRef.current = true
+  }, [instances, selectedInstanceIds, assets])
+
+  // Rule violations, and pieces that stopped fitting when the scale changed: declared
+  // after the mesh rebuild so outlines attach to the new meshes
+  useEffect(() => {
+    const group = rulesGroupRef.current
+    if (!group) return
+    disposeOverlayGroup(group)
+    for (const id of misfitInstanceIds) {
+      const mesh = meshByInstanceId.current.get(id)
+      if (mesh) group.add(new THREE.BoxHelper(mesh, SELECTION_INVALID_COLOR))
+    }
+    if (!ruleReport) return
+    const offenders = new Set<string>()
+    for (const result of ruleReport.results) {
+      if (result.passed) continue
+      result.instanceIds.forEach(id => offenders.add(id))
+      for (const [a, b] of result.lanes) {
+        group.add(MeasureLine(
+          new THREE.Vector3(a.x, RULE_LANE_Y, a.z),
+          new THREE.Vector3(b.x, RULE_LANE_Y, b.z),
+          RULE_VIOLATION_COLOR
+        ))
       }
     }
-  }, [instances, selectedInstanceId])
+    for (const id of offenders) {
+      const mesh = meshByInstanceId.current.get(id)
+      if (mesh) group.add(new THREE.BoxHelper(mesh, RULE_VIOLATION_COLOR))
+    }
+  }, [ruleReport, misfitInstanceIds, instances])
 
-  // Ghost lifecycle on selection change
+  // Collaborators: a ring at each cursor and outlines in their colour on what they have selected
+  useEffect(() => {
+    const group = peersGroupRef.current
+    if (!group) return
+    disposeOverlayGroup(group)
+    for (const peer of peers) {
+      if (peer.cursor) {
+        const cursor = PeerCursor(peer.color)
+        cursor.position.set(peer.cursor.x, PEER_CURSOR_Y, peer.cursor.z)
+        group.add(cursor)
+      }
+      for (const id of peer.selection) {
+        const mesh = meshByInstanceId.current.get(id)
+        if (mesh) group.add(new THREE.BoxHelper(mesh, new THREE.Color(peer.color)))
+      }
+    }
+  }, [peers, instances])
+
+  // Switching tools drops any measurement and the current placement / selection
+  useEffect(() => {
+    measureRef.current = { start: null, end: null }
+    clearMeasurement()
+    if (brushRef.current && toolMode !== 'paint') brushRef.current.visible = false
+    if (toolMode === 'select') return
+    setSelectedAsset(null)
+    setActivePrefab(null)
+    tctrlRef.current?.detach()
+    setSelectedInstance(null)
+  }, [toolMode])
+
+  // Changing the model height re-checks a fixed line of sight
+  useEffect(() => {
+    const { start, end } = measureRef.current
+    if (start && end) measureTo(start, end)
+  }, [losHeight])
+
+  // Tell collaborators where the pointer is on the table (off the table hides it)
+  function shareCursor(e: PointerEvent) {
+    if (!cameraRef.current || !rendererRef.current || !tablePlaneRef.current) return
+    const rect = rendererRef.current.domElement.getBoundingClientRect()
+    const ndc = new THREE.Vector2(
+      ((e.clientX - rect.left) / rect.width) * 2 - 1,
+      -((e.clientY - rect.top) / rect.height) * 2 + 1
+    )
+    const ray = new THREE.Raycaster()
+    ray.setFromCamera(ndc, cameraRef.current)
+    const hit = ray.intersectObject(tablePlaneRef.current, false)[0]
+    publishCursor(hit ? { x: hit.point.x, z: hit.point.z } : null)
+  }
+
+  function onPointerLeave() {
+    publishCursor(null)
+    if (brushRef.current) brushRef.current.visible = false
+  }
+
+  // Board point under the cursor; painting ignores the pieces standing on it
+  function pickTablePoint(e: MouseEvent) {
+    if (!cameraRef.current || !rendererRef.current || !tablePlaneRef.current) return null
+    const rect = rendererRef.current.domElement.getBoundingClientRect()
+    mouseNDC.current.x = ((e.clientX - rect.left) / rect.width) * 2 - 1
+    mouseNDC.current.y = -((e.clientY - rect.top) / rect.height) * 2 + 1
+    raycaster.current.setFromCamera(mouseNDC.current, cameraRef.current)
+    const hit = raycaster.current.intersectObject(tablePlaneRef.current, false)[0]
+    return hit ? { x: hit.point.x, z: hit.point.z } : null
+  }
+
+  function paintStart(e: PointerEvent) {
+    const p = pickTablePoint(e)
+    if (!p) return
+    paintStrokeRef.current = p
+    if (orbitRef.current) orbitRef.current.enabled = false
+    useAppStore.getState().actions.paintSurface([p])
+  }
+
+  // Moves the brush outline, and paints from the last point while the button is down
+  function paintMove(e: PointerEvent) {
+    const p = pickTablePoint(e)
+    const brush = brushRef.current
+    if (brush) {
+      brush.visible = Boolean(p)
+      if (p) {
+        brush.position.set(p.x, 0.003, p.z)
+        brush.scale.setScalar(useAppStore.getState().paintBrush.radius)
+      }
+    }
+    const last = paintStrokeRef.current
+    if (!p || !last) return
+    paintStrokeRef.current = p
+    useAppStore.getState().actions.paintSurface([last, p])
+  }
+
+  // First surface under the cursor: placed pieces first, then the table
+  function pickSurfacePoint(e: MouseEvent) {
+    if (!cameraRef.current || !rendererRef.current || !tablePlaneRef.current) return null
+    const rect = rendererRef.current.domElement.getBoundingClientRect()
+    mouseNDC.current.x = ((e.clientX - rect.left) / rect.width) * 2 - 1
+    mouseNDC.current.y = -((e.clientY - rect.top) / rect.height) * 2 + 1
+    raycaster.current.setFromCamera(mouseNDC.current, cameraRef.current)
+    const targets = [...(placedGroupRef.current?.children ?? []), tablePlaneRef.current]
+    const hit = raycaster.current.intersectObjects(targets, true).find(h => !h.object.userData.isHitbox)
+    return hit ? hit.point.clone() : null
+  }
+
+  // Placed pieces that can be drawn instanced: everything but the selection, which the gizmo moves
+  function batchablePieces(): BatchablePiece[] {
+    const { instances: all, selectedInstanceIds: selected, assets } = useAppStore.getState()
+    const byId = new Map(assets.map(a => [a.id, a]))
+    const editing = new Set(selected)
+    const pieces: BatchablePiece[] = []
+    for (const inst of all) {
+      const object = meshByInstanceId.current.get(inst.id)
+      const asset = byId.get(inst.assetId)
+      if (object && asset && !editing.has(inst.id)) pieces.push({ asset, object })
+    }
+    return pieces
+  }
+
+  // Walk up from a raycast hit to the placed instance it belongs to
+  function instanceIdOf(obj: THREE.Object3D | null): string | null {
+    for (let o = obj; o && o !== placedGroupRef.current; o = o.parent) {
+      if (o.userData.instanceId) return o.userData.instanceId as string
+    }
+    return null
+  }
+
+  // Draw the ruler, or the sight line raised to the model height with its blockers outlined
+  function measureTo(start: THREE.Vector3, end: THREE.Vector3) {
+    const group = measureGroupRef.current
+    if (!group) return
+    const { toolMode, losHeight } = useAppStore.getState()
+    const from = start.clone(), to = end.clone()
+    let blockers: string[] = []
+    if (toolMode === 'los') {
+      from.y += losHeight
+      to.y += losHeight
+      const hits = sightBlockers(placedGroupRef.current?.children ?? [], from, to)
+      blockers = [...new Set(hits.map(instanceIdOf).filter((id): id is string => id !== null))]
+    }
+
+    disposeOverlayGroup(group)
+    const color = toolMode === 'ruler' ? RULER_COLOR : blockers.length ? SIGHT_BLOCKED_COLOR : SIGHT_CLEAR_COLOR
+    group.add(MeasureLine(from, to, color))
+    for (const id of blockers) {
+      const mesh = meshByInstanceId.current.get(id)
+      if (mesh) group.add(new THREE.BoxHelper(mesh, SIGHT_BLOCKED_COLOR))
+    }
+    setMeasurement({
+      from: { x: from.x, y: from.y, z: from.z },
+      to: { x: to.x, y: to.y, z: to.z },
+      distance: from.distanceTo(to),
+      blockers,
+    })
+  }
+
+  function clearMeasurement() {
+    if (measureGroupRef.current) disposeOverlayGroup(measureGroupRef.current)
+    setMeasurement(null)
+  }
+
+  function disposeOverlayGroup(group: THREE.Group) {
+    group.traverse(o => {
+      if (o instanceof THREE.Line || o instanceof THREE.Mesh) {
+        o.geometry.dispose()
+        ;(Array.isArray(o.material) ? o.material : [o.material]).forEach(m => m.dispose())
+      }
+    })
+    group.clear()
+  }
+
+  // Keep the distance label over the middle of the line (runs every frame)
+  function placeMeasureLabel() {
+    const label = measureLabelRef.current
+    if (!label) return
+    const { measurement, table, toolMode } = useAppStore.getState()
+    if (!measurement || !cameraRef.current || !rendererRef.current) {
+      label.style.display = 'none'
+      return
+    }
+    const mid = new THREE.Vector3(
+      (measurement.from.x + measurement.to.x) / 2,
+      (measurement.from.y + measurement.to.y) / 2,
+      (measurement.from.z + measurement.to.z) / 2
+    ).project(cameraRef.current)
+    const rect = rendererRef.current.domElement.getBoundingClientRect()
+    label.style.display = mid.z > 1 ? 'none' : 'block'
+    label.style.left = `${rect.left + (mid.x + 1) / 2 * rect.width}px`
+    label.style.top = `${rect.top + (1 - mid.y) / 2 * rect.height}px`
+    const sight = toolMode !== 'los' ? ''
+      : measurement.blockers.length ? ` · blocked by ${measurement.blockers.length}` : ' · clear'
+    label.textContent = formatDistance(measurement.distance, table.unitDisplay) + sight
+  }
+
+  // Attach the gizmo to the single selected mesh, or to the shared pivot for a group
+  function attachGizmoToSelection() {
+    const tctrl = tctrlRef.current
+    const pivot = pivotRef.current
+    if (!tctrl || !pivot) return
+    const { selectedInstanceIds: ids, instances: all } = useAppStore.getState()
+    groupDragRef.current = null
+
+    const members = all.filter(i => ids.includes(i.id) && meshByInstanceId.current.has(i.id))
+    if (members.length === 0) {
+      tctrl.detach()
+      return
+    }
+    if (members.length === 1) {
+      tctrl.attach(meshByInstanceId.current.get(members[0].id)!)
+      return
+    }
+
+    const centre = groupPivot(members)
+    pivot.position.set(centre.x, 0, centre.z)
+    pivot.rotation.set(0, 0, 0)
+    groupDragRef.current = { pivot: centre, members, lastValid: members }
+    tctrl.attach(pivot)
+  }
+
+  function tintSelection(valid: boolean) {
+    selectionGroupRef.current?.children.forEach(h => {
+      const mat = (h as THREE.BoxHelper).material as THREE.LineBasicMaterial
+      mat.color.setHex(valid ? SELECTION_COLOR : SELECTION_INVALID_COLOR)
+    })
+  }
+
+  // Ghost lifecycle on selection change (an asset or a prefab to place)
   useEffect(() => {
     const scene = sceneRef.current
     if (!scene) return
     if (ghostRef.current) { scene.remove(ghostRef.current); ghostRef.current = null }
     ghostRotationRef.current = 0
     if (selectedAssetId) {
-      const asset = getAssetById(selectedAssetId); if (!asset) return
+      // picking an asset to place ends measuring
+      if (useAppStore.getState().toolMode !== 'select') setToolMode('select')
+      const asset = assets.find(a => a.id === selectedAssetId) ?? getAssetById(selectedAssetId); if (!asset) return
       const ghost = buildPlaceholderFor(asset)
       ghost.userData.assetId = asset.id
       scene.add(ghost); ghostRef.current = ghost
       ghost.position.set(0, ghost.position.y, 0)
       ghost.rotation.y = 0
+    } else if (activePrefabId) {
+      if (useAppStore.getState().toolMode !== 'select') setToolMode('select')
+      const prefab = useAppStore.getState().prefabs.find(p => p.id === activePrefabId)
+      const ghost = prefab ? buildPrefabGhost(prefab.items) : null
+      if (!ghost) return
+      scene.add(ghost); ghostRef.current = ghost
+    }
+  }, [selectedAssetId, activePrefabId, assets])
+
+  // One placeholder per prefab piece, posed relative to the group's centre like placed
+  // meshes are. Pieces whose asset isn't loaded are left out of the ghost and the placement.
+  function buildPrefabGhost(items: AssetSetItem[]): THREE.Object3D | null {
+    const assetsById = new Map(useAppStore.getState().assets.map(a => [a.id, a]))
+    const known = items.filter(item => assetsById.has(item.assetId))
+    if (known.length === 0) return null
+    const group = new THREE.Group()
+    for (const item of known) {
+      const asset = assetsById.get(item.assetId)!
+      const piece = buildPlaceholderFor(asset)
+      piece.rotation.order = 'XYZ'
+      piece.rotation.set(
+        THREE.MathUtils.degToRad(item.rotationX ?? 0),
+        THREE.MathUtils.degToRad(item.rotationDeg),
+        THREE.MathUtils.degToRad(item.rotationZ ?? 0)
+      )
+      const modelScale = (asset as any).modelScale
+      if (modelScale) {
+        piece.scale.set(item.swapXZ ? modelScale.z : modelScale.x, modelScale.y, item.swapXZ ? modelScale.x : modelScale.z)
+      }
+      piece.position.set(item.x, calculateYPosition(asset, item.elevation ?? 0), item.z)
+      group.add(piece)
     }
-  }, [selectedAssetId])
+    group.userData.prefabItems = known
+    return group
+  }
 
   function rebuildTable() {
     const tableGroup = tableGroupRef.current
     if (!tableGroup) return
     tableGroup.clear()
 
-    // plane
-    const geo = new THREE.PlaneGeometry(table.width, table.height)
-    const mat = new THREE.MeshStandardMaterial({
+    // plane, with any painted ground splatted over it
+    surfaceMaterialRef.current?.dispose()
+    const surface = createSurfaceMaterial({
       color: 0x1a2330,
       metalness: 0,
       roughness: 0.9,
       side: THREE.DoubleSide,
     })
-    const plane = new THREE.Mesh(geo, mat)
+    surface.setSurface(useAppStore.getState().table.surface)
+    surfaceMaterialRef.current = surface
+    const geo = TableGeometry(table)
+    const plane = new THREE.Mesh(geo, surface.material)
     plane.rotation.x = -Math.PI / 2
       plane.position.y = 0  // â ADD THIS LINE: Lower table slightly below ground
       plane.receiveShadow = true
@@ -735,15 +1425,12 @@ export function ThreeStage() {
       tablePlaneRef.current = plane
 
     // border
-      const border = new THREE.LineSegments(
-        new THREE.EdgesGeometry(new THREE.BoxGeometry(table.width, 0.02, table.height)),
-        new THREE.LineBasicMaterial({ color: 0x2c3a50 })
-      )
-      border.position.y = 0  // â Change from 0.01 to -0.005
-      tableGroup.add(border)
+      tableGroup.add(TableBorder(table))
 
     // grid
-      const grid = GridHelper(table.width, table.height, table.gridSize)
+      const grid = isHexGrid(table)
+        ? HexGridHelper(table.width, table.height, table.gridSize, table.hexOrientation ?? 'flat', table.outline)
+        : GridHelper(table.width, table.height, table.gridSize, table.outline)
       grid.position.y = 0  // â Change from 0.011 to 0 (sits at ground level)
       tableGroup.add(grid)
   }
@@ -771,6 +1458,38 @@ export function ThreeStage() {
           {currentRotation}°
         </div>
       )}
+
+      {/* Ruler / line of sight readout, positioned every frame by placeMeasureLabel */}
+      <div ref={measureLabelRef} style={{
+        display: 'none',
+        position: 'fixed',
+        transform: 'translate(-50%, -130%)',
+        background: 'rgba(18, 24, 33, 0.95)',
+        border: '1px solid #243246',
+        color: '#e6edf5',
+        padding: '4px 8px',
+        borderRadius: 6,
+        fontSize: 12,
+        fontWeight: 600,
+        pointerEvents: 'none',
+        whiteSpace: 'nowrap',
+        zIndex: 10
+      }} />
+
+      {/* Box-select rectangle (Shift + drag) */}
+      {selectionBox && (
+        <div style={{
+          position: 'fixed',
+          left: selectionBox.x,
+          top: selectionBox.y,
+          width: selectionBox.w,
+          height: selectionBox.h,
+          border: '1px dashed #4da3ff',
+          background: 'rgba(77, 163, 255, 0.12)',
+          pointerEvents: 'none',
+          zIndex: 10
+        }} />
+      )}
     </>
   )
 }
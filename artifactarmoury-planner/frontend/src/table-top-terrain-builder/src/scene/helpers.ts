@@ -1,7 +1,15 @@
 // src/scene/helpers.ts
 import * as THREE from 'three'
+import { hexCorners, hexesInRange, hexToWorld } from '@core/hex'
+import type { HexOrientation } from '@core/hex'
+import { zonePolygon } from '@core/scenario'
+import type { Scenario } from '@core/scenario'
+import { onTable, tablePolygons, tableSpans } from '@core/tableShape'
+import type { TableOutline } from '@core/tableShape'
+import { PICK_LAYER } from './instancing'
 
-export function GridHelper(width: number, height: number, cell: number) {
+// Grids stop at the table's outline, when it has one
+export function GridHelper(width: number, height: number, cell: number, outline?: TableOutline) {
   const group = new THREE.Group()
   const matMinor = new THREE.LineBasicMaterial({ color: 0x243246 })
   const matMajor = new THREE.LineBasicMaterial({ color: 0x3a4e6a })
@@ -19,7 +27,8 @@ export function GridHelper(width: number, height: number, cell: number) {
     const x = i * cell
     const verts = i % 5 === 0 ? majorVerts : minorVerts
     // vertical lines along Z on the XZ plane (y = 0)
-    verts.push(x, 0, -hh, x, 0, hh)
+    if (!outline) verts.push(x, 0, -hh, x, 0, hh)
+    else for (const [z0, z1] of tableSpans({ width, height, outline }, 'z', x)) verts.push(x, 0, z0, x, 0, z1)
   }
 
   const rows = Math.floor(height / cell)
@@ -27,7 +36,8 @@ export function GridHelper(width: number, height: number, cell: number) {
     const z = j * cell
     const verts = j % 5 === 0 ? majorVerts : minorVerts
     // horizontal lines along X on the XZ plane (y = 0)
-    verts.push(-hw, 0, z, hw, 0, z)
+    if (!outline) verts.push(-hw, 0, z, hw, 0, z)
+    else for (const [x0, x1] of tableSpans({ width, height, outline }, 'x', z)) verts.push(x0, 0, z, x1, 0, z)
   }
 
   minor.setAttribute('position', new THREE.Float32BufferAttribute(minorVerts, 3))
@@ -39,3 +49,203 @@ export function GridHelper(width: number, height: number, cell: number) {
   group.add(minorLines, majorLines)
   return group
 }
+
+export function HexGridHelper(width: number, height: number, cell: number, orientation: HexOrientation, outline?: TableOutline) {
+  const group = new THREE.Group()
+  const mat = new THREE.LineBasicMaterial({ color: 0x243246 })
+  const verts: number[] = []
+
+  const reach = Math.ceil(Math.max(width, height) / cell) + 1
+
+  // Outline every hex whose centre is on the board (shared edges are drawn twice, which is fine)
+  for (const h of hexesInRange({ q: 0, r: 0 }, reach)) {
+    const c = hexToWorld(h, cell, orientation)
+    if (!onTable({ width, height, outline }, c.x, c.z)) continue
+    const corners = hexCorners(c.x, c.z, cell, orientation)
+    for (let i = 0; i < 6; i++) {
+      const a = corners[i], b = corners[(i + 1) % 6]
+      verts.push(a.x, 0, a.z, b.x, 0, b.z)
+    }
+  }
+
+  const geo = new THREE.BufferGeometry()
+  geo.setAttribute('position', new THREE.Float32BufferAttribute(verts, 3))
+  group.add(new THREE.LineSegments(geo, mat))
+  return group
+}
+
+type Shaped = { width: number; height: number; outline?: TableOutline }
+
+// The table as flat shapes in the plane's own XY; laying them flat turns y into -z
+export function tableShapes(table: Shaped) {
+  return tablePolygons(table).map(poly => new THREE.Shape(poly.map(p => new THREE.Vector2(p.x, -p.z))))
+}
+
+/**
+ * Top of the board, to be laid flat like a PlaneGeometry. Uvs span the bounding box the
+ * same way a plane's do, so painted ground lands in the same place on any outline.
+ */
+export function TableGeometry(table: Shaped) {
+  const geo = new THREE.ShapeGeometry(tableShapes(table))
+  const pos = geo.getAttribute('position')
+  const uv = geo.getAttribute('uv')
+  for (let i = 0; i < pos.count; i++) {
+    uv.setXY(i, pos.getX(i) / table.width + 0.5, pos.getY(i) / table.height + 0.5)
+  }
+  uv.needsUpdate = true
+  return geo
+}
+
+/** Edges of the board's 2 cm thickness, centred on the table surface; seams between boards show. */
+export function TableBorder(table: Shaped) {
+  const solid = new THREE.ExtrudeGeometry(tableShapes(table), { depth: 0.02, bevelEnabled: false })
+  // 15° so the facets of a round board don't each draw an edge
+  const edges = new THREE.EdgesGeometry(solid, 15)
+  solid.dispose()
+  const border = new THREE.LineSegments(edges, new THREE.LineBasicMaterial({ color: 0x2c3a50 }))
+  border.rotation.x = -Math.PI / 2
+  border.position.y = -0.01
+  return border
+}
+
+const DOWN = new THREE.Vector3(0, -1, 0)
+
+/**
+ * Height of the highest surface below (x, z) among `targets`, or 0 for the table.
+ * Samples the centre plus the four corners of a footprint so a piece straddling
+ * an edge rests on whatever is tallest underneath it. Rays start at `fromY`.
+ */
+export function surfaceHeightBelow(
+  targets: THREE.Object3D[],
+  x: number,
+  z: number,
+  halfX: number,
+  halfZ: number,
+  fromY = 100
+) {
+  if (targets.length === 0) return 0
+  const raycaster = new THREE.Raycaster()
+  raycaster.layers.enable(PICK_LAYER)
+  const ix = halfX * 0.8, iz = halfZ * 0.8 // inset so touching neighbours don't count
+  const samples = [[0, 0], [-ix, -iz], [ix, -iz], [-ix, iz], [ix, iz]]
+  let height = 0
+  for (const [dx, dz] of samples) {
+    raycaster.set(new THREE.Vector3(x + dx, fromY, z + dz), DOWN)
+    const hit = raycaster.intersectObjects(targets, true)
+      .find(h => (h.object as THREE.Mesh).visible && !h.object.userData.isHitbox)
+    if (hit) height = Math.max(height, hit.point.y)
+  }
+  return height
+}
+
+/** Line between two points with a marker at each end (ruler / line of sight overlay). */
+export function MeasureLine(from: THREE.Vector3, to: THREE.Vector3, color: number) {
+  const group = new THREE.Group()
+  const geo = new THREE.BufferGeometry().setFromPoints([from, to])
+  // drawn over the terrain so the line stays readable where it passes behind pieces
+  const lineMat = new THREE.LineBasicMaterial({ color, depthTest: false })
+  const line = new THREE.Line(geo, lineMat)
+  line.renderOrder = 10
+  group.add(line)
+  const markerGeo = new THREE.SphereGeometry(0.006, 12, 8)
+  const markerMat = new THREE.MeshBasicMaterial({ color, depthTest: false })
+  for (const p of [from, to]) {
+    const marker = new THREE.Mesh(markerGeo, markerMat)
+    marker.position.copy(p)
+    marker.renderOrder = 10
+    group.add(marker)
+  }
+  return group
+}
+
+/** Flat ring marking where a collaborator's pointer is on the table. */
+export function PeerCursor(color: string) {
+  const group = new THREE.Group()
+  const mat = new THREE.MeshBasicMaterial({ color, depthTest: false, side: THREE.DoubleSide })
+  const ring = new THREE.Mesh(new THREE.RingGeometry(0.012, 0.018, 24), mat)
+  const dot = new THREE.Mesh(new THREE.CircleGeometry(0.004, 12), mat)
+  for (const m of [ring, dot]) {
+    m.rotation.x = -Math.PI / 2
+    m.renderOrder = 10
+    group.add(m)
+  }
+  return group
+}
+
+/**
+ * Everything among `targets` the straight line from `from` to `to` passes through,
+ * nearest first. Hitboxes are skipped so windows and gaps in a model stay see-through.
+ */
+export function sightBlockers(targets: THREE.Object3D[], from: THREE.Vector3, to: THREE.Vector3) {
+  const distance = from.distanceTo(to)
+  if (targets.length === 0 || distance === 0) return []
+  const raycaster = new THREE.Raycaster(from, to.clone().sub(from).normalize(), 0, distance)
+  raycaster.layers.enable(PICK_LAYER)
+  return raycaster.intersectObjects(targets, true)
+    .filter(h => (h.object as THREE.Mesh).visible && !h.object.userData.isHitbox)
+    .map(h => h.object)
+}
+
+// Deployment zone tint per side; sides past the palette fall back to grey
+const SIDE_COLORS = [0x4da3ff, 0xe05757, 0x3fbf5a, 0xffd166]
+const OVERLAY_Y = 0.0015 // just above the grid lines
+
+/** Flat, non-pickable drawing of a scenario: zones, objective circles and no-man's-land lines. */
+export function ScenarioOverlay(scenario: Scenario, width: number, height: number) {
+  const group = new THREE.Group()
+  group.userData.isScenarioOverlay = true
+
+  for (const zone of scenario.zones) {
+    const color = SIDE_COLORS[zone.side] ?? 0x9fb2c8
+    const pts = zonePolygon(zone, { width, height })
+    // shape is drawn in XY, then laid flat so +Y becomes +Z on the table
+    const shape = new THREE.Shape(pts.map(p => new THREE.Vector2(p.x, -p.z)))
+    const fill = new THREE.Mesh(
+      new THREE.ShapeGeometry(shape),
+      new THREE.MeshBasicMaterial({ color, transparent: true, opacity: 0.18, depthWrite: false, side: THREE.DoubleSide })
+    )
+    fill.rotation.x = -Math.PI / 2
+    fill.position.y = OVERLAY_Y
+    const outline = new THREE.LineLoop(
+      new THREE.BufferGeometry().setFromPoints(pts.map(p => new THREE.Vector3(p.x, OVERLAY_Y, p.z))),
+      new THREE.LineBasicMaterial({ color })
+    )
+    group.add(fill, outline)
+  }
+
+  const objectiveMat = new THREE.MeshBasicMaterial({ color: 0xffd166, depthWrite: false, side: THREE.DoubleSide })
+  const radiusMat = new THREE.LineBasicMaterial({ color: 0xffd166 })
+  for (const obj of scenario.objectives) {
+    const marker = new THREE.Mesh(new THREE.CircleGeometry(0.02, 24), objectiveMat)
+    marker.rotation.x = -Math.PI / 2
+    marker.position.set(obj.position.x, OVERLAY_Y, obj.position.z)
+    group.add(marker)
+    if (obj.radius > 0) {
+      // control radius is measured from the marker's edge, as on the tabletop
+      const r = obj.radius + 0.02
+      const ring: THREE.Vector3[] = []
+      for (let i = 0; i < 64; i++) {
+        const a = (i / 64) * Math.PI * 2
+        ring.push(new THREE.Vector3(obj.position.x + Math.cos(a) * r, OVERLAY_Y, obj.position.z + Math.sin(a) * r))
+      }
+      group.add(new THREE.LineLoop(new THREE.BufferGeometry().setFromPoints(ring), radiusMat))
+    }
+  }
+
+  const lineMat = new THREE.LineDashedMaterial({ color: 0xe6edf5, dashSize: 0.03, gapSize: 0.02 })
+  for (const l of scenario.lines) {
+    const line = new THREE.Line(
+      new THREE.BufferGeometry().setFromPoints([
+        new THREE.Vector3(l.from.x, OVERLAY_Y, l.from.z),
+        new THREE.Vector3(l.to.x, OVERLAY_Y, l.to.z),
+      ]),
+      lineMat
+    )
+    line.computeLineDistances()
+    group.add(line)
+  }
+
+  // overlays never block picking, measuring or drop raycasts
+  group.traverse(o => { o.raycast = () => {} })
+  return group
+}
@@ -0,0 +1,203 @@
+// src/scene/instancing.ts
+// Repeated pieces drawn as one InstancedMesh per model part instead of a scene graph each.
+// Every piece keeps its own object for picking, the gizmo and outlines, moved to a layer
+// the camera doesn't draw; the batches draw it instead, choosing a level of detail per
+// piece from its distance to the camera and skipping pieces outside the view.
+import * as THREE from 'three'
+import type { Asset } from '@core/assets'
+import { loadGLTFScene } from '@core/assets'
+
+// Raycasters enable this layer; the camera never does
+export const PICK_LAYER = 1
+
+// A piece drops to LOD n once the camera is more than LOD_SIZE_MULTIPLES[n - 1] times its size away
+const LOD_SIZE_MULTIPLES = [6, 14]
+// A lone piece isn't worth a batch
+const MIN_BATCH_SIZE = 2
+
+// A mesh of the model, posed relative to the model root
+type Part = { geometry: THREE.BufferGeometry; material: THREE.Material | THREE.Material[]; matrix: THREE.Matrix4 }
+
+type Piece = {
+  object: THREE.Object3D
+  model: THREE.Matrix4   // model root, world space
+  centre: THREE.Vector3
+  radius: number
+}
+
+type Batch = {
+  asset: Asset
+  objects: THREE.Object3D[]   // what the batch was built from, to tell when it is stale
+  pieces: Piece[]
+  size: number
+  levels: Array<{ parts: Part[]; meshes: THREE.InstancedMesh[] }>
+}
+
+export type BatchablePiece = { asset: Asset; object: THREE.Object3D }
+
+// LOD models by URL once loaded; null while loading or if loading failed
+const lodParts = new Map<string, Part[] | null>()
+
+function partsOf(root: THREE.Object3D): Part[] {
+  root.updateMatrixWorld(true)
+  const toRoot = root.matrixWorld.clone().invert()
+  const parts: Part[] = []
+  root.traverse((child) => {
+    const mesh = child as THREE.Mesh
+    if (!mesh.isMesh || mesh.userData.isHitbox) return
+    parts.push({ geometry: mesh.geometry, material: mesh.material, matrix: toRoot.clone().multiply(mesh.matrixWorld) })
+  })
+  return parts
+}
+
+// The loaded model inside a placeholder, once it has swapped in
+function modelOf(object: THREE.Object3D) {
+  return object.children.find(c => c.userData.isModel) ?? null
+}
+
+function setDrawn(object: THREE.Object3D, drawn: boolean) {
+  object.traverse((child) => {
+    if (child.userData.isHitbox) return
+    if (drawn) child.layers.set(0)
+    else child.layers.set(PICK_LAYER)
+  })
+}
+
+function sameObjects(a: THREE.Object3D[], b: THREE.Object3D[]) {
+  return a.length === b.length && a.every((object, i) => object === b[i])
+}
+
+/**
+ * Batches for the stage. `rebuild` takes the pieces that may be batched (the stage leaves
+ * out whatever is selected, since the gizmo moves those) and only rebuilds the batches of
+ * assets whose pieces, asset or loaded LODs changed; pieces are expected to be new objects
+ * whenever they move. `update` runs every frame and only does work when the camera has
+ * moved or the batches changed. `onChange` fires when an LOD model finishes loading, so
+ * the caller can rebuild with it.
+ */
+export function createInstanceBatcher(root: THREE.Group, onChange: () => void) {
+  const batches = new Map<string, Batch>()   // by asset id
+  let dirty = true
+  const lastView = new THREE.Matrix4()
+  const frustum = new THREE.Frustum()
+  const viewProjection = new THREE.Matrix4()
+  const matrix = new THREE.Matrix4()
+
+  function drop(batch: Batch) {
+    batch.levels.forEach(level => level.meshes.forEach((mesh) => {
+      root.remove(mesh)
+      mesh.dispose()
+    }))
+    batch.objects.forEach(object => setDrawn(object, true))
+  }
+
+  function clear() {
+    batches.forEach(drop)
+    batches.clear()
+  }
+
+  // Levels of detail ready for this asset: the full model, then each LOD until one isn't loaded
+  function levelsFor(asset: Asset, full: Part[]) {
+    const levels = [full]
+    for (const url of asset.lods ?? []) {
+      if (!lodParts.has(url)) {
+        lodParts.set(url, null)
+        loadGLTFScene(url)
+          .then((scene) => {
+            lodParts.set(url, partsOf(scene))
+            onChange()
+          })
+          .catch(error => console.warn(`LOD model failed to load, keeping the finer level: ${url}`, error))
+      }
+      const parts = lodParts.get(url)
+      if (!parts) break
+      levels.push(parts)
+    }
+    return levels
+  }
+
+  function build(asset: Asset, objects: THREE.Object3D[], levels: Part[][]): Batch {
+    const batch: Batch = {
+      asset,
+      objects,
+      pieces: objects.map((object) => {
+        object.updateMatrixWorld(true)
+        const sphere = new THREE.Box3().setFromObject(object).getBoundingSphere(new THREE.Sphere())
+        return { object, model: modelOf(object)!.matrixWorld.clone(), centre: sphere.center, radius: sphere.radius }
+      }),
+      size: Math.max(asset.aabb.x, asset.aabb.y, asset.aabb.z),
+      levels: levels.map(parts => ({
+        parts,
+        meshes: parts.map((part) => {
+          const mesh = new THREE.InstancedMesh(part.geometry, part.material, objects.length)
+          mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+          mesh.count = 0
+          root.add(mesh)
+          return mesh
+        }),
+      })),
+    }
+    objects.forEach(object => setDrawn(object, false))
+    return batch
+  }
+
+  function rebuild(pieces: BatchablePiece[]) {
+    const byAsset = new Map<string, { asset: Asset; objects: THREE.Object3D[] }>()
+    for (const piece of pieces) {
+      if (!modelOf(piece.object)) continue // still a proxy box
+      const group = byAsset.get(piece.asset.id)
+      if (group) group.objects.push(piece.object)
+      else byAsset.set(piece.asset.id, { asset: piece.asset, objects: [piece.object] })
+    }
+
+    for (const [assetId, batch] of batches) {
+      if ((byAsset.get(assetId)?.objects.length ?? 0) >= MIN_BATCH_SIZE) continue
+      drop(batch)
+      batches.delete(assetId)
+      dirty = true
+    }
+
+    for (const { asset, objects } of byAsset.values()) {
+      if (objects.length < MIN_BATCH_SIZE) continue
+      const levels = levelsFor(asset, partsOf(modelOf(objects[0])!))
+      const current = batches.get(asset.id)
+      if (current && current.asset === asset && current.levels.length === levels.length && sameObjects(current.objects, objects)) {
+        continue
+      }
+      if (current) drop(current)
+      batches.set(asset.id, build(asset, objects, levels))
+      dirty = true
+    }
+  }
+
+  function update(camera: THREE.PerspectiveCamera) {
+    viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+    if (!dirty && viewProjection.equals(lastView)) return
+    lastView.copy(viewProjection)
+    dirty = false
+    frustum.setFromProjectionMatrix(viewProjection)
+    const sphere = new THREE.Sphere()
+
+    for (const batch of batches.values()) {
+      batch.levels.forEach(level => level.meshes.forEach(m => { m.count = 0 }))
+      const thresholds = LOD_SIZE_MULTIPLES.slice(0, batch.levels.length - 1).map(k => k * batch.size)
+      for (const piece of batch.pieces) {
+        // culled per piece: a batch spans the table, so culling it whole would never skip anything
+        if (!frustum.intersectsSphere(sphere.set(piece.centre, piece.radius))) continue
+        const distance = camera.position.distanceTo(piece.centre)
+        const level = batch.levels[thresholds.filter(t => distance > t).length]
+        level.parts.forEach((part, i) => {
+          const mesh = level.meshes[i]
+          mesh.setMatrixAt(mesh.count++, matrix.multiplyMatrices(piece.model, part.matrix))
+        })
+      }
+      batch.levels.forEach(level => level.meshes.forEach((m) => {
+        m.instanceMatrix.needsUpdate = true
+        m.visible = m.count > 0
+        if (m.count > 0) m.computeBoundingSphere()
+      }))
+    }
+  }
+
+  return { rebuild, update, dispose: clear }
+}
@@ -2,7 +2,9 @@
 import * as THREE from 'three'
 import type { Asset } from '@core/assets'
 import { loadGLTFScene, measureObjectAABB, deriveFootprint } from '@core/assets'
+import { maskRects } from '@core/mask'
 import { useAppStore } from '@state/store'
+import { PICK_LAYER } from './instancing'
 
 // Tints to show validity during placement (ThreeStage already calls setGhostValid)
 const VALID_COLOR = 0x3fbf5a
@@ -20,8 +22,23 @@ export function setGhostValid(obj: THREE.Object3D, valid: boolean) {
   })
 }
 
+// Flat tiles over the area an asset's occupancy mask blocks, drawn under the ghost.
+// Built in asset-local space, so it follows the ghost's rotation when parented to it.
+export function buildMaskOverlay(asset: Asset): THREE.Object3D | null {
+  if (!asset.occupancy) return null
+  const group = new THREE.Group()
+  const mat = new THREE.MeshBasicMaterial({ color: NEUTRAL_COLOR, transparent: true, opacity: 0.5, depthWrite: false })
+  for (const r of maskRects(asset.occupancy, asset.aabb)) {
+    const tile = new THREE.Mesh(new THREE.PlaneGeometry(r.x1 - r.x0, r.z1 - r.z0), mat)
+    tile.rotation.x = -Math.PI / 2
+    tile.position.set((r.x0 + r.x1) / 2, 0, (r.z0 + r.z1) / 2)
+    group.add(tile)
+  }
+  return group
+}
+
 // Synchronous proxy right away, then swaps to model if available.
-export function buildPlaceholderFor(asset: Asset): THREE.Object3D {
+export function buildPlaceholderFor(asset: Asset, onModelReady?: () => void): THREE.Object3D {
   // 1) Immediate proxy (box) using whatever AABB we know now (or a safe default)
   const aabb = asset.aabb ?? { x: 0.1, y: 0.1, z: 0.1 }
   const geo = new THREE.BoxGeometry(aabb.x, aabb.y, aabb.z)
@@ -42,6 +59,7 @@ export function buildPlaceholderFor(asset: Asset): THREE.Object3D {
   const hitbox = new THREE.Mesh(hitboxGeo, hitboxMat)
   hitbox.position.y = aabb.y / 2 // same position as placeholder
   hitbox.userData.isHitbox = true
+  hitbox.layers.set(PICK_LAYER) // picked, never drawn
   group.add(hitbox)
 
   // 2) If a GLB is defined, load it and swap in once available
@@ -134,12 +152,14 @@ export function buildPlaceholderFor(asset: Asset): THREE.Object3D {
         // Center the model geometry within the group
         // Offset the model so its center is at the group's origin
         model.position.sub(center)
+        model.userData.isModel = true
 
         group.add(model)
         console.log(`✓ Model added to group, group now has ${group.children.length} children`)
         console.log(`✓ Model centered at group origin`)
         console.log(`✓ Model height: ${height.toFixed(4)}, bottom offset: ${(height / 2).toFixed(4)}`)
         console.log(`✓ Model placed for asset ${asset.id}:`, { measured, footprint: asset.footprint })
+        onModelReady?.()
       } catch (error) {
         console.error(`✗ Error placing model for asset ${asset.id}:`, error)
       }
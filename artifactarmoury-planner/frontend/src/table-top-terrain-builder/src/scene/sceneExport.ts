@@ -0,0 +1,143 @@
+// src/scene/sceneExport.ts
+// Whole table as one GLB for other 3D tools: the board plus every placed piece, sized and
+// posed the way ThreeStage shows it. Pieces that repeat share their meshes through
+// EXT_mesh_gpu_instancing, so a table of forty identical crates stores one crate.
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import type { Asset } from '@core/assets'
+import { loadGLTFScene, measureObjectAABB } from '@core/assets'
+import type { Instance, Table } from '@state/store'
+import { tableShapes } from './helpers'
+
+const BOARD_THICKNESS = 0.02
+const BOARD_COLOR = 0x3b4a3a
+const PROXY_COLOR = 0x9fb2c8
+
+// One mesh of an asset, baked into piece-local space: centred on the piece, at its final size
+type Part = { name: string; geometry: THREE.BufferGeometry; material: THREE.Material | THREE.Material[] }
+type Prototype = { asset: Asset; parts: Part[]; height: number }
+
+/**
+ * Meshes for one asset, scaled to its AABB like the stage does (with X and Z swapped for
+ * `swapXZ`) and centred, so each instance only needs a rigid transform. Assets without a
+ * model, or whose model fails to load, fall back to a box the size of their AABB.
+ */
+async function buildPrototype(asset: Asset, swapXZ: boolean): Promise<Prototype> {
+  const aabb = asset.aabb ?? { x: 0.1, y: 0.1, z: 0.1 }
+  if (asset.model) {
+    try {
+      const source = await loadGLTFScene(asset.model)
+      source.updateMatrixWorld(true)
+      const measured = measureObjectAABB(source)
+      const scale = new THREE.Vector3(
+        measured.x > 0 ? aabb.x / measured.x : 1,
+        measured.y > 0 ? aabb.y / measured.y : 1,
+        measured.z > 0 ? aabb.z / measured.z : 1
+      )
+      if (swapXZ) [scale.x, scale.z] = [scale.z, scale.x]
+      const centre = new THREE.Box3().setFromObject(source).getCenter(new THREE.Vector3())
+      const toLocal = new THREE.Matrix4().makeScale(scale.x, scale.y, scale.z)
+        .multiply(new THREE.Matrix4().makeTranslation(-centre.x, -centre.y, -centre.z))
+
+      const parts: Part[] = []
+      source.traverse((child) => {
+        const mesh = child as THREE.Mesh
+        if (!mesh.isMesh || !mesh.visible) return
+        const geometry = mesh.geometry.clone().applyMatrix4(toLocal.clone().multiply(mesh.matrixWorld))
+        parts.push({ name: mesh.name || asset.name, geometry, material: mesh.material })
+      })
+      if (parts.length > 0) return { asset, parts, height: measured.y * scale.y }
+    } catch (error) {
+      console.warn(`Scene export: using a box for ${asset.id}, model failed to load`, error)
+    }
+  }
+  const geometry = new THREE.BoxGeometry(aabb.x, aabb.y, aabb.z)
+  const material = new THREE.MeshStandardMaterial({ color: PROXY_COLOR })
+  return { asset, parts: [{ name: asset.name, geometry, material }], height: aabb.y }
+}
+
+// Pose of a piece: rotated about its centre, which sits half its height above its base
+function instanceMatrix(inst: Instance, height: number) {
+  const rotation = new THREE.Euler(
+    THREE.MathUtils.degToRad(inst.rotationX ?? 0),
+    THREE.MathUtils.degToRad(inst.rotationDeg),
+    THREE.MathUtils.degToRad(inst.rotationZ ?? 0),
+    'XYZ'
+  )
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(inst.position.x, (inst.elevation ?? 0) + height / 2, inst.position.z),
+    new THREE.Quaternion().setFromEuler(rotation),
+    new THREE.Vector3(1, 1, 1)
+  )
+}
+
+function buildBoard(table: Table) {
+  // shaped tables are their outline extruded down from the surface
+  const geometry = table.outline
+    ? new THREE.ExtrudeGeometry(tableShapes(table), { depth: BOARD_THICKNESS, bevelEnabled: false })
+        .rotateX(-Math.PI / 2)
+        .translate(0, -BOARD_THICKNESS / 2, 0)
+    : new THREE.BoxGeometry(table.width, BOARD_THICKNESS, table.height)
+  const board = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial({ color: BOARD_COLOR, roughness: 0.9 }))
+  board.name = 'Table'
+  board.position.y = -BOARD_THICKNESS / 2 // top face is the table surface
+  board.userData = { width: table.width, depth: table.height, gridSize: table.gridSize, gridType: table.gridType ?? 'square' }
+  return board
+}
+
+/**
+ * Build the table scene and serialise it as binary glTF. Nodes are named after their
+ * asset; extras carry the asset id and the instance id (or ids, in instance order, for
+ * an instanced node) so pieces can be traced back to the layout.
+ */
+export async function exportSceneGLB(instances: Instance[], assets: Asset[], table: Table): Promise<ArrayBuffer> {
+  const assetsById = new Map(assets.map(a => [a.id, a]))
+  const root = new THREE.Scene()
+  root.name = 'Terrain table'
+  root.add(buildBoard(table))
+
+  // the same asset swapped and unswapped has differently scaled meshes
+  const groups = new Map<string, { asset: Asset; swapXZ: boolean; members: Instance[] }>()
+  for (const inst of instances) {
+    const asset = assetsById.get(inst.assetId)
+    if (!asset) continue
+    const key = `${asset.id}|${inst.swapXZ ? 1 : 0}`
+    const group = groups.get(key)
+    if (group) group.members.push(inst)
+    else groups.set(key, { asset, swapXZ: Boolean(inst.swapXZ), members: [inst] })
+  }
+
+  const created: THREE.BufferGeometry[] = []
+  for (const { asset, swapXZ, members } of groups.values()) {
+    const prototype = await buildPrototype(asset, swapXZ)
+    prototype.parts.forEach(p => created.push(p.geometry))
+
+    const node = new THREE.Group()
+    node.name = asset.name
+    if (members.length === 1) {
+      node.applyMatrix4(instanceMatrix(members[0], prototype.height))
+      node.userData = { assetId: asset.id, instanceId: members[0].id }
+      for (const part of prototype.parts) {
+        const mesh = new THREE.Mesh(part.geometry, part.material)
+        mesh.name = part.name
+        node.add(mesh)
+      }
+    } else {
+      node.userData = { assetId: asset.id, instanceIds: members.map(m => m.id) }
+      for (const part of prototype.parts) {
+        const mesh = new THREE.InstancedMesh(part.geometry, part.material, members.length)
+        mesh.name = part.name
+        members.forEach((inst, i) => mesh.setMatrixAt(i, instanceMatrix(inst, prototype.height)))
+        node.add(mesh)
+      }
+    }
+    root.add(node)
+  }
+
+  try {
+    const result = await new GLTFExporter().parseAsync(root, { binary: true })
+    return result as ArrayBuffer
+  } finally {
+    created.forEach(g => g.dispose())
+  }
+}
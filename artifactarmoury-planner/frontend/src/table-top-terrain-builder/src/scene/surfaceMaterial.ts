@@ -0,0 +1,73 @@
+// src/scene/surfaceMaterial.ts
+// The table's material with painted ground splatted over the board colour. One texel per
+// surface cell holds a weight per ground type (RGBA = grass, sand, urban, water); linear
+// filtering blends neighbouring cells so painted edges come out soft.
+import * as THREE from 'three'
+import { GROUND_TYPES, surfaceCells } from '@core/surface'
+import type { Surface } from '@core/surface'
+
+// Fine speckle so painted ground doesn't read as flat colour
+const GRAIN_CELLS = 1024.0
+const WATER_ROUGHNESS = 0.25
+
+function splatTexture(cols: number, rows: number) {
+  const texture = new THREE.DataTexture(new Uint8Array(cols * rows * 4), cols, rows, THREE.RGBAFormat)
+  texture.magFilter = THREE.LinearFilter
+  texture.minFilter = THREE.LinearFilter
+  texture.needsUpdate = true
+  return texture
+}
+
+export function createSurfaceMaterial(params: THREE.MeshStandardMaterialParameters) {
+  const material = new THREE.MeshStandardMaterial(params)
+  const splatMap = { value: splatTexture(1, 1) }
+  const groundColors = { value: GROUND_TYPES.map(g => new THREE.Color(g.color)) }
+
+  material.onBeforeCompile = (shader) => {
+    shader.uniforms.splatMap = splatMap
+    shader.uniforms.groundColors = groundColors
+    shader.vertexShader = shader.vertexShader
+      .replace('#include <common>', '#include <common>\nvarying vec2 vSplatUv;')
+      .replace('#include <uv_vertex>', '#include <uv_vertex>\nvSplatUv = uv;')
+    shader.fragmentShader = shader.fragmentShader
+      .replace('#include <common>', `#include <common>
+uniform sampler2D splatMap;
+uniform vec3 groundColors[${GROUND_TYPES.length}];
+varying vec2 vSplatUv;
+float splatGrain(vec2 p) { return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453); }`)
+      // the plane is laid flat, so v runs from +z to -z; surface rows run from -z
+      .replace('#include <color_fragment>', `#include <color_fragment>
+vec4 splat = texture2D(splatMap, vec2(vSplatUv.x, 1.0 - vSplatUv.y));
+float painted = clamp(splat.r + splat.g + splat.b + splat.a, 0.0, 1.0);
+vec3 ground = (groundColors[0] * splat.r + groundColors[1] * splat.g + groundColors[2] * splat.b + groundColors[3] * splat.a) / max(painted, 1e-3);
+ground *= 0.9 + 0.2 * splatGrain(floor(vSplatUv * ${GRAIN_CELLS.toFixed(1)}));
+diffuseColor.rgb = mix(diffuseColor.rgb, ground, painted);`)
+      .replace('#include <roughnessmap_fragment>', `#include <roughnessmap_fragment>
+roughnessFactor = mix(roughnessFactor, ${WATER_ROUGHNESS.toFixed(2)}, splat.a);`)
+  }
+
+  /** Show `surface` (or a bare board); the texture is reused while the grid size holds. */
+  function setSurface(surface: Surface | undefined) {
+    const cells = surface ? surfaceCells(surface) : null
+    const cols = cells ? surface!.cols : 1
+    const rows = cells ? surface!.rows : 1
+    let texture = splatMap.value
+    if (texture.image.width !== cols || texture.image.height !== rows) {
+      texture.dispose()
+      texture = splatMap.value = splatTexture(cols, rows)
+    }
+    const data = texture.image.data
+    data.fill(0)
+    cells?.forEach((cell, i) => {
+      if (cell > 0) data[i * 4 + cell - 1] = 255
+    })
+    texture.needsUpdate = true
+  }
+
+  function dispose() {
+    splatMap.value.dispose()
+    material.dispose()
+  }
+
+  return { material, setSurface, dispose }
+}
@@ -0,0 +1,246 @@
+// src/state/collaboration.ts
+// Live table editing over the server's WebSocket channel (/api/tables/:id/collab).
+// Local instance changes are diffed out of the store and sent as add/update/remove
+// operations; the server settles conflicts per instance and relays presence. Changes
+// made while the connection is down are held and sent once it is back.
+import toast from 'react-hot-toast'
+import { useAppStore } from './store'
+import type { Instance } from './store'
+import { readSessionId } from '@/utils/session'
+
+export type CollabCursor = { x: number; z: number }
+export type CollabPeer = {
+  clientId: string
+  name: string
+  color: string
+  canEdit: boolean
+  cursor: CollabCursor | null   // table coordinates (metres), null when off the table
+  selection: string[]
+}
+export type CollabStatus = 'offline' | 'connecting' | 'live' | 'view-only'
+
+type OpKind = 'add' | 'update' | 'remove'
+type InstanceChange = { id: string; instance: Instance | null }
+type PendingOp = { kind: OpKind; instance?: Instance }
+
+type ServerMessage =
+  | { type: 'welcome'; clientId: string; canEdit: boolean; peers: CollabPeer[]; instances: Array<{ instanceId: string; version: number; instance: Instance | null }> }
+  | { type: 'join' | 'presence'; peer: CollabPeer }
+  | { type: 'leave'; clientId: string }
+  | { type: 'op'; clientId: string; kind: OpKind; instanceId: string; instance: Instance | null; version: number }
+  | { type: 'ack'; opId: string; instanceId: string; version: number }
+  | { type: 'reject'; opId: string; instanceId: string; version: number; instance: Instance | null; reason?: string }
+  | { type: 'error'; error: string }
+
+const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL ?? '').replace(/\/$/, '')
+const PRESENCE_INTERVAL_MS = 50
+const RECONNECT_MAX_MS = 10_000
+
+let publishCursorImpl: ((cursor: CollabCursor | null) => void) | null = null
+
+/** Share the local pointer position on the table; a no-op when not collaborating. */
+export function publishCursor(cursor: CollabCursor | null) {
+  publishCursorImpl?.(cursor)
+}
+
+function collabUrl(tableId: string) {
+  const base = API_BASE_URL || window.location.origin
+  const url = new URL(`${base}/api/tables/${encodeURIComponent(tableId)}/collab`, window.location.href)
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+  const token = localStorage.getItem('terrain_builder_token')
+  const session = readSessionId()
+  if (token) url.searchParams.set('token', token)
+  if (session) url.searchParams.set('session', session)
+  return url.toString()
+}
+
+// Undo restores deep copies, so unchanged pieces come back as new objects
+function sameInstance(a: Instance, b: Instance) {
+  return a === b || JSON.stringify(a) === JSON.stringify(b)
+}
+
+function diffInstances(prev: Instance[], next: Instance[]): Array<{ kind: OpKind; id: string; instance?: Instance }> {
+  const before = new Map(prev.map(i => [i.id, i]))
+  const ops: Array<{ kind: OpKind; id: string; instance?: Instance }> = []
+  for (const inst of next) {
+    const old = before.get(inst.id)
+    before.delete(inst.id)
+    if (!old) ops.push({ kind: 'add', id: inst.id, instance: inst })
+    else if (!sameInstance(old, inst)) ops.push({ kind: 'update', id: inst.id, instance: inst })
+  }
+  for (const id of before.keys()) ops.push({ kind: 'remove', id })
+  return ops
+}
+
+/**
+ * Join the collaboration room for a table. Call once the saved layout is loaded, so
+ * the load itself isn't broadcast. Returns a function that leaves the room.
+ */
+export function connectCollaboration(tableId: string): () => void {
+  const store = useAppStore
+  const versions = new Map<string, number>()
+  let socket: WebSocket | null = null
+  let closed = false
+  let ready = false
+  let canEdit = false
+  let applyingRemote = false
+  let retryDelay = 1000
+  let retryTimer: number | undefined
+  let presenceTimer: number | undefined
+  let cursor: CollabCursor | null = null
+  let opCounter = 0
+  // latest unsent change per piece, while disconnected
+  const pending = new Map<string, PendingOp>()
+
+  const send = (message: Record<string, unknown>) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+  }
+
+  const sendOp = (id: string, op: PendingOp) => {
+    send({
+      type: 'op',
+      opId: `${++opCounter}`,
+      kind: op.kind,
+      instanceId: id,
+      baseVersion: versions.get(id) ?? 0,
+      instance: op.instance,
+    })
+  }
+
+  // Fold a change into the one already held for the piece: an add stays an add, and a
+  // piece added and removed offline was never there
+  const hold = (id: string, op: PendingOp) => {
+    const held = pending.get(id)
+    if (held?.kind === 'add' && op.kind === 'remove') pending.delete(id)
+    else pending.set(id, held?.kind === 'add' ? { kind: 'add', instance: op.instance } : op)
+  }
+
+  const sendPresence = () => {
+    presenceTimer = undefined
+    send({ type: 'presence', cursor, selection: store.getState().selectedInstanceIds })
+  }
+  // Cursor moves arrive per pointer event; batch them to one message per interval
+  const schedulePresence = () => {
+    if (presenceTimer === undefined) presenceTimer = window.setTimeout(sendPresence, PRESENCE_INTERVAL_MS)
+  }
+
+  const applyRemote = (changes: InstanceChange[]) => {
+    applyingRemote = true
+    try {
+      store.getState().actions.applyRemoteInstances(changes)
+    } finally {
+      applyingRemote = false
+    }
+  }
+
+  const setPeer = (peer: CollabPeer) => {
+    const peers = store.getState().peers
+    store.getState().setPeers(
+      peers.some(p => p.clientId === peer.clientId)
+        ? peers.map(p => (p.clientId === peer.clientId ? peer : p))
+        : [...peers, peer]
+    )
+  }
+
+  const handleMessage = (message: ServerMessage) => {
+    switch (message.type) {
+      case 'welcome': {
+        // a piece someone else changed while we were away is theirs; other held changes go up
+        const known = new Map(versions)
+        for (const entry of message.instances) {
+          if (entry.version > (known.get(entry.instanceId) ?? 0)) pending.delete(entry.instanceId)
+        }
+        versions.clear()
+        for (const entry of message.instances) versions.set(entry.instanceId, entry.version)
+        applyRemote(
+          message.instances
+            .filter(entry => !pending.has(entry.instanceId))
+            .map(entry => ({ id: entry.instanceId, instance: entry.instance }))
+        )
+        canEdit = message.canEdit
+        ready = true
+        retryDelay = 1000
+        if (canEdit) for (const [id, op] of pending) sendOp(id, op)
+        pending.clear()
+        store.getState().setPeers(message.peers)
+        store.getState().setCollabStatus(canEdit ? 'live' : 'view-only')
+        sendPresence()
+        break
+      }
+      case 'join':
+      case 'presence':
+        setPeer(message.peer)
+        break
+      case 'leave':
+        store.getState().setPeers(store.getState().peers.filter(p => p.clientId !== message.clientId))
+        break
+      case 'op':
+        versions.set(message.instanceId, message.version)
+        applyRemote([{ id: message.instanceId, instance: message.instance }])
+        break
+      case 'ack':
+        versions.set(message.instanceId, Math.max(message.version, versions.get(message.instanceId) ?? 0))
+        break
+      case 'reject':
+        // someone else's change to this piece won; take theirs
+        toast.error(message.reason ?? 'Someone else changed that piece first; their version was kept', { id: 'collab-reject' })
+        versions.set(message.instanceId, message.version)
+        applyRemote([{ id: message.instanceId, instance: message.instance }])
+        break
+      case 'error':
+        toast.error(`Live editing: ${message.error}`, { id: 'collab-error' })
+        break
+    }
+  }
+
+  const connect = () => {
+    store.getState().setCollabStatus('connecting')
+    const ws = new WebSocket(collabUrl(tableId))
+    socket = ws
+    ws.onmessage = (event) => {
+      try {
+        handleMessage(JSON.parse(event.data as string) as ServerMessage)
+      } catch {
+        toast.error('Live editing received an update it could not read', { id: 'collab-error' })
+      }
+    }
+    ws.onclose = () => {
+      ready = false
+      store.getState().setPeers([])
+      store.getState().setCollabStatus('offline')
+      if (closed) return
+      retryTimer = window.setTimeout(connect, retryDelay)
+      retryDelay = Math.min(retryDelay * 2, RECONNECT_MAX_MS)
+    }
+  }
+
+  const unsubscribe = store.subscribe((state, prev) => {
+    const live = ready && socket?.readyState === WebSocket.OPEN
+    // before the first welcome we don't know yet whether this user may edit
+    if (state.instances !== prev.instances && !applyingRemote && (canEdit || !live)) {
+      for (const op of diffInstances(prev.instances, state.instances)) {
+        if (live) sendOp(op.id, op)
+        else hold(op.id, op)
+      }
+    }
+    if (live && state.selectedInstanceIds !== prev.selectedInstanceIds) schedulePresence()
+  })
+
+  publishCursorImpl = (next) => {
+    cursor = next
+    if (ready) schedulePresence()
+  }
+
+  connect()
+
+  return () => {
+    closed = true
+    unsubscribe()
+    window.clearTimeout(retryTimer)
+    window.clearTimeout(presenceTimer)
+    publishCursorImpl = null
+    socket?.close()
+    store.getState().setPeers([])
+    store.getState().setCollabStatus('offline')
+  }
+}
@@ -0,0 +1,85 @@
+// src/state/commands.ts
+// What the commands in @core/commands do. The component that owns a behaviour registers
+// it while mounted; the one keydown listener here and the command palette both run
+// commands through this registry, using the current user's bindings.
+import { commandsForKey, formatKeys, keyFromEvent, resolveBindings } from '@core/commands'
+import type { CommandContext, ShortcutOverrides } from '@core/commands'
+import { useAppStore } from './store'
+
+export type CommandHandler = {
+  run: () => void
+  enabled?: () => boolean   // e.g. rotations that only work on a single piece
+}
+
+const handlers = new Map<string, CommandHandler>()
+
+/** Register handlers by command id; returns the unregister function (an effect cleanup). */
+export function registerCommands(map: Record<string, CommandHandler | (() => void)>) {
+  const added = Object.entries(map).map(([id, h]) => {
+    const handler = typeof h === 'function' ? { run: h } : h
+    handlers.set(id, handler)
+    return [id, handler] as const
+  })
+  return () => {
+    // a remounted owner may already have replaced its handler
+    for (const [id, handler] of added) if (handlers.get(id) === handler) handlers.delete(id)
+  }
+}
+
+/** 'placing' while a piece or prefab follows the cursor, else 'selection' when pieces are selected. */
+export function activeContext(): CommandContext | null {
+  const s = useAppStore.getState()
+  if (s.selectedAssetId || s.activePrefabId) return 'placing'
+  if (s.selectedInstanceIds.length > 0) return 'selection'
+  return null
+}
+
+export function canRunCommand(id: string) {
+  const handler = handlers.get(id)
+  return !!handler && (handler.enabled?.() ?? true)
+}
+
+/** Run a command if it's registered and enabled; true when it ran. */
+export function runCommand(id: string) {
+  if (!canRunCommand(id)) return false
+  handlers.get(id)!.run()
+  return true
+}
+
+let bindingsFor: { overrides: ShortcutOverrides; bindings: Map<string, string[]> } | null = null
+
+/** Each command's combos for the current user. */
+export function currentBindings() {
+  const overrides = useAppStore.getState().shortcuts
+  if (bindingsFor?.overrides !== overrides) bindingsFor = { overrides, bindings: resolveBindings(overrides) }
+  return bindingsFor.bindings
+}
+
+/** ' (Ctrl + Z)' for a button title, or '' when the command has no keys. */
+export function shortcutHint(id: string) {
+  const combo = currentBindings().get(id)?.[0]
+  return combo ? ` (${formatKeys(combo)})` : ''
+}
+
+function isTyping(target: EventTarget | null) {
+  const el = target as HTMLElement | null
+  return !!el && (el.isContentEditable || el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT')
+}
+
+function onKeyDown(e: KeyboardEvent) {
+  if (e.defaultPrevented || isTyping(e.target)) return
+  const combo = keyFromEvent(e)
+  if (!combo) return
+  for (const command of commandsForKey(currentBindings(), combo, activeContext())) {
+    if (runCommand(command.id)) {
+      e.preventDefault()
+      return
+    }
+  }
+}
+
+/** Listen for shortcuts on the window; returns the cleanup. */
+export function installShortcuts() {
+  window.addEventListener('keydown', onKeyDown)
+  return () => window.removeEventListener('keydown', onKeyDown)
+}
@@ -1,14 +1,60 @@
 // src/state/store.ts
 import { create } from 'zustand'
+import { z } from 'zod'
+import toast from 'react-hot-toast'
 import * as THREE from 'three'
 import type { Asset } from '../core/assets'
+import type { HexOrientation } from '../core/hex'
+import { OccupancyMaskSchema } from '../core/mask'
+import { ConnectorSchema } from '../core/connectors'
+import { BUILT_IN_PRESETS, ScenarioPresetSchema, ScenarioSchema, presetToScenario, scenarioToPreset } from '../core/scenario'
+import type { Scenario, ScenarioPreset } from '../core/scenario'
+import { DEFAULT_SURFACE_CELL, SurfaceSchema, paintSurface, resampleSurface } from '../core/surface'
+import type { GroundType, Surface } from '../core/surface'
+import { TableOutlineSchema, centreOutline, outlineBounds, scaleOutline } from '../core/tableShape'
+import type { TableOutline } from '../core/tableShape'
+import { ScaleProfileSchema, scaleAsset, scaleInfo } from '../core/scale'
+import type { ScaleProfile } from '../core/scale'
+import { ShortcutOverridesSchema } from '../core/commands'
+import type { ShortcutOverrides } from '../core/commands'
+import { generateLayout } from '../core/generator'
+import { isOnAxis, twinTransform } from '../core/symmetry'
+import type { SymmetryMode, TwinLink } from '../core/symmetry'
+import { groupFits, restingElevation, settleDependants } from '../core/occupancy'
+import { checkLayout } from '../core/rules'
+import type { RuleReport, RuleSet } from '../core/rules'
+import type { GeneratorOptions } from '../core/generator'
+import { isTTSSave, layoutToTTS, ttsToLayout } from '../core/tts'
+import type { TTSUnresolved } from '../core/tts'
+import type { CollabPeer, CollabStatus } from './collaboration'
+import { prefabFromInstances } from '../core/prefab'
+import { mergeLayouts, planSync } from '../core/layoutSync'
+import type { ConflictChoice, LayoutConflict, RemoteLayout } from '../core/layoutSync'
+import { tablesApi } from '@/api/endpoints/tables'
+import { setsApi } from '@/api/endpoints/sets'
+import type { AssetSetRecord, TableLayout, TableLayoutData } from '@/api/types'
 import apiClient from '@/api/client'
 import type { LibraryAsset } from '@/store/libraryStore'
 import type { BasketItem } from '../core/pricing'       // ← And this
 import { useCartStore } from '@/store/cartStore'
+import { useAuthStore } from '@/store/authStore'
+import { isOfflineError, useOfflineStore } from '@/store/offlineStore'
+import type { QueuedConflict } from '@/store/offlineStore'
 
 export type Unit = 'm'|'cm'|'ft'|'in'
-export type Table = { width: number; height: number; unitDisplay: Unit; gridSize: number }
+export type GridType = 'square' | 'hex'
+export type Table = {
+  width: number
+  height: number
+  unitDisplay: Unit
+  gridSize: number               // square: cell edge; hex: flat-to-flat width (metres)
+  gridType?: GridType            // defaults to 'square'
+  hexOrientation?: HexOrientation // hex grids only, defaults to 'flat'
+  scenario?: Scenario            // mission overlay (zones, objectives, lines); never printed
+  surface?: Surface              // painted ground; bare board when absent
+  outline?: TableOutline         // L-shaped, round or multi-board tables; width × height is its bounding box
+  scale?: ScaleProfile           // model scale pieces are shown and printed at; defaults to 28mm
+}
 
 export type Instance = {
   id: string
@@ -18,6 +64,51 @@ export type Instance = {
   rotationX?: number   // X axis rotation (tip forward/back)
   rotationZ?: number   // Z axis rotation (roll left/right)
   swapXZ?: boolean     // Swap X and Z dimensions
+  elevation?: number   // Height of the base above the table surface in metres (stacked pieces)
+  twin?: TwinLink      // Mirrored partner from symmetry mode; moves and deletes follow it
+}
+
+// Saved and synced layouts come from storage other builds (or people) may have written
+const InstanceSchema = z.object({
+  id: z.string().min(1),
+  assetId: z.string().min(1),
+  position: z.object({ x: z.number().finite(), z: z.number().finite() }),
+  rotationDeg: z.number().finite(),
+  rotationX: z.number().finite().optional(),
+  rotationZ: z.number().finite().optional(),
+  swapXZ: z.boolean().optional(),
+  elevation: z.number().finite().nonnegative().optional(),
+  twin: z.object({ id: z.string(), mode: z.enum(['mirror-x', 'mirror-z', 'point']) }).optional(),
+})
+
+// Stage tools: 'select' is normal editing, the others take over clicks on the table
+export type ToolMode = 'select' | 'ruler' | 'los' | 'paint'
+
+// Ground painting: null erases back to the bare board. cellSize is the grid a fresh
+// surface starts on; a painted table keeps its own until the resolution is changed.
+export type PaintBrush = { ground: GroundType | null; radius: number; cellSize: number }
+
+export type Point3 = { x: number; y: number; z: number }
+export type Measurement = {
+  from: Point3
+  to: Point3
+  distance: number     // metres, straight line between the points
+  blockers: string[]   // line of sight only: instances the line passes through
+}
+
+// Renderer cost, sampled by the stage a couple of times a second
+export type FrameStats = {
+  frameMs: number     // average time between frames
+  drawCalls: number
+  triangles: number
+}
+
+// 'native' is our own { table, instances } JSON; 'tts' is a Tabletop Simulator save
+export type LayoutFormat = 'native' | 'tts'
+export type LayoutImportReport = {
+  format: LayoutFormat
+  imported: number
+  unresolved: TTSUnresolved[]   // TTS objects that matched no library asset
 }
 
 export type SavedLayout = {
@@ -26,11 +117,23 @@ export type SavedLayout = {
   table: Table
   instances: Instance[]
   createdAt: number
+  updatedAt?: number        // last local change; layouts saved before sync existed only have createdAt
+  remoteId?: string         // the user's server table this layout syncs with
+  remoteUpdatedAt?: string  // that table's updated_at as of the last sync
+  syncedAt?: number         // local time of the last sync
+}
+
+export type LayoutSyncState = {
+  status: 'idle' | 'syncing' | 'error'
+  lastSyncedAt: number | null
+  conflicts: LayoutConflict[]   // changed on both sides, waiting for the user to choose
+  error: string | null
 }
 
 interface HistoryState {
   instances: Instance[]
   selectedInstanceId: string | null
+  selectedInstanceIds: string[]
 }
 
 interface AppState {
@@ -39,10 +142,21 @@ interface AppState {
   camera: THREE.PerspectiveCamera | null
   renderer: THREE.WebGLRenderer | null
 
-  assets: Asset[]
+  catalogue: Asset[]   // library assets as modelled (28mm)
+  assets: Asset[]      // the catalogue at the table's scale; everything on the stage uses these
   selectedAssetId: string | null
   instances: Instance[]
-  selectedInstanceId: string | null
+  selectedInstanceId: string | null   // primary (most recently selected) instance
+  selectedInstanceIds: string[]       // full multi-selection, includes the primary
+  // Pieces that overlap or leave the table since the model scale last changed
+  misfitInstanceIds: string[]
+
+  // Saved groups of pieces (asset sets of kind 'prefab'); the active one is being placed
+  prefabs: AssetSetRecord[]
+  activePrefabId: string | null
+
+  // Saved layouts (localStorage) against the user's server tables
+  layoutSync: LayoutSyncState
 
   basket: BasketItem[]
   purchasedAssetIds: Set<string>
@@ -55,20 +169,75 @@ interface AppState {
   // Camera modes
   cameraMode: 'perspective' | 'top-down' | 'isometric'
 
+  // Measuring tools
+  toolMode: ToolMode
+  losHeight: number               // eye height above the surface for line of sight (metres)
+  paintBrush: PaintBrush
+  measurement: Measurement | null
+
+  // New pieces get a linked mirrored twin unless this is 'off'
+  symmetry: SymmetryMode
+
+  // Active layout rule set and the latest report against it (null = checker off)
+  ruleSet: RuleSet | null
+  ruleReport: RuleReport | null
+
+  // Server table this builder session belongs to (tables.layout holds its saved state),
+  // and that table's updated_at as last loaded or saved; offline saves are made against it
+  activeTableId: string | null
+  activeTableUpdatedAt: string | null
+
+  // Live collaboration on the active table: connection state and the other people in it
+  collabStatus: CollabStatus
+  peers: CollabPeer[]
+
+  // Commands the signed-in user has rebound (see @core/commands); saved per user
+  shortcuts: ShortcutOverrides
+
+  frameStats: FrameStats | null
+
   setTable: (t: Partial<Table>) => void
   setRefs: (s: Partial<Pick<AppState,'scene'|'camera'|'renderer'>>) => void
   setSelectedAsset: (id: string | null) => void
+  setActivePrefab: (id: string | null) => void
   setSelectedInstance: (id: string | null) => void
+  setSelectedInstances: (ids: string[]) => void
+  toggleInstanceSelection: (id: string) => void
   setCameraMode: (mode: 'perspective' | 'top-down' | 'isometric') => void
+  setToolMode: (mode: ToolMode) => void
+  setLosHeight: (metres: number) => void
+  setPaintBrush: (brush: Partial<Omit<PaintBrush, 'cellSize'>>) => void
+  setMeasurement: (m: Measurement | null) => void
+  setActiveTableId: (id: string | null) => void
+  setSymmetry: (mode: SymmetryMode) => void
+  setRuleSet: (ruleSet: RuleSet | null) => void
+  setCollabStatus: (status: CollabStatus) => void
+  setFrameStats: (stats: FrameStats) => void
+  setPeers: (peers: CollabPeer[]) => void
+  setShortcut: (commandId: string, keys: string[]) => void
+  resetShortcuts: (commandId?: string) => void
 
   actions: {
     fitView: () => void
     loadAssetCatalogue: () => void
     addInstance: (i: Omit<Instance,'id'>) => void
+    addInstances: (list: Array<Omit<Instance,'id'>>) => string[]
     updateInstance: (id: string, patch: Partial<Omit<Instance,'id'|'assetId'>>) => void
     removeInstance: (id: string) => void
     clearInstances: () => void
     duplicateInstance: (id: string) => void
+
+    // Group operations (each is a single undo step)
+    updateInstances: (patches: Array<{ id: string; patch: Partial<Omit<Instance,'id'|'assetId'>> }>) => void
+    removeInstances: (ids: string[]) => void
+    duplicateInstances: (ids: string[]) => string[]
+    generateInstances: (options: GeneratorOptions, poolIds?: string[]) => number
+    loadPrefabs: () => Promise<void>
+    savePrefab: (name: string, options?: { description?: string; isPublic?: boolean }) => Promise<AssetSetRecord | null>
+    deletePrefab: (id: string) => Promise<void>
+    breakTwinLink: (id: string) => void
+    runRuleCheck: () => void
+    applyRemoteInstances: (changes: Array<{ id: string; instance: Instance | null }>) => void
     
     // Undo/Redo
     undo: () => void
@@ -81,8 +250,26 @@ interface AppState {
     loadLayout: (id: string) => void
     getSavedLayouts: () => SavedLayout[]
     deleteLayout: (id: string) => void
-    exportLayout: () => string
-    importLayout: (json: string) => void
+    exportLayout: (format?: LayoutFormat) => string
+    syncLayouts: () => Promise<void>
+    resolveLayoutConflict: (localId: string, choice: ConflictChoice) => Promise<void>
+    importLayout: (json: string) => LayoutImportReport | null
+
+    // Server table (tables.layout JSONB)
+    saveTableLayout: (message?: string) => Promise<void>
+    loadTableLayout: (tableId: string) => Promise<void>
+
+    // Painted ground
+    paintSurface: (points: Array<{ x: number; z: number }>) => void
+    setSurfaceResolution: (cellSize: number) => void
+    clearSurface: () => void
+
+    // Scenario overlay
+    setScenario: (scenario: Scenario | null) => void
+    applyScenarioPreset: (preset: ScenarioPreset) => void
+    getScenarioPresets: () => ScenarioPreset[]
+    saveScenarioPreset: (name: string) => void
+    deleteScenarioPreset: (id: string) => void
     
     // Basket
     addToBasket: (assetId: string, quantity?: number) => void
@@ -122,6 +309,19 @@ const normaliseDimension = (value?: number | null): number | undefined => {
   return numeric
 }
 
+// Masks come from the server as JSONB; anything malformed falls back to the full rectangle
+const normaliseOccupancyMask = (value: unknown) => {
+  if (!value) return undefined
+  const parsed = OccupancyMaskSchema.safeParse(value)
+  return parsed.success ? parsed.data : undefined
+}
+
+const normaliseConnectors = (value: unknown) => {
+  if (!Array.isArray(value) || value.length === 0) return undefined
+  const parsed = ConnectorSchema.array().safeParse(value)
+  return parsed.success ? parsed.data : undefined
+}
+
 const buildFootprint = (width: number, depth: number, gridSize = DEFAULT_GRID_SIZE) => {
   return {
     cols: Math.max(1, Math.ceil(width / gridSize)),
@@ -152,10 +352,13 @@ function convertLibraryAssetToSceneAsset(asset: LibraryAsset): Asset | null {
     tags,
     aabb: { x: width, z: depth, y: height },
     footprint: buildFootprint(width, depth),
+    occupancy: normaliseOccupancyMask(asset.occupancy_mask),
+    connectors: normaliseConnectors(asset.connectors),
     rotationStepDeg: 90,
     price: Number.isFinite(price) && price > 0 ? price : undefined,
     sku: asset.file_ref ?? undefined,
     model: glbUrl,
+    lods: asset.glb_lod_paths?.map(normaliseUploadUrl).filter((url): url is string => Boolean(url)),
     thumbnail: normaliseUploadUrl(asset.thumbnail_path ?? asset.preview_url),
     assetLibraryId: asset.id,
     sourceModelId: asset.modelId ?? asset.model_id ?? undefined,
@@ -164,7 +367,7 @@ function convertLibraryAssetToSceneAsset(asset: LibraryAsset): Asset | null {
   }
 }
 
-const syncCartWithModelCounts = (modelCounts: Map<string, { count: number; asset: Asset }>) => {
+const syncCartWithModelCounts = (modelCounts: Map<string, { count: number; asset: Asset }>, scale: ScaleProfile) => {
   const managedIds = new Set<string>([...builderManagedModelIds, ...modelCounts.keys()])
   const initialItems = useCartStore.getState().items
 
@@ -192,6 +395,7 @@ const syncCartWithModelCounts = (modelCounts: Map<string, { count: number; asset
           artistName: asset.artistName ?? 'Unknown Artist',
           price: asset.price ?? 0,
           imageUrl: asset.thumbnail,
+          scale,
         },
         { openCart: false },
       )
@@ -204,6 +408,9 @@ const syncCartWithModelCounts = (modelCounts: Map<string, { count: number; asset
     if (existing.quantity !== count) {
       useCartStore.getState().updateQuantity(modelId, count)
     }
+    if (existing.scale !== scale) {
+      useCartStore.getState().setItemScale(modelId, scale)
+    }
   })
 
   const updatedItems = useCartStore.getState().items
@@ -220,12 +427,219 @@ const syncCartWithModelCounts = (modelCounts: Map<string, { count: number; asset
   })
 }
 
+// Saved layouts, their sync state and rebound shortcuts are kept per user on this device;
+// signed-out sessions use the guest slot
+const storageOwner = () => useAuthStore.getState().user?.id ?? 'guest'
+
+const layoutsKey = () => `terrain_layouts:${storageOwner()}`
+// Server tables whose local layout was deleted while offline; removed on the next sync
+const deletedLayoutsKey = () => `terrain_layouts_deleted:${storageOwner()}`
+
+// Builds before per-user keys kept one list for whoever used the device. Nobody can say
+// whose it was, so it becomes the guest's, unlinked from any server table.
+const LEGACY_LAYOUTS_KEY = 'terrain_layouts'
+const LEGACY_DELETED_LAYOUTS_KEY = 'terrain_layouts_deleted'
+
+function adoptLegacyLayouts() {
+  try {
+    const saved = localStorage.getItem(LEGACY_LAYOUTS_KEY)
+    if (saved && !localStorage.getItem('terrain_layouts:guest')) {
+      const layouts: SavedLayout[] = JSON.parse(saved)
+      const local = layouts.map(({ remoteId: _id, remoteUpdatedAt: _at, syncedAt: _synced, ...layout }) => layout)
+      localStorage.setItem('terrain_layouts:guest', JSON.stringify(local))
+    }
+  } catch {
+    // unreadable; nothing worth keeping
+  }
+  localStorage.removeItem(LEGACY_LAYOUTS_KEY)
+  localStorage.removeItem(LEGACY_DELETED_LAYOUTS_KEY)
+}
+
+const newLayoutId = () => `layout_${Date.now()}_${Math.random().toString(36).slice(2,9)}`
+
+function readSavedLayouts(): SavedLayout[] {
+  const saved = localStorage.getItem(layoutsKey())
+  return saved ? JSON.parse(saved) : []
+}
+
+function writeSavedLayouts(layouts: SavedLayout[]) {
+  localStorage.setItem(layoutsKey(), JSON.stringify(layouts))
+}
+
+function readDeletedRemoteIds(): string[] {
+  const saved = localStorage.getItem(deletedLayoutsKey())
+  return saved ? JSON.parse(saved) : []
+}
+
+function writeDeletedRemoteIds(ids: string[]) {
+  if (ids.length) localStorage.setItem(deletedLayoutsKey(), JSON.stringify(ids))
+  else localStorage.removeItem(deletedLayoutsKey())
+}
+
+const shortcutsKey = () => `terrain_shortcuts:${storageOwner()}`
+
+// Anything unreadable (hand-edited, or from an older build) falls back to the defaults
+function readShortcuts(): ShortcutOverrides {
+  try {
+    const saved = localStorage.getItem(shortcutsKey())
+    if (!saved) return {}
+    const parsed = ShortcutOverridesSchema.safeParse(JSON.parse(saved))
+    return parsed.success ? parsed.data : {}
+  } catch {
+    return {}
+  }
+}
+
+function writeShortcuts(shortcuts: ShortcutOverrides) {
+  if (Object.keys(shortcuts).length) localStorage.setItem(shortcutsKey(), JSON.stringify(shortcuts))
+  else localStorage.removeItem(shortcutsKey())
+}
+
+// tables.layout: `models` is the summary the table pages read, `builder` the state the builder restores
+function tableLayoutData(table: Table, instances: Instance[]): TableLayoutData {
+  return {
+    models: instances.map(i => ({ modelId: i.assetId, x: i.position.x, y: i.position.z, rotation: i.rotationDeg })),
+    builder: { table, instances },
+  }
+}
+
+// The pieces of a stored layout that validate; a malformed entry is dropped, not loaded
+function parseInstances(value: unknown[]): Instance[] {
+  return value.flatMap(item => {
+    const parsed = InstanceSchema.safeParse(item)
+    return parsed.success ? [parsed.data] : []
+  })
+}
+
+/**
+ * A stored or imported table with its overlays validated: a scenario, surface, outline or
+ * scale that doesn't validate is dropped rather than loaded. Null when it has no usable
+ * size or grid. `outline` stands in when the table has none of its own.
+ */
+function parseTable(value: unknown, outline?: TableOutline): Table | null {
+  if (typeof value !== 'object' || value === null) return null
+  const raw = value as Table
+  const sized = [raw.width, raw.height, raw.gridSize].every(n => typeof n === 'number' && Number.isFinite(n) && n > 0)
+  if (!sized) return null
+  const scenario = raw.scenario ? ScenarioSchema.safeParse(raw.scenario) : null
+  const surface = raw.surface ? SurfaceSchema.safeParse(raw.surface) : null
+  const shape = TableOutlineSchema.safeParse(raw.outline ?? outline)
+  const scale = ScaleProfileSchema.safeParse(raw.scale)
+  return {
+    ...raw,
+    scenario: scenario?.success ? scenario.data : undefined,
+    surface: surface?.success ? surface.data : undefined,
+    outline: shape.success ? shape.data : undefined,
+    scale: scale.success ? scale.data : undefined,
+  }
+}
+
+// Server tables only sync if the builder saved them; others have no table settings to restore
+function toRemoteLayout(remote: TableLayout): RemoteLayout | null {
+  const builder = remote.layout.builder as { table?: Table; instances?: unknown[] } | undefined
+  if (!builder?.table || !Array.isArray(builder.instances)) return null
+  return { id: remote.id, name: remote.name, updatedAt: remote.updatedAt, table: builder.table, instances: parseInstances(builder.instances) }
+}
+
+// A refused save of a server table as a sync conflict: the layout this device tried to
+// save against the table as it is now
+function tableSaveConflict(
+  id: string,
+  layout: TableLayoutData,
+  savedAt: number,
+  baseUpdatedAt: string | undefined,
+  remote: TableLayout
+): LayoutConflict | null {
+  const builder = layout.builder as { table?: Table; instances?: unknown[] } | undefined
+  if (!builder?.table || !Array.isArray(builder.instances)) return null
+  const local: SavedLayout = {
+    id,
+    name: remote.name,
+    table: builder.table,
+    instances: parseInstances(builder.instances),
+    createdAt: savedAt,
+    updatedAt: savedAt,
+    remoteId: remote.id,
+    remoteUpdatedAt: baseUpdatedAt,
+  }
+  // a table the builder never saved has no pieces to keep
+  const current = toRemoteLayout(remote) ?? { id: remote.id, name: remote.name, updatedAt: remote.updatedAt, table: local.table, instances: [] }
+  return { local, remote: current }
+}
+
+function queuedLayoutConflict({ entry, remote }: QueuedConflict): LayoutConflict | null {
+  if (entry.change.kind !== 'table-layout') return null
+  return tableSaveConflict(entry.id, entry.change.layout, entry.queuedAt, entry.change.baseUpdatedAt, remote)
+}
+
+async function fetchRemoteLayouts(): Promise<RemoteLayout[]> {
+  const layouts: RemoteLayout[] = []
+  for (let page = 1; ; page++) {
+    const result = await tablesApi.getMyTables(page, 50)
+    result.tables.forEach(t => {
+      const remote = toRemoteLayout(t)
+      if (remote) layouts.push(remote)
+    })
+    if (page >= result.totalPages) return layouts
+  }
+}
+
+function fromRemote(remote: RemoteLayout, existing?: SavedLayout): SavedLayout {
+  const now = Date.now()
+  return {
+    id: existing?.id ?? newLayoutId(),
+    name: remote.name,
+    table: remote.table,
+    instances: remote.instances,
+    createdAt: existing?.createdAt ?? Date.parse(remote.updatedAt),
+    updatedAt: now,
+    remoteId: remote.id,
+    remoteUpdatedAt: remote.updatedAt,
+    syncedAt: now,
+  }
+}
+
+const isHttpStatus = (error: unknown, ...statuses: number[]) =>
+  statuses.includes((error as any)?.response?.status)
+
+/**
+ * Write a layout to its server table (creating one if it has none) and return it marked
+ * as synced. With `checkRemote` the save is refused (409) if the table changed since
+ * `remoteUpdatedAt`, rather than overwriting someone else's edit.
+ */
+async function pushLayout(layout: SavedLayout, checkRemote = false): Promise<SavedLayout> {
+  const payload = {
+    // the server wants at least three characters
+    name: layout.name.trim().length >= 3 ? layout.name.trim() : `Layout ${layout.name.trim()}`.trim(),
+    width: Math.round(layout.table.width * 1000),   // tables are sized in millimetres
+    depth: Math.round(layout.table.height * 1000),
+    outline: layout.table.outline ? scaleOutline(layout.table.outline, 1000) : null,
+    layout: tableLayoutData(layout.table, layout.instances),
+  }
+  const saved = layout.remoteId
+    ? await tablesApi.updateTable(layout.remoteId, payload, 'Synced from saved layouts', {
+        expectedUpdatedAt: checkRemote ? layout.remoteUpdatedAt : undefined,
+      })
+    : await tablesApi.createTable({ ...payload, isPublic: false })
+  return { ...layout, remoteId: saved.id, remoteUpdatedAt: saved.updatedAt, syncedAt: Date.now() }
+}
+
+// Selection helpers: the primary selection is always the last id in the list
+function selectionFrom(ids: string[]): Pick<AppState, 'selectedInstanceId'|'selectedInstanceIds'> {
+  const unique = Array.from(new Set(ids))
+  return {
+    selectedInstanceIds: unique,
+    selectedInstanceId: unique.length ? unique[unique.length - 1] : null
+  }
+}
+
 // Helper to save history
 function saveHistory(state: AppState): Partial<AppState> {
   const newHistory = state.history.slice(0, state.historyIndex + 1)
   newHistory.push({
     instances: JSON.parse(JSON.stringify(state.instances)),
-    selectedInstanceId: state.selectedInstanceId
+    selectedInstanceId: state.selectedInstanceId,
+    selectedInstanceIds: [...state.selectedInstanceIds]
   })
   
   // Limit history size
@@ -240,16 +654,105 @@ function saveHistory(state: AppState): Partial<AppState> {
   }
 }
 
+// Mirrored partner for a newly placed piece, or null when it would sit on the axis or
+// hit something (the table isn't necessarily symmetric yet)
+function placeTwin(inst: Instance, mode: TwinLink['mode'], state: AppState): Instance | null {
+  if (isOnAxis(inst, mode)) return null
+  const twin: Instance = {
+    ...inst,
+    ...twinTransform(inst, mode),
+    id: `i_${Math.random().toString(36).slice(2,10)}`,
+    twin: { id: inst.id, mode },
+  }
+  const assetsById = new Map(state.assets.map(a => [a.id, a]))
+  return groupFits([twin], [...state.instances, inst], assetsById, state.table) ? twin : null
+}
+
+// Re-mirror the twins of changed pieces. Twins are checked along with the edit; one that
+// no longer fits where the mirror puts it stays where it was and the pair is unlinked.
+function followTwins(state: AppState, instances: Instance[], changed: Set<string>): Instance[] {
+  const assetsById = new Map(state.assets.map(a => [a.id, a]))
+  const current = new Map(instances.map(i => [i.id, i]))
+  const unlinked = new Set<string>()
+  for (const inst of instances) {
+    if (!inst.twin || changed.has(inst.id) || !changed.has(inst.twin.id)) continue
+    const source = current.get(inst.twin.id)
+    if (!source) continue
+    const moved = { ...inst, ...twinTransform(source, inst.twin.mode) }
+    if (groupFits([moved], [...current.values()], assetsById, state.table)) {
+      current.set(inst.id, moved)
+    } else {
+      unlinked.add(inst.id)
+      unlinked.add(source.id)
+    }
+  }
+  return instances.map(inst => {
+    const next = current.get(inst.id)!
+    return unlinked.has(inst.id) ? { ...next, twin: undefined } : next
+  })
+}
+
+// Pieces stacked on ones that moved or went drop onto whatever is still under them
+function settle(state: AppState, instances: Instance[], changed: Set<string>): Instance[] {
+  const assetsById = new Map(state.assets.map(a => [a.id, a]))
+  return settleDependants(state.instances, instances, changed, assetsById, state.table)
+}
+
+// Cell offsets tried in turn for a duplicated group, nearest first
+const COPY_OFFSETS = [[1, 1], [1, -1], [-1, 1], [-1, -1], [2, 0], [0, 2], [-2, 0], [0, -2], [2, 2], [-2, -2]]
+
+// Copies of a group shifted clear of the originals, each dropped onto whatever is under
+// it the way the placement ghost is; null when no offset leaves the whole group free
+function placeCopies(sources: Instance[], state: AppState): Instance[] | null {
+  const assetsById = new Map(state.assets.map(a => [a.id, a]))
+  const g = state.table.gridSize
+  // lowest first, so a copy lands on the copy of whatever the original stood on
+  const ordered = [...sources].sort((a, b) => (a.elevation ?? 0) - (b.elevation ?? 0))
+  for (const [dx, dz] of COPY_OFFSETS) {
+    const copies: Instance[] = []
+    for (const inst of ordered) {
+      const { elevation: _old, ...rest } = JSON.parse(JSON.stringify(inst)) as Instance
+      const moved: Instance = {
+        ...rest,
+        id: `i_${Math.random().toString(36).slice(2,10)}`,
+        twin: undefined,
+        position: { x: inst.position.x + dx * g, z: inst.position.z + dz * g },
+      }
+      const elevation = restingElevation(moved, [...state.instances, ...copies], assetsById, state.table)
+      copies.push(elevation > 0 ? { ...moved, elevation } : moved)
+    }
+    if (groupFits(copies, [...state.instances, ...copies], assetsById, state.table)) return copies
+  }
+  return null
+}
+
+// Ids plus the ids of their linked twins
+function withTwinIds(instances: Instance[], ids: string[]): Set<string> {
+  const all = new Set(ids)
+  for (const inst of instances) {
+    if (all.has(inst.id) && inst.twin) all.add(inst.twin.id)
+  }
+  return all
+}
+
 export const useAppStore = create<AppState>((set, get) => ({
-  table: { width: 1.8288, height: 1.2192, unitDisplay: 'm', gridSize: 0.3048 },
+  table: { width: 1.8288, height: 1.2192, unitDisplay: 'm', gridSize: 0.3048, gridType: 'square', hexOrientation: 'flat' },
   scene: null,
   camera: null,
   renderer: null,
 
+  catalogue: [],
   assets: [],
   selectedAssetId: null,
   instances: [],
   selectedInstanceId: null,
+  selectedInstanceIds: [],
+  misfitInstanceIds: [],
+
+  prefabs: [],
+  activePrefabId: null,
+
+  layoutSync: { status: 'idle', lastSyncedAt: null, conflicts: [], error: null },
 
   basket: [],
   purchasedAssetIds: new Set(),
@@ -260,32 +763,101 @@ export const useAppStore = create<AppState>((set, get) => ({
 
   cameraMode: 'perspective',
 
-  setTable: (t) => set(s => ({ table: { ...s.table, ...t } })),
+  toolMode: 'select',
+  losHeight: 0.0254,
+  paintBrush: { ground: 'grass', radius: 0.05, cellSize: DEFAULT_SURFACE_CELL },
+  measurement: null,
+
+  symmetry: 'off',
+
+  ruleSet: null,
+  ruleReport: null,
+
+  activeTableId: null,
+  activeTableUpdatedAt: null,
+
+  collabStatus: 'offline',
+  peers: [],
+
+  shortcuts: readShortcuts(),
+
+  frameStats: null,
+
+  setTable: (t) => set(s => {
+    const table = { ...s.table, ...t }
+    // a new outline sizes the table; resizing a shaped table stretches the shape with it
+    if (t.outline) Object.assign(table, centreOutline(t.outline))
+    else if (table.outline && (table.width !== s.table.width || table.height !== s.table.height)) {
+      table.outline = scaleOutline(table.outline, table.width / s.table.width, table.height / s.table.height)
+    }
+    // paint stays where it was on the board when the table is resized
+    if (table.surface && (table.width !== s.table.width || table.height !== s.table.height)) {
+      table.surface = resampleSurface(table.surface, s.table, table, table.surface.cellSize)
+    }
+    return { table }
+  }),
   setRefs: (refs) => set(refs as any),
-  setSelectedAsset: (id) => set({ selectedAssetId: id }),
-  setSelectedInstance: (id) => set({ selectedInstanceId: id }),
+  // placing a single asset and placing a prefab are exclusive
+  setSelectedAsset: (id) => set(id ? { selectedAssetId: id, activePrefabId: null } : { selectedAssetId: null }),
+  setActivePrefab: (id) => set(id ? { activePrefabId: id, selectedAssetId: null } : { activePrefabId: null }),
+  setSelectedInstance: (id) => set({ selectedInstanceId: id, selectedInstanceIds: id ? [id] : [] }),
+  setSelectedInstances: (ids) => set(selectionFrom(ids)),
+  toggleInstanceSelection: (id) => set(s => {
+    const ids = s.selectedInstanceIds.includes(id)
+      ? s.selectedInstanceIds.filter(x => x !== id)
+      : [...s.selectedInstanceIds, id]
+    return selectionFrom(ids)
+  }),
   setCameraMode: (mode) => set({ cameraMode: mode }),
+  setToolMode: (mode) => set({ toolMode: mode, measurement: null }),
+  setLosHeight: (metres) => set({ losHeight: Math.max(0, metres) }),
+  setPaintBrush: (brush) => set(s => ({ paintBrush: { ...s.paintBrush, ...brush } })),
+  setMeasurement: (m) => set({ measurement: m }),
+  setActiveTableId: (id) => set(s => (id === s.activeTableId ? {} : { activeTableId: id, activeTableUpdatedAt: null })),
+  setSymmetry: (mode) => set({ symmetry: mode }),
+  setRuleSet: (ruleSet) => set({ ruleSet }),
+  setCollabStatus: (status) => set({ collabStatus: status }),
+  setFrameStats: (stats) => set({ frameStats: stats }),
+  setPeers: (peers) => set({ peers }),
+  setShortcut: (commandId, keys) => set(s => {
+    const shortcuts = { ...s.shortcuts, [commandId]: keys }
+    writeShortcuts(shortcuts)
+    return { shortcuts }
+  }),
+  resetShortcuts: (commandId) => set(s => {
+    const shortcuts = { ...s.shortcuts }
+    if (commandId) delete shortcuts[commandId]
+    else for (const id of Object.keys(shortcuts)) delete shortcuts[id]
+    writeShortcuts(shortcuts)
+    return { shortcuts }
+  }),
 
   actions: {
     fitView: () => {
       const { camera, renderer, table, cameraMode } = get()
       if (!camera || !renderer) return
       
-      const maxDim = Math.max(table.width, table.height)
+      // frame the board itself: a shaped table's outline, otherwise the whole rectangle
+      const bounds = table.outline
+        ? outlineBounds(table.outline)
+        : { minX: -table.width / 2, maxX: table.width / 2, minZ: -table.height / 2, maxZ: table.height / 2 }
+      const cx = (bounds.minX + bounds.maxX) / 2
+      const cz = (bounds.minZ + bounds.maxZ) / 2
+      const maxDim = Math.max(bounds.maxX - bounds.minX, bounds.maxZ - bounds.minZ)
       const distance = maxDim * 1.2 / Math.tan(THREE.MathUtils.degToRad(camera.fov/2))
       
       if (cameraMode === 'top-down') {
-        camera.position.set(table.width/2, distance * 0.8, table.height/2)
-        camera.lookAt(table.width/2, 0, table.height/2)
+        camera.position.set(cx, distance * 0.8, cz)
+        camera.lookAt(cx, 0, cz)
       } else if (cameraMode === 'isometric') {
-        camera.position.set(distance * 0.7, distance * 0.7, distance * 0.7)
-        camera.lookAt(table.width/2, 0, table.height/2)
+        camera.position.set(cx + distance * 0.7, distance * 0.7, cz + distance * 0.7)
+        camera.lookAt(cx, 0, cz)
       } else {
-        camera.position.set(maxDim*0.6, distance, distance)
-        camera.lookAt(table.width/2, 0, table.height/2)
+        camera.position.set(cx + maxDim*0.6, distance, cz + distance)
+        camera.lookAt(cx, 0, cz)
       }
       
-      ;(camera as any).controlsTarget?.set(table.width/2, 0, table.height/2)
+      ;(camera as any).controlsTarget?.set(cx, 0, cz)
       camera.updateProjectionMatrix()
     },
     
@@ -303,31 +875,61 @@ export const useAppStore = create<AppState>((set, get) => ({
       } catch (error) {
         console.error('Failed to load asset library', error)
       }
-      set(() => ({ assets: nextAssets }))
+      set(() => ({ catalogue: nextAssets }))
       get().actions.syncBasketWithTable()
     },
     
     addInstance: (i) => {
       const id = `i_${Math.random().toString(36).slice(2,10)}`
       set(s => {
-        const instances = [...s.instances, { ...i, id }]
+        const placed: Instance = { ...i, id }
+        const twin = s.symmetry === 'off' ? null : placeTwin(placed, s.symmetry, s)
+        const instances = twin
+          ? [...s.instances, { ...placed, twin: { ...twin.twin!, id: twin.id } }, twin]
+          : [...s.instances, placed]
         return { instances, ...saveHistory({ ...s, instances }) }
       })
       get().actions.syncBasketWithTable()
     },
     
+    addInstances: (list) => {
+      if (list.length === 0) return []
+      const added = list.map(i => ({ ...i, id: `i_${Math.random().toString(36).slice(2,10)}` }))
+      const newIds = added.map(i => i.id)
+      set(s => {
+        // Each piece is mirrored like a single placement; its twin has to clear the rest of
+        // the batch and the twins placed before it
+        const placed: Instance[] = []
+        const twins: Instance[] = []
+        for (const inst of added) {
+          const others = [...s.instances, ...added.filter(other => other !== inst), ...twins]
+          const twin = s.symmetry === 'off' ? null : placeTwin(inst, s.symmetry, { ...s, instances: others })
+          placed.push(twin ? { ...inst, twin: { ...twin.twin!, id: twin.id } } : inst)
+          if (twin) twins.push(twin)
+        }
+        const instances = [...s.instances, ...placed, ...twins]
+        const selection = selectionFrom(newIds)
+        return { instances, ...selection, ...saveHistory({ ...s, instances, ...selection }) }
+      })
+      get().actions.syncBasketWithTable()
+      return newIds
+    },
+
     updateInstance: (id, patch) => {
       set(s => {
-        const instances = s.instances.map(inst => inst.id === id ? { ...inst, ...patch } : inst)
+        const patched = s.instances.map(inst => inst.id === id ? { ...inst, ...patch } : inst)
+        const followed = followTwins(s, patched, new Set([id]))
+        const instances = settle(s, followed, withTwinIds(followed, [id]))
         return { instances, ...saveHistory({ ...s, instances }) }
       })
     },
     
     removeInstance: (id) => {
       set(s => {
-        const instances = s.instances.filter(i => i.id !== id)
-        const selectedInstanceId = s.selectedInstanceId === id ? null : s.selectedInstanceId
-        return { instances, selectedInstanceId, ...saveHistory({ ...s, instances, selectedInstanceId }) }
+        const doomed = withTwinIds(s.instances, [id])
+        const instances = settle(s, s.instances.filter(i => !doomed.has(i.id)), doomed)
+        const selection = selectionFrom(s.selectedInstanceIds.filter(x => !doomed.has(x)))
+        return { instances, ...selection, ...saveHistory({ ...s, instances, ...selection }) }
       })
       get().actions.syncBasketWithTable()
     },
@@ -335,26 +937,138 @@ export const useAppStore = create<AppState>((set, get) => ({
     clearInstances: () => {
       set(s => ({ 
         instances: [], 
-        selectedInstanceId: null,
-        ...saveHistory({ ...s, instances: [], selectedInstanceId: null })
+        ...selectionFrom([]),
+        ...saveHistory({ ...s, instances: [], ...selectionFrom([]) })
       }))
       get().actions.syncBasketWithTable()
     },
 
     duplicateInstance: (id) => {
-      const instance = get().instances.find(i => i.id === id)
-      if (!instance) return
-      
-      const newId = `i_${Math.random().toString(36).slice(2,10)}`
-      const offset = get().table.gridSize
-      
+      get().actions.duplicateInstances([id])
+    },
+
+    updateInstances: (patches) => {
+      if (patches.length === 0) return
+      const byId = new Map(patches.map(p => [p.id, p.patch]))
+      set(s => {
+        const patched = s.instances.map(inst => byId.has(inst.id) ? { ...inst, ...byId.get(inst.id) } : inst)
+        const followed = followTwins(s, patched, new Set(byId.keys()))
+        const instances = settle(s, followed, withTwinIds(followed, [...byId.keys()]))
+        return { instances, ...saveHistory({ ...s, instances }) }
+      })
+    },
+
+    removeInstances: (ids) => {
+      if (ids.length === 0) return
       set(s => {
-        const instances = [...s.instances, {
-          ...instance,
-          id: newId,
-          position: { x: instance.position.x + offset, z: instance.position.z + offset }
-        }]
-        return { instances, selectedInstanceId: newId, ...saveHistory({ ...s, instances, selectedInstanceId: newId }) }
+        const doomed = withTwinIds(s.instances, ids)
+        const instances = settle(s, s.instances.filter(i => !doomed.has(i.id)), doomed)
+        const selection = selectionFrom(s.selectedInstanceIds.filter(x => !doomed.has(x)))
+        return { instances, ...selection, ...saveHistory({ ...s, instances, ...selection }) }
+      })
+      get().actions.syncBasketWithTable()
+    },
+
+    duplicateInstances: (ids) => {
+      const wanted = new Set(ids)
+      const sources = get().instances.filter(i => wanted.has(i.id))
+      if (sources.length === 0) return []
+
+      const copies = placeCopies(sources, get())
+      if (!copies) return []
+      const newIds = copies.map(c => c.id)
+
+      set(s => {
+        const instances = [...s.instances, ...copies]
+        const selection = selectionFrom(newIds)
+        return { instances, ...selection, ...saveHistory({ ...s, instances, ...selection }) }
+      })
+      get().actions.syncBasketWithTable()
+      return newIds
+    },
+
+    generateInstances: (options, poolIds) => {
+      const { assets, table, instances } = get()
+      const wanted = poolIds ? new Set(poolIds) : null
+      const pool = wanted ? assets.filter(a => wanted.has(a.id)) : assets
+      const assetsById = new Map(assets.map(a => [a.id, a]))
+      // one history entry for the whole layout, so a single undo removes it
+      return get().actions.addInstances(generateLayout(pool, table, instances, assetsById, options)).length
+    },
+
+    loadPrefabs: async () => {
+      try {
+        set({ prefabs: await setsApi.getSets({ kind: 'prefab' }) })
+      } catch (error) {
+        console.error('Failed to load prefabs', error)
+      }
+    },
+
+    // Stores the current selection as a prefab; pieces must all be library assets
+    savePrefab: async (name, options = {}) => {
+      const { instances, selectedInstanceIds } = get()
+      const wanted = new Set(selectedInstanceIds)
+      const members = instances.filter(i => wanted.has(i.id))
+      if (members.length === 0) return null
+      const prefab = await setsApi.createSet({
+        name,
+        description: options.description,
+        isPublic: options.isPublic,
+        kind: 'prefab',
+        items: prefabFromInstances(members),
+      })
+      set(s => ({ prefabs: [prefab, ...s.prefabs] }))
+      return prefab
+    },
+
+    deletePrefab: async (id) => {
+      await setsApi.deleteSet(id)
+      set(s => ({
+        prefabs: s.prefabs.filter(p => p.id !== id),
+        ...(s.activePrefabId === id ? { activePrefabId: null } : {}),
+      }))
+    },
+
+    breakTwinLink: (id) => {
+      const twinId = get().instances.find(i => i.id === id)?.twin?.id
+      if (!twinId) return
+      set(s => {
+        const instances = s.instances.map(inst => inst.id === id || inst.id === twinId ? { ...inst, twin: undefined } : inst)
+        return { instances, ...saveHistory({ ...s, instances }) }
+      })
+    },
+
+    runRuleCheck: () => {
+      const { ruleSet, instances, assets, table } = get()
+      if (!ruleSet) {
+        set({ ruleReport: null })
+        return
+      }
+      const assetsById = new Map(assets.map(a => [a.id, a]))
+      set({ ruleReport: checkLayout(ruleSet, instances, assetsById, table) })
+    },
+
+    // Collaborators' changes skip the undo stack but are written into every snapshot
+    // on it, so undo only takes back this user's own edits
+    applyRemoteInstances: (changes) => {
+      if (changes.length === 0) return
+      const apply = (list: Instance[]) => {
+        const byId = new Map(list.map(i => [i.id, i]))
+        for (const { id, instance } of changes) {
+          if (instance) byId.set(id, instance)
+          else byId.delete(id)
+        }
+        return Array.from(byId.values())
+      }
+      set(s => {
+        const instances = apply(s.instances)
+        const present = new Set(instances.map(i => i.id))
+        const kept = s.selectedInstanceIds.filter(id => present.has(id))
+        return {
+          instances,
+          ...(kept.length !== s.selectedInstanceIds.length ? selectionFrom(kept) : {}),
+          history: s.history.map(entry => ({ ...entry, instances: apply(entry.instances) })),
+        }
       })
       get().actions.syncBasketWithTable()
     },
@@ -368,7 +1082,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       
       set({ 
         instances: JSON.parse(JSON.stringify(state.instances)),
-        selectedInstanceId: state.selectedInstanceId,
+        ...selectionFrom(state.selectedInstanceIds),
         historyIndex: newIndex
       })
       get().actions.syncBasketWithTable()
@@ -383,7 +1097,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       
       set({ 
         instances: JSON.parse(JSON.stringify(state.instances)),
-        selectedInstanceId: state.selectedInstanceId,
+        ...selectionFrom(state.selectedInstanceIds),
         historyIndex: newIndex
       })
       get().actions.syncBasketWithTable()
@@ -394,19 +1108,22 @@ export const useAppStore = create<AppState>((set, get) => ({
 
     saveLayout: (name: string) => {
       const { table, instances } = get()
-      const id = `layout_${Date.now()}_${Math.random().toString(36).slice(2,9)}`
+      const id = newLayoutId()
+      const now = Date.now()
       
       const layout: SavedLayout = {
         id,
         name,
         table: { ...table },
         instances: JSON.parse(JSON.stringify(instances)),
-        createdAt: Date.now()
+        createdAt: now,
+        updatedAt: now
       }
       
       const saved = get().actions.getSavedLayouts()
       saved.push(layout)
-      localStorage.setItem('terrain_layouts', JSON.stringify(saved))
+      writeSavedLayouts(saved)
+      void get().actions.syncLayouts()
       
       return id
     },
@@ -416,49 +1133,263 @@ export const useAppStore = create<AppState>((set, get) => ({
       const layout = layouts.find(l => l.id === id)
       if (!layout) return
       
+      const instances = Array.isArray(layout.instances) ? parseInstances(layout.instances) : []
       set(s => ({
         table: { ...layout.table },
-        instances: JSON.parse(JSON.stringify(layout.instances)),
-        selectedInstanceId: null,
-        ...saveHistory({ 
-          ...s, 
-          instances: JSON.parse(JSON.stringify(layout.instances)),
-          selectedInstanceId: null 
-        })
+        instances,
+        ...selectionFrom([]),
+        ...saveHistory({ ...s, instances, ...selectionFrom([]) })
       }))
       get().actions.syncBasketWithTable()
       get().actions.fitView()
     },
 
-    getSavedLayouts: () => {
-      const saved = localStorage.getItem('terrain_layouts')
-      return saved ? JSON.parse(saved) : []
-    },
+    getSavedLayouts: () => readSavedLayouts(),
 
+    // Deleting a synced layout deletes its server table too, on the next sync
     deleteLayout: (id: string) => {
-      const layouts = get().actions.getSavedLayouts().filter(l => l.id !== id)
-      localStorage.setItem('terrain_layouts', JSON.stringify(layouts))
+      const layouts = readSavedLayouts()
+      const doomed = layouts.find(l => l.id === id)
+      writeSavedLayouts(layouts.filter(l => l.id !== id))
+      set(s => ({ layoutSync: { ...s.layoutSync, conflicts: s.layoutSync.conflicts.filter(c => c.local.id !== id) } }))
+      if (doomed?.remoteId) {
+        writeDeletedRemoteIds([...readDeletedRemoteIds(), doomed.remoteId])
+        void get().actions.syncLayouts()
+      }
     },
 
-    exportLayout: () => {
-      const { table, instances } = get()
-      return JSON.stringify({ table, instances }, null, 2)
+    // Signed-out sessions keep everything local; the first sync after signing in uploads it
+    syncLayouts: async () => {
+      if (!useAuthStore.getState().isAuthenticated || get().layoutSync.status === 'syncing') return
+      // signing out or switching user mid-sync abandons it; that user's state is gone
+      const owner = storageOwner()
+      set(s => ({ layoutSync: { ...s.layoutSync, status: 'syncing', error: null } }))
+      try {
+        for (const remoteId of readDeletedRemoteIds()) {
+          await tablesApi.deleteTable(remoteId).catch((error) => {
+            // already gone, or not this user's table
+            if (!isHttpStatus(error, 403, 404)) throw error
+          })
+        }
+        writeDeletedRemoteIds([])
+
+        const plan = planSync(readSavedLayouts(), await fetchRemoteLayouts())
+        if (storageOwner() !== owner) return
+        const conflicts = [...plan.conflicts]
+        const pushed = new Map<string, SavedLayout>()
+        for (const layout of plan.upload) {
+          try {
+            pushed.set(layout.id, await pushLayout(layout, true))
+          } catch (error) {
+            // changed on the server between listing and saving
+            if (!layout.remoteId || !isHttpStatus(error, 409)) throw error
+            const remote = toRemoteLayout(await tablesApi.getTableById(layout.remoteId))
+            if (remote) conflicts.push({ local: layout, remote })
+          }
+        }
+
+        if (storageOwner() !== owner) return
+        // apply to the list as stored now, so a save made mid-sync isn't lost
+        const dropped = new Set(plan.dropLocal)
+        const next = readSavedLayouts().filter(l => !dropped.has(l.id)).map(l => pushed.get(l.id) ?? l)
+        for (const remote of plan.download) {
+          const index = next.findIndex(l => l.remoteId === remote.id)
+          if (index >= 0) next[index] = fromRemote(remote, next[index])
+          else next.push(fromRemote(remote))
+        }
+        writeSavedLayouts(next)
+        set({ layoutSync: { status: 'idle', lastSyncedAt: Date.now(), conflicts, error: null } })
+      } catch (error) {
+        if (storageOwner() !== owner) return
+        console.error('Failed to sync saved layouts', error)
+        set(s => ({
+          layoutSync: { ...s.layoutSync, status: 'error', error: 'Sync failed; layouts are kept on this device until the next try' },
+        }))
+      }
+    },
+
+    resolveLayoutConflict: async (localId, choice) => {
+      const conflict = get().layoutSync.conflicts.find(c => c.local.id === localId)
+      if (!conflict) return
+      const { local, remote } = conflict
+      // a refused save of a server table (online, or replayed from offline) rather than
+      // one of the saved layouts
+      const tableSave = !readSavedLayouts().some(l => l.id === localId)
+      const queued = useOfflineStore.getState().conflicts.some(c => c.entry.id === localId)
+      let next = readSavedLayouts()
+      const replace = (layout: SavedLayout) => { next = next.map(l => l.id === layout.id ? layout : l) }
+
+      if (choice === 'remote') {
+        replace(fromRemote(remote, local))
+      } else if (choice === 'local') {
+        const pushed = await pushLayout(local)
+        replace(pushed)
+        if (tableSave && remote.id === get().activeTableId) set({ activeTableUpdatedAt: pushed.remoteUpdatedAt ?? null })
+      } else if (choice === 'merge') {
+        replace(await pushLayout({ ...local, ...mergeLayouts(local, remote), updatedAt: Date.now() }))
+      } else {
+        replace(fromRemote(remote, local))
+        next.push(await pushLayout({
+          ...local,
+          id: newLayoutId(),
+          name: `${local.name} (this device)`,
+          remoteId: undefined,
+          remoteUpdatedAt: undefined,
+          syncedAt: undefined,
+          updatedAt: Date.now(),
+        }))
+      }
+
+      writeSavedLayouts(next)
+      set(s => ({ layoutSync: { ...s.layoutSync, conflicts: s.layoutSync.conflicts.filter(c => c.local.id !== localId) } }))
+      if (queued) useOfflineStore.getState().dismissConflict(localId)
+      // show what the table holds now, unless this device's copy is what went up
+      if (tableSave && remote.id === get().activeTableId && choice !== 'local') {
+        await get().actions.loadTableLayout(remote.id)
+      }
+    },
+
+    exportLayout: (format = 'native') => {
+      const { table, instances, assets } = get()
+      if (format === 'tts') {
+        const save = layoutToTTS(instances, new Map(assets.map(a => [a.id, a])), table, {
+          baseUrl: API_BASE_URL || window.location.origin,
+        })
+        return JSON.stringify(save, null, 2)
+      }
+      // Always write the grid type so hex layouts round-trip explicitly
+      const exported: Table = {
+        ...table,
+        gridType: table.gridType ?? 'square',
+        hexOrientation: table.hexOrientation ?? 'flat',
+      }
+      return JSON.stringify({ table: exported, instances }, null, 2)
     },
 
     importLayout: (json: string) => {
       try {
-        const { table, instances } = JSON.parse(json)
+        const data = JSON.parse(json)
+        // TTS saves carry no table size, so their pieces go onto the current table
+        const tts = isTTSSave(data) ? ttsToLayout(data, get().assets) : null
+        const table = tts ? get().table : parseTable(data?.table)
+        if (!table || (!tts && !Array.isArray(data.instances))) return null
+        const instances = tts ? tts.instances : parseInstances(data.instances)
         set(s => ({
           table,
           instances,
-          selectedInstanceId: null,
-          ...saveHistory({ ...s, instances, selectedInstanceId: null })
+          ...selectionFrom([]),
+          ...saveHistory({ ...s, table, instances, ...selectionFrom([]) })
         }))
         get().actions.syncBasketWithTable()
         get().actions.fitView()
+        return { format: tts ? 'tts' : 'native', imported: instances.length, unresolved: tts?.unresolved ?? [] }
       } catch (e) {
         console.error('Failed to import layout:', e)
+        return null
+      }
+    },
+
+    saveTableLayout: async (message) => {
+      const { activeTableId, activeTableUpdatedAt, table, instances } = get()
+      if (!activeTableId) return
+      const layout = tableLayoutData(table, instances)
+      try {
+        const saved = await tablesApi.updateTable(activeTableId, { layout }, message, {
+          expectedUpdatedAt: activeTableUpdatedAt ?? undefined,
+        })
+        set({ activeTableUpdatedAt: saved.updatedAt })
+      } catch (error) {
+        if (isHttpStatus(error, 409)) {
+          // someone else saved the table since it was loaded: the user picks, as for a sync conflict
+          // keyed by table, so saving again replaces the conflict rather than adding one
+          const id = `save:${activeTableId}`
+          const conflict = tableSaveConflict(
+            id, layout, Date.now(), activeTableUpdatedAt ?? undefined, await tablesApi.getTableById(activeTableId)
+          )
+          if (conflict) {
+            set(s => ({
+              layoutSync: { ...s.layoutSync, conflicts: [...s.layoutSync.conflicts.filter(c => c.local.id !== id), conflict] },
+            }))
+          }
+          throw new Error('This table was changed elsewhere since it was loaded; resolve the conflict to save')
+        }
+        // kept and sent when the connection is back
+        if (!isOfflineError(error)) throw error
+        useOfflineStore.getState().enqueue({
+          kind: 'table-layout',
+          tableId: activeTableId,
+          layout,
+          message,
+          baseUpdatedAt: activeTableUpdatedAt ?? undefined,
+        })
+      }
+    },
+
+    loadTableLayout: async (tableId: string) => {
+      const remote = await tablesApi.getTableById(tableId)
+      const builder = remote.layout.builder as { table?: Table; instances?: unknown[] } | undefined
+      // the builder keeps its own copy in metres; tables shaped through the API only have the column (mm)
+      const table = parseTable(builder?.table, remote.outline ? scaleOutline(remote.outline, 0.001) : undefined)
+      if (!table || !Array.isArray(builder?.instances)) return
+      const instances = parseInstances(builder.instances)
+      set(s => ({
+        table,
+        instances,
+        activeTableUpdatedAt: remote.updatedAt,
+        ...selectionFrom([]),
+        ...saveHistory({ ...s, table, instances, ...selectionFrom([]) })
+      }))
+      get().actions.syncBasketWithTable()
+      get().actions.fitView()
+    },
+
+    paintSurface: (points) => set(s => ({
+      table: {
+        ...s.table,
+        surface: paintSurface(
+          s.table.surface, s.table, points, s.paintBrush.radius, s.paintBrush.ground,
+          s.table.surface?.cellSize ?? s.paintBrush.cellSize
+        ),
+      },
+    })),
+
+    setSurfaceResolution: (cellSize) => set(s => ({
+      paintBrush: { ...s.paintBrush, cellSize },
+      table: { ...s.table, surface: resampleSurface(s.table.surface, s.table, s.table, cellSize) },
+    })),
+
+    clearSurface: () => set(s => ({ table: { ...s.table, surface: undefined } })),
+
+    setScenario: (scenario) => set(s => ({ table: { ...s.table, scenario: scenario ?? undefined } })),
+
+    applyScenarioPreset: (preset) => {
+      const { table } = get()
+      get().actions.setScenario(presetToScenario(preset, table))
+    },
+
+    getScenarioPresets: () => {
+      let user: ScenarioPreset[] = []
+      try {
+        const saved = localStorage.getItem('terrain_scenario_presets')
+        const parsed = z.array(ScenarioPresetSchema).safeParse(saved ? JSON.parse(saved) : [])
+        if (parsed.success) user = parsed.data.filter(p => !p.builtIn)
+      } catch {
+        // unreadable presets are ignored; saving a new one replaces them
       }
+      return [...BUILT_IN_PRESETS, ...user]
+    },
+
+    saveScenarioPreset: (name: string) => {
+      const { table } = get()
+      if (!table.scenario) return
+      const user = get().actions.getScenarioPresets().filter(p => !p.builtIn)
+      user.push(scenarioToPreset(table.scenario, table, name))
+      localStorage.setItem('terrain_scenario_presets', JSON.stringify(user))
+    },
+
+    deleteScenarioPreset: (id: string) => {
+      const user = get().actions.getScenarioPresets().filter(p => !p.builtIn && p.id !== id)
+      localStorage.setItem('terrain_scenario_presets', JSON.stringify(user))
     },
 
     syncBasketWithTable: () => {
@@ -497,7 +1428,7 @@ export const useAppStore = create<AppState>((set, get) => ({
       })
 
       set({ basket })
-      syncCartWithModelCounts(modelCounts)
+      syncCartWithModelCounts(modelCounts, scaleInfo(get().table.scale).id)
     },
 
     addToBasket: (assetId, quantity = 1) => {
@@ -569,13 +1500,13 @@ export const useAppStore = create<AppState>((set, get) => ({
       const converted = convertLibraryAssetToSceneAsset(asset)
       if (!converted) return
       set((state) => {
-        const existingIndex = state.assets.findIndex((item) => item.id === converted.id)
+        const existingIndex = state.catalogue.findIndex((item) => item.id === converted.id)
         if (existingIndex >= 0) {
-          const next = [...state.assets]
+          const next = [...state.catalogue]
           next[existingIndex] = { ...next[existingIndex], ...converted }
-          return { assets: next }
+          return { catalogue: next }
         }
-        return { assets: [...state.assets, converted] }
+        return { catalogue: [...state.catalogue, converted] }
       })
       // Sync basket after adding asset to ensure pricing calculations work
       get().actions.syncBasketWithTable()
@@ -583,10 +1514,77 @@ export const useAppStore = create<AppState>((set, get) => ({
 
     removeLibraryAsset: (assetId) => {
       set((state) => ({
-        assets: state.assets.filter((asset) => asset.id !== assetId),
+        catalogue: state.catalogue.filter((asset) => asset.id !== assetId),
         instances: state.instances.filter((instance) => instance.assetId !== assetId),
       }))
       get().actions.syncBasketWithTable()
     }
   }
 }))
+
+// Ids of `candidates` that overlap another piece or leave the table
+function findMisfits(candidates: Instance[], instances: Instance[], assets: Asset[], table: Table): string[] {
+  const assetsById = new Map(assets.map(a => [a.id, a]))
+  if (groupFits(candidates, instances, assetsById, table)) return []
+  return candidates.filter(inst => !groupFits([inst], instances, assetsById, table)).map(inst => inst.id)
+}
+
+// Keep `assets` at the table's scale, whichever action changed the catalogue or the
+// table (settings, loading a layout, a collaborator's edit). Pieces grow or shrink in
+// place, so after a scale change the ones that no longer fit are flagged for the stage.
+useAppStore.subscribe((state, prev) => {
+  if (state.catalogue === prev.catalogue && state.table.scale === prev.table.scale) return
+  const scale = scaleInfo(state.table.scale)
+  const assets = state.catalogue.map(asset => scaleAsset(asset, scale.factor))
+  if (state.table.scale === prev.table.scale) {
+    useAppStore.setState({ assets })
+    return
+  }
+  const misfitInstanceIds = findMisfits(state.instances, state.instances, assets, state.table)
+  useAppStore.setState({ assets, misfitInstanceIds })
+  if (misfitInstanceIds.length > 0) {
+    const count = misfitInstanceIds.length
+    toast.error(`${count} ${count === 1 ? 'piece no longer fits' : 'pieces no longer fit'} at ${scale.label}; they are outlined in red`)
+  }
+  // order items follow the scale too
+  state.actions.syncBasketWithTable()
+})
+
+// Flagged pieces stay flagged until they are moved somewhere they fit or deleted
+useAppStore.subscribe((state, prev) => {
+  if (state.misfitInstanceIds.length === 0 || state.misfitInstanceIds !== prev.misfitInstanceIds) return
+  if (state.instances === prev.instances && state.table === prev.table) return
+  const flagged = new Set(state.misfitInstanceIds)
+  const candidates = state.instances.filter(inst => flagged.has(inst.id))
+  const misfitInstanceIds = findMisfits(candidates, state.instances, state.assets, state.table)
+  if (misfitInstanceIds.length !== state.misfitInstanceIds.length) useAppStore.setState({ misfitInstanceIds })
+})
+
+adoptLegacyLayouts()
+
+// Offline saves the server refused join the saved-layout conflicts, for the same dialog
+function showQueuedConflicts(queued: QueuedConflict[], previous: QueuedConflict[]) {
+  const stale = new Set([...previous, ...queued].map(c => c.entry.id))
+  useAppStore.setState(s => ({
+    layoutSync: {
+      ...s.layoutSync,
+      conflicts: [
+        ...s.layoutSync.conflicts.filter(c => !stale.has(c.local.id)),
+        ...queued.map(queuedLayoutConflict).filter((c): c is LayoutConflict => c !== null),
+      ],
+    },
+  }))
+}
+showQueuedConflicts(useOfflineStore.getState().conflicts, [])
+useOfflineStore.subscribe((state, prev) => {
+  if (state.conflicts !== prev.conflicts) showQueuedConflicts(state.conflicts, prev.conflicts)
+})
+
+// Signing in or out swaps in that user's shortcuts; the last user's sync state goes with them
+useAuthStore.subscribe((state, prev) => {
+  if (state.user?.id === prev.user?.id) return
+  useAppStore.setState({
+    shortcuts: readShortcuts(),
+    layoutSync: { status: 'idle', lastSyncedAt: null, conflicts: [], error: null },
+  })
+})
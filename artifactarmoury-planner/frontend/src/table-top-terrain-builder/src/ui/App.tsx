@@ -1,15 +1,25 @@
 import React from 'react'
 import { useAppStore } from '@state/store'
+import { connectCollaboration } from '@state/collaboration'
 import { ThreeStage } from '@scene/ThreeStage'
-import { unitLabel, parseDimensionToMetres } from '@core/units'
+import { unitLabel, parseDimensionToMetres, fromMetres, toMetres } from '@core/units'
+import type { Unit } from '@core/units'
+import { TableOutlineSchema, boardsOutline, lShapeOutline, outlineArea, roundOutline } from '@core/tableShape'
+import type { TableOutline } from '@core/tableShape'
+import { TABLE_PRESETS, presetTable } from '@core/tablePresets'
+import { SCALE_PROFILES, scaleInfo } from '@core/scale'
+import type { ScaleProfile } from '@core/scale'
 import { Basket } from './Basket'
 import { ControlsPanel } from './ControlsPanel'
 import { StatusBar } from './StatusBar'
+import { CommandPalette } from './CommandPalette'
+import { installShortcuts } from '@state/commands'
 import { useLibraryStore, AssetSet, LibraryAsset, TableLibraryAsset } from '@/store/libraryStore'
 import { useAuthStore } from '@/store/authStore'
+import { useOfflineStore } from '@/store/offlineStore'
 import { ensurePlanningTable } from '@/utils/planningTable'
 import { browseApi } from '@/api/endpoints/browse'
-import type { TerrainModel, Category, SearchFilters, Pagination } from '@/api/types'
+import type { TerrainModel, Category, SearchFilters, Pagination, AssetSetRecord } from '@/api/types'
 import toast from 'react-hot-toast'
 import './styles.css'
 
@@ -17,6 +27,9 @@ type TerrainBuilderProps = {
   tableId?: string
 }
 
+// Quiet time after the last layout change before the rule check re-runs
+const RULE_CHECK_DELAY_MS = 250
+
 const TAB_CONFIG = [
   { key: 'browse', label: 'Browse' },
   { key: 'sets', label: 'Asset Library' },
@@ -25,6 +38,33 @@ const TAB_CONFIG = [
 
 type BuilderTab = (typeof TAB_CONFIG)[number]['key']
 
+type GridMode = 'square' | 'hex-flat' | 'hex-pointy'
+
+// Preset shapes are sized from the width/depth fields; the two lists take typed coordinates
+type ShapeMode = 'rectangle' | 'l-shape' | 'round' | 'boards' | 'polygon' | 'board-list'
+
+const shapeModeOf = (outline?: TableOutline): ShapeMode =>
+  !outline ? 'rectangle' : outline.kind === 'boards' ? 'board-list' : 'polygon'
+
+// One point ("x, z") or board ("x, z, width, depth") per line, in the display unit
+const outlineToText = (outline: TableOutline | undefined, unit: Unit) => {
+  const n = (metres: number) => Number(fromMetres(metres, unit).toFixed(4))
+  if (!outline) return ''
+  return outline.kind === 'boards'
+    ? outline.boards.map((b) => `${n(b.x)}, ${n(b.z)}, ${n(b.width)}, ${n(b.depth)}`).join('\n')
+    : outline.points.map((p) => `${n(p.x)}, ${n(p.z)}`).join('\n')
+}
+
+const parseOutlineRows = (text: string, unit: Unit, columns: number): number[][] | null => {
+  const rows = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => line.split(/[\s,;]+/).map(Number))
+  if (rows.some((row) => row.length !== columns || row.some((v) => !Number.isFinite(v)))) return null
+  return rows.map((row) => row.map((v) => toMetres(v, unit)))
+}
+
 type AssetItemProps = {
   asset: LibraryAsset
   onSelect: (asset: LibraryAsset) => void
@@ -187,6 +227,48 @@ const AssetSetGroup: React.FC<{
   )
 }
 
+const PrefabListItem: React.FC<{
+  prefab: AssetSetRecord
+  active: boolean
+  onPlace: (prefab: AssetSetRecord) => void
+  onDelete?: (prefab: AssetSetRecord) => void
+}> = ({ prefab, active, onPlace, onDelete }) => {
+  return (
+    <div
+      className={`rounded-lg border bg-slate-900/80 p-3 shadow-sm transition ${
+        active ? 'border-indigo-500' : 'border-slate-700 hover:border-slate-500'
+      }`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-slate-100">{prefab.name}</div>
+        <span className="text-xs text-slate-400">
+          {prefab.items.length} {prefab.items.length === 1 ? 'piece' : 'pieces'}
+        </span>
+      </div>
+      {prefab.description ? <p className="mt-1 text-xs text-slate-400 line-clamp-2">{prefab.description}</p> : null}
+      {prefab.ownerName ? <p className="mt-1 text-xs text-slate-500">by {prefab.ownerName}</p> : null}
+      <div className="flex flex-wrap gap-2 pt-2">
+        <button
+          className="rounded-md bg-indigo-600 px-2 py-1 text-xs font-medium text-white hover:bg-indigo-500"
+          onClick={() => onPlace(prefab)}
+          type="button"
+        >
+          {active ? 'Placing…' : 'Place Group'}
+        </button>
+        {onDelete ? (
+          <button
+            className="rounded-md border border-slate-700 px-2 py-1 text-xs font-medium text-rose-400 hover:border-rose-400"
+            onClick={() => onDelete(prefab)}
+            type="button"
+          >
+            Delete
+          </button>
+        ) : null}
+      </div>
+    </div>
+  )
+}
+
 export default function App({ tableId }: TerrainBuilderProps) {
   const [activeTab, setActiveTab] = React.useState<BuilderTab>('browse')
   const [showBasket, setShowBasket] = React.useState(false)
@@ -203,6 +285,7 @@ export default function App({ tableId }: TerrainBuilderProps) {
   const [categories, setCategories] = React.useState<Category[]>([])
 
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated)
+  const currentUserId = useAuthStore((state) => state.user?.id ?? null)
 
   const table = useAppStore((state) => state.table)
   const setTable = useAppStore((state) => state.setTable)
@@ -223,6 +306,18 @@ export default function App({ tableId }: TerrainBuilderProps) {
   const ownedAssets = useLibraryStore((state) => state.ownedAssets)
   const removeFromLibrary = useLibraryStore((state) => state.removeAssetFromLibrary)
   const upsertLibraryAsset = useAppStore((state) => state.actions.upsertLibraryAsset)
+  const prefabs = useAppStore((state) => state.prefabs)
+  const activePrefabId = useAppStore((state) => state.activePrefabId)
+  const setActivePrefab = useAppStore((state) => state.setActivePrefab)
+  const loadPrefabs = useAppStore((state) => state.actions.loadPrefabs)
+  const savePrefab = useAppStore((state) => state.actions.savePrefab)
+  const deletePrefab = useAppStore((state) => state.actions.deletePrefab)
+  const syncLayouts = useAppStore((state) => state.actions.syncLayouts)
+  const setOnline = useOfflineStore((state) => state.setOnline)
+  const replayOfflineChanges = useOfflineStore((state) => state.replay)
+  const selectionCount = useAppStore((state) => state.selectedInstanceIds.length)
+  const [prefabName, setPrefabName] = React.useState('')
+  const [savingPrefab, setSavingPrefab] = React.useState(false)
   const removeSceneAsset = useAppStore((state) => state.actions.removeLibraryAsset)
 
   const planningAssets = React.useMemo(() => {
@@ -244,12 +339,90 @@ export default function App({ tableId }: TerrainBuilderProps) {
     }
   }, [fetchTableAssets, tableId])
 
+  // Keyboard shortcuts for whichever panels have registered their commands
+  React.useEffect(() => installShortcuts(), [])
+
+  // Re-score the layout once it or the active rule set has settled; a drag or a paint
+  // stroke changes the layout every frame
+  const ruleSet = useAppStore((state) => state.ruleSet)
+  const placedInstances = useAppStore((state) => state.instances)
+  const sceneAssets = useAppStore((state) => state.assets)
+  const runRuleCheck = useAppStore((state) => state.actions.runRuleCheck)
+  React.useEffect(() => {
+    if (!ruleSet) {
+      runRuleCheck()
+      return
+    }
+    const timer = window.setTimeout(runRuleCheck, RULE_CHECK_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [runRuleCheck, ruleSet, placedInstances, sceneAssets, table])
+
+  // Restore the layout (and scenario) last saved to this table on the server, then
+  // join its live editing room so collaborators' changes land on top of it
+  const setActiveTableId = useAppStore((state) => state.setActiveTableId)
+  const loadTableLayout = useAppStore((state) => state.actions.loadTableLayout)
+  React.useEffect(() => {
+    setActiveTableId(tableId ?? null)
+    if (!tableId) return
+    let cancelled = false
+    let leave: (() => void) | null = null
+    loadTableLayout(tableId)
+      .catch((error) => {
+        console.error('Failed to load table layout', error)
+      })
+      .finally(() => {
+        if (!cancelled) leave = connectCollaboration(tableId)
+      })
+    return () => {
+      cancelled = true
+      leave?.()
+    }
+  }, [setActiveTableId, loadTableLayout, tableId])
+
   React.useEffect(() => {
     if (isAuthenticated) {
       fetchOwnedAssets()
     }
   }, [isAuthenticated, fetchOwnedAssets])
 
+  // Signing in or out changes which private prefabs are visible
+  React.useEffect(() => {
+    loadPrefabs()
+  }, [isAuthenticated, loadPrefabs])
+
+  // Layouts saved while signed out upload on sign-in; anything saved offline goes up on reconnect
+  React.useEffect(() => {
+    if (!isAuthenticated) return
+    void syncLayouts()
+    const handleOnline = () => void syncLayouts()
+    window.addEventListener('online', handleOnline)
+    return () => window.removeEventListener('online', handleOnline)
+  }, [isAuthenticated, syncLayouts])
+
+  // Table saves and library changes made offline go out once the connection is back
+  React.useEffect(() => {
+    const replay = async () => {
+      const applied = await replayOfflineChanges()
+      if (applied.length === 0) return
+      toast.success(`Sent ${applied.length} change${applied.length === 1 ? '' : 's'} made offline`)
+      if (tableId && applied.some((change) => 'tableId' in change && change.tableId === tableId)) {
+        fetchTableAssets(tableId)
+      }
+    }
+    const handleOnline = () => {
+      setOnline(true)
+      void replay()
+    }
+    const handleOffline = () => setOnline(false)
+    void replay()
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [replayOfflineChanges, setOnline, fetchTableAssets, tableId])
+
   // Sync basket when assets are loaded to clean up stale asset IDs
   const syncBasketWithTable = useAppStore((state) => state.actions.syncBasketWithTable)
   React.useEffect(() => {
@@ -260,6 +433,15 @@ export default function App({ tableId }: TerrainBuilderProps) {
   const [heightInput, setHeightInput] = React.useState(() => (table.height ?? 1.2192).toString())
   const [unit, setUnit] = React.useState<'m' | 'cm' | 'ft' | 'in'>(table.unitDisplay ?? 'm')
   const [gridInput, setGridInput] = React.useState(() => (table.gridSize ?? 0.3048).toString())
+  const [gridMode, setGridMode] = React.useState<GridMode>(() =>
+    table.gridType === 'hex' ? (table.hexOrientation === 'pointy' ? 'hex-pointy' : 'hex-flat') : 'square',
+  )
+  const [shapeMode, setShapeMode] = React.useState<ShapeMode>(() => shapeModeOf(table.outline))
+  const [cutWidthInput, setCutWidthInput] = React.useState('0.6096')
+  const [cutDepthInput, setCutDepthInput] = React.useState('0.6096')
+  const [boardColsInput, setBoardColsInput] = React.useState('2')
+  const [boardRowsInput, setBoardRowsInput] = React.useState('1')
+  const [outlineText, setOutlineText] = React.useState(() => outlineToText(table.outline, table.unitDisplay ?? 'm'))
 
   const ownedModelIds = useLibraryStore((state) => state.ownedModelIds)
   const [librarySearch, setLibrarySearch] = React.useState('')
@@ -277,11 +459,81 @@ export default function App({ tableId }: TerrainBuilderProps) {
 
   const basketCount = basket.reduce((sum, item) => sum + item.quantity, 0)
 
+  // The outline for the chosen shape: undefined for a plain rectangle, or a message saying what's wrong
+  const buildOutline = (widthM: number, heightM: number): { outline?: TableOutline; error?: string } => {
+    switch (shapeMode) {
+      case 'rectangle':
+        return {}
+      case 'l-shape': {
+        const cutWidth = parseDimensionToMetres(cutWidthInput, unit)
+        const cutDepth = parseDimensionToMetres(cutDepthInput, unit)
+        if (cutWidth <= 0 || cutDepth <= 0 || cutWidth >= widthM || cutDepth >= heightM) {
+          return { error: 'The cut-out corner must be smaller than the table' }
+        }
+        return { outline: lShapeOutline(widthM, heightM, cutWidth, cutDepth) }
+      }
+      case 'round':
+        return widthM > 0 ? { outline: roundOutline(widthM) } : { error: 'Enter a diameter' }
+      case 'boards': {
+        const cols = Math.round(Number(boardColsInput))
+        const rows = Math.round(Number(boardRowsInput))
+        if (!(cols >= 1 && rows >= 1 && cols * rows <= 64)) return { error: 'Use between 1 and 64 boards' }
+        return { outline: boardsOutline(cols, rows, widthM, heightM) }
+      }
+      case 'polygon':
+      case 'board-list': {
+        const polygon = shapeMode === 'polygon'
+        const rows = parseOutlineRows(outlineText, unit, polygon ? 2 : 4)
+        const parsed = rows && TableOutlineSchema.safeParse(
+          polygon
+            ? { kind: 'polygon', points: rows.map(([x, z]) => ({ x, z })) }
+            : { kind: 'boards', boards: rows.map(([x, z, width, depth]) => ({ x, z, width, depth })) },
+        )
+        if (!parsed?.success || outlineArea(parsed.data) <= 0) {
+          return {
+            error: polygon
+              ? 'Enter at least three corners, one "x, z" per line'
+              : 'Enter one board per line as "x, z, width, depth"',
+          }
+        }
+        return { outline: parsed.data }
+      }
+    }
+  }
+
   const applyTableDimensions = () => {
     const widthM = parseDimensionToMetres(widthInput, unit)
-    const heightM = parseDimensionToMetres(heightInput, unit)
+    const heightM = shapeMode === 'round' ? parseDimensionToMetres(widthInput, unit) : parseDimensionToMetres(heightInput, unit)
     const gridM = parseDimensionToMetres(gridInput, unit)
-    setTable({ width: widthM, height: heightM, unitDisplay: unit, gridSize: gridM })
+    const { outline, error } = buildOutline(widthM, heightM)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    // an outline sets the width and depth to its bounding box
+    setTable({
+      outline,
+      width: widthM,
+      height: heightM,
+      unitDisplay: unit,
+      gridSize: gridM,
+      gridType: gridMode === 'square' ? 'square' : 'hex',
+      hexOrientation: gridMode === 'hex-pointy' ? 'pointy' : 'flat',
+    })
+    fitView()
+  }
+
+  // A preset replaces the whole table setup at once, so the inputs follow it
+  const applyTablePreset = (presetId: string) => {
+    const preset = TABLE_PRESETS.find((p) => p.id === presetId)
+    if (!preset) return
+    setUnit(preset.unit)
+    setWidthInput(preset.width.toString())
+    setHeightInput(preset.depth.toString())
+    setGridInput(preset.grid.toString())
+    setGridMode('square')
+    setShapeMode('rectangle')
+    setTable({ ...presetTable(preset), outline: undefined, gridType: 'square' })
     fitView()
   }
 
@@ -365,6 +617,37 @@ export default function App({ tableId }: TerrainBuilderProps) {
     }
   }
 
+  const handleSavePrefab = async () => {
+    const name = prefabName.trim()
+    if (!name || selectionCount === 0) return
+    setSavingPrefab(true)
+    try {
+      await savePrefab(name)
+      setPrefabName('')
+      toast.success(`Saved "${name}" as a prefab`)
+    } catch (error: any) {
+      console.error('Failed to save prefab', error)
+      toast.error(error?.response?.data?.message ?? 'Unable to save this prefab.')
+    } finally {
+      setSavingPrefab(false)
+    }
+  }
+
+  const handlePlacePrefab = (prefab: AssetSetRecord) => {
+    setActivePrefab(activePrefabId === prefab.id ? null : prefab.id)
+  }
+
+  const handleDeletePrefab = async (prefab: AssetSetRecord) => {
+    if (!window.confirm(`Delete the prefab "${prefab.name}"?`)) return
+    try {
+      await deletePrefab(prefab.id)
+      toast.success('Prefab deleted')
+    } catch (error: any) {
+      console.error('Failed to delete prefab', error)
+      toast.error(error?.response?.data?.message ?? 'Unable to delete this prefab.')
+    }
+  }
+
   const handleBrowsePageChange = (direction: 'prev' | 'next') => {
     if (browsePagination) {
       const total = browsePagination.totalPages || 1
@@ -555,6 +838,54 @@ export default function App({ tableId }: TerrainBuilderProps) {
               </div>
             </section>
 
+            <section className="space-y-2 rounded-lg border border-slate-700 bg-slate-900/80 p-3">
+              <header className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold text-slate-100">Prefabs</h3>
+                <span className="text-xs text-slate-400">{prefabs.length} saved</span>
+              </header>
+              {isAuthenticated ? (
+                <div className="flex gap-2">
+                  <input
+                    value={prefabName}
+                    onChange={(event) => setPrefabName(event.target.value)}
+                    placeholder={selectionCount > 0 ? `Name for ${selectionCount} selected…` : 'Select pieces to save a prefab'}
+                    disabled={selectionCount === 0}
+                    className="flex-1 rounded-md border border-slate-700 bg-slate-900 px-3 py-2 text-xs text-slate-200 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500 disabled:opacity-50"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleSavePrefab}
+                    disabled={savingPrefab || selectionCount === 0 || !prefabName.trim()}
+                    className="rounded-md bg-indigo-600 px-2 py-1 text-xs font-semibold text-white hover:bg-indigo-500 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </div>
+              ) : (
+                <div className="text-xs text-slate-500">Sign in to save selected pieces as a prefab.</div>
+              )}
+              <div className="space-y-2">
+                {prefabs.length === 0 ? (
+                  <div className="text-xs text-slate-500">
+                    No prefabs yet. Select a cluster of pieces on the table and save it here.
+                  </div>
+                ) : (
+                  prefabs.map((prefab) => (
+                    <PrefabListItem
+                      key={prefab.id}
+                      prefab={prefab}
+                      active={activePrefabId === prefab.id}
+                      onPlace={handlePlacePrefab}
+                      onDelete={currentUserId && prefab.ownerId === currentUserId ? handleDeletePrefab : undefined}
+                    />
+                  ))
+                )}
+              </div>
+              {activePrefabId ? (
+                <div className="text-xs text-slate-400">Click the table to place · R rotates · Esc cancels</div>
+              ) : null}
+            </section>
+
             <section className="space-y-3">
               <header className="flex items-center justify-between">
                 <h3 className="text-sm font-semibold text-slate-100">Curated Sets</h3>
@@ -623,25 +954,138 @@ export default function App({ tableId }: TerrainBuilderProps) {
             </header>
             <div className="grid grid-cols-2 gap-2 text-xs text-slate-300">
               <label className="space-y-1">
-                <span className="block text-[11px] uppercase tracking-wide text-slate-400">
-                  Width ({unitLabel(unit)})
-                </span>
-                <input
+                <span className="block text-[11px] uppercase tracking-wide text-slate-400">Preset</span>
+                <select
                   className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
-                  value={widthInput}
-                  onChange={(e) => setWidthInput(e.target.value)}
-                />
+                  value=""
+                  onChange={(e) => applyTablePreset(e.target.value)}
+                >
+                  <option value="">Choose a game…</option>
+                  {TABLE_PRESETS.map((preset) => (
+                    <option key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </option>
+                  ))}
+                </select>
               </label>
               <label className="space-y-1">
-                <span className="block text-[11px] uppercase tracking-wide text-slate-400">
-                  Depth ({unitLabel(unit)})
-                </span>
-                <input
+                <span className="block text-[11px] uppercase tracking-wide text-slate-400">Model scale</span>
+                <select
                   className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
-                  value={heightInput}
-                  onChange={(e) => setHeightInput(e.target.value)}
-                />
+                  value={scaleInfo(table.scale).id}
+                  onChange={(e) => setTable({ scale: e.target.value as ScaleProfile })}
+                  title="Terrain is shown, and printed, at this scale"
+                >
+                  {SCALE_PROFILES.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="col-span-2 space-y-1">
+                <span className="block text-[11px] uppercase tracking-wide text-slate-400">Shape</span>
+                <select
+                  className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                  value={shapeMode}
+                  onChange={(e) => setShapeMode(e.target.value as ShapeMode)}
+                >
+                  <option value="rectangle">Rectangle</option>
+                  <option value="l-shape">L-shaped</option>
+                  <option value="round">Round</option>
+                  <option value="boards">Boards pushed together</option>
+                  <option value="polygon">Custom outline (corners)</option>
+                  <option value="board-list">Custom boards</option>
+                </select>
               </label>
+              {shapeMode !== 'polygon' && shapeMode !== 'board-list' && (
+                <label className={`space-y-1 ${shapeMode === 'round' ? 'col-span-2' : ''}`}>
+                  <span className="block text-[11px] uppercase tracking-wide text-slate-400">
+                    {shapeMode === 'round' ? 'Diameter' : shapeMode === 'boards' ? 'Board width' : 'Width'} ({unitLabel(unit)})
+                  </span>
+                  <input
+                    className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                    value={widthInput}
+                    onChange={(e) => setWidthInput(e.target.value)}
+                  />
+                </label>
+              )}
+              {shapeMode !== 'round' && shapeMode !== 'polygon' && shapeMode !== 'board-list' && (
+                <label className="space-y-1">
+                  <span className="block text-[11px] uppercase tracking-wide text-slate-400">
+                    {shapeMode === 'boards' ? 'Board depth' : 'Depth'} ({unitLabel(unit)})
+                  </span>
+                  <input
+                    className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                    value={heightInput}
+                    onChange={(e) => setHeightInput(e.target.value)}
+                  />
+                </label>
+              )}
+              {shapeMode === 'l-shape' && (
+                <>
+                  <label className="space-y-1">
+                    <span className="block text-[11px] uppercase tracking-wide text-slate-400">
+                      Cut-out width ({unitLabel(unit)})
+                    </span>
+                    <input
+                      className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                      value={cutWidthInput}
+                      onChange={(e) => setCutWidthInput(e.target.value)}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-[11px] uppercase tracking-wide text-slate-400">
+                      Cut-out depth ({unitLabel(unit)})
+                    </span>
+                    <input
+                      className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                      value={cutDepthInput}
+                      onChange={(e) => setCutDepthInput(e.target.value)}
+                    />
+                  </label>
+                  <p className="col-span-2 text-[11px] text-slate-500">The cut-out is the back-right corner.</p>
+                </>
+              )}
+              {shapeMode === 'boards' && (
+                <>
+                  <label className="space-y-1">
+                    <span className="block text-[11px] uppercase tracking-wide text-slate-400">Boards across</span>
+                    <input
+                      className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                      inputMode="numeric"
+                      value={boardColsInput}
+                      onChange={(e) => setBoardColsInput(e.target.value)}
+                    />
+                  </label>
+                  <label className="space-y-1">
+                    <span className="block text-[11px] uppercase tracking-wide text-slate-400">Boards down</span>
+                    <input
+                      className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                      inputMode="numeric"
+                      value={boardRowsInput}
+                      onChange={(e) => setBoardRowsInput(e.target.value)}
+                    />
+                  </label>
+                </>
+              )}
+              {(shapeMode === 'polygon' || shapeMode === 'board-list') && (
+                <label className="col-span-2 space-y-1">
+                  <span className="block text-[11px] uppercase tracking-wide text-slate-400">
+                    {shapeMode === 'polygon' ? 'Corners: x, z' : 'Boards: x, z, width, depth'} ({unitLabel(unit)})
+                  </span>
+                  <textarea
+                    className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100 font-mono"
+                    rows={5}
+                    value={outlineText}
+                    onChange={(e) => setOutlineText(e.target.value)}
+                    placeholder={shapeMode === 'polygon' ? '-0.9, -0.6\n0.9, -0.6\n0, 0.6' : '-0.3, 0, 0.6, 0.6\n0.3, 0, 0.6, 0.6'}
+                  />
+                  <span className="block text-[11px] text-slate-500">
+                    One per line, measured from any origin; boards by their centre. The table is re-centred on the shape.
+                  </span>
+                </label>
+              )}
               <label className="space-y-1">
                 <span className="block text-[11px] uppercase tracking-wide text-slate-400">Units</span>
                 <select
@@ -665,6 +1109,18 @@ export default function App({ tableId }: TerrainBuilderProps) {
                   onChange={(e) => setGridInput(e.target.value)}
                 />
               </label>
+              <label className="col-span-2 space-y-1">
+                <span className="block text-[11px] uppercase tracking-wide text-slate-400">Grid type</span>
+                <select
+                  className="w-full rounded-md border border-slate-700 bg-slate-950 px-2 py-1 text-slate-100"
+                  value={gridMode}
+                  onChange={(e) => setGridMode(e.target.value as GridMode)}
+                >
+                  <option value="square">Square</option>
+                  <option value="hex-flat">Hex (flat-top)</option>
+                  <option value="hex-pointy">Hex (pointy-top)</option>
+                </select>
+              </label>
             </div>
           </section>
 
@@ -728,6 +1184,7 @@ export default function App({ tableId }: TerrainBuilderProps) {
         </div>
         <ControlsPanel />
         <StatusBar />
+        <CommandPalette />
 
         {showBasket ? (
           <div className="absolute right-4 top-20 z-40 w-80 max-w-full rounded-lg border border-slate-700 bg-slate-900/95 shadow-2xl backdrop-blur">
@@ -0,0 +1,121 @@
+// src/ui/CommandPalette.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { COMMANDS, formatKeys, searchCommands } from '@core/commands'
+import { activeContext, canRunCommand, currentBindings, registerCommands, runCommand } from '@state/commands'
+
+/** Ctrl+K: search every command that can run right now and run it from the keyboard. */
+export function CommandPalette() {
+  const [open, setOpen] = React.useState(false)
+  const [query, setQuery] = React.useState('')
+  const [highlight, setHighlight] = React.useState(0)
+  // re-read the bindings when the user rebinds something
+  useAppStore((s) => s.shortcuts)
+
+  React.useEffect(() => registerCommands({ 'palette.open': () => setOpen((prev) => !prev) }), [])
+
+  // what can run is fixed when the palette opens; the palette itself is left out
+  const available = React.useMemo(() => {
+    if (!open) return []
+    const context = activeContext()
+    return COMMANDS.filter(
+      (c) => c.id !== 'palette.open' && (c.context === 'global' || c.context === context) && canRunCommand(c.id),
+    )
+  }, [open])
+  const matches = searchCommands(query, available)
+
+  const close = () => {
+    setOpen(false)
+    setQuery('')
+    setHighlight(0)
+  }
+
+  const run = (id: string) => {
+    close()
+    runCommand(id)
+  }
+
+  if (!open) return null
+
+  const bindings = currentBindings()
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        inset: 0,
+        background: 'rgba(0,0,0,0.5)',
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'flex-start',
+        paddingTop: '12vh',
+        zIndex: 1100,
+      }}
+      onClick={close}
+    >
+      <div
+        style={{
+          background: '#121821',
+          borderRadius: 8,
+          border: '1px solid #243246',
+          width: 440,
+          maxWidth: '90vw',
+          padding: 8,
+        }}
+        onClick={(event) => event.stopPropagation()}
+      >
+        <input
+          className="tb-input"
+          autoFocus
+          placeholder="Type a command…"
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value)
+            setHighlight(0)
+          }}
+          onKeyDown={(event) => {
+            if (event.key === 'Escape') close()
+            if (event.key === 'ArrowDown') {
+              event.preventDefault()
+              setHighlight((h) => Math.min(h + 1, matches.length - 1))
+            }
+            if (event.key === 'ArrowUp') {
+              event.preventDefault()
+              setHighlight((h) => Math.max(h - 1, 0))
+            }
+            if (event.key === 'Enter' && matches[highlight]) run(matches[highlight].id)
+          }}
+          style={{ width: '100%' }}
+        />
+        <div style={{ maxHeight: '50vh', overflow: 'auto', marginTop: 6 }}>
+          {matches.length === 0 && (
+            <div className="tb-small" style={{ color: '#9fb2c8', padding: 8 }}>No matching commands</div>
+          )}
+          {matches.map((command, i) => {
+            const keys = bindings.get(command.id) ?? []
+            return (
+              <div
+                key={command.id}
+                onClick={() => run(command.id)}
+                onMouseEnter={() => setHighlight(i)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: 8,
+                  padding: '6px 8px',
+                  borderRadius: 4,
+                  cursor: 'pointer',
+                  background: i === highlight ? '#1a2330' : undefined,
+                }}
+              >
+                <span style={{ flex: 1 }}>{command.title}</span>
+                <span className="tb-small" style={{ color: '#9fb2c8' }}>{command.category}</span>
+                {keys.length > 0 && <span className="tb-kbd">{formatKeys(keys[0])}</span>}
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,28 @@
 // src/ui/ControlsPanel.tsx
 import React from 'react'
 import { useAppStore } from '@state/store'
+import type { LayoutFormat, LayoutImportReport, ToolMode } from '@state/store'
+import { fromMetres, parseDimensionToMetres, unitLabel } from '@core/units'
+import type { SymmetryMode } from '@core/symmetry'
+import { ScenarioDialog } from './ScenarioPanel'
+import { GeneratorDialog } from './GeneratorPanel'
+import { RulesDialog } from './RulesPanel'
+import { HistoryDialog } from './HistoryPanel'
+import { PrintPlatesDialog } from './PrintPlatesPanel'
+import { MapExportDialog } from './MapExportPanel'
+import { LayoutConflictDialog } from './LayoutSyncPanel'
+import { SurfacePanel } from './SurfacePanel'
+import { ShortcutsDialog } from './ShortcutsPanel'
+import { exportSceneGLB } from '@scene/sceneExport'
+import { registerCommands, shortcutHint } from '@state/commands'
+import { useOfflineStore } from '@/store/offlineStore'
+
+const SYMMETRY_OPTIONS: Array<{ mode: SymmetryMode; label: string; title: string }> = [
+  { mode: 'off', label: 'Off', title: 'Place pieces one at a time' },
+  { mode: 'mirror-x', label: 'Mirror X', title: 'Mirror new pieces across the X axis' },
+  { mode: 'mirror-z', label: 'Mirror Z', title: 'Mirror new pieces across the Z axis' },
+  { mode: 'point', label: 'Point', title: 'Turn new pieces 180° about the table centre' },
+]
 
 type CameraMode = 'perspective' | 'top-down' | 'isometric'
 
@@ -10,12 +32,29 @@ const CAMERA_OPTIONS: Array<{ mode: CameraMode; label: string; title: string }>
   { mode: 'isometric', label: 'Isometric', title: 'Isometric view' },
 ]
 
+const TOOL_OPTIONS: Array<{ mode: ToolMode; label: string; title: string }> = [
+  { mode: 'select', label: 'Select', title: 'Place and edit pieces' },
+  { mode: 'ruler', label: 'Ruler', title: 'Click two points to measure the distance' },
+  { mode: 'los', label: 'Line of Sight', title: 'Click two points to check what blocks the line' },
+  { mode: 'paint', label: 'Paint Ground', title: 'Drag across the table to paint grass, sand, urban or water' },
+]
+
 export function ControlsPanel() {
   const [showSaveDialog, setShowSaveDialog] = React.useState(false)
   const [showLoadDialog, setShowLoadDialog] = React.useState(false)
   const [saveName, setSaveName] = React.useState('')
+  const [importReport, setImportReport] = React.useState<LayoutImportReport | 'failed' | null>(null)
   const [showHelp, setShowHelp] = React.useState(false)
   const [screenshotMode, setScreenshotMode] = React.useState(false)
+  const [showScenario, setShowScenario] = React.useState(false)
+  const [showGenerator, setShowGenerator] = React.useState(false)
+  const [showRules, setShowRules] = React.useState(false)
+  const [showHistory, setShowHistory] = React.useState(false)
+  const [showPrintPlates, setShowPrintPlates] = React.useState(false)
+  const [showMapExport, setShowMapExport] = React.useState(false)
+  const [showConflicts, setShowConflicts] = React.useState(false)
+  const [sceneExportState, setSceneExportState] = React.useState<'idle' | 'exporting' | 'error'>('idle')
+  const [tableSaveState, setTableSaveState] = React.useState<'idle' | 'saving' | 'saved' | 'queued' | 'error'>('idle')
 
   const canUndo = useAppStore((s) => s.actions.canUndo())
   const canRedo = useAppStore((s) => s.actions.canRedo())
@@ -25,14 +64,29 @@ export function ControlsPanel() {
   const loadLayout = useAppStore((s) => s.actions.loadLayout)
   const getSavedLayouts = useAppStore((s) => s.actions.getSavedLayouts)
   const deleteLayout = useAppStore((s) => s.actions.deleteLayout)
+  const layoutSync = useAppStore((s) => s.layoutSync)
+  const syncLayouts = useAppStore((s) => s.actions.syncLayouts)
   const exportLayout = useAppStore((s) => s.actions.exportLayout)
   const importLayout = useAppStore((s) => s.actions.importLayout)
   const cameraMode = useAppStore((s) => s.cameraMode)
   const setCameraMode = useAppStore((s) => s.setCameraMode)
   const fitView = useAppStore((s) => s.actions.fitView)
-  const selectedInstanceId = useAppStore((s) => s.selectedInstanceId)
-  const duplicateInstance = useAppStore((s) => s.actions.duplicateInstance)
   const renderer = useAppStore((s) => s.renderer)
+  const toolMode = useAppStore((s) => s.toolMode)
+  const setToolMode = useAppStore((s) => s.setToolMode)
+  const losHeight = useAppStore((s) => s.losHeight)
+  const setLosHeight = useAppStore((s) => s.setLosHeight)
+  const unit = useAppStore((s) => s.table.unitDisplay)
+  const symmetry = useAppStore((s) => s.symmetry)
+  const setSymmetry = useAppStore((s) => s.setSymmetry)
+  const breakTwinLink = useAppStore((s) => s.actions.breakTwinLink)
+  const selectedTwinned = useAppStore((s) =>
+    s.selectedInstanceIds.filter((id) => s.instances.some((inst) => inst.id === id && inst.twin)).join(','),
+  )
+  const activeTableId = useAppStore((s) => s.activeTableId)
+  const saveTableLayout = useAppStore((s) => s.actions.saveTableLayout)
+  // button titles show the user's current keys
+  useAppStore((s) => s.shortcuts)
 
   const savedLayouts = getSavedLayouts()
 
@@ -43,13 +97,13 @@ export function ControlsPanel() {
     setShowSaveDialog(false)
   }
 
-  const handleExport = () => {
-    const json = exportLayout()
+  const handleExport = (format: LayoutFormat = 'native') => {
+    const json = exportLayout(format)
     const blob = new Blob([json], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const anchor = document.createElement('a')
     anchor.href = url
-    anchor.download = `terrain-layout-${Date.now()}.json`
+    anchor.download = format === 'tts' ? `terrain-layout-${Date.now()}-tts.json` : `terrain-layout-${Date.now()}.json`
     anchor.click()
     URL.revokeObjectURL(url)
   }
@@ -64,13 +118,45 @@ export function ControlsPanel() {
       const reader = new FileReader()
       reader.onload = (e) => {
         const json = e.target?.result as string
-        if (json) importLayout(json)
+        if (json) setImportReport(importLayout(json) ?? 'failed')
       }
       reader.readAsText(file)
     }
     input.click()
   }
 
+  const handleDownloadScene = async () => {
+    setSceneExportState('exporting')
+    try {
+      const { instances, assets, table } = useAppStore.getState()
+      const glb = await exportSceneGLB(instances, assets, table)
+      const url = URL.createObjectURL(new Blob([glb], { type: 'model/gltf-binary' }))
+      const anchor = document.createElement('a')
+      anchor.href = url
+      anchor.download = `terrain-table-${Date.now()}.glb`
+      anchor.click()
+      URL.revokeObjectURL(url)
+      setSceneExportState('idle')
+    } catch (error) {
+      console.error('Failed to export scene', error)
+      setSceneExportState('error')
+    }
+  }
+
+  const handleSaveToTable = async () => {
+    setTableSaveState('saving')
+    try {
+      await saveTableLayout()
+      const queued = useOfflineStore
+        .getState()
+        .queue.some((entry) => entry.change.kind === 'table-layout' && entry.change.tableId === activeTableId)
+      setTableSaveState(queued ? 'queued' : 'saved')
+    } catch (error) {
+      console.error('Failed to save table layout', error)
+      setTableSaveState('error')
+    }
+  }
+
   const handleCameraModeChange = (mode: CameraMode) => {
     setCameraMode(mode)
     setTimeout(() => fitView(), 100)
@@ -95,36 +181,35 @@ export function ControlsPanel() {
     }, 100)
   }
 
+  // Toolbar commands for shortcuts and the palette; handlers read the store when they run
   React.useEffect(() => {
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if ((event.ctrlKey || event.metaKey) && event.key === 'z' && !event.shiftKey) {
-        event.preventDefault()
-        undo()
-      }
-      if ((event.ctrlKey || event.metaKey) && event.key === 'z' && event.shiftKey) {
-        event.preventDefault()
-        redo()
-      }
-      if ((event.ctrlKey || event.metaKey) && event.key === 'y') {
-        event.preventDefault()
-        redo()
-      }
-      if ((event.ctrlKey || event.metaKey) && event.key === 'd' && selectedInstanceId) {
-        event.preventDefault()
-        duplicateInstance(selectedInstanceId)
-      }
-      if ((event.ctrlKey || event.metaKey) && event.key === 's') {
-        event.preventDefault()
-        setShowSaveDialog(true)
-      }
-      if (event.key === '?' && !event.ctrlKey && !event.metaKey) {
-        setShowHelp((prev) => !prev)
-      }
-    }
-
-    window.addEventListener('keydown', handleKeyDown)
-    return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [undo, redo, selectedInstanceId, duplicateInstance])
+    const store = useAppStore.getState
+    const camera = (mode: CameraMode) => () => handleCameraModeChange(mode)
+    const tool = (mode: ToolMode) => () => store().setToolMode(mode)
+    return registerCommands({
+      'edit.undo': { run: () => store().actions.undo(), enabled: () => store().actions.canUndo() },
+      'edit.redo': { run: () => store().actions.redo(), enabled: () => store().actions.canRedo() },
+      'selection.duplicate': () => store().actions.duplicateInstances(store().selectedInstanceIds),
+      'layout.save': () => setShowSaveDialog(true),
+      'layout.load': () => setShowLoadDialog(true),
+      'help.toggle': () => setShowHelp((prev) => !prev),
+      'tool.select': tool('select'),
+      'tool.ruler': tool('ruler'),
+      'tool.los': tool('los'),
+      'tool.paint': tool('paint'),
+      'view.fit': () => store().actions.fitView(),
+      'view.perspective': camera('perspective'),
+      'view.topDown': camera('top-down'),
+      'view.isometric': camera('isometric'),
+      'view.screenshot': { run: handleScreenshot, enabled: () => !!store().renderer },
+      'panel.scenario': () => setShowScenario(true),
+      'panel.generator': () => setShowGenerator(true),
+      'panel.rules': () => setShowRules(true),
+      'panel.history': { run: () => setShowHistory(true), enabled: () => !!store().activeTableId },
+      'panel.printPlates': { run: () => setShowPrintPlates(true), enabled: () => !!store().activeTableId },
+      'panel.mapExport': () => setShowMapExport(true),
+    })
+  }, [renderer])
 
   if (screenshotMode) {
     return null
@@ -152,7 +237,7 @@ export function ControlsPanel() {
             className="tb-btn"
             onClick={undo}
             disabled={!canUndo}
-            title="Undo (Ctrl+Z)"
+            title={`Undo${shortcutHint('edit.undo')}`}
             style={{ flex: 1 }}
           >
             Undo
@@ -161,7 +246,7 @@ export function ControlsPanel() {
             className="tb-btn"
             onClick={redo}
             disabled={!canRedo}
-            title="Redo (Ctrl+Shift+Z)"
+            title={`Redo${shortcutHint('edit.redo')}`}
             style={{ flex: 1 }}
           >
             Redo
@@ -190,10 +275,75 @@ export function ControlsPanel() {
 
         <hr style={{ margin: '4px 0', borderColor: '#243246' }} />
 
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+          {TOOL_OPTIONS.map(({ mode, label, title }) => (
+            <button
+              key={mode}
+              className="tb-btn"
+              onClick={() => setToolMode(mode)}
+              style={{
+                padding: '6px 10px',
+                background: toolMode === mode ? '#ffd166' : '#1a2330',
+                color: toolMode === mode ? '#0b0f14' : undefined,
+              }}
+              title={title}
+            >
+              {label}
+            </button>
+          ))}
+          {toolMode === 'los' && (
+            <label className="tb-small" style={{ color: '#9fb2c8' }}>
+              Model height ({unitLabel(unit)})
+              <input
+                className="tb-input"
+                type="number"
+                min={0}
+                step="any"
+                value={Number(fromMetres(losHeight, unit).toFixed(3))}
+                onChange={(event) => setLosHeight(parseDimensionToMetres(event.target.value, unit))}
+                style={{ marginTop: 4 }}
+              />
+            </label>
+          )}
+          {toolMode === 'paint' && <SurfacePanel />}
+        </div>
+
+        <hr style={{ margin: '4px 0', borderColor: '#243246' }} />
+
+        <div className="tb-small" style={{ color: '#9fb2c8' }}>Symmetry</div>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6 }}>
+          {SYMMETRY_OPTIONS.map(({ mode, label, title }) => (
+            <button
+              key={mode}
+              className="tb-btn"
+              onClick={() => setSymmetry(mode)}
+              style={{
+                padding: '6px 10px',
+                background: symmetry === mode ? '#4da3ff' : '#1a2330',
+                color: symmetry === mode ? '#0b0f14' : undefined,
+              }}
+              title={title}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {selectedTwinned && (
+          <button
+            className="tb-btn"
+            onClick={() => selectedTwinned.split(',').forEach(breakTwinLink)}
+            title="Unlink the selected pieces from their mirrored twins"
+          >
+            Break Link
+          </button>
+        )}
+
+        <hr style={{ margin: '4px 0', borderColor: '#243246' }} />
+
         <button
           className="tb-btn"
           onClick={() => setShowSaveDialog(true)}
-          title="Save layout (Ctrl+S)"
+          title={`Save layout${shortcutHint('layout.save')}`}
         >
           Save Layout
         </button>
@@ -204,6 +354,65 @@ export function ControlsPanel() {
         >
           Load Layout
         </button>
+        {layoutSync.conflicts.length > 0 && (
+          <button
+            className="tb-btn"
+            onClick={() => setShowConflicts(true)}
+            title="Saved layouts changed here and on another device"
+            style={{ background: '#ffd166', color: '#0b0f14' }}
+          >
+            Resolve {layoutSync.conflicts.length} Conflict{layoutSync.conflicts.length === 1 ? '' : 's'}
+          </button>
+        )}
+        {activeTableId && (
+          <button
+            className="tb-btn"
+            onClick={handleSaveToTable}
+            disabled={tableSaveState === 'saving'}
+            title="Save pieces and scenario to this table"
+          >
+            {tableSaveState === 'saving' ? 'Saving…' : tableSaveState === 'saved' ? 'Saved to Table' : tableSaveState === 'queued' ? 'Saved Offline – Will Sync' : tableSaveState === 'error' ? 'Save Failed – Retry' : 'Save to Table'}
+          </button>
+        )}
+        {activeTableId && (
+          <button
+            className="tb-btn"
+            onClick={() => setShowHistory(true)}
+            title="Saved revisions of this table: compare, restore or branch"
+          >
+            History
+          </button>
+        )}
+        {activeTableId && (
+          <button
+            className="tb-btn"
+            onClick={() => setShowPrintPlates(true)}
+            title="Pack the saved table onto print beds with time and filament estimates"
+          >
+            Print Plates
+          </button>
+        )}
+        <button
+          className="tb-btn"
+          onClick={() => setShowScenario(true)}
+          title="Deployment zones, objectives and mission presets"
+        >
+          Scenario
+        </button>
+        <button
+          className="tb-btn"
+          onClick={() => setShowGenerator(true)}
+          title="Fill the table from a seeded random layout"
+        >
+          Generate
+        </button>
+        <button
+          className="tb-btn"
+          onClick={() => setShowRules(true)}
+          title="Check the layout against tournament rules"
+        >
+          Rules
+        </button>
         <button
           className="tb-btn"
           onClick={handleScreenshot}
@@ -211,10 +420,25 @@ export function ControlsPanel() {
         >
           Screenshot
         </button>
+        <button
+          className="tb-btn"
+          onClick={() => setShowMapExport(true)}
+          title="Download a printable top-down map (SVG or 1:1 PDF)"
+        >
+          Export Map
+        </button>
+        <button
+          className="tb-btn"
+          onClick={handleDownloadScene}
+          disabled={sceneExportState === 'exporting'}
+          title="Download the whole table as one GLB for other 3D tools"
+        >
+          {sceneExportState === 'exporting' ? 'Exporting…' : sceneExportState === 'error' ? 'Export Failed – Retry' : 'Download Scene'}
+        </button>
         <button
           className="tb-btn"
           onClick={() => setShowHelp(true)}
-          title="Show keyboard shortcuts"
+          title={`Show keyboard shortcuts${shortcutHint('help.toggle')}`}
         >
           Shortcuts
         </button>
@@ -222,121 +446,49 @@ export function ControlsPanel() {
 
       {showSaveDialog && (
         <DialogBackdrop onClose={() => setShowSaveDialog(false)}>
-          <div
-            style={{
-              background: '#121821',
-              padding: 24,
-              borderRadius: 8,
-              border: '1px solid #243246',
-              minWidth: 360,
-            }}
-            onClick={(event) => event.stopPropagation()}
-          >
-            <h3 style={{ marginTop: 0 }}>Save Layout</h3>
-            <input
-              className="tb-input"
-              placeholder="Enter layout name..."
-              value={saveName}
-              onChange={(event) => setSaveName(event.target.value)}
-              onKeyDown={(event) => {
-                if (event.key === 'Enter') handleSave()
-              }}
-              autoFocus
-              style={{ marginBottom: 16 }}
-            />
-            <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
-              <button className="tb-btn" onClick={() => setShowSaveDialog(false)}>
-                Cancel
-              </button>
-              <button
-                className="tb-btn"
-                onClick={handleSave}
-                disabled={!saveName.trim()}
-                style={{ background: '#4da3ff', color: '#0b0f14' }}
-              >
-                Save
-              </button>
-            </div>
+          <ShortcutsDialog onClose={() => setShowHelp(false)} />
+        </DialogBackdrop>
+      )}
 
-            <hr style={{ margin: '16px 0', borderColor: '#243246' }} />
+      {showScenario && (
+        <DialogBackdrop onClose={() => setShowScenario(false)}>
+          <ScenarioDialog onClose={() => setShowScenario(false)} />
+        </DialogBackdrop>
+      )}
 
-            <div style={{ display: 'flex', gap: 8 }}>
-              <button className="tb-btn" onClick={handleExport} style={{ flex: 1 }}>
-                Export JSON
-              </button>
-              <button className="tb-btn" onClick={handleImport} style={{ flex: 1 }}>
-                Import JSON
-              </button>
-            </div>
-          </div>
+      {showGenerator && (
+        <DialogBackdrop onClose={() => setShowGenerator(false)}>
+          <GeneratorDialog onClose={() => setShowGenerator(false)} />
         </DialogBackdrop>
       )}
 
-      {showLoadDialog && (
-        <DialogBackdrop onClose={() => setShowLoadDialog(false)}>
-          <div
-            style={{
-              background: '#121821',
-              padding: 24,
-              borderRadius: 8,
-              border: '1px solid #243246',
-              minWidth: 360,
-              maxHeight: '80vh',
-              overflow: 'auto',
-            }}
-            onClick={(event) => event.stopPropagation()}
-          >
-            <h3 style={{ marginTop: 0 }}>Load Layout</h3>
-            {savedLayouts.length === 0 ? (
-              <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 16 }}>
-                No saved layouts yet.
-              </div>
-            ) : (
-              <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16 }}>
-                {savedLayouts.map((layout) => (
-                  <div
-                    key={layout.id}
-                    style={{
-                      display: 'flex',
-                      justifyContent: 'space-between',
-                      alignItems: 'center',
-                      padding: 8,
-                      background: '#0e141c',
-                      borderRadius: 6,
-                      border: '1px solid #243246',
-                    }}
-                  >
-                    <div style={{ flex: 1 }}>
-                      <div style={{ fontWeight: 500 }}>{layout.name}</div>
-                      <div className="tb-small" style={{ color: '#9fb2c8' }}>
-                        {new Date(layout.createdAt).toLocaleString()}
-                      </div>
-                    </div>
-                    <div style={{ display: 'flex', gap: 6 }}>
-                      <button
-                        className="tb-btn"
-                        onClick={() => {
-                          loadLayout(layout.id)
-                          setShowLoadDialog(false)
-                        }}
-                      >
-                        Load
-                      </button>
-                      <button
-                        className="tb-btn"
-                        onClick={() => deleteLayout(layout.id)}
-                      >
-                        Delete
-                      </button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
-            <button className="tb-btn" onClick={() => setShowLoadDialog(false)} style={{ width: '100%' }}>
-              Close
-            </button>
-          </div>
+      {showRules && (
+        <DialogBackdrop onClose={() => setShowRules(false)}>
+          <RulesDialog onClose={() => setShowRules(false)} />
+        </DialogBackdrop>
+      )}
+
+      {showHistory && (
+        <DialogBackdrop onClose={() => setShowHistory(false)}>
+          <HistoryDialog onClose={() => setShowHistory(false)} />
+        </DialogBackdrop>
+      )}
+
+      {showPrintPlates && (
+        <DialogBackdrop onClose={() => setShowPrintPlates(false)}>
+          <PrintPlatesDialog onClose={() => setShowPrintPlates(false)} />
+        </DialogBackdrop>
+      )}
+
+      {showMapExport && (
+        <DialogBackdrop onClose={() => setShowMapExport(false)}>
+          <MapExportDialog onClose={() => setShowMapExport(false)} />
+        </DialogBackdrop>
+      )}
+
+      {showConflicts && (
+        <DialogBackdrop onClose={() => setShowConflicts(false)}>
+          <LayoutConflictDialog onClose={() => setShowConflicts(false)} />
         </DialogBackdrop>
       )}
 
@@ -357,13 +509,17 @@ export function ControlsPanel() {
               {[
                 ['Undo', 'Ctrl + Z'],
                 ['Redo', 'Ctrl + Shift + Z'],
+                ['Add/remove from selection', 'Shift + Click'],
+                ['Box select', 'Shift + Drag'],
                 ['Duplicate selected', 'Ctrl + D'],
                 ['Delete selected', 'Delete'],
+                ['Rotate selection 90°', 'Q / E'],
+                ['Drop onto surface below', 'G'],
                 ['Save layout', 'Ctrl + S'],
                 ['Transform mode', 'T / R'],
                 ['Free rotation (no snap)', 'Hold Shift'],
                 ['Rotate ghost placement', 'R'],
-                ['Cancel placement', 'Esc'],
+                ['Cancel placement / leave ruler', 'Esc'],
                 ['Toggle help', '?'],
               ].map(([label, shortcut]) => (
                 <div key={label} style={{ display: 'flex', justifyContent: 'space-between' }}>
@@ -0,0 +1,155 @@
+// src/ui/GeneratorPanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { useLibraryStore } from '@/store/libraryStore'
+import { DEFAULT_GENERATOR_OPTIONS, type GeneratorOptions } from '@core/generator'
+import { fromMetres, parseDimensionToMetres, unitLabel } from '@core/units'
+
+const ALL_ASSETS = '__all__'
+
+const randomSeed = () => Math.random().toString(36).slice(2, 8)
+
+export function GeneratorDialog({ onClose }: { onClose: () => void }) {
+  const assets = useAppStore((s) => s.assets)
+  const unit = useAppStore((s) => s.table.unitDisplay)
+  const hasZones = useAppStore((s) => (s.table.scenario?.zones.length ?? 0) > 0)
+  const generateInstances = useAppStore((s) => s.actions.generateInstances)
+  const sets = useLibraryStore((s) => s.sets)
+
+  const [options, setOptions] = React.useState<GeneratorOptions>(DEFAULT_GENERATOR_OPTIONS)
+  const [poolId, setPoolId] = React.useState(ALL_ASSETS)
+  const [result, setResult] = React.useState<string | null>(null)
+
+  const set = (patch: Partial<GeneratorOptions>) => setOptions((prev) => ({ ...prev, ...patch }))
+  const toUnit = (metres: number) => Number(fromMetres(metres, unit).toFixed(2))
+
+  // a set's assets share ids with the builder catalogue; ones the builder can't load are skipped
+  const poolIds = React.useMemo(() => {
+    if (poolId === ALL_ASSETS) return undefined
+    const chosen = sets.find((s) => s.id === poolId)
+    return chosen ? chosen.assets.map((a) => a.id) : []
+  }, [poolId, sets])
+  const poolSize = poolIds ? assets.filter((a) => poolIds.includes(a.id)).length : assets.length
+
+  const handleGenerate = () => {
+    const count = generateInstances(options, poolIds)
+    setResult(count > 0 ? `Placed ${count} piece${count === 1 ? '' : 's'}.` : 'Nothing fitted – try a lower gap or margin.')
+  }
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 380,
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Generate Layout</h3>
+      <div style={{ display: 'grid', gap: 10 }}>
+        <label className="tb-small">
+          Asset pool ({poolSize} usable)
+          <select className="tb-input" value={poolId} onChange={(event) => setPoolId(event.target.value)} style={{ marginTop: 4 }}>
+            <option value={ALL_ASSETS}>All builder assets</option>
+            {sets.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="tb-small">
+          Seed
+          <div style={{ display: 'flex', gap: 6, marginTop: 4 }}>
+            <input className="tb-input" value={options.seed} onChange={(event) => set({ seed: event.target.value })} style={{ flex: 1 }} />
+            <button className="tb-btn" onClick={() => set({ seed: randomSeed() })} title="New random seed">
+              Randomise
+            </button>
+          </div>
+        </label>
+
+        <label className="tb-small">
+          Density: {Math.round(options.density * 100)}% of the table
+          <input
+            type="range"
+            min={0.05}
+            max={0.6}
+            step={0.01}
+            value={options.density}
+            onChange={(event) => set({ density: Number(event.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </label>
+
+        <label className="tb-small">
+          Ruins / scatter: {Math.round(options.ruinRatio * 100)}% / {Math.round((1 - options.ruinRatio) * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={options.ruinRatio}
+            onChange={(event) => set({ ruinRatio: Number(event.target.value) })}
+            style={{ width: '100%' }}
+          />
+        </label>
+
+        <div style={{ display: 'flex', gap: 8 }}>
+          <label className="tb-small" style={{ flex: 1 }}>
+            Min gap ({unitLabel(unit)})
+            <input
+              className="tb-input"
+              type="number"
+              min={0}
+              step="any"
+              value={toUnit(options.minGap)}
+              onChange={(event) => set({ minGap: Math.max(0, parseDimensionToMetres(event.target.value, unit)) })}
+              style={{ marginTop: 4 }}
+            />
+          </label>
+          <label className="tb-small" style={{ flex: 1 }}>
+            Edge margin ({unitLabel(unit)})
+            <input
+              className="tb-input"
+              type="number"
+              min={0}
+              step="any"
+              value={toUnit(options.edgeMargin)}
+              onChange={(event) => set({ edgeMargin: Math.max(0, parseDimensionToMetres(event.target.value, unit)) })}
+              style={{ marginTop: 4 }}
+            />
+          </label>
+        </div>
+
+        <label className="tb-small" style={{ display: 'flex', gap: 6, alignItems: 'center', opacity: hasZones ? 1 : 0.5 }}>
+          <input
+            type="checkbox"
+            checked={options.avoidZones}
+            disabled={!hasZones}
+            onChange={(event) => set({ avoidZones: event.target.checked })}
+          />
+          Keep deployment zones clear
+        </label>
+      </div>
+
+      {result && (
+        <div className="tb-small" style={{ color: '#9fb2c8', marginTop: 12 }}>{result}</div>
+      )}
+
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end', marginTop: 16 }}>
+        <button className="tb-btn" onClick={onClose}>
+          Close
+        </button>
+        <button
+          className="tb-btn"
+          onClick={handleGenerate}
+          disabled={poolSize === 0}
+          style={{ background: '#4da3ff', color: '#0b0f14' }}
+        >
+          Generate
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+// src/ui/HistoryPanel.tsx
+import React from 'react'
+import { useNavigate } from 'react-router-dom'
+import toast from 'react-hot-toast'
+import { useAppStore } from '@state/store'
+import { revisionErrorMessage, useTableRevisions } from '@/hooks/useTableRevisions'
+import type { TableRevisionDiff } from '@/api/types'
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: 8,
+  background: '#0e141c',
+  borderRadius: 6,
+  border: '1px solid #243246',
+}
+
+type MovedPiece = TableRevisionDiff['moved'][number]
+
+function describeMove({ from, to, changes }: MovedPiece) {
+  return changes
+    .map((change) =>
+      change === 'position' ? 'moved'
+        : change === 'elevation' ? (to.elevation > from.elevation ? 'raised' : 'lowered')
+        : change === 'rotation' ? 'turned'
+        : 'tipped',
+    )
+    .join(', ')
+}
+
+export function HistoryDialog({ onClose }: { onClose: () => void }) {
+  const navigate = useNavigate()
+  const tableId = useAppStore((s) => s.activeTableId)
+  const saveTableLayout = useAppStore((s) => s.actions.saveTableLayout)
+  const loadTableLayout = useAppStore((s) => s.actions.loadTableLayout)
+  const assets = useAppStore((s) => s.assets)
+  const { revisions, loading, error, refresh, diff, restore, branch } = useTableRevisions(tableId)
+
+  const [message, setMessage] = React.useState('')
+  const [compareIds, setCompareIds] = React.useState<string[]>([])
+  const [comparison, setComparison] = React.useState<TableRevisionDiff | null>(null)
+  const [busy, setBusy] = React.useState(false)
+
+  const numberOf = (id: string) => revisions.find((r) => r.id === id)?.revisionNumber ?? 0
+  // older layouts list library model ids rather than builder asset ids
+  const nameOf = (modelId: string) =>
+    assets.find((a) => a.id === modelId || a.sourceModelId === modelId)?.name ?? 'Unknown piece'
+
+  const toggleCompare = (id: string) => {
+    setComparison(null)
+    setCompareIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev.slice(-1), id]))
+  }
+
+  const run = async (task: () => Promise<void>) => {
+    setBusy(true)
+    try {
+      await task()
+    } catch (err) {
+      toast.error(revisionErrorMessage(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleSave = () =>
+    run(async () => {
+      await saveTableLayout(message.trim() || undefined)
+      setMessage('')
+      await refresh()
+    })
+
+  // older revision first, so "added" means added since the earlier save
+  const handleCompare = () =>
+    run(async () => {
+      const [a, b] = [...compareIds].sort((x, y) => numberOf(x) - numberOf(y))
+      setComparison(await diff(a, b))
+    })
+
+  const handleRestore = (revisionId: string) =>
+    run(async () => {
+      if (!tableId) return
+      await restore(revisionId)
+      await loadTableLayout(tableId)
+    })
+
+  const handleBranch = (revisionId: string) =>
+    run(async () => {
+      const created = await branch(revisionId)
+      onClose()
+      navigate(`/dashboard/tables/${created.id}/edit`)
+    })
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 440,
+        maxHeight: '80vh',
+        overflow: 'auto',
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Table History</h3>
+
+      <div style={{ display: 'flex', gap: 6, marginBottom: 16 }}>
+        <input
+          className="tb-input"
+          placeholder="Describe this save (optional)"
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') handleSave()
+          }}
+          style={{ flex: 1 }}
+        />
+        <button
+          className="tb-btn"
+          onClick={handleSave}
+          disabled={busy}
+          style={{ background: '#4da3ff', color: '#0b0f14' }}
+        >
+          Save Revision
+        </button>
+      </div>
+
+      {error && (
+        <div className="tb-small" style={{ color: '#e05757', marginBottom: 8 }}>{error}</div>
+      )}
+      {loading && revisions.length === 0 && (
+        <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 8 }}>Loading revisions…</div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 12 }}>
+        {revisions.map((revision) => (
+          <div key={revision.id} style={rowStyle}>
+            <input
+              type="checkbox"
+              checked={compareIds.includes(revision.id)}
+              onChange={() => toggleCompare(revision.id)}
+              title="Select two revisions to compare"
+            />
+            <div style={{ flex: 1 }}>
+              <div style={{ fontWeight: 500 }}>
+                #{revision.revisionNumber} {revision.message ?? 'Saved'}
+              </div>
+              <div className="tb-small" style={{ color: '#9fb2c8' }}>
+                {revision.authorName ?? 'Unknown'} · {new Date(revision.createdAt).toLocaleString()} · {revision.modelCount} pieces
+              </div>
+            </div>
+            <button className="tb-btn" disabled={busy} onClick={() => handleRestore(revision.id)}>
+              Restore
+            </button>
+            <button className="tb-btn" disabled={busy} onClick={() => handleBranch(revision.id)}>
+              Branch
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <button
+        className="tb-btn"
+        onClick={handleCompare}
+        disabled={busy || compareIds.length !== 2}
+        style={{ width: '100%', marginBottom: 12 }}
+      >
+        {compareIds.length === 2
+          ? `Compare #${Math.min(...compareIds.map(numberOf))} → #${Math.max(...compareIds.map(numberOf))}`
+          : 'Select two revisions to compare'}
+      </button>
+
+      {comparison && (
+        <div className="tb-small" style={{ ...rowStyle, flexDirection: 'column', alignItems: 'stretch', marginBottom: 12 }}>
+          <div>
+            <span style={{ color: '#3fbf5a' }}>+{comparison.added.length} added</span>
+            {' · '}
+            <span style={{ color: '#e05757' }}>−{comparison.removed.length} removed</span>
+            {' · '}
+            <span style={{ color: '#ffd166' }}>{comparison.moved.length} moved</span>
+            {' · '}
+            {comparison.unchanged} unchanged
+          </div>
+          {comparison.added.map((piece) => (
+            <div key={`added-${piece.key}`} style={{ color: '#3fbf5a' }}>+ {nameOf(piece.modelId)}</div>
+          ))}
+          {comparison.removed.map((piece) => (
+            <div key={`removed-${piece.key}`} style={{ color: '#e05757' }}>− {nameOf(piece.modelId)}</div>
+          ))}
+          {comparison.moved.map((move) => (
+            <div key={`moved-${move.key}`} style={{ color: '#ffd166' }}>
+              ~ {nameOf(move.modelId)} <span style={{ color: '#9fb2c8' }}>({describeMove(move)})</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button className="tb-btn" onClick={onClose} style={{ width: '100%' }}>
+        Close
+      </button>
+    </div>
+  )
+}
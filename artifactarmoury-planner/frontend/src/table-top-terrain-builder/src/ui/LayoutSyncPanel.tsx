@@ -0,0 +1,101 @@
+// src/ui/LayoutSyncPanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { localModifiedAt } from '@core/layoutSync'
+import type { ConflictChoice } from '@core/layoutSync'
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 8,
+  padding: 8,
+  background: '#0e141c',
+  borderRadius: 6,
+  border: '1px solid #243246',
+}
+
+const CHOICES: Array<{ choice: ConflictChoice; label: string; title: string }> = [
+  { choice: 'local', label: "Keep this device's", title: 'Overwrite the server copy with this one' },
+  { choice: 'remote', label: "Keep server's", title: 'Replace this copy with the server one' },
+  { choice: 'both', label: 'Keep both', title: "Save this device's copy as a separate layout" },
+  { choice: 'merge', label: 'Merge', title: 'Keep pieces from both; the newer side wins where they differ' },
+]
+
+export function LayoutConflictDialog({ onClose }: { onClose: () => void }) {
+  const conflicts = useAppStore((s) => s.layoutSync.conflicts)
+  const resolveLayoutConflict = useAppStore((s) => s.actions.resolveLayoutConflict)
+  const [busyId, setBusyId] = React.useState<string | null>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const resolve = async (localId: string, choice: ConflictChoice) => {
+    setBusyId(localId)
+    setError(null)
+    try {
+      await resolveLayoutConflict(localId, choice)
+    } catch (err) {
+      console.error('Failed to resolve layout conflict', err)
+      setError('Could not reach the server; try again in a moment.')
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 440,
+        maxHeight: '80vh',
+        overflow: 'auto',
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Sync Conflicts</h3>
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 12 }}>
+        These layouts were changed both here and on another device since they last synced.
+      </div>
+
+      {error && (
+        <div className="tb-small" style={{ color: '#e05757', marginBottom: 8 }}>{error}</div>
+      )}
+      {conflicts.length === 0 && (
+        <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 12 }}>All conflicts resolved.</div>
+      )}
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 16 }}>
+        {conflicts.map(({ local, remote }) => (
+          <div key={local.id} style={rowStyle}>
+            <div style={{ fontWeight: 500 }}>{local.name}</div>
+            <div className="tb-small" style={{ color: '#9fb2c8' }}>
+              This device: {local.instances.length} pieces · {new Date(localModifiedAt(local)).toLocaleString()}
+            </div>
+            <div className="tb-small" style={{ color: '#9fb2c8' }}>
+              Server{remote.name !== local.name ? ` ("${remote.name}")` : ''}: {remote.instances.length} pieces ·{' '}
+              {new Date(remote.updatedAt).toLocaleString()}
+            </div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap' }}>
+              {CHOICES.map(({ choice, label, title }) => (
+                <button
+                  key={choice}
+                  className="tb-btn"
+                  title={title}
+                  disabled={busyId !== null}
+                  onClick={() => resolve(local.id, choice)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button className="tb-btn" onClick={onClose} style={{ width: '100%' }}>
+        Close
+      </button>
+    </div>
+  )
+}
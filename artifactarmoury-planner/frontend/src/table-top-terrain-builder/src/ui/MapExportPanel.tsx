@@ -0,0 +1,127 @@
+// src/ui/MapExportPanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { buildLayoutMap, layoutMapToPdf, layoutMapToSvg, planPdfTiles } from '@core/mapExport'
+import { PAPER_SIZES, type PaperSize } from '@core/pdf'
+
+type MapFormat = 'svg' | 'pdf'
+
+export function MapExportDialog({ onClose }: { onClose: () => void }) {
+  const instances = useAppStore((s) => s.instances)
+  const assets = useAppStore((s) => s.assets)
+  const table = useAppStore((s) => s.table)
+  const [title, setTitle] = React.useState('')
+  const [format, setFormat] = React.useState<MapFormat>('pdf')
+  const [paper, setPaper] = React.useState<PaperSize>('a4')
+  const [grid, setGrid] = React.useState(true)
+  const [zones, setZones] = React.useState(true)
+  const [labels, setLabels] = React.useState(true)
+  const [ground, setGround] = React.useState(true)
+
+  const map = React.useMemo(
+    () => buildLayoutMap(instances, new Map(assets.map((a) => [a.id, a])), table, { title, grid, zones, labels, ground }),
+    [instances, assets, table, title, grid, zones, labels, ground]
+  )
+  const tiling = React.useMemo(() => planPdfTiles(map, paper), [map, paper])
+
+  const handleExport = () => {
+    const blob =
+      format === 'svg'
+        ? new Blob([layoutMapToSvg(map)], { type: 'image/svg+xml' })
+        : new Blob([layoutMapToPdf(map, paper)], { type: 'application/pdf' })
+    const url = URL.createObjectURL(blob)
+    const anchor = document.createElement('a')
+    anchor.href = url
+    anchor.download = `${map.title.replace(/\W+/g, '-').toLowerCase()}-map.${format}`
+    anchor.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const toggle = (label: string, checked: boolean, onChange: (value: boolean) => void) => (
+    <label className="tb-small" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+      <input type="checkbox" checked={checked} onChange={(event) => onChange(event.target.checked)} />
+      {label}
+    </label>
+  )
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 380,
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Export Map</h3>
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 12 }}>
+        Top-down vector map at true scale with a legend of every piece.
+      </div>
+
+      <div style={{ display: 'grid', gap: 10, marginBottom: 16 }}>
+        <label className="tb-small">
+          Title
+          <input
+            className="tb-input"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+            placeholder="Table layout"
+            style={{ marginTop: 4, width: '100%' }}
+          />
+        </label>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {(['pdf', 'svg'] as const).map((f) => (
+            <button
+              key={f}
+              className="tb-btn"
+              onClick={() => setFormat(f)}
+              style={{ flex: 1, background: format === f ? '#4da3ff' : undefined, color: format === f ? '#0b0f14' : undefined }}
+            >
+              {f === 'pdf' ? 'PDF (1:1 tiles)' : 'SVG'}
+            </button>
+          ))}
+        </div>
+        {format === 'pdf' && (
+          <label className="tb-small">
+            Paper
+            <select
+              className="tb-input"
+              value={paper}
+              onChange={(event) => setPaper(event.target.value as PaperSize)}
+              style={{ marginTop: 4, width: '100%' }}
+            >
+              {(Object.keys(PAPER_SIZES) as PaperSize[]).map((p) => (
+                <option key={p} value={p}>{PAPER_SIZES[p].label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        {toggle('Grid', grid, setGrid)}
+        {toggle('Deployment zones and objectives', zones, setZones)}
+        {toggle('Piece keys', labels, setLabels)}
+        {table.surface && toggle('Painted ground (difficult ground hatched)', ground, setGround)}
+      </div>
+
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 12 }}>
+        {instances.length} pieces, {map.legend.length} kinds
+        {format === 'pdf' &&
+          ` · ${tiling.columns} × ${tiling.rows} ${tiling.landscape ? 'landscape' : 'portrait'} pages plus an overview`}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button
+          className="tb-btn"
+          onClick={handleExport}
+          style={{ flex: 1, background: '#4da3ff', color: '#0b0f14' }}
+        >
+          Download {format.toUpperCase()}
+        </button>
+        <button className="tb-btn" onClick={onClose} style={{ flex: 1 }}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
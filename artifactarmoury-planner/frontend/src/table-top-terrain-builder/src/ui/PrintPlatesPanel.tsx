@@ -0,0 +1,250 @@
+// src/ui/PrintPlatesPanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { tablesApi } from '@/api/endpoints/tables'
+import type { PrintPlan, PrintPlanOptions } from '@/api/types'
+
+// Common FDM beds (mm); 'custom' keeps whatever is typed in
+const BED_PRESETS = [
+  { id: 'bambu', label: 'Bambu X1 / P1 (256³)', width: 256, depth: 256, height: 256 },
+  { id: 'prusa-mk4', label: 'Prusa MK4 (250×210×220)', width: 250, depth: 210, height: 220 },
+  { id: 'ender3', label: 'Ender 3 (220×220×250)', width: 220, depth: 220, height: 250 },
+  { id: 'voron350', label: 'Voron 350 (350³)', width: 350, depth: 350, height: 340 },
+] as const
+
+const PREVIEW_WIDTH = 160
+
+const errorMessage = (error: unknown) =>
+  (error as any)?.response?.data?.error ?? (error instanceof Error ? error.message : 'Request failed')
+
+export function PrintPlatesDialog({ onClose }: { onClose: () => void }) {
+  const tableId = useAppStore((s) => s.activeTableId)
+  const [bedId, setBedId] = React.useState<string>(BED_PRESETS[0].id)
+  const [options, setOptions] = React.useState<PrintPlanOptions>({
+    bedWidth: BED_PRESETS[0].width,
+    bedDepth: BED_PRESETS[0].depth,
+    bedHeight: BED_PRESETS[0].height,
+    spacing: 5,
+    rotate: true,
+    material: 'pla',
+    quality: 'standard',
+  })
+  const [plan, setPlan] = React.useState<PrintPlan | null>(null)
+  const [busy, setBusy] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const set = (patch: Partial<PrintPlanOptions>) => {
+    setOptions((prev) => ({ ...prev, ...patch }))
+    setPlan(null)
+  }
+
+  const chooseBed = (id: string) => {
+    setBedId(id)
+    const preset = BED_PRESETS.find((b) => b.id === id)
+    if (preset) set({ bedWidth: preset.width, bedDepth: preset.depth, bedHeight: preset.height })
+  }
+
+  const handlePlan = async () => {
+    if (!tableId) return
+    setBusy(true)
+    try {
+      setPlan(await tablesApi.getPrintPlan(tableId, options))
+      setError(null)
+    } catch (err) {
+      setError(errorMessage(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDownload = async (plateIndex: number) => {
+    if (!tableId) return
+    setBusy(true)
+    try {
+      const blob = await tablesApi.downloadPlateStl(tableId, plateIndex, options)
+      const url = URL.createObjectURL(blob)
+      const anchor = document.createElement('a')
+      anchor.href = url
+      anchor.download = `plate-${plateIndex + 1}.stl`
+      anchor.click()
+      URL.revokeObjectURL(url)
+      setError(null)
+    } catch (err) {
+      // blob responses carry the JSON error as a blob too
+      const data = (err as any)?.response?.data
+      setError(data instanceof Blob ? JSON.parse(await data.text()).error ?? 'Download failed' : errorMessage(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const dimensionInput = (key: 'bedWidth' | 'bedDepth' | 'bedHeight', label: string) => (
+    <label className="tb-small" style={{ flex: 1 }}>
+      {label}
+      <input
+        className="tb-input"
+        type="number"
+        min={10}
+        value={options[key]}
+        onChange={(event) => {
+          setBedId('custom')
+          set({ [key]: Number(event.target.value) })
+        }}
+        style={{ marginTop: 4, width: '100%' }}
+      />
+    </label>
+  )
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 440,
+        maxHeight: '80vh',
+        overflow: 'auto',
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Print Plates</h3>
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 12 }}>
+        Packs the table's last saved layout onto print beds.
+      </div>
+
+      <div style={{ display: 'grid', gap: 10, marginBottom: 12 }}>
+        <label className="tb-small">
+          Printer
+          <select className="tb-input" value={bedId} onChange={(event) => chooseBed(event.target.value)} style={{ marginTop: 4 }}>
+            {BED_PRESETS.map((b) => (
+              <option key={b.id} value={b.id}>{b.label}</option>
+            ))}
+            <option value="custom">Custom</option>
+          </select>
+        </label>
+        <div style={{ display: 'flex', gap: 6 }}>
+          {dimensionInput('bedWidth', 'Width (mm)')}
+          {dimensionInput('bedDepth', 'Depth (mm)')}
+          {dimensionInput('bedHeight', 'Height (mm)')}
+        </div>
+        <div style={{ display: 'flex', gap: 6 }}>
+          <label className="tb-small" style={{ flex: 1 }}>
+            Gap (mm)
+            <input
+              className="tb-input"
+              type="number"
+              min={0}
+              value={options.spacing}
+              onChange={(event) => set({ spacing: Number(event.target.value) })}
+              style={{ marginTop: 4, width: '100%' }}
+            />
+          </label>
+          <label className="tb-small" style={{ flex: 1 }}>
+            Material
+            <select
+              className="tb-input"
+              value={options.material}
+              onChange={(event) => set({ material: event.target.value as PrintPlanOptions['material'] })}
+              style={{ marginTop: 4, width: '100%' }}
+            >
+              {['pla', 'petg', 'abs', 'tpu', 'nylon', 'resin'].map((m) => (
+                <option key={m} value={m}>{m.toUpperCase()}</option>
+              ))}
+            </select>
+          </label>
+          <label className="tb-small" style={{ flex: 1 }}>
+            Quality
+            <select
+              className="tb-input"
+              value={options.quality}
+              onChange={(event) => set({ quality: event.target.value as PrintPlanOptions['quality'] })}
+              style={{ marginTop: 4, width: '100%' }}
+            >
+              {['draft', 'standard', 'fine', 'ultra'].map((q) => (
+                <option key={q} value={q}>{q}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <label className="tb-small" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <input type="checkbox" checked={options.rotate} onChange={(event) => set({ rotate: event.target.checked })} />
+          Allow turning pieces 90° to fit
+        </label>
+      </div>
+
+      <button
+        className="tb-btn"
+        onClick={handlePlan}
+        disabled={busy || !tableId}
+        style={{ width: '100%', marginBottom: 12, background: '#4da3ff', color: '#0b0f14' }}
+      >
+        {busy && !plan ? 'Planning…' : 'Plan Plates'}
+      </button>
+
+      {error && (
+        <div className="tb-small" style={{ color: '#e05757', marginBottom: 8 }}>{error}</div>
+      )}
+
+      {plan && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginBottom: 12 }}>
+          <div className="tb-small" style={{ color: '#9fb2c8' }}>
+            {plan.totals.plates} plate{plan.totals.plates === 1 ? '' : 's'} · {plan.totals.estimatedHours.toFixed(1)} h ·{' '}
+            {Math.round(plan.totals.filamentGrams)} g filament · £{plan.totals.materialCost.toFixed(2)} material
+          </div>
+          {plan.plates.map((plate) => (
+            <div
+              key={plate.index}
+              style={{ display: 'flex', gap: 12, padding: 8, background: '#0e141c', borderRadius: 6, border: '1px solid #243246' }}
+            >
+              <svg
+                width={PREVIEW_WIDTH}
+                height={(PREVIEW_WIDTH * plan.bed.depth) / plan.bed.width}
+                viewBox={`0 0 ${plan.bed.width} ${plan.bed.depth}`}
+                style={{ background: '#1a2330', flexShrink: 0 }}
+              >
+                {plate.parts.map((part) => (
+                  <rect
+                    key={part.key}
+                    x={part.x}
+                    // bed Y runs away from the front edge; SVG Y runs down
+                    y={plan.bed.depth - part.y - part.depth}
+                    width={part.width}
+                    height={part.depth}
+                    fill={part.rotated ? '#ffd166' : '#4da3ff'}
+                    fillOpacity={0.7}
+                    stroke="#0b0f14"
+                    strokeWidth={1}
+                  >
+                    <title>{part.name}{part.rotated ? ' (turned 90°)' : ''}</title>
+                  </rect>
+                ))}
+              </svg>
+              <div style={{ flex: 1 }}>
+                <div style={{ fontWeight: 500 }}>Plate {plate.index + 1}</div>
+                <div className="tb-small" style={{ color: '#9fb2c8' }}>
+                  {plate.parts.length} pieces · {Math.round(plate.utilisation * 100)}% of bed
+                </div>
+                <div className="tb-small" style={{ color: '#9fb2c8' }}>
+                  {plate.estimatedHours.toFixed(1)} h · {Math.round(plate.filamentGrams)} g
+                </div>
+                <button className="tb-btn" disabled={busy} onClick={() => handleDownload(plate.index)} style={{ marginTop: 6 }}>
+                  Download STL
+                </button>
+              </div>
+            </div>
+          ))}
+          {plan.unplaced.length > 0 && (
+            <div className="tb-small" style={{ color: '#ff8c42' }}>
+              Not plated: {plan.unplaced.map((u) => `${u.name} (${u.reason})`).join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+
+      <button className="tb-btn" onClick={onClose} style={{ width: '100%' }}>
+        Close
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+// src/ui/RulesPanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { BUILT_IN_RULE_SETS, parseRuleSet } from '@core/rules'
+
+export function RulesDialog({ onClose }: { onClose: () => void }) {
+  const ruleSet = useAppStore((s) => s.ruleSet)
+  const ruleReport = useAppStore((s) => s.ruleReport)
+  const setRuleSet = useAppStore((s) => s.setRuleSet)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const handleImport = () => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = '.json'
+    input.onchange = (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0]
+      if (!file) return
+      const reader = new FileReader()
+      reader.onload = (e) => {
+        try {
+          setRuleSet(parseRuleSet(e.target?.result as string))
+          setError(null)
+        } catch (err) {
+          setError(err instanceof Error ? err.message : 'Could not read rule set')
+        }
+      }
+      reader.readAsText(file)
+    }
+    input.click()
+  }
+
+  const handleExport = () => {
+    if (!ruleSet) return
+    const blob = new Blob([JSON.stringify(ruleSet, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const anchor = document.createElement('a')
+    anchor.href = url
+    anchor.download = `rules-${ruleSet.name.replace(/\W+/g, '-').toLowerCase()}.json`
+    anchor.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 380,
+        maxHeight: '80vh',
+        overflow: 'auto',
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Layout Rules</h3>
+      <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        <select
+          className="tb-input"
+          value={ruleSet?.name ?? ''}
+          onChange={(event) => setRuleSet(BUILT_IN_RULE_SETS.find((s) => s.name === event.target.value) ?? null)}
+          style={{ flex: 1 }}
+        >
+          <option value="">Off</option>
+          {BUILT_IN_RULE_SETS.map((s) => (
+            <option key={s.name} value={s.name}>{s.name}</option>
+          ))}
+          {ruleSet && !BUILT_IN_RULE_SETS.some((s) => s.name === ruleSet.name) && (
+            <option value={ruleSet.name}>{ruleSet.name} (imported)</option>
+          )}
+        </select>
+        <button className="tb-btn" onClick={handleImport} title="Load a rule set from a JSON file">
+          Import JSON
+        </button>
+        <button className="tb-btn" onClick={handleExport} disabled={!ruleSet} title="Download the active rule set">
+          Export
+        </button>
+      </div>
+      {error && (
+        <div className="tb-small" style={{ color: '#e05757', marginBottom: 8 }}>{error}</div>
+      )}
+
+      {ruleReport && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 16 }}>
+          <div className="tb-small" style={{ color: '#9fb2c8' }}>Score: {ruleReport.score}%</div>
+          {ruleReport.results.map((result, index) => (
+            <div
+              key={index}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                gap: 12,
+                padding: 6,
+                background: '#0e141c',
+                borderRadius: 6,
+                border: `1px solid ${result.passed ? '#243246' : '#ff8c42'}`,
+              }}
+            >
+              <span className="tb-small">{result.passed ? '✓' : '✗'} {result.label}</span>
+              <span className="tb-small" style={{ color: '#9fb2c8' }}>{result.detail}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <button className="tb-btn" onClick={onClose} style={{ width: '100%' }}>
+        Close
+      </button>
+    </div>
+  )
+}
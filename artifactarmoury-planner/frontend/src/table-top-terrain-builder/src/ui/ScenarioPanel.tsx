@@ -0,0 +1,250 @@
+// src/ui/ScenarioPanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { emptyScenario } from '@core/scenario'
+import type { Scenario, TableEdge } from '@core/scenario'
+import { fromMetres, parseDimensionToMetres, unitLabel } from '@core/units'
+
+const EDGES: TableEdge[] = ['north', 'south', 'east', 'west']
+const SIDE_NAMES = ['Blue', 'Red', 'Green', 'Yellow']
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 6,
+  padding: 6,
+  background: '#0e141c',
+  borderRadius: 6,
+  border: '1px solid #243246',
+}
+
+const newId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`
+
+export function ScenarioDialog({ onClose }: { onClose: () => void }) {
+  const table = useAppStore((s) => s.table)
+  const setScenario = useAppStore((s) => s.actions.setScenario)
+  const applyScenarioPreset = useAppStore((s) => s.actions.applyScenarioPreset)
+  const getScenarioPresets = useAppStore((s) => s.actions.getScenarioPresets)
+  const saveScenarioPreset = useAppStore((s) => s.actions.saveScenarioPreset)
+  const deleteScenarioPreset = useAppStore((s) => s.actions.deleteScenarioPreset)
+
+  // presets live in localStorage, so bump this to re-read them after a save/delete
+  const [presetsVersion, setPresetsVersion] = React.useState(0)
+  const presets = React.useMemo(() => getScenarioPresets(), [getScenarioPresets, presetsVersion])
+  const [presetId, setPresetId] = React.useState(presets[0]?.id ?? '')
+  const [presetName, setPresetName] = React.useState('')
+  const [edge, setEdge] = React.useState<TableEdge>('north')
+  const [edgeSide, setEdgeSide] = React.useState(0)
+  const unit = table.unitDisplay
+  // default deployment depth: 12"
+  const [edgeDepth, setEdgeDepth] = React.useState(() => String(Number(fromMetres(0.3048, unit).toFixed(2))))
+
+  const scenario = table.scenario ?? emptyScenario()
+  const selectedPreset = presets.find((p) => p.id === presetId)
+
+  const update = (patch: Partial<Scenario>) => setScenario({ ...scenario, ...patch })
+  const toUnit = (metres: number) => Number(fromMetres(metres, unit).toFixed(2))
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return
+    saveScenarioPreset(presetName.trim())
+    setPresetName('')
+    setPresetsVersion((v) => v + 1)
+  }
+
+  const handleDeletePreset = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return
+    deleteScenarioPreset(selectedPreset.id)
+    setPresetId(presets[0]?.id ?? '')
+    setPresetsVersion((v) => v + 1)
+  }
+
+  const addEdgeZone = () => {
+    const depth = parseDimensionToMetres(edgeDepth, unit)
+    if (!(depth > 0)) return
+    update({ zones: [...scenario.zones, { id: newId('zone'), kind: 'edge', side: edgeSide, edge, depth }] })
+  }
+
+  const addObjective = () => {
+    update({ objectives: [...scenario.objectives, { id: newId('obj'), position: { x: 0, z: 0 }, radius: 0.0762 }] })
+  }
+
+  const addCentreLine = () => {
+    const horizontal = table.width >= table.height
+    const from = horizontal ? { x: -table.width / 2, z: 0 } : { x: 0, z: -table.height / 2 }
+    const to = horizontal ? { x: table.width / 2, z: 0 } : { x: 0, z: table.height / 2 }
+    update({ lines: [...scenario.lines, { id: newId('line'), from, to }] })
+  }
+
+  const setObjective = (id: string, patch: { x?: string; z?: string; radius?: string }) => {
+    update({
+      objectives: scenario.objectives.map((o) => {
+        if (o.id !== id) return o
+        return {
+          ...o,
+          position: {
+            x: patch.x !== undefined ? parseDimensionToMetres(patch.x, unit) : o.position.x,
+            z: patch.z !== undefined ? parseDimensionToMetres(patch.z, unit) : o.position.z,
+          },
+          radius: patch.radius !== undefined ? Math.max(0, parseDimensionToMetres(patch.radius, unit)) : o.radius,
+        }
+      }),
+    })
+  }
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 420,
+        maxHeight: '80vh',
+        overflow: 'auto',
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Scenario</h3>
+
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 6 }}>Preset</div>
+      <div style={{ display: 'flex', gap: 6, marginBottom: 8 }}>
+        <select
+          className="tb-input"
+          value={presetId}
+          onChange={(event) => setPresetId(event.target.value)}
+          style={{ flex: 1 }}
+        >
+          {presets.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}{p.builtIn ? '' : ' (saved)'}
+            </option>
+          ))}
+        </select>
+        <button className="tb-btn" disabled={!selectedPreset} onClick={() => selectedPreset && applyScenarioPreset(selectedPreset)}>
+          Apply
+        </button>
+        <button className="tb-btn" disabled={!selectedPreset || selectedPreset.builtIn} onClick={handleDeletePreset}>
+          Delete
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: 6, marginBottom: 16 }}>
+        <input
+          className="tb-input"
+          placeholder="Save current scenario as..."
+          value={presetName}
+          onChange={(event) => setPresetName(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === 'Enter') handleSavePreset()
+          }}
+          style={{ flex: 1 }}
+        />
+        <button className="tb-btn" disabled={!presetName.trim() || !table.scenario} onClick={handleSavePreset}>
+          Save Preset
+        </button>
+      </div>
+
+      <hr style={{ margin: '8px 0 12px', borderColor: '#243246' }} />
+
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 6 }}>Deployment zones</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 8 }}>
+        {scenario.zones.map((zone) => (
+          <div key={zone.id} style={rowStyle}>
+            <span className="tb-small" style={{ flex: 1 }}>
+              {zone.label ?? SIDE_NAMES[zone.side] ?? `Side ${zone.side + 1}`}
+              {' · '}
+              {zone.kind === 'edge' ? `${zone.edge} edge, ${toUnit(zone.depth)} ${unitLabel(unit)} deep` : zone.kind}
+            </span>
+            <button className="tb-btn" onClick={() => update({ zones: scenario.zones.filter((z) => z.id !== zone.id) })}>
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 6, marginBottom: 16 }}>
+        <select className="tb-input" value={edgeSide} onChange={(event) => setEdgeSide(Number(event.target.value))}>
+          {SIDE_NAMES.map((name, side) => (
+            <option key={name} value={side}>{name}</option>
+          ))}
+        </select>
+        <select className="tb-input" value={edge} onChange={(event) => setEdge(event.target.value as TableEdge)}>
+          {EDGES.map((e) => (
+            <option key={e} value={e}>{e}</option>
+          ))}
+        </select>
+        <input
+          className="tb-input"
+          type="number"
+          min={0}
+          step="any"
+          value={edgeDepth}
+          onChange={(event) => setEdgeDepth(event.target.value)}
+          title={`Depth (${unitLabel(unit)})`}
+          style={{ width: 72 }}
+        />
+        <button className="tb-btn" onClick={addEdgeZone}>Add Zone</button>
+      </div>
+
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 6 }}>
+        Objectives (x, z, radius in {unitLabel(unit)})
+      </div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 8 }}>
+        {scenario.objectives.map((o, index) => (
+          <div key={o.id} style={rowStyle}>
+            <span className="tb-small" style={{ width: 24 }}>{o.label ?? index + 1}</span>
+            {(['x', 'z'] as const).map((axis) => (
+              <input
+                key={axis}
+                className="tb-input"
+                type="number"
+                step="any"
+                value={toUnit(o.position[axis])}
+                onChange={(event) => setObjective(o.id, { [axis]: event.target.value })}
+                style={{ width: 72 }}
+              />
+            ))}
+            <input
+              className="tb-input"
+              type="number"
+              min={0}
+              step="any"
+              value={toUnit(o.radius)}
+              onChange={(event) => setObjective(o.id, { radius: event.target.value })}
+              style={{ width: 72 }}
+            />
+            <button className="tb-btn" onClick={() => update({ objectives: scenario.objectives.filter((x) => x.id !== o.id) })}>
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <button className="tb-btn" onClick={addObjective} style={{ marginBottom: 16 }}>
+        Add Objective
+      </button>
+
+      <div className="tb-small" style={{ color: '#9fb2c8', marginBottom: 6 }}>No-man&apos;s-land lines</div>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginBottom: 8 }}>
+        {scenario.lines.map((line, index) => (
+          <div key={line.id} style={rowStyle}>
+            <span className="tb-small" style={{ flex: 1 }}>Line {index + 1}</span>
+            <button className="tb-btn" onClick={() => update({ lines: scenario.lines.filter((l) => l.id !== line.id) })}>
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+      <button className="tb-btn" onClick={addCentreLine} style={{ marginBottom: 16 }}>
+        Add Centre Line
+      </button>
+
+      <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+        <button className="tb-btn" onClick={() => setScenario(null)} disabled={!table.scenario}>
+          Clear Scenario
+        </button>
+        <button className="tb-btn" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
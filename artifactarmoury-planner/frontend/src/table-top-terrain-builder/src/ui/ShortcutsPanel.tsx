@@ -0,0 +1,146 @@
+// src/ui/ShortcutsPanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { COMMANDS, POINTER_GESTURES, findConflicts, formatKeys, keyFromEvent, resolveBindings } from '@core/commands'
+
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: 8,
+  padding: '4px 0',
+}
+
+/** The help sheet, built from the command list, where each shortcut can be rebound. */
+export function ShortcutsDialog({ onClose }: { onClose: () => void }) {
+  const overrides = useAppStore((s) => s.shortcuts)
+  const setShortcut = useAppStore((s) => s.setShortcut)
+  const resetShortcuts = useAppStore((s) => s.resetShortcuts)
+  // the command waiting for its new keys, if any
+  const [recording, setRecording] = React.useState<string | null>(null)
+
+  const bindings = React.useMemo(() => resolveBindings(overrides), [overrides])
+  const conflicts = React.useMemo(() => findConflicts(bindings), [bindings])
+  const clashesFor = (id: string, combo: string) =>
+    conflicts
+      .filter((c) => c.combo === combo && c.ids.includes(id))
+      .flatMap((c) => c.ids.filter((other) => other !== id))
+      .map((other) => COMMANDS.find((command) => command.id === other)?.title ?? other)
+
+  const categories = [...new Set(COMMANDS.map((c) => c.category))]
+
+  // Esc cancels recording; anything else (a bare modifier aside) becomes the only binding
+  const record = (id: string, event: React.KeyboardEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+    if (event.key === 'Escape') {
+      setRecording(null)
+      return
+    }
+    const combo = keyFromEvent(event.nativeEvent)
+    if (!combo) return
+    setShortcut(id, [combo])
+    setRecording(null)
+  }
+
+  return (
+    <div
+      style={{
+        background: '#121821',
+        padding: 24,
+        borderRadius: 8,
+        border: '1px solid #243246',
+        minWidth: 440,
+        maxHeight: '80vh',
+        overflow: 'auto',
+      }}
+      onClick={(event) => event.stopPropagation()}
+    >
+      <h3 style={{ marginTop: 0 }}>Keyboard Shortcuts</h3>
+      <p className="tb-small" style={{ color: '#9fb2c8', marginTop: 0 }}>
+        Click a shortcut to change it. Placement keys apply while a piece follows the cursor,
+        selection keys while pieces are selected.
+      </p>
+
+      {conflicts.length > 0 && (
+        <div className="tb-small" style={{ color: '#e05757', marginBottom: 8 }}>
+          {conflicts.length === 1 ? '1 shortcut is' : `${conflicts.length} shortcuts are`} bound to more than one
+          command; only the first listed will run.
+        </div>
+      )}
+
+      {categories.map((category) => (
+        <div key={category} style={{ marginBottom: 12 }}>
+          <div className="tb-small" style={{ color: '#9fb2c8', textTransform: 'uppercase', letterSpacing: 0.5 }}>
+            {category}
+          </div>
+          {COMMANDS.filter((c) => c.category === category).map((command) => {
+            const keys = bindings.get(command.id) ?? []
+            const clashes = keys.flatMap((combo) => clashesFor(command.id, combo))
+            return (
+              <div key={command.id} style={rowStyle}>
+                <span className="tb-small" style={{ flex: 1 }}>{command.title}</span>
+                <button
+                  className="tb-btn"
+                  onClick={() => setRecording(recording === command.id ? null : command.id)}
+                  onKeyDown={(event) => recording === command.id && record(command.id, event)}
+                  onBlur={() => recording === command.id && setRecording(null)}
+                  title={clashes.length ? `Also bound to: ${clashes.join(', ')}` : 'Click, then press the new keys'}
+                  style={{
+                    minWidth: 120,
+                    padding: '2px 8px',
+                    background: recording === command.id ? '#4da3ff' : undefined,
+                    color: recording === command.id ? '#0b0f14' : clashes.length ? '#e05757' : undefined,
+                  }}
+                >
+                  {recording === command.id ? 'Press keys…' : keys.length ? keys.map((k) => formatKeys(k)).join(' / ') : '—'}
+                </button>
+                <button
+                  className="tb-btn"
+                  onClick={() => setShortcut(command.id, [])}
+                  disabled={keys.length === 0}
+                  title="Remove this shortcut"
+                  style={{ padding: '2px 6px' }}
+                >
+                  ✕
+                </button>
+                <button
+                  className="tb-btn"
+                  onClick={() => resetShortcuts(command.id)}
+                  disabled={!(command.id in overrides)}
+                  title="Back to the default keys"
+                  style={{ padding: '2px 6px' }}
+                >
+                  ↺
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      ))}
+
+      <div className="tb-small" style={{ color: '#9fb2c8', textTransform: 'uppercase', letterSpacing: 0.5 }}>
+        Mouse
+      </div>
+      {POINTER_GESTURES.map(([label, gesture]) => (
+        <div key={label} style={rowStyle}>
+          <span className="tb-small" style={{ flex: 1 }}>{label}</span>
+          <span className="tb-kbd">{gesture}</span>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: 6, marginTop: 16 }}>
+        <button
+          className="tb-btn"
+          onClick={() => resetShortcuts()}
+          disabled={Object.keys(overrides).length === 0}
+          style={{ flex: 1 }}
+        >
+          Reset All
+        </button>
+        <button className="tb-btn" onClick={onClose} style={{ flex: 1 }}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
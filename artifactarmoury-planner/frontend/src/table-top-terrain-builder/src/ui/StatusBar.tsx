@@ -1,18 +1,34 @@
 // src/ui/StatusBar.tsx
 import React from 'react'
 import { useAppStore } from '@state/store'
+import { formatDistance } from '@core/units'
+import { useOfflineStore } from '@/store/offlineStore'
 
 export function StatusBar() {
   const instances = useAppStore((s) => s.instances)
   const selectedInstanceId = useAppStore((s) => s.selectedInstanceId)
+  const selectedInstanceIds = useAppStore((s) => s.selectedInstanceIds)
   const selectedAssetId = useAppStore((s) => s.selectedAssetId)
   const basket = useAppStore((s) => s.basket)
   const cameraMode = useAppStore((s) => s.cameraMode)
   const assets = useAppStore((s) => s.assets)
+  const toolMode = useAppStore((s) => s.toolMode)
+  const measurement = useAppStore((s) => s.measurement)
+  const unitDisplay = useAppStore((s) => s.table.unitDisplay)
+  const ruleReport = useAppStore((s) => s.ruleReport)
+  const collabStatus = useAppStore((s) => s.collabStatus)
+  const peers = useAppStore((s) => s.peers)
+  const frameStats = useAppStore((s) => s.frameStats)
+  const online = useOfflineStore((s) => s.online)
+  const queuedChanges = useOfflineStore((s) => s.queue.length)
+  const rejectedChanges = useOfflineStore((s) => s.rejected)
+  const dismissRejected = useOfflineStore((s) => s.dismissRejected)
 
   const totalItems = basket.reduce((sum, item) => sum + item.quantity, 0)
   const totalCost = basket.reduce((sum, item) => sum + item.quantity * 35, 0)
 
+  const failedRules = ruleReport?.results.filter((result) => !result.passed) ?? []
+
   const selectedInstance = instances.find((instance) => instance.id === selectedInstanceId)
   const selectedAsset = selectedInstance
     ? assets.find((asset) => asset.id === selectedInstance.assetId)
@@ -55,10 +71,99 @@ export function StatusBar() {
           </span>
           <strong>\u00a3{totalCost.toFixed(0)}</strong>
         </div>
+        {(!online || queuedChanges > 0) && (
+          <div title="Saved here and sent when the connection is back">
+            <span className="tb-small" style={{ color: '#ffd166' }}>
+              {online ? 'Sending:' : 'Offline:'}{' '}
+            </span>
+            <strong>
+              {queuedChanges} change{queuedChanges === 1 ? '' : 's'} queued
+            </strong>
+          </div>
+        )}
+        {rejectedChanges.length > 0 && (
+          <div
+            title={`${rejectedChanges.map((entry) => entry.change.kind).join('\n')}\n\nClick to dismiss`}
+            onClick={dismissRejected}
+            style={{ cursor: 'pointer' }}
+          >
+            <strong style={{ color: '#e05757' }}>
+              {rejectedChanges.length} offline change{rejectedChanges.length === 1 ? '' : 's'} refused by the server
+            </strong>
+          </div>
+        )}
+        {collabStatus !== 'offline' && (
+          <div title={peers.map((peer) => `${peer.name}${peer.canEdit ? '' : ' (viewing)'}`).join('\n')}>
+            <span className="tb-small" style={{ color: '#9fb2c8' }}>
+              {collabStatus === 'connecting' ? 'Connecting…' : collabStatus === 'view-only' ? 'Live (view only):' : 'Live:'}{' '}
+            </span>
+            {collabStatus !== 'connecting' && (
+              <strong>
+                {peers.length === 0 ? 'just you' : `${peers.length} other${peers.length === 1 ? '' : 's'}`}
+              </strong>
+            )}
+            {peers.map((peer) => (
+              <span
+                key={peer.clientId}
+                style={{
+                  display: 'inline-block',
+                  width: 8,
+                  height: 8,
+                  marginLeft: 4,
+                  borderRadius: '50%',
+                  background: peer.color,
+                }}
+              />
+            ))}
+          </div>
+        )}
       </div>
 
       <div style={{ display: 'flex', gap: 24 }}>
-        {selectedAsset && (
+        {ruleReport && (
+          <div
+            title={ruleReport.results
+              .map((result) => `${result.passed ? '✓' : '✗'} ${result.label}: ${result.detail}`)
+              .join('\n')}
+          >
+            <span className="tb-small" style={{ color: '#9fb2c8' }}>
+              {ruleReport.ruleSet}:{' '}
+            </span>
+            <strong style={{ color: failedRules.length ? '#ff8c42' : '#3fbf5a' }}>
+              {failedRules.length
+                ? `${ruleReport.score}% – ${failedRules[0].label} (${failedRules[0].detail})${failedRules.length > 1 ? ` +${failedRules.length - 1} more` : ''}`
+                : 'All rules pass'}
+            </strong>
+          </div>
+        )}
+        {measurement && (
+          <div>
+            <span className="tb-small" style={{ color: '#ffd166' }}>
+              Distance:{' '}
+            </span>
+            <strong>{formatDistance(measurement.distance, unitDisplay)}</strong>
+          </div>
+        )}
+        {measurement && toolMode === 'los' && (
+          <div>
+            <span className="tb-small" style={{ color: '#9fb2c8' }}>
+              Line of sight:{' '}
+            </span>
+            <strong style={{ color: measurement.blockers.length ? '#e05757' : '#3fbf5a' }}>
+              {measurement.blockers.length
+                ? `Blocked by ${measurement.blockers.length} piece${measurement.blockers.length === 1 ? '' : 's'}`
+                : 'Clear'}
+            </strong>
+          </div>
+        )}
+        {selectedInstanceIds.length > 1 ? (
+          <div>
+            <span className="tb-small" style={{ color: '#4da3ff' }}>
+              Selected:{' '}
+            </span>
+            <strong>{selectedInstanceIds.length} pieces</strong>
+          </div>
+        ) : selectedAsset && (
           <div>
             <span className="tb-small" style={{ color: '#4da3ff' }}>
               {selectedInstanceId ? 'Selected: ' : 'Placing: '}
@@ -66,6 +171,17 @@ export function StatusBar() {
             <strong>{selectedAsset.name}</strong>
           </div>
         )}
+        {frameStats && (
+          <div title={`${frameStats.drawCalls} draw calls · ${frameStats.triangles.toLocaleString()} triangles`}>
+            <span className="tb-small" style={{ color: '#9fb2c8' }}>
+              Frame:{' '}
+            </span>
+            {/* 33 ms is 30 fps, where orbiting starts to feel sticky */}
+            <strong style={{ color: frameStats.frameMs > 33 ? '#ff8c42' : undefined }}>
+              {frameStats.frameMs.toFixed(1)} ms
+            </strong>
+          </div>
+        )}
         <div>
           <span className="tb-small" style={{ color: '#9fb2c8' }}>
             View:{' '}
@@ -0,0 +1,125 @@
+// src/ui/SurfacePanel.tsx
+import React from 'react'
+import { useAppStore } from '@state/store'
+import { GROUND_TYPES, SURFACE_CELL_SIZES, groundCoverage } from '@core/surface'
+import type { GroundType } from '@core/surface'
+import { formatDistance, fromMetres, parseDimensionToMetres, unitLabel } from '@core/units'
+
+const swatchStyle = (color: string): React.CSSProperties => ({
+  display: 'inline-block',
+  width: 10,
+  height: 10,
+  borderRadius: 2,
+  background: color,
+  border: '1px solid #0b0f14',
+})
+
+/** Brush, resolution and coverage for the Paint Ground tool; shown under the tool buttons. */
+export function SurfacePanel() {
+  const brush = useAppStore((s) => s.paintBrush)
+  const table = useAppStore((s) => s.table)
+  const surface = table.surface
+  const unit = useAppStore((s) => s.table.unitDisplay)
+  const setPaintBrush = useAppStore((s) => s.setPaintBrush)
+  const setSurfaceResolution = useAppStore((s) => s.actions.setSurfaceResolution)
+  const clearSurface = useAppStore((s) => s.actions.clearSurface)
+
+  const coverage = React.useMemo(() => groundCoverage(surface, table), [surface, table])
+  const cellSize = surface?.cellSize ?? brush.cellSize
+
+  const choose = (ground: GroundType | null) => setPaintBrush({ ground })
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: 6 }}>
+        {GROUND_TYPES.map((g) => (
+          <button
+            key={g.id}
+            className="tb-btn"
+            onClick={() => choose(g.id)}
+            style={{
+              padding: '6px 8px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: 6,
+              background: brush.ground === g.id ? '#4da3ff' : '#1a2330',
+              color: brush.ground === g.id ? '#0b0f14' : undefined,
+            }}
+            title={g.difficult ? `${g.label} (difficult ground)` : g.label}
+          >
+            <span style={swatchStyle(g.color)} />
+            {g.label}
+          </button>
+        ))}
+        <button
+          className="tb-btn"
+          onClick={() => choose(null)}
+          style={{
+            padding: '6px 8px',
+            gridColumn: 'span 2',
+            background: brush.ground === null ? '#4da3ff' : '#1a2330',
+            color: brush.ground === null ? '#0b0f14' : undefined,
+          }}
+          title="Paint back to the bare board"
+        >
+          Erase
+        </button>
+      </div>
+
+      <label className="tb-small" style={{ color: '#9fb2c8' }}>
+        Brush radius ({unitLabel(unit)})
+        <input
+          className="tb-input"
+          type="number"
+          min={0}
+          step="any"
+          value={Number(fromMetres(brush.radius, unit).toFixed(3))}
+          onChange={(event) => {
+            const radius = parseDimensionToMetres(event.target.value, unit)
+            if (radius > 0) setPaintBrush({ radius })
+          }}
+          style={{ marginTop: 4 }}
+        />
+      </label>
+
+      <label className="tb-small" style={{ color: '#9fb2c8' }}>
+        Resolution
+        <select
+          className="tb-input"
+          value={cellSize}
+          onChange={(event) => setSurfaceResolution(Number(event.target.value))}
+          style={{ marginTop: 4 }}
+          title="Size of one painted cell; changing it resamples what is already painted"
+        >
+          {SURFACE_CELL_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {formatDistance(size, unit)} cells
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {coverage.size > 0 && (
+        <div className="tb-small" style={{ color: '#9fb2c8', display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {GROUND_TYPES.filter((g) => coverage.has(g.id)).map((g) => (
+            <span key={g.id} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <span style={swatchStyle(g.color)} />
+              {g.label} {(coverage.get(g.id)! * 100).toFixed(1)}%{g.difficult ? ' · difficult' : ''}
+            </span>
+          ))}
+        </div>
+      )}
+
+      <button
+        className="tb-btn"
+        onClick={() => {
+          if (window.confirm('Remove all painted ground from the table?')) clearSurface()
+        }}
+        disabled={!surface}
+        style={{ padding: '6px 10px' }}
+      >
+        Clear Painted Ground
+      </button>
+    </div>
+  )
+}
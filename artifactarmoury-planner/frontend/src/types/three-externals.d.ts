@@ -85,5 +85,11 @@ declare module 'three/examples/jsm/loaders/GLTFLoader.js' {
       onProgress?: (event: ProgressEvent<EventTarget>) => void,
       onError?: (event: unknown) => void,
     ): void
+    parse(
+      data: ArrayBuffer | string,
+      path: string,
+      onLoad: (gltf: GLTF) => void,
+      onError?: (event: unknown) => void,
+    ): void
   }
 }
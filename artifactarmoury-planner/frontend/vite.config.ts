@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { fileURLToPath, URL } from 'node:url'
@@ -20,6 +21,8 @@ export default defineConfig({
           'http://127.0.0.1:3001',
         changeOrigin: true,
         secure: false,
+        // live table editing (/api/tables/:id/collab)
+        ws: true,
       },
     },
   },
@@ -38,6 +41,11 @@ export default defineConfig({
       '@ui': resolve(rootDir, 'src/table-top-terrain-builder/src/ui'),
     },
   },
+  test: {
+    // the builder's core maths runs without a DOM
+    environment: 'node',
+    include: ['src/**/*.test.ts'],
+  },
   build: {
     // ========================================================================
     // OUTPUT CONFIGURATION